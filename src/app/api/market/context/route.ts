@@ -0,0 +1,16 @@
+import type { NextRequest } from 'next/server';
+import { cachedResponse, resolveMarket } from '../respond';
+
+const CONTEXT_TTL = 2000;
+
+export async function GET(request: NextRequest) {
+  const market = resolveMarket(request.nextUrl.searchParams);
+  if ('error' in market) return market.error;
+
+  const { symbol, source } = market;
+  return cachedResponse(
+    `context:${symbol.exchange}:${symbol.type}:${symbol.symbol}`,
+    CONTEXT_TTL,
+    async () => (source.fetchAssetContext ? source.fetchAssetContext(symbol) : null)
+  );
+}
@@ -0,0 +1,20 @@
+import type { NextRequest } from 'next/server';
+import { badRequest, cachedResponse, resolveMarket } from '../respond';
+
+const DEPTH_TTL = 1000;
+
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const market = resolveMarket(params);
+  if ('error' in market) return market.error;
+
+  const limit = params.has('limit') ? parseInt(params.get('limit') ?? '', 10) : undefined;
+  if (Number.isNaN(limit)) return badRequest('limit must be a number');
+
+  const { symbol, source } = market;
+  return cachedResponse(
+    `depth:${symbol.exchange}:${symbol.type}:${symbol.symbol}:${limit ?? ''}`,
+    DEPTH_TTL,
+    () => source.fetchOrderBook(symbol, limit)
+  );
+}
@@ -0,0 +1,20 @@
+import type { NextRequest } from 'next/server';
+import { badRequest, cachedResponse, resolveMarket } from '../respond';
+
+const FUNDING_TTL = 60 * 1000; // Rates settle every few hours
+
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const market = resolveMarket(params);
+  if ('error' in market) return market.error;
+
+  const limit = params.has('limit') ? parseInt(params.get('limit') ?? '', 10) : undefined;
+  if (Number.isNaN(limit)) return badRequest('limit must be a number');
+
+  const { symbol, source } = market;
+  return cachedResponse(
+    `funding:${symbol.exchange}:${symbol.type}:${symbol.symbol}:${limit ?? ''}`,
+    FUNDING_TTL,
+    async () => (source.fetchFundingHistory ? source.fetchFundingHistory(symbol, limit) : [])
+  );
+}
@@ -0,0 +1,16 @@
+import type { NextRequest } from 'next/server';
+import { getMarketDataSource, hasFundingRates } from '@/lib/marketData';
+import { badRequest, cachedResponse } from '../respond';
+
+const FUNDING_RATES_TTL = 10 * 1000;
+
+export async function GET(request: NextRequest) {
+  const exchange = request.nextUrl.searchParams.get('exchange');
+  if (!exchange) return badRequest('exchange is required');
+  if (!hasFundingRates(exchange)) return badRequest(`Unsupported exchange: ${exchange}`);
+
+  const source = getMarketDataSource(exchange);
+  return cachedResponse(`fundingrates:${exchange}`, FUNDING_RATES_TTL, async () =>
+    source.fetchFundingRates ? source.fetchFundingRates() : []
+  );
+}
@@ -0,0 +1,16 @@
+import type { NextRequest } from 'next/server';
+import { cachedResponse, resolveMarket } from '../respond';
+
+const INSTRUMENT_TTL = 60 * 60 * 1000;
+
+export async function GET(request: NextRequest) {
+  const market = resolveMarket(request.nextUrl.searchParams);
+  if ('error' in market) return market.error;
+
+  const { symbol, source } = market;
+  return cachedResponse(
+    `instrument:${symbol.exchange}:${symbol.type}:${symbol.symbol}`,
+    INSTRUMENT_TTL,
+    async () => (source.fetchInstrument ? source.fetchInstrument(symbol) : null)
+  );
+}
@@ -0,0 +1,27 @@
+import type { NextRequest } from 'next/server';
+import { isValidTimeframe, timeframeToMs } from '@/lib/timeframes';
+import { badRequest, cachedResponse, resolveMarket } from '../respond';
+
+const LIVE_TTL = 2000;
+const HISTORY_TTL = 10 * 60 * 1000; // Pages that end before the current candle don't change
+
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const market = resolveMarket(params);
+  if ('error' in market) return market.error;
+
+  const interval = params.get('interval');
+  if (!interval) return badRequest('interval is required');
+  if (!isValidTimeframe(interval)) return badRequest(`Unsupported interval: ${interval}`);
+  const limit = params.has('limit') ? parseInt(params.get('limit') ?? '', 10) : undefined;
+  const endTime = params.has('endTime') ? parseInt(params.get('endTime') ?? '', 10) : undefined;
+  if (Number.isNaN(limit) || Number.isNaN(endTime)) return badRequest('limit and endTime must be numbers');
+
+  const { symbol, source } = market;
+  const closed = endTime !== undefined && endTime + timeframeToMs(interval) < Date.now();
+  return cachedResponse(
+    `klines:${symbol.exchange}:${symbol.type}:${symbol.symbol}:${interval}:${limit ?? ''}:${endTime ?? ''}`,
+    closed ? HISTORY_TTL : LIVE_TTL,
+    () => source.fetchKlines(symbol, interval, limit, endTime)
+  );
+}
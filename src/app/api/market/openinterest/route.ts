@@ -0,0 +1,24 @@
+import type { NextRequest } from 'next/server';
+import { isValidTimeframe } from '@/lib/timeframes';
+import { badRequest, cachedResponse, resolveMarket } from '../respond';
+
+const OPEN_INTEREST_TTL = 30 * 1000; // Venues publish a snapshot every few minutes
+
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const market = resolveMarket(params);
+  if ('error' in market) return market.error;
+
+  const period = params.get('period');
+  if (!period) return badRequest('period is required');
+  if (!isValidTimeframe(period)) return badRequest(`Unsupported period: ${period}`);
+  const limit = params.has('limit') ? parseInt(params.get('limit') ?? '', 10) : undefined;
+  if (Number.isNaN(limit)) return badRequest('limit must be a number');
+
+  const { symbol, source } = market;
+  return cachedResponse(
+    `openinterest:${symbol.exchange}:${symbol.type}:${symbol.symbol}:${period}:${limit ?? ''}`,
+    OPEN_INTEREST_TTL,
+    async () => (source.fetchOpenInterestHistory ? source.fetchOpenInterestHistory(symbol, period, limit) : [])
+  );
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import type { Symbol } from '@/lib/types';
+import { getMarketDataSource, hasMarketDataSource, type MarketDataSource } from '@/lib/marketData';
+import { symbolFromParams } from '@/lib/marketProxy';
+import { REPLAY_EXCHANGE } from '@/lib/replay';
+import { RestError } from '@/lib/restClient';
+import { cached } from '@/lib/serverCache';
+
+export function badRequest(message: string): NextResponse {
+  return NextResponse.json({ error: message }, { status: 400 });
+}
+
+// Symbol and adapter for a request, or the 400 to send back
+export function resolveMarket(
+  params: URLSearchParams
+): { symbol: Symbol; source: MarketDataSource } | { error: NextResponse } {
+  const symbol = symbolFromParams(params);
+  if (!symbol) return { error: badRequest('exchange, base and quote are required') };
+  // Recordings live in the browser's IndexedDB
+  if (symbol.exchange === REPLAY_EXCHANGE || !hasMarketDataSource(symbol.exchange)) {
+    return { error: badRequest(`Unsupported exchange: ${symbol.exchange}`) };
+  }
+  return { symbol, source: getMarketDataSource(symbol.exchange) };
+}
+
+// Serve a cached upstream response; browsers may reuse it for the same TTL.
+// `select` trims a shared entry down to what this request asked for.
+export async function cachedResponse<T>(
+  key: string,
+  ttl: number,
+  load: () => Promise<T>,
+  select?: (data: T) => unknown
+): Promise<NextResponse> {
+  try {
+    const data = await cached(key, ttl, load);
+    return NextResponse.json(select ? select(data) : data, {
+      headers: { 'Cache-Control': `private, max-age=${Math.floor(ttl / 1000)}` },
+    });
+  } catch (error) {
+    console.error(`Market proxy request ${key} failed:`, error);
+    const message = error instanceof Error ? error.message : 'Upstream request failed';
+    if (error instanceof RestError && error.rateLimited) {
+      const headers: Record<string, string> = {};
+      if (error.retryAfter) headers['Retry-After'] = String(Math.ceil(error.retryAfter / 1000));
+      return NextResponse.json({ error: message }, { status: 429, headers });
+    }
+    return NextResponse.json({ error: message }, { status: 502 });
+  }
+}
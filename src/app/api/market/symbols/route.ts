@@ -0,0 +1,14 @@
+import type { NextRequest } from 'next/server';
+import { fetchSymbols } from '@/lib/binance';
+import { fetchOkxSymbols } from '@/lib/okx';
+import { badRequest, cachedResponse } from '../respond';
+
+const SYMBOLS_TTL = 60 * 60 * 1000;
+
+// Binance and OKX are the venues whose full listings the symbol search loads
+export async function GET(request: NextRequest) {
+  const exchange = request.nextUrl.searchParams.get('exchange') ?? 'binance';
+  if (exchange === 'okx') return cachedResponse('symbols:okx', SYMBOLS_TTL, () => fetchOkxSymbols());
+  if (exchange !== 'binance') return badRequest(`Unsupported exchange: ${exchange}`);
+  return cachedResponse(`symbols:${exchange}`, SYMBOLS_TTL, fetchSymbols);
+}
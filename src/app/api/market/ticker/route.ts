@@ -0,0 +1,16 @@
+import type { NextRequest } from 'next/server';
+import { cachedResponse, resolveMarket } from '../respond';
+
+const TICKER_TTL = 2000;
+
+export async function GET(request: NextRequest) {
+  const market = resolveMarket(request.nextUrl.searchParams);
+  if ('error' in market) return market.error;
+
+  const { symbol, source } = market;
+  return cachedResponse(
+    `ticker:${symbol.exchange}:${symbol.type}:${symbol.symbol}`,
+    TICKER_TTL,
+    () => source.fetchTicker(symbol)
+  );
+}
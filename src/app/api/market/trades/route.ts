@@ -0,0 +1,24 @@
+import type { NextRequest } from 'next/server';
+import type { AggTrade } from '@/lib/types';
+import { badRequest, cachedResponse, resolveMarket } from '../respond';
+
+const TRADES_TTL = 2000;
+const START_BUCKET = 60 * 1000; // Start times share a cache entry per minute, trimmed per request
+
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const market = resolveMarket(params);
+  if ('error' in market) return market.error;
+
+  const startTime = parseInt(params.get('startTime') ?? '', 10);
+  if (Number.isNaN(startTime)) return badRequest('startTime is required');
+
+  const { symbol, source } = market;
+  const start = Math.floor(startTime / START_BUCKET) * START_BUCKET;
+  return cachedResponse(
+    `trades:${symbol.exchange}:${symbol.type}:${symbol.symbol}:${start}`,
+    TRADES_TTL,
+    async (): Promise<AggTrade[]> => (source.fetchTrades ? source.fetchTrades(symbol, start) : []),
+    (trades) => trades.filter((trade) => trade.time >= startTime)
+  );
+}
@@ -0,0 +1,26 @@
+import type { NextRequest } from 'next/server';
+import type { AggTrade } from '@/lib/types';
+import { badRequest, cachedResponse, resolveMarket } from '../respond';
+
+const TRADES_SINCE_TTL = 2000;
+
+// Trades after a given one, walked forward by the venue until the gap is closed.
+// Only the trade's ID and time are sent, which is all the walk starts from.
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const market = resolveMarket(params);
+  if ('error' in market) return market.error;
+
+  const afterTime = parseInt(params.get('afterTime') ?? '', 10);
+  if (Number.isNaN(afterTime)) return badRequest('afterTime is required');
+  const afterId = params.has('afterId') ? parseInt(params.get('afterId') ?? '', 10) : undefined;
+  if (Number.isNaN(afterId)) return badRequest('afterId must be a number');
+
+  const { symbol, source } = market;
+  const after: AggTrade = { id: afterId, time: afterTime, price: 0, quantity: 0, isBuyerMaker: false };
+  return cachedResponse(
+    `tradessince:${symbol.exchange}:${symbol.type}:${symbol.symbol}:${afterId ?? ''}:${afterTime}`,
+    TRADES_SINCE_TTL,
+    async () => (source.fetchTradesSince ? source.fetchTradesSince(symbol, after) : [])
+  );
+}
@@ -1,9 +1,15 @@
 "use client";
 
 import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
-import { BinanceWebSocket, fetchKlines, toBinanceInterval, type OrderBookUpdate } from '@/lib/binance';
-import type { CandleData, TimeFrame } from '@/lib/types';
-import { calculateSMA, calculateEMA, calculateVWAP, calculateBollingerBands } from '@/lib/indicators';
+import { createMarketStream, fetchMarketKlines, fetchOlderKlines, mergeCandles, parseSymbol, upsertCandle, type MarketStream } from '@/lib/marketData';
+import { getChartViewport, getVisiblePriceRange, needsBackfill } from '@/lib/chartViewport';
+import type { CandleData, TimeFrame, Symbol as SymbolType } from '@/lib/types';
+import { useIndicator } from '@/hooks/useIndicator';
+import { useInstrument } from '@/hooks/useInstrument';
+import { formatPrice } from '@/lib/format';
+import { useTimeframeFavorites } from '@/hooks/useTimeframeFavorites';
+import { timeframeLabel } from '@/lib/timeframes';
+import { TimeframeMenu } from './TimeframeMenu';
 import { generateHeatmapData } from '@/lib/data';
 import {
   TrendingUp,
@@ -21,11 +27,12 @@ import {
   Eye,
   EyeOff,
   Grid3X3,
-  Crosshair
+  Crosshair,
+  ChevronDown
 } from 'lucide-react';
 
 interface AdvancedChartWidgetProps {
-  symbol?: string;
+  symbol?: SymbolType;
   onClose?: () => void;
   defaultTimeframe?: TimeFrame;
 }
@@ -51,15 +58,8 @@ const SYMBOLS = [
   { value: 'LINK/USDT', label: 'LINK/USDT', icon: '⬡' },
 ];
 
-const TIMEFRAMES: { value: TimeFrame; label: string }[] = [
-  { value: '1m', label: '1m' },
-  { value: '5m', label: '5m' },
-  { value: '15m', label: '15m' },
-  { value: '30m', label: '30m' },
-  { value: '1h', label: '1H' },
-  { value: '4h', label: '4H' },
-  { value: '1d', label: '1D' },
-];
+const INITIAL_CANDLES = 200;
+const CHART_PADDING = { top: 20, right: 60, bottom: 30, left: 10 };
 
 const CHART_TYPES: { value: ChartType; label: string; icon: React.ReactNode }[] = [
   { value: 'candle', label: 'Candles', icon: <CandlestickChart className="w-4 h-4" /> },
@@ -107,12 +107,15 @@ function toHeikinAshi(candles: CandleData[]): CandleData[] {
 }
 
 export function AdvancedChartWidget({
-  symbol: initialSymbol = 'BTC/USDT',
+  symbol: initialSymbol,
   onClose,
   defaultTimeframe = '5m'
 }: AdvancedChartWidgetProps) {
-  const [selectedSymbol, setSelectedSymbol] = useState(initialSymbol);
+  const [selectedSymbol, setSelectedSymbol] = useState<SymbolType>(initialSymbol ?? parseSymbol('BTC/USDT'));
+  const instrument = useInstrument(selectedSymbol);
   const [timeframe, setTimeframe] = useState<TimeFrame>(defaultTimeframe);
+  const [showTimeframeMenu, setShowTimeframeMenu] = useState(false);
+  const { favorites: timeframeFavorites } = useTimeframeFavorites();
   const [chartType, setChartType] = useState<ChartType>('candle');
   const [indicators, setIndicators] = useState<ChartIndicator[]>(DEFAULT_INDICATORS);
   const [showGrid, setShowGrid] = useState(true);
@@ -136,9 +139,35 @@ export function AdvancedChartWidget({
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const volumeCanvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
-  const wsRef = useRef<BinanceWebSocket | null>(null);
+  const wsRef = useRef<MarketStream | null>(null);
+  const backfillRef = useRef({ key: '', loading: false, exhausted: false });
   const [dimensions, setDimensions] = useState({ width: 0, height: 0 });
 
+  // Right-anchored layout shared by the price and volume canvases
+  const viewport = useMemo(
+    () => getChartViewport(
+      candles.length,
+      dimensions.width - CHART_PADDING.left - CHART_PADDING.right,
+      zoomLevel,
+      panOffset,
+      INITIAL_CANDLES
+    ),
+    [candles.length, dimensions.width, zoomLevel, panOffset]
+  );
+
+  // Overlays follow the displayed candles, Heikin Ashi included
+  const displayCandles = useMemo(
+    () => (chartType === 'heikinAshi' ? toHeikinAshi(candles) : candles),
+    [candles, chartType]
+  );
+  const isOverlayEnabled = (id: string) => indicators.some((ind) => ind.id === id && ind.enabled);
+  const sma20 = useIndicator(displayCandles, isOverlayEnabled('sma20') ? { name: 'sma', period: 20 } : null);
+  const sma50 = useIndicator(displayCandles, isOverlayEnabled('sma50') ? { name: 'sma', period: 50 } : null);
+  const ema12 = useIndicator(displayCandles, isOverlayEnabled('ema12') ? { name: 'ema', period: 12 } : null);
+  const ema26 = useIndicator(displayCandles, isOverlayEnabled('ema26') ? { name: 'ema', period: 26 } : null);
+  const vwap = useIndicator(displayCandles, isOverlayEnabled('vwap') ? { name: 'vwap' } : null);
+  const bollinger = useIndicator(displayCandles, isOverlayEnabled('bollinger') ? { name: 'bollinger', period: 20, stdDev: 2 } : null);
+
   // Update dimensions
   const updateDimensions = useCallback(() => {
     if (containerRef.current) {
@@ -155,10 +184,12 @@ export function AdvancedChartWidget({
 
   // Load initial data
   useEffect(() => {
+    backfillRef.current = { key: `${selectedSymbol.exchange}:${selectedSymbol.symbol}:${timeframe}`, loading: false, exhausted: false };
+
     const loadData = async () => {
       setIsLoading(true);
       try {
-        const klines = await fetchKlines(selectedSymbol, timeframe, 200);
+        const klines = await fetchMarketKlines(selectedSymbol, timeframe, INITIAL_CANDLES);
         if (klines.length > 0) {
           setCandles(klines);
           setCurrentPrice(klines[klines.length - 1].close);
@@ -182,20 +213,10 @@ export function AdvancedChartWidget({
       wsRef.current.disconnect();
     }
 
-    wsRef.current = new BinanceWebSocket(selectedSymbol, toBinanceInterval(timeframe), {
+    wsRef.current = createMarketStream(selectedSymbol, { interval: timeframe, channels: ['kline'] }, {
       onPrice: (price) => setCurrentPrice(price),
-      onKline: (kline, isClosed) => {
-        setCandles((prev) => {
-          if (prev.length === 0) return [kline];
-          const newCandles = [...prev];
-          if (isClosed) {
-            newCandles.push(kline);
-            if (newCandles.length > 200) newCandles.shift();
-          } else {
-            newCandles[newCandles.length - 1] = kline;
-          }
-          return newCandles;
-        });
+      onKline: (kline) => {
+        setCandles((prev) => upsertCandle(prev, kline));
       },
       onConnect: () => setIsConnected(true),
       onDisconnect: () => setIsConnected(false),
@@ -211,6 +232,34 @@ export function AdvancedChartWidget({
     };
   }, [selectedSymbol, timeframe]);
 
+  // Prepend older history once the user scrolls back to the first loaded candle
+  const loadOlderCandles = useCallback(async () => {
+    const backfill = backfillRef.current;
+    if (backfill.loading || backfill.exhausted || candles.length === 0) return;
+
+    const key = backfill.key;
+    backfill.loading = true;
+    try {
+      const older = await fetchOlderKlines(selectedSymbol, timeframe, candles[0].time);
+      if (backfillRef.current.key !== key) return;
+      if (older.length === 0) {
+        backfill.exhausted = true;
+        return;
+      }
+      setCandles((prev) => mergeCandles(prev, older));
+    } catch (error) {
+      console.error('Failed to load older candles:', error);
+    } finally {
+      backfill.loading = false;
+    }
+  }, [candles, selectedSymbol, timeframe]);
+
+  useEffect(() => {
+    if (candles.length > 0 && dimensions.width > 0 && needsBackfill(viewport, zoomLevel, panOffset)) {
+      loadOlderCandles();
+    }
+  }, [viewport, zoomLevel, panOffset, candles.length, dimensions.width, loadOlderCandles]);
+
   // Toggle indicator
   const toggleIndicator = (id: string) => {
     setIndicators((prev) =>
@@ -247,17 +296,13 @@ export function AdvancedChartWidget({
     }
 
     if (showCrosshair && candles.length > 0) {
-      const padding = { top: 20, right: 60, bottom: 30, left: 10 };
-      const chartWidth = (dimensions.width - padding.left - padding.right) * zoomLevel;
+      const padding = CHART_PADDING;
       const chartHeight = dimensions.height - padding.top - padding.bottom;
 
-      const minPrice = Math.min(...candles.map(c => c.low)) * 0.998;
-      const maxPrice = Math.max(...candles.map(c => c.high)) * 1.002;
+      const { minPrice, maxPrice } = getVisiblePriceRange(candles, viewport, 0.002);
       const priceRange = maxPrice - minPrice;
-      const candleSpacing = chartWidth / candles.length;
 
-      const adjustedX = (mouseX - padding.left - panOffset) / zoomLevel;
-      const candleIndex = Math.floor(adjustedX / (candleSpacing / zoomLevel));
+      const candleIndex = Math.floor((mouseX - padding.left - viewport.offset) / viewport.candleSpacing);
       const price = maxPrice - ((mouseY - padding.top) / chartHeight) * priceRange;
 
       if (candleIndex >= 0 && candleIndex < candles.length && price >= minPrice && price <= maxPrice) {
@@ -269,7 +314,7 @@ export function AdvancedChartWidget({
         });
       }
     }
-  }, [isDragging, dragStart, showCrosshair, candles, dimensions, zoomLevel, panOffset]);
+  }, [isDragging, dragStart, showCrosshair, candles, dimensions, viewport]);
 
   const handleMouseUp = useCallback(() => {
     setIsDragging(false);
@@ -298,28 +343,23 @@ export function AdvancedChartWidget({
     canvas.height = (dimensions.height - 60) * dpr; // Reserve space for volume
     ctx.scale(dpr, dpr);
 
-    const padding = { top: 20, right: 60, bottom: 30, left: 10 };
-    const chartWidth = (dimensions.width - padding.left - padding.right) * zoomLevel;
+    const padding = CHART_PADDING;
     const chartHeight = dimensions.height - 60 - padding.top - padding.bottom;
 
-    // Use appropriate candle data
-    const displayCandles = chartType === 'heikinAshi' ? toHeikinAshi(candles) : candles;
-
-    const minPrice = Math.min(...displayCandles.map(c => c.low)) * 0.998;
-    const maxPrice = Math.max(...displayCandles.map(c => c.high)) * 1.002;
+    const { minPrice, maxPrice } = getVisiblePriceRange(displayCandles, viewport, 0.002);
     const priceRange = maxPrice - minPrice;
 
     const priceToY = (price: number) =>
       padding.top + chartHeight - ((price - minPrice) / priceRange) * chartHeight;
 
-    const candleSpacing = chartWidth / displayCandles.length;
+    const { candleSpacing, offset } = viewport;
 
     // Background
     ctx.fillStyle = '#0c0c0e';
     ctx.fillRect(0, 0, dimensions.width, dimensions.height - 60);
 
     ctx.save();
-    ctx.translate(panOffset, 0);
+    ctx.translate(offset, 0);
 
     // Grid
     if (showGrid) {
@@ -329,8 +369,8 @@ export function AdvancedChartWidget({
       for (let i = 0; i <= gridLines; i++) {
         const y = padding.top + (chartHeight / gridLines) * i;
         ctx.beginPath();
-        ctx.moveTo(padding.left - panOffset, y);
-        ctx.lineTo(dimensions.width - padding.right, y);
+        ctx.moveTo(padding.left - offset, y);
+        ctx.lineTo(dimensions.width - padding.right - offset, y);
         ctx.stroke();
       }
     }
@@ -381,18 +421,17 @@ export function AdvancedChartWidget({
       let data: { time: number; value: number }[] = [];
 
       if (indicator.id === 'sma20') {
-        data = calculateSMA(displayCandles, 20);
+        data = sma20 ?? [];
       } else if (indicator.id === 'sma50') {
-        data = calculateSMA(displayCandles, 50);
+        data = sma50 ?? [];
       } else if (indicator.id === 'ema12') {
-        data = calculateEMA(displayCandles, 12);
+        data = ema12 ?? [];
       } else if (indicator.id === 'ema26') {
-        data = calculateEMA(displayCandles, 26);
+        data = ema26 ?? [];
       } else if (indicator.id === 'vwap') {
-        const vwapData = calculateVWAP(displayCandles);
-        data = vwapData.map(v => ({ time: v.time, value: v.vwap }));
+        data = (vwap ?? []).map(v => ({ time: v.time, value: v.vwap }));
       } else if (indicator.id === 'bollinger') {
-        const bbData = calculateBollingerBands(displayCandles, 20, 2);
+        const bbData = bollinger ?? [];
 
         // Draw bands
         ctx.strokeStyle = `${indicator.color}80`;
@@ -436,7 +475,7 @@ export function AdvancedChartWidget({
       }
     }
 
-    const candleWidth = Math.max(2, (chartWidth / displayCandles.length) * 0.75);
+    const candleWidth = Math.max(2, candleSpacing * 0.75);
 
     // Draw chart based on type
     for (let i = 0; i < displayCandles.length; i++) {
@@ -558,7 +597,7 @@ export function AdvancedChartWidget({
       ctx.font = '10px monospace';
       ctx.textAlign = 'left';
       ctx.textBaseline = 'middle';
-      ctx.fillText(crosshairPos.price.toFixed(2), dimensions.width - padding.right + 5, crosshairPos.y);
+      ctx.fillText(formatPrice(crosshairPos.price, instrument, { reference: currentPrice }), dimensions.width - padding.right + 5, crosshairPos.y);
 
       // Time label
       const timeDate = new Date(crosshairPos.time);
@@ -588,7 +627,7 @@ export function AdvancedChartWidget({
     ctx.font = 'bold 10px monospace';
     ctx.textAlign = 'left';
     ctx.textBaseline = 'middle';
-    ctx.fillText(currentPrice.toFixed(2), dimensions.width - padding.right + 5, priceY);
+    ctx.fillText(formatPrice(currentPrice, instrument), dimensions.width - padding.right + 5, priceY);
 
     // Y-axis labels
     ctx.fillStyle = '#666';
@@ -598,10 +637,10 @@ export function AdvancedChartWidget({
     for (let i = 0; i <= gridLines; i++) {
       const price = maxPrice - (priceRange / gridLines) * i;
       const y = padding.top + (chartHeight / gridLines) * i;
-      ctx.fillText(price.toFixed(2), dimensions.width - 5, y + 3);
+      ctx.fillText(formatPrice(price, instrument, { reference: maxPrice }), dimensions.width - 5, y + 3);
     }
 
-  }, [candles, dimensions, chartType, indicators, showGrid, showHeatmap, showCrosshair, crosshairPos, currentPrice, priceChange, zoomLevel, panOffset]);
+  }, [candles, displayCandles, dimensions, chartType, indicators, sma20, sma50, ema12, ema26, vwap, bollinger, showGrid, showHeatmap, showCrosshair, crosshairPos, currentPrice, instrument, priceChange, viewport]);
 
   // Draw volume
   useEffect(() => {
@@ -616,17 +655,17 @@ export function AdvancedChartWidget({
     canvas.height = 50 * dpr;
     ctx.scale(dpr, dpr);
 
-    const padding = { left: 10, right: 60 };
-    const chartWidth = (dimensions.width - padding.left - padding.right) * zoomLevel;
-    const candleSpacing = chartWidth / candles.length;
+    const padding = CHART_PADDING;
+    const { candleSpacing, offset, firstVisible, lastVisible } = viewport;
 
     ctx.fillStyle = '#0c0c0e';
     ctx.fillRect(0, 0, dimensions.width, 50);
 
     ctx.save();
-    ctx.translate(panOffset, 0);
+    ctx.translate(offset, 0);
 
-    const maxVolume = Math.max(...candles.map(c => c.volume));
+    // Scale bars to the volume on screen
+    const maxVolume = Math.max(...candles.slice(firstVisible, lastVisible + 1).map(c => c.volume));
 
     for (let i = 0; i < candles.length; i++) {
       const candle = candles[i];
@@ -640,9 +679,10 @@ export function AdvancedChartWidget({
 
     ctx.restore();
 
-  }, [candles, dimensions, showVolume, zoomLevel, panOffset]);
+  }, [candles, dimensions, showVolume, viewport]);
 
-  const symbolIcon = SYMBOLS.find(s => s.value === selectedSymbol)?.icon || '●';
+  const selectedPair = `${selectedSymbol.base}/${selectedSymbol.quote}`;
+  const symbolIcon = SYMBOLS.find(s => s.value === selectedPair)?.icon || '●';
 
   return (
     <div className="w-full h-full flex flex-col bg-[#0c0c0e] text-white font-sans overflow-hidden rounded-lg border border-zinc-800">
@@ -653,8 +693,8 @@ export function AdvancedChartWidget({
           <div className="flex items-center gap-2">
             <span className="text-xl">{symbolIcon}</span>
             <select
-              value={selectedSymbol}
-              onChange={(e) => setSelectedSymbol(e.target.value)}
+              value={selectedPair}
+              onChange={(e) => setSelectedSymbol(parseSymbol(e.target.value))}
               className="bg-transparent text-white font-semibold text-lg border-none outline-none cursor-pointer appearance-none pr-4"
             >
               {SYMBOLS.map((s) => (
@@ -666,7 +706,7 @@ export function AdvancedChartWidget({
           {/* Price info */}
           <div className="flex items-center gap-3">
             <span className="text-2xl font-bold">
-              ${currentPrice.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+              ${formatPrice(currentPrice, instrument, { grouping: true })}
             </span>
             <div className={`flex items-center gap-1 px-2 py-0.5 rounded ${priceChange >= 0 ? 'bg-emerald-500/20 text-emerald-400' : 'bg-red-500/20 text-red-400'}`}>
               {priceChange >= 0 ? <TrendingUp className="w-3 h-3" /> : <TrendingDown className="w-3 h-3" />}
@@ -699,19 +739,35 @@ export function AdvancedChartWidget({
       <div className="flex items-center justify-between px-3 py-1.5 bg-[#0f0f12] border-b border-zinc-800">
         {/* Timeframes */}
         <div className="flex items-center gap-1">
-          {TIMEFRAMES.map((tf) => (
+          {timeframeFavorites.map((tf) => (
             <button
-              key={tf.value}
-              onClick={() => setTimeframe(tf.value)}
+              key={tf}
+              onClick={() => setTimeframe(tf)}
               className={`px-2.5 py-1 text-xs font-medium rounded transition-colors ${
-                timeframe === tf.value
+                timeframe === tf
                   ? 'bg-cyan-600 text-white'
                   : 'text-zinc-400 hover:text-white hover:bg-zinc-800'
               }`}
             >
-              {tf.label}
+              {timeframeLabel(tf)}
             </button>
           ))}
+          <div className="relative">
+            <button
+              onClick={() => setShowTimeframeMenu(!showTimeframeMenu)}
+              className={`flex items-center gap-0.5 px-1.5 py-1 text-xs font-medium rounded transition-colors ${
+                timeframeFavorites.includes(timeframe)
+                  ? 'text-zinc-400 hover:text-white hover:bg-zinc-800'
+                  : 'bg-cyan-600 text-white'
+              }`}
+            >
+              {!timeframeFavorites.includes(timeframe) && timeframeLabel(timeframe)}
+              <ChevronDown className="w-3 h-3" />
+            </button>
+            {showTimeframeMenu && (
+              <TimeframeMenu value={timeframe} onSelect={setTimeframe} onClose={() => setShowTimeframeMenu(false)} />
+            )}
+          </div>
         </div>
 
         {/* Chart type */}
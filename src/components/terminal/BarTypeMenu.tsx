@@ -0,0 +1,92 @@
+"use client";
+
+import React, { useState } from 'react';
+import type { BarSettings, BarType, CandleData } from '@/lib/types';
+import { BAR_TYPE_LABELS, suggestBarSize } from '@/lib/tradeBars';
+
+interface BarTypeMenuProps {
+  value: BarSettings | null;
+  candles: CandleData[]; // Current time candles, to suggest a size
+  onChange: (settings: BarSettings | null) => void;
+  onClose: () => void;
+  align?: 'left' | 'right';
+}
+
+const BAR_TYPES: BarType[] = ['tick', 'volume', 'range', 'renko'];
+
+const SIZE_UNITS: Record<BarType, string> = {
+  tick: 'trades per bar',
+  volume: 'volume per bar',
+  range: 'price range per bar',
+  renko: 'price per brick',
+};
+
+// Dropdown to switch between time candles and trade-built bars
+export function BarTypeMenu({ value, candles, onChange, onClose, align = 'left' }: BarTypeMenuProps) {
+  const [type, setType] = useState<BarType>(value?.type ?? 'tick');
+  const [size, setSize] = useState(() => String(value?.size ?? suggestBarSize(value?.type ?? 'tick', candles)));
+
+  const selectType = (next: BarType) => {
+    setType(next);
+    setSize(String(value?.type === next ? value.size : suggestBarSize(next, candles)));
+  };
+
+  const handleApply = (e: React.FormEvent) => {
+    e.preventDefault();
+    const parsed = parseFloat(size);
+    if (!(parsed > 0)) return;
+    onChange({ type, size: type === 'tick' ? Math.round(parsed) : parsed });
+    onClose();
+  };
+
+  return (
+    <>
+      <div className="fixed inset-0 z-40" onClick={onClose} />
+      <div
+        className={`absolute top-full ${align === 'right' ? 'right-0' : 'left-0'} mt-1 bg-zinc-900 border border-zinc-700 rounded-md shadow-xl z-50 w-52 p-2`}
+      >
+        <button
+          type="button"
+          className={`w-full px-2 py-1 mb-2 text-left text-sm rounded hover:bg-zinc-800 transition-colors ${
+            value === null ? 'text-cyan-400 bg-zinc-800' : 'text-white'
+          }`}
+          onClick={() => {
+            onChange(null);
+            onClose();
+          }}
+        >
+          Time
+        </button>
+        <div className="grid grid-cols-4 gap-1 mb-2">
+          {BAR_TYPES.map((barType) => (
+            <button
+              key={barType}
+              type="button"
+              onClick={() => selectType(barType)}
+              className={`px-1 py-1 text-[11px] rounded transition-colors ${
+                type === barType ? 'bg-cyan-600 text-white' : 'bg-zinc-800 text-zinc-400 hover:text-white'
+              }`}
+            >
+              {BAR_TYPE_LABELS[barType]}
+            </button>
+          ))}
+        </div>
+        <form onSubmit={handleApply} className="flex items-center gap-1">
+          <input
+            type="number"
+            min="0"
+            step="any"
+            value={size}
+            onChange={(e) => setSize(e.target.value)}
+            title={SIZE_UNITS[type]}
+            className="flex-1 min-w-0 bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-xs text-white focus:outline-none focus:border-cyan-500"
+          />
+          <button type="submit" className="px-2 py-1 text-xs rounded bg-cyan-600 text-white hover:bg-cyan-500">
+            Apply
+          </button>
+        </form>
+        <div className="mt-1 text-[10px] text-zinc-500">{SIZE_UNITS[type]}</div>
+      </div>
+    </>
+  );
+}
@@ -1,18 +1,25 @@
 "use client";
 
-import React, { useRef, useEffect, useState, useCallback } from 'react';
+import React, { useRef, useEffect, useState, useCallback, useMemo } from 'react';
 import type { CandleData } from '@/lib/types';
-import { calculateCVD, type CVDData } from '@/lib/indicators';
+import { calculateFlowCVD, type TradeFlowSnapshot } from '@/lib/tradeFlow';
 
 interface CVDPanelProps {
   candles: CandleData[];
+  flow: TradeFlowSnapshot | null; // Taker volume from trades; candles it misses are estimated
   height?: number;
 }
 
-export function CVDPanel({ candles, height = 120 }: CVDPanelProps) {
+function formatTime(time: number): string {
+  return new Date(time).toLocaleTimeString('en-US', { hour12: false, hour: '2-digit', minute: '2-digit' });
+}
+
+export function CVDPanel({ candles, flow, height = 120 }: CVDPanelProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const [dimensions, setDimensions] = useState({ width: 0, height });
+  // A single pass over the candles, cheap enough to run inline as trades land
+  const cvdData = useMemo(() => calculateFlowCVD(candles, flow), [candles, flow]);
 
   const updateDimensions = useCallback(() => {
     if (containerRef.current) {
@@ -43,9 +50,7 @@ export function CVDPanel({ candles, height = 120 }: CVDPanelProps) {
     const chartWidth = dimensions.width - padding.left - padding.right;
     const chartHeight = dimensions.height - padding.top - padding.bottom;
 
-    // Calculate CVD data
-    const cvdData = calculateCVD(candles);
-    if (cvdData.length === 0) return;
+    if (!cvdData || cvdData.length === 0) return;
 
     // Find CVD range
     const minCVD = Math.min(...cvdData.map((d) => d.cvd));
@@ -62,6 +67,14 @@ export function CVDPanel({ candles, height = 120 }: CVDPanelProps) {
     ctx.fillStyle = '#0a0a0c';
     ctx.fillRect(0, 0, dimensions.width, dimensions.height);
 
+    // Shade the candles whose delta is only estimated
+    ctx.fillStyle = 'rgba(113, 113, 122, 0.08)';
+    for (let i = 0; i < cvdData.length; i++) {
+      if (cvdData[i].estimated) {
+        ctx.fillRect(padding.left + i * candleSpacing, padding.top, candleSpacing, chartHeight);
+      }
+    }
+
     // Draw grid lines
     ctx.strokeStyle = '#1a1a1f';
     ctx.lineWidth = 1;
@@ -187,7 +200,18 @@ export function CVDPanel({ candles, height = 120 }: CVDPanelProps) {
     ctx.textAlign = 'left';
     ctx.fillText('CVD', padding.left + 5, padding.top - 5);
 
-  }, [candles, dimensions]);
+    // Where the delta comes from: trades throughout, or estimates for some or all
+    const firstCounted = cvdData.find((point) => !point.estimated);
+    const source = !firstCounted
+      ? { label: 'ESTIMATED FROM CANDLES', color: '#f59e0b' }
+      : cvdData[0].estimated
+        ? { label: `ESTIMATED BEFORE ${formatTime(firstCounted.time)}`, color: '#f59e0b' }
+        : { label: 'FROM TRADES', color: '#22c55e' };
+    ctx.fillStyle = source.color;
+    ctx.font = '9px monospace';
+    ctx.fillText(source.label, padding.left + 35, padding.top - 5);
+
+  }, [candles, dimensions, cvdData]);
 
   return (
     <div ref={containerRef} className="w-full bg-[#0a0a0c] border-t border-zinc-800" style={{ height }}>
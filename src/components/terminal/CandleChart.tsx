@@ -1,8 +1,12 @@
 "use client";
 
-import React, { useRef, useEffect, useState, useCallback } from 'react';
-import type { CandleData, HeatmapCell, ActiveIndicators, ChartDrawing } from '@/lib/types';
-import { calculateSMA, calculateEMA, calculateBollingerBands, calculateVWAP, calculateCVD, type IndicatorData, type BollingerBandData, type VWAPData, type CVDData } from '@/lib/indicators';
+import React, { useRef, useEffect, useState, useCallback, useMemo } from 'react';
+import type { CandleData, HeatmapCell, ActiveIndicators, ChartDrawing, FootprintCandle, InstrumentInfo } from '@/lib/types';
+import type { IndicatorData } from '@/lib/indicators';
+import type { VolumeProfile } from '@/lib/volumeProfile';
+import { useIndicator } from '@/hooks/useIndicator';
+import { formatPrice } from '@/lib/format';
+import { getChartViewport, getVisiblePriceRange, needsBackfill } from '@/lib/chartViewport';
 import { FootprintOverlay } from './FootprintOverlay';
 import { VolumeBubbles } from './VolumeBubbles';
 
@@ -11,13 +15,19 @@ interface CandleChartProps {
   heatmap: HeatmapCell[][];
   showHeatmap: boolean;
   currentPrice: number;
+  instrument?: InstrumentInfo | null;
   indicators?: ActiveIndicators;
   drawings?: ChartDrawing[];
   showVWAP?: boolean;
   showCVD?: boolean;
   showFootprint?: boolean;
+  footprint?: FootprintCandle[] | null; // Built from trades, see footprint.ts
+  footprintLevelSize?: number;
+  volumeProfile?: VolumeProfile | null; // POC and value area lines come from this
   showVolumeBubbles?: boolean;
   showBollinger?: boolean;
+  baseCandleCount?: number; // Candles that fill the plot at 100% zoom
+  onReachStart?: () => void; // Panned or zoomed out to the oldest loaded candle
 }
 
 interface TooltipData {
@@ -37,6 +47,8 @@ interface CrosshairData {
   time: number;
 }
 
+const CHART_PADDING = { top: 20, right: 80, bottom: 30, left: 10 };
+
 // SciChart-style color gradient
 const HEATMAP_COLORS = {
   bid: {
@@ -76,13 +88,19 @@ export function CandleChart({
   heatmap,
   showHeatmap,
   currentPrice,
+  instrument,
   indicators,
   drawings = [],
   showVWAP = false,
   showCVD = false,
   showFootprint = false,
+  footprint = null,
+  footprintLevelSize = 0,
+  volumeProfile = null,
   showVolumeBubbles = false,
   showBollinger = false,
+  baseCandleCount = 100,
+  onReachStart,
 }: CandleChartProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -95,6 +113,34 @@ export function CandleChart({
   const [tooltip, setTooltip] = useState<TooltipData | null>(null);
   const [crosshair, setCrosshair] = useState<CrosshairData | null>(null);
 
+  const showBands = showBollinger || !!indicators?.bollinger?.enabled;
+  const bbData = useIndicator(candles, showBands ? {
+    name: 'bollinger',
+    period: indicators?.bollinger?.period || 20,
+    stdDev: indicators?.bollinger?.stdDev || 2,
+  } : null);
+  const smaData = useIndicator(candles, indicators?.sma?.enabled ? { name: 'sma', period: indicators.sma.period } : null);
+  const emaData = useIndicator(candles, indicators?.ema?.enabled ? { name: 'ema', period: indicators.ema.period } : null);
+  const vwapData = useIndicator(candles, showVWAP ? { name: 'vwap' } : null);
+
+  // Right-anchored layout: prepending history keeps the visible candles in place
+  const viewport = useMemo(
+    () => getChartViewport(
+      candles.length,
+      dimensions.width - CHART_PADDING.left - CHART_PADDING.right,
+      zoomLevel,
+      panOffset.x,
+      baseCandleCount
+    ),
+    [candles.length, dimensions.width, zoomLevel, panOffset.x, baseCandleCount]
+  );
+
+  useEffect(() => {
+    if (candles.length > 0 && dimensions.width > 0 && needsBackfill(viewport, zoomLevel, panOffset.x)) {
+      onReachStart?.();
+    }
+  }, [viewport, zoomLevel, panOffset.x, candles.length, dimensions.width, onReachStart]);
+
   const updateDimensions = useCallback(() => {
     if (containerRef.current) {
       const rect = containerRef.current.getBoundingClientRect();
@@ -137,21 +183,18 @@ export function CandleChart({
       return;
     }
 
-    const padding = { top: 20, right: 80, bottom: 30, left: 10 };
-    const chartWidth = (dimensions.width - padding.left - padding.right) * zoomLevel;
+    const padding = CHART_PADDING;
     const chartHeight = dimensions.height - padding.top - padding.bottom;
 
     if (candles.length === 0) return;
 
-    const minPrice = Math.min(...candles.map(c => c.low)) * 0.998;
-    const maxPrice = Math.max(...candles.map(c => c.high)) * 1.002;
+    const { minPrice, maxPrice } = getVisiblePriceRange(candles, viewport, 0.002);
     const priceRange = maxPrice - minPrice;
-    const candleSpacing = chartWidth / candles.length;
+    const { candleSpacing, offset } = viewport;
 
     // Update crosshair
     if (mouseX > padding.left && mouseX < dimensions.width - padding.right) {
-      const adjustedX = (mouseX - padding.left - panOffset.x) / zoomLevel;
-      const candleIndex = Math.floor(adjustedX / (candleSpacing / zoomLevel));
+      const candleIndex = Math.floor((mouseX - padding.left - offset) / candleSpacing);
       const price = maxPrice - ((mouseY - padding.top) / chartHeight) * priceRange;
 
       if (candleIndex >= 0 && candleIndex < candles.length) {
@@ -166,8 +209,7 @@ export function CandleChart({
 
     // Calculate tooltip for heatmap
     if (showHeatmap && heatmap.length > 0 && candles.length > 0) {
-      const adjustedX = (mouseX - padding.left - panOffset.x) / zoomLevel;
-      const candleIndex = Math.floor(adjustedX / (candleSpacing / zoomLevel));
+      const candleIndex = Math.floor((mouseX - padding.left - offset) / candleSpacing);
 
       const levels = heatmap[0]?.length || 20;
       const cellHeight = chartHeight / levels;
@@ -205,7 +247,7 @@ export function CandleChart({
     }
 
     setTooltip(null);
-  }, [isDragging, dragStart, showHeatmap, heatmap, candles, dimensions, zoomLevel, panOffset]);
+  }, [isDragging, dragStart, showHeatmap, heatmap, candles, dimensions, viewport]);
 
   const handleMouseUp = useCallback(() => {
     setIsDragging(false);
@@ -234,29 +276,28 @@ export function CandleChart({
     canvas.height = dimensions.height * dpr;
     ctx.scale(dpr, dpr);
 
-    const padding = { top: 20, right: 80, bottom: 30, left: 10 };
-    const chartWidth = (dimensions.width - padding.left - padding.right) * zoomLevel;
+    const padding = CHART_PADDING;
     const chartHeight = dimensions.height - padding.top - padding.bottom;
 
-    const minPrice = Math.min(...candles.map(c => c.low)) * 0.998;
-    const maxPrice = Math.max(...candles.map(c => c.high)) * 1.002;
+    const { minPrice, maxPrice } = getVisiblePriceRange(candles, viewport, 0.002);
     const priceRange = maxPrice - minPrice;
 
     const priceToY = (price: number) =>
       padding.top + chartHeight - ((price - minPrice) / priceRange) * chartHeight;
 
-    const candleSpacing = chartWidth / candles.length;
+    const { candleSpacing, offset } = viewport;
+    // Drawing happens inside ctx.translate(offset), so these are untranslated
     const timeToX = (time: number) => {
       const idx = candles.findIndex(c => c.time >= time);
-      if (idx === -1) return padding.left + chartWidth + panOffset.x;
-      return padding.left + idx * candleSpacing + candleSpacing / 2 + panOffset.x;
+      if (idx === -1) return padding.left + candles.length * candleSpacing;
+      return padding.left + idx * candleSpacing + candleSpacing / 2;
     };
 
     ctx.fillStyle = '#0a0a0c';
     ctx.fillRect(0, 0, dimensions.width, dimensions.height);
 
     ctx.save();
-    ctx.translate(panOffset.x, 0);
+    ctx.translate(offset, 0);
 
     ctx.strokeStyle = '#1a1a1f';
     ctx.lineWidth = 1;
@@ -264,12 +305,12 @@ export function CandleChart({
     for (let i = 0; i <= gridLines; i++) {
       const y = padding.top + (chartHeight / gridLines) * i;
       ctx.beginPath();
-      ctx.moveTo(padding.left - panOffset.x, y);
-      ctx.lineTo(dimensions.width - padding.right, y);
+      ctx.moveTo(padding.left - offset, y);
+      ctx.lineTo(dimensions.width - padding.right - offset, y);
       ctx.stroke();
     }
 
-    const candleWidth = Math.max(2, (chartWidth / candles.length) * 0.8);
+    const candleWidth = Math.max(2, candleSpacing * 0.8);
 
     // Draw heatmap with SciChart-style colors
     if (showHeatmap && heatmap.length > 0) {
@@ -314,106 +355,73 @@ export function CandleChart({
       }
     }
 
+    // Indicator points are placed by time: a result can lag the candles by
+    // one worker round trip, and its newest candles just go without points
+    const candleIndex = new Map(candles.map((candle, index) => [candle.time, index]));
+    const traceLine = <T extends { time: number }>(data: T[], value: (point: T) => number, continuePath = false) => {
+      let started = continuePath;
+      for (const point of data) {
+        const idx = candleIndex.get(point.time);
+        if (idx === undefined) continue;
+        const x = padding.left + idx * candleSpacing + candleSpacing / 2;
+        const y = priceToY(value(point));
+        if (!started) ctx.moveTo(x, y);
+        else ctx.lineTo(x, y);
+        started = true;
+      }
+    };
+
     // Draw Bollinger Bands if enabled
-    if (showBollinger || indicators?.bollinger?.enabled) {
-      const period = indicators?.bollinger?.period || 20;
-      const stdDev = indicators?.bollinger?.stdDev || 2;
-      const bbData = calculateBollingerBands(candles, period, stdDev);
+    if (showBands && bbData) {
       if (bbData.length > 0) {
         ctx.strokeStyle = 'rgba(156, 163, 175, 0.5)';
         ctx.lineWidth = 1;
         ctx.beginPath();
-        for (let i = 0; i < bbData.length; i++) {
-          const candleIdx = candles.length - bbData.length + i;
-          const x = padding.left + candleIdx * candleSpacing + candleSpacing / 2;
-          const y = priceToY(bbData[i].upper);
-          if (i === 0) ctx.moveTo(x, y);
-          else ctx.lineTo(x, y);
-        }
+        traceLine(bbData, (point) => point.upper);
         ctx.stroke();
 
         ctx.beginPath();
-        for (let i = 0; i < bbData.length; i++) {
-          const candleIdx = candles.length - bbData.length + i;
-          const x = padding.left + candleIdx * candleSpacing + candleSpacing / 2;
-          const y = priceToY(bbData[i].lower);
-          if (i === 0) ctx.moveTo(x, y);
-          else ctx.lineTo(x, y);
-        }
+        traceLine(bbData, (point) => point.lower);
         ctx.stroke();
 
         ctx.fillStyle = 'rgba(156, 163, 175, 0.1)';
         ctx.beginPath();
-        for (let i = 0; i < bbData.length; i++) {
-          const candleIdx = candles.length - bbData.length + i;
-          const x = padding.left + candleIdx * candleSpacing + candleSpacing / 2;
-          const y = priceToY(bbData[i].upper);
-          if (i === 0) ctx.moveTo(x, y);
-          else ctx.lineTo(x, y);
-        }
-        for (let i = bbData.length - 1; i >= 0; i--) {
-          const candleIdx = candles.length - bbData.length + i;
-          const x = padding.left + candleIdx * candleSpacing + candleSpacing / 2;
-          const y = priceToY(bbData[i].lower);
-          ctx.lineTo(x, y);
-        }
+        traceLine(bbData, (point) => point.upper);
+        traceLine([...bbData].reverse(), (point) => point.lower, true);
         ctx.closePath();
         ctx.fill();
       }
     }
 
-    if (indicators?.sma?.enabled) {
-      const smaData = calculateSMA(candles, indicators.sma.period);
+    if (indicators?.sma?.enabled && smaData) {
       drawIndicatorLine(ctx, smaData, candles, padding, candleSpacing, priceToY, indicators.sma.color);
     }
 
-    if (indicators?.ema?.enabled) {
-      const emaData = calculateEMA(candles, indicators.ema.period);
+    if (indicators?.ema?.enabled && emaData) {
       drawIndicatorLine(ctx, emaData, candles, padding, candleSpacing, priceToY, indicators.ema.color);
     }
 
-    if (showVWAP) {
-      const vwapData = calculateVWAP(candles);
+    if (showVWAP && vwapData) {
       if (vwapData.length > 0) {
         ctx.strokeStyle = 'rgba(251, 191, 36, 0.2)';
         ctx.lineWidth = 1;
         ctx.setLineDash([2, 4]);
 
         ctx.beginPath();
-        for (let i = 0; i < vwapData.length; i++) {
-          const x = padding.left + i * candleSpacing + candleSpacing / 2;
-          const y = priceToY(vwapData[i].upperBand2);
-          if (i === 0) ctx.moveTo(x, y);
-          else ctx.lineTo(x, y);
-        }
+        traceLine(vwapData, (point) => point.upperBand2);
         ctx.stroke();
 
         ctx.beginPath();
-        for (let i = 0; i < vwapData.length; i++) {
-          const x = padding.left + i * candleSpacing + candleSpacing / 2;
-          const y = priceToY(vwapData[i].lowerBand2);
-          if (i === 0) ctx.moveTo(x, y);
-          else ctx.lineTo(x, y);
-        }
+        traceLine(vwapData, (point) => point.lowerBand2);
         ctx.stroke();
 
         ctx.strokeStyle = 'rgba(251, 191, 36, 0.4)';
         ctx.beginPath();
-        for (let i = 0; i < vwapData.length; i++) {
-          const x = padding.left + i * candleSpacing + candleSpacing / 2;
-          const y = priceToY(vwapData[i].upperBand1);
-          if (i === 0) ctx.moveTo(x, y);
-          else ctx.lineTo(x, y);
-        }
+        traceLine(vwapData, (point) => point.upperBand1);
         ctx.stroke();
 
         ctx.beginPath();
-        for (let i = 0; i < vwapData.length; i++) {
-          const x = padding.left + i * candleSpacing + candleSpacing / 2;
-          const y = priceToY(vwapData[i].lowerBand1);
-          if (i === 0) ctx.moveTo(x, y);
-          else ctx.lineTo(x, y);
-        }
+        traceLine(vwapData, (point) => point.lowerBand1);
         ctx.stroke();
 
         ctx.setLineDash([]);
@@ -421,24 +429,20 @@ export function CandleChart({
         ctx.strokeStyle = '#fbbf24';
         ctx.lineWidth = 2;
         ctx.beginPath();
-        for (let i = 0; i < vwapData.length; i++) {
-          const x = padding.left + i * candleSpacing + candleSpacing / 2;
-          const y = priceToY(vwapData[i].vwap);
-          if (i === 0) ctx.moveTo(x, y);
-          else ctx.lineTo(x, y);
-        }
+        traceLine(vwapData, (point) => point.vwap);
         ctx.stroke();
 
-        if (vwapData.length > 0) {
-          const lastVwap = vwapData[vwapData.length - 1];
-          const labelX = padding.left + (vwapData.length - 1) * candleSpacing + candleSpacing / 2 + 5;
+        const lastVwap = vwapData[vwapData.length - 1];
+        const lastIndex = candleIndex.get(lastVwap.time);
+        if (lastIndex !== undefined) {
+          const labelX = padding.left + lastIndex * candleSpacing + candleSpacing / 2 + 5;
           const labelY = priceToY(lastVwap.vwap);
 
           ctx.fillStyle = '#fbbf24';
           ctx.font = 'bold 9px monospace';
           ctx.textAlign = 'left';
           ctx.textBaseline = 'middle';
-          ctx.fillText(`VWAP ${lastVwap.vwap.toFixed(2)}`, labelX, labelY);
+          ctx.fillText(`VWAP ${formatPrice(lastVwap.vwap, instrument)}`, labelX, labelY);
         }
       }
     }
@@ -478,8 +482,8 @@ export function CandleChart({
       if (drawing.type === 'horizontal' && drawing.points[0]) {
         const y = priceToY(drawing.points[0].price);
         ctx.beginPath();
-        ctx.moveTo(padding.left - panOffset.x, y);
-        ctx.lineTo(dimensions.width - padding.right, y);
+        ctx.moveTo(padding.left - offset, y);
+        ctx.lineTo(dimensions.width - padding.right - offset, y);
         ctx.stroke();
       } else if (drawing.type === 'trendline' && drawing.points.length >= 2) {
         const x1 = timeToX(drawing.points[0].time);
@@ -501,6 +505,32 @@ export function CandleChart({
 
     ctx.restore();
 
+    // Draw volume profile POC and value area edges
+    if (volumeProfile) {
+      const levels: [string, number, string][] = [
+        ['VAH', volumeProfile.valueAreaHigh, '#9e9e9e'],
+        ['POC', volumeProfile.pocPrice, '#e040fb'],
+        ['VAL', volumeProfile.valueAreaLow, '#9e9e9e'],
+      ];
+      ctx.lineWidth = 1;
+      ctx.font = '10px monospace';
+      ctx.textAlign = 'left';
+      ctx.textBaseline = 'bottom';
+      for (const [label, price, color] of levels) {
+        if (price < minPrice || price > maxPrice) continue;
+        const y = priceToY(price);
+        ctx.strokeStyle = color;
+        ctx.setLineDash(label === 'POC' ? [] : [6, 4]);
+        ctx.beginPath();
+        ctx.moveTo(padding.left, y);
+        ctx.lineTo(dimensions.width - padding.right, y);
+        ctx.stroke();
+        ctx.fillStyle = color;
+        ctx.fillText(`${label} ${formatPrice(price, instrument, { reference: currentPrice })}`, padding.left + 4, y - 2);
+      }
+      ctx.setLineDash([]);
+    }
+
     // Draw crosshair
     if (crosshair) {
       ctx.strokeStyle = 'rgba(255, 255, 255, 0.3)';
@@ -525,7 +555,7 @@ export function CandleChart({
       ctx.font = '10px monospace';
       ctx.textAlign = 'left';
       ctx.textBaseline = 'middle';
-      ctx.fillText(crosshair.price.toFixed(2), dimensions.width - padding.right + 5, crosshair.y);
+      ctx.fillText(formatPrice(crosshair.price, instrument, { reference: currentPrice }), dimensions.width - padding.right + 5, crosshair.y);
     }
 
     // Draw current price line
@@ -545,7 +575,7 @@ export function CandleChart({
     ctx.font = 'bold 10px monospace';
     ctx.textAlign = 'left';
     ctx.textBaseline = 'middle';
-    ctx.fillText(currentPrice.toFixed(2), dimensions.width - padding.right + 5, priceY);
+    ctx.fillText(formatPrice(currentPrice, instrument), dimensions.width - padding.right + 5, priceY);
 
     ctx.fillStyle = '#666';
     ctx.font = '10px monospace';
@@ -553,17 +583,18 @@ export function CandleChart({
     for (let i = 0; i <= gridLines; i++) {
       const price = maxPrice - (priceRange / gridLines) * i;
       const y = padding.top + (chartHeight / gridLines) * i;
-      ctx.fillText(price.toFixed(2), dimensions.width - 5, y + 3);
+      ctx.fillText(formatPrice(price, instrument, { reference: maxPrice }), dimensions.width - 5, y + 3);
     }
 
     ctx.fillStyle = '#666';
     ctx.font = '10px monospace';
     ctx.textAlign = 'center';
     const timeLabels = 10;
+    const { firstVisible, lastVisible } = viewport;
     for (let i = 0; i <= timeLabels; i++) {
-      const idx = Math.floor((i / timeLabels) * (candles.length - 1));
+      const idx = firstVisible + Math.floor((i / timeLabels) * (lastVisible - firstVisible));
       if (candles[idx]) {
-        const x = padding.left + idx * candleSpacing + panOffset.x;
+        const x = padding.left + idx * candleSpacing + offset;
         const date = new Date(candles[idx].time);
         const timeStr = `${date.getHours().toString().padStart(2, '0')}:${date.getMinutes().toString().padStart(2, '0')}`;
         ctx.fillText(timeStr, x, dimensions.height - 10);
@@ -579,9 +610,10 @@ export function CandleChart({
       ctx.textBaseline = 'middle';
       ctx.fillText(`${(zoomLevel * 100).toFixed(0)}%`, 20, 22);
     }
-  }, [candles, heatmap, showHeatmap, currentPrice, dimensions, indicators, drawings, showVWAP, showCVD, showBollinger, zoomLevel, panOffset, crosshair]);
+  }, [candles, heatmap, showHeatmap, currentPrice, instrument, dimensions, indicators, drawings, showVWAP, showCVD, showBands, bbData, smaData, emaData, vwapData, volumeProfile, zoomLevel, viewport, crosshair]);
 
-  const padding = { top: 20, right: 80, bottom: 30, left: 10 };
+  const padding = CHART_PADDING;
+  const visibleCandles = candles.slice(viewport.firstVisible, viewport.lastVisible + 1);
 
   let maxHeatmapValue = 0;
   for (const col of heatmap) {
@@ -663,7 +695,7 @@ export function CandleChart({
               >
                 {tooltip.type === 'bid' ? 'BID' : 'ASK'}
               </span>
-              <span className="text-white font-mono">${tooltip.price.toFixed(2)}</span>
+              <span className="text-white font-mono">${formatPrice(tooltip.price, instrument, { reference: currentPrice })}</span>
             </div>
             <div className="flex items-center gap-2">
               <span className="text-zinc-400">Orders:</span>
@@ -697,7 +729,9 @@ export function CandleChart({
 
       {showFootprint && dimensions.width > 0 && (
         <FootprintOverlay
-          candles={candles}
+          candles={visibleCandles}
+          footprint={footprint}
+          levelSize={footprintLevelSize}
           width={dimensions.width}
           height={dimensions.height}
           padding={padding}
@@ -705,7 +739,7 @@ export function CandleChart({
       )}
       {showVolumeBubbles && dimensions.width > 0 && (
         <VolumeBubbles
-          candles={candles}
+          candles={visibleCandles}
           width={dimensions.width}
           height={dimensions.height}
           padding={padding}
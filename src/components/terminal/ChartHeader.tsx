@@ -1,7 +1,10 @@
 "use client";
 
 import React, { useState } from 'react';
-import { ChevronDown, Activity, TrendingUp, BarChart2, Waves, Target, Eye, EyeOff } from 'lucide-react';
+import { ChevronDown, Activity, TrendingUp, BarChart2, Waves, Target, Eye, EyeOff, Percent } from 'lucide-react';
+import type { InstrumentInfo } from '@/lib/types';
+import { formatPrice } from '@/lib/format';
+import { FOOTPRINT_TICK_OPTIONS, VPVR_TICK_OPTIONS } from '@/lib/storage';
 
 interface ChartHeaderProps {
   symbol: string;
@@ -14,14 +17,23 @@ interface ChartHeaderProps {
     close: number;
     change: number;
   };
+  instrument?: InstrumentInfo | null;
   showHeatmap: boolean;
   onToggleHeatmap: () => void;
   showVWAP?: boolean;
   onToggleVWAP?: () => void;
   showCVD?: boolean;
   onToggleCVD?: () => void;
+  showOI?: boolean;
+  onToggleOI?: () => void;
+  showFunding?: boolean;
+  onToggleFunding?: () => void;
   showFootprint?: boolean;
   onToggleFootprint?: () => void;
+  footprintTicks?: number; // Level size in ticks, 0 for auto
+  onFootprintTicksChange?: (ticks: number) => void;
+  vpvrTicks?: number; // Row size in ticks, 0 for auto
+  onVpvrTicksChange?: (ticks: number) => void;
   showRSI?: boolean;
   onToggleRSI?: () => void;
   showMACD?: boolean;
@@ -46,14 +58,23 @@ export function ChartHeader({
   exchange,
   timeframe,
   priceInfo,
+  instrument,
   showHeatmap,
   onToggleHeatmap,
   showVWAP = false,
   onToggleVWAP,
   showCVD = false,
   onToggleCVD,
+  showOI = false,
+  onToggleOI,
+  showFunding = false,
+  onToggleFunding,
   showFootprint = false,
   onToggleFootprint,
+  footprintTicks = 0,
+  onFootprintTicksChange,
+  vpvrTicks = 0,
+  onVpvrTicksChange,
   showRSI = false,
   onToggleRSI,
   showMACD = false,
@@ -115,6 +136,26 @@ export function ChartHeader({
       color: 'purple',
       category: 'oscillator',
     },
+    {
+      id: 'oi',
+      name: 'Open Interest',
+      description: 'OI, its change and divergence from price (futures)',
+      icon: <BarChart2 className="w-3.5 h-3.5" />,
+      enabled: showOI,
+      onToggle: onToggleOI || (() => {}),
+      color: 'orange',
+      category: 'oscillator',
+    },
+    {
+      id: 'funding',
+      name: 'Funding Rate',
+      description: 'Settled and predicted funding (perpetuals)',
+      icon: <Percent className="w-3.5 h-3.5" />,
+      enabled: showFunding,
+      onToggle: onToggleFunding || (() => {}),
+      color: 'amber',
+      category: 'oscillator',
+    },
     {
       id: 'rsi',
       name: 'RSI',
@@ -152,23 +193,23 @@ export function ChartHeader({
         </span>
         <span className="text-zinc-500">O</span>
         <span className={isPositive ? 'text-green-400' : 'text-red-400'}>
-          {priceInfo.open.toFixed(2)}
+          {formatPrice(priceInfo.open, instrument)}
         </span>
         <span className="text-zinc-500">H</span>
         <span className={isPositive ? 'text-green-400' : 'text-red-400'}>
-          {priceInfo.high.toFixed(2)}
+          {formatPrice(priceInfo.high, instrument)}
         </span>
         <span className="text-zinc-500">L</span>
         <span className={isPositive ? 'text-green-400' : 'text-red-400'}>
-          {priceInfo.low.toFixed(2)}
+          {formatPrice(priceInfo.low, instrument)}
         </span>
         <span className="text-zinc-500">C</span>
         <span className={isPositive ? 'text-green-400' : 'text-red-400'}>
-          {priceInfo.close.toFixed(2)}
+          {formatPrice(priceInfo.close, instrument)}
         </span>
         <span className="text-zinc-500">D</span>
         <span className={isPositive ? 'text-green-400' : 'text-red-400'}>
-          {isPositive ? '+' : ''}{priceInfo.change.toFixed(0)}
+          {isPositive ? '+' : ''}{formatPrice(priceInfo.change, instrument, { reference: priceInfo.close })}
         </span>
       </div>
 
@@ -312,6 +353,28 @@ export function ChartHeader({
           </button>
         )}
 
+        {showOI && onToggleOI && (
+          <button
+            type="button"
+            onClick={onToggleOI}
+            className="flex items-center gap-1 px-2 py-0.5 rounded text-orange-400 bg-orange-500/10 border border-orange-500/30 hover:bg-orange-500/20 transition-colors"
+          >
+            <BarChart2 className="w-3 h-3" />
+            <span className="font-medium">OI</span>
+          </button>
+        )}
+
+        {showFunding && onToggleFunding && (
+          <button
+            type="button"
+            onClick={onToggleFunding}
+            className="flex items-center gap-1 px-2 py-0.5 rounded text-amber-400 bg-amber-500/10 border border-amber-500/30 hover:bg-amber-500/20 transition-colors"
+          >
+            <Percent className="w-3 h-3" />
+            <span className="font-medium">FR</span>
+          </button>
+        )}
+
         {showRSI && onToggleRSI && (
           <button
             type="button"
@@ -344,8 +407,36 @@ export function ChartHeader({
             <span className="font-medium">Footprint</span>
           </button>
         )}
+        {showFootprint && onFootprintTicksChange && (
+          <select
+            value={footprintTicks}
+            onChange={(e) => onFootprintTicksChange(Number(e.target.value))}
+            title="Footprint level size"
+            className="bg-zinc-800 border border-zinc-700 rounded px-1 py-0.5 text-[10px] text-zinc-300 focus:outline-none"
+          >
+            {FOOTPRINT_TICK_OPTIONS.map((ticks) => (
+              <option key={ticks} value={ticks}>
+                {ticks === 0 ? 'Auto' : `${ticks} tick${ticks === 1 ? '' : 's'}`}
+              </option>
+            ))}
+          </select>
+        )}
 
         <span className="text-zinc-500 ml-2">VPVR</span>
+        {onVpvrTicksChange && (
+          <select
+            value={vpvrTicks}
+            onChange={(e) => onVpvrTicksChange(Number(e.target.value))}
+            title="VPVR row size"
+            className="bg-zinc-800 border border-zinc-700 rounded px-1 py-0.5 text-[10px] text-zinc-300 focus:outline-none"
+          >
+            {VPVR_TICK_OPTIONS.map((ticks) => (
+              <option key={ticks} value={ticks}>
+                {ticks === 0 ? 'Auto' : `${ticks} tick${ticks === 1 ? '' : 's'}`}
+              </option>
+            ))}
+          </select>
+        )}
       </div>
     </div>
   );
@@ -1,9 +1,18 @@
 "use client";
 
 import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
-import { BinanceWebSocket, fetchKlines, toBinanceInterval } from '@/lib/binance';
-import type { CandleData, TimeFrame, Symbol as SymbolType } from '@/lib/types';
-import { calculateSMA, calculateEMA, calculateVWAP, calculateBollingerBands } from '@/lib/indicators';
+import { createMarketStream, fetchMarketKlines, fetchOlderKlines, mergeCandles, parseSymbol, upsertCandle, type MarketStream } from '@/lib/marketData';
+import { getChartViewport, getVisiblePriceRange, needsBackfill } from '@/lib/chartViewport';
+import type { BarSettings, CandleData, TimeFrame, Symbol as SymbolType } from '@/lib/types';
+import { useIndicator } from '@/hooks/useIndicator';
+import { useInstrument } from '@/hooks/useInstrument';
+import { formatPrice } from '@/lib/format';
+import { useTimeframeFavorites } from '@/hooks/useTimeframeFavorites';
+import { timeframeLabel, timeframeToMs } from '@/lib/timeframes';
+import { TimeframeMenu } from './TimeframeMenu';
+import { BarTypeMenu } from './BarTypeMenu';
+import { useTradeBars } from '@/hooks/useTradeBars';
+import { barSettingsLabel } from '@/lib/tradeBars';
 import {
   X,
   Settings2,
@@ -40,16 +49,6 @@ interface ChartIndicator {
   color: string;
 }
 
-const TIMEFRAMES: { value: TimeFrame; label: string }[] = [
-  { value: '1m', label: '1m' },
-  { value: '5m', label: '5m' },
-  { value: '15m', label: '15m' },
-  { value: '30m', label: '30m' },
-  { value: '1h', label: '1H' },
-  { value: '4h', label: '4H' },
-  { value: '1d', label: '1D' },
-];
-
 const CHART_TYPES: { value: ChartType; label: string; icon: React.ReactNode }[] = [
   { value: 'candle', label: 'Candles', icon: <CandlestickChart className="w-3.5 h-3.5" /> },
   { value: 'line', label: 'Line', icon: <LineChart className="w-3.5 h-3.5" /> },
@@ -65,6 +64,9 @@ const DEFAULT_INDICATORS: ChartIndicator[] = [
   { id: 'bollinger', name: 'Bollinger', enabled: false, color: '#8b5cf6' },
 ];
 
+const INITIAL_CANDLES = 150;
+const CHART_PADDING = { top: 10, right: 55, bottom: 25, left: 5 };
+
 // Convert candles to Heikin Ashi
 function toHeikinAshi(candles: CandleData[]): CandleData[] {
   if (candles.length === 0) return [];
@@ -101,6 +103,8 @@ export function ChartWidget({
   title,
 }: ChartWidgetProps) {
   const [timeframe, setTimeframe] = useState<TimeFrame>(defaultTimeframe);
+  const [showTimeframeMenu, setShowTimeframeMenu] = useState(false);
+  const { favorites: timeframeFavorites } = useTimeframeFavorites();
   const [chartType, setChartType] = useState<ChartType>('candle');
   const [indicators, setIndicators] = useState<ChartIndicator[]>(DEFAULT_INDICATORS);
   const [showGrid, setShowGrid] = useState(true);
@@ -111,7 +115,7 @@ export function ChartWidget({
   const [showChartTypeDropdown, setShowChartTypeDropdown] = useState(false);
   const [showIndicatorsDropdown, setShowIndicatorsDropdown] = useState(false);
 
-  const [candles, setCandles] = useState<CandleData[]>([]);
+  const [timeCandles, setTimeCandles] = useState<CandleData[]>([]);
   const [currentPrice, setCurrentPrice] = useState(0);
   const [isConnected, setIsConnected] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
@@ -125,11 +129,42 @@ export function ChartWidget({
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const volumeCanvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
-  const wsRef = useRef<BinanceWebSocket | null>(null);
+  const wsRef = useRef<MarketStream | null>(null);
+  const backfillRef = useRef({ key: '', loading: false, exhausted: false });
   const [dimensions, setDimensions] = useState({ width: 0, height: 0 });
 
-  const symbolString = symbol ? `${symbol.base}/${symbol.quote}` : 'BTC/USDT';
-  const exchangeName = symbol?.exchange || 'binance';
+  const marketSymbol = useMemo(() => symbol ?? parseSymbol('BTC/USDT'), [symbol]);
+  const exchangeName = marketSymbol.exchange;
+  const instrument = useInstrument(marketSymbol);
+
+  // Tick, volume, range or Renko bars stand in for the time candles when set
+  const [barSettings, setBarSettings] = useState<BarSettings | null>(null);
+  const [showBarMenu, setShowBarMenu] = useState(false);
+  const tradeBars = useTradeBars(marketSymbol, barSettings);
+  const candles = barSettings ? tradeBars.bars : timeCandles;
+
+  // Indicators follow the displayed candles, Heikin Ashi included
+  const displayCandles = useMemo(
+    () => (chartType === 'heikinAshi' ? toHeikinAshi(candles) : candles),
+    [candles, chartType]
+  );
+  const isIndicatorEnabled = (id: string) => indicators.some((ind) => ind.id === id && ind.enabled);
+  const sma20 = useIndicator(displayCandles, isIndicatorEnabled('sma20') ? { name: 'sma', period: 20 } : null);
+  const ema12 = useIndicator(displayCandles, isIndicatorEnabled('ema12') ? { name: 'ema', period: 12 } : null);
+  const vwap = useIndicator(displayCandles, isIndicatorEnabled('vwap') ? { name: 'vwap' } : null);
+  const bollinger = useIndicator(displayCandles, isIndicatorEnabled('bollinger') ? { name: 'bollinger', period: 20, stdDev: 2 } : null);
+
+  // Right-anchored layout shared by the price and volume canvases
+  const viewport = useMemo(
+    () => getChartViewport(
+      candles.length,
+      dimensions.width - CHART_PADDING.left - CHART_PADDING.right,
+      zoomLevel,
+      panOffset,
+      INITIAL_CANDLES
+    ),
+    [candles.length, dimensions.width, zoomLevel, panOffset]
+  );
 
   // Update dimensions
   const updateDimensions = useCallback(() => {
@@ -151,12 +186,14 @@ export function ChartWidget({
 
   // Load initial data
   useEffect(() => {
+    backfillRef.current = { key: `${marketSymbol.exchange}:${marketSymbol.symbol}:${timeframe}`, loading: false, exhausted: false };
+
     const loadData = async () => {
       setIsLoading(true);
       try {
-        const klines = await fetchKlines(symbolString, timeframe, 150);
+        const klines = await fetchMarketKlines(marketSymbol, timeframe, INITIAL_CANDLES);
         if (klines.length > 0) {
-          setCandles(klines);
+          setTimeCandles(klines);
           setCurrentPrice(klines[klines.length - 1].close);
         }
       } catch (error) {
@@ -173,20 +210,10 @@ export function ChartWidget({
       wsRef.current.disconnect();
     }
 
-    wsRef.current = new BinanceWebSocket(symbolString, toBinanceInterval(timeframe), {
+    wsRef.current = createMarketStream(marketSymbol, { interval: timeframe, channels: ['kline'] }, {
       onPrice: (price) => setCurrentPrice(price),
-      onKline: (kline, isClosed) => {
-        setCandles((prev) => {
-          if (prev.length === 0) return [kline];
-          const newCandles = [...prev];
-          if (isClosed) {
-            newCandles.push(kline);
-            if (newCandles.length > 150) newCandles.shift();
-          } else {
-            newCandles[newCandles.length - 1] = kline;
-          }
-          return newCandles;
-        });
+      onKline: (kline) => {
+        setTimeCandles((prev) => upsertCandle(prev, kline));
       },
       onConnect: () => setIsConnected(true),
       onDisconnect: () => setIsConnected(false),
@@ -200,7 +227,41 @@ export function ChartWidget({
         wsRef.current.disconnect();
       }
     };
-  }, [symbolString, timeframe]);
+  }, [marketSymbol, timeframe]);
+
+  // Prepend older history once the user scrolls back to the first loaded candle
+  const loadOlderCandles = useCallback(async () => {
+    const backfill = backfillRef.current;
+    if (barSettings || backfill.loading || backfill.exhausted || candles.length === 0) return;
+
+    const key = backfill.key;
+    backfill.loading = true;
+    try {
+      const older = await fetchOlderKlines(marketSymbol, timeframe, candles[0].time);
+      if (backfillRef.current.key !== key) return;
+      if (older.length === 0) {
+        backfill.exhausted = true;
+        return;
+      }
+      setTimeCandles((prev) => mergeCandles(prev, older));
+    } catch (error) {
+      console.error('Failed to load older candles:', error);
+    } finally {
+      backfill.loading = false;
+    }
+  }, [barSettings, candles, marketSymbol, timeframe]);
+
+  useEffect(() => {
+    if (candles.length > 0 && dimensions.width > 0 && needsBackfill(viewport, zoomLevel, panOffset)) {
+      loadOlderCandles();
+    }
+  }, [viewport, zoomLevel, panOffset, candles.length, dimensions.width, loadOlderCandles]);
+
+  // Picking a timeframe goes back to time candles
+  const handleTimeframeSelect = (tf: TimeFrame) => {
+    setTimeframe(tf);
+    setBarSettings(null);
+  };
 
   // Toggle indicator
   const toggleIndicator = (id: string) => {
@@ -238,17 +299,13 @@ export function ChartWidget({
     }
 
     if (showCrosshair && candles.length > 0) {
-      const padding = { top: 10, right: 55, bottom: 25, left: 5 };
-      const chartWidth = (dimensions.width - padding.left - padding.right) * zoomLevel;
+      const padding = CHART_PADDING;
       const chartHeight = dimensions.height - (showVolume ? 60 : 0) - padding.top - padding.bottom;
 
-      const minPrice = Math.min(...candles.map(c => c.low)) * 0.999;
-      const maxPrice = Math.max(...candles.map(c => c.high)) * 1.001;
+      const { minPrice, maxPrice } = getVisiblePriceRange(candles, viewport, 0.001);
       const priceRange = maxPrice - minPrice;
-      const candleSpacing = chartWidth / candles.length;
 
-      const adjustedX = (mouseX - padding.left - panOffset) / zoomLevel;
-      const candleIndex = Math.floor(adjustedX / (candleSpacing / zoomLevel));
+      const candleIndex = Math.floor((mouseX - padding.left - viewport.offset) / viewport.candleSpacing);
       const price = maxPrice - ((mouseY - padding.top) / chartHeight) * priceRange;
 
       if (candleIndex >= 0 && candleIndex < candles.length && price >= minPrice && price <= maxPrice) {
@@ -261,7 +318,7 @@ export function ChartWidget({
         });
       }
     }
-  }, [isDragging, dragStart, showCrosshair, candles, dimensions, zoomLevel, panOffset, showVolume]);
+  }, [isDragging, dragStart, showCrosshair, candles, dimensions, viewport, showVolume]);
 
   const handleMouseUp = useCallback(() => {
     setIsDragging(false);
@@ -309,28 +366,23 @@ export function ChartWidget({
     canvas.height = chartHeight * dpr;
     ctx.scale(dpr, dpr);
 
-    const padding = { top: 10, right: 55, bottom: 25, left: 5 };
-    const chartWidth = (dimensions.width - padding.left - padding.right) * zoomLevel;
+    const padding = CHART_PADDING;
     const drawHeight = chartHeight - padding.top - padding.bottom;
 
-    // Use appropriate candle data
-    const displayCandles = chartType === 'heikinAshi' ? toHeikinAshi(candles) : candles;
-
-    const minPrice = Math.min(...displayCandles.map(c => c.low)) * 0.999;
-    const maxPrice = Math.max(...displayCandles.map(c => c.high)) * 1.001;
+    const { minPrice, maxPrice } = getVisiblePriceRange(displayCandles, viewport, 0.001);
     const priceRange = maxPrice - minPrice;
 
     const priceToY = (price: number) =>
       padding.top + drawHeight - ((price - minPrice) / priceRange) * drawHeight;
 
-    const candleSpacing = chartWidth / displayCandles.length;
+    const { candleSpacing, offset } = viewport;
 
     // Background
     ctx.fillStyle = '#0c0c0e';
     ctx.fillRect(0, 0, dimensions.width, chartHeight);
 
     ctx.save();
-    ctx.translate(panOffset, 0);
+    ctx.translate(offset, 0);
 
     // Grid
     if (showGrid) {
@@ -340,8 +392,8 @@ export function ChartWidget({
       for (let i = 0; i <= gridLines; i++) {
         const y = padding.top + (drawHeight / gridLines) * i;
         ctx.beginPath();
-        ctx.moveTo(padding.left - panOffset, y);
-        ctx.lineTo(dimensions.width - padding.right, y);
+        ctx.moveTo(padding.left - offset, y);
+        ctx.lineTo(dimensions.width - padding.right - offset, y);
         ctx.stroke();
       }
     }
@@ -354,14 +406,13 @@ export function ChartWidget({
       let data: { time: number; value: number }[] = [];
 
       if (indicator.id === 'sma20') {
-        data = calculateSMA(displayCandles, 20);
+        data = sma20 ?? [];
       } else if (indicator.id === 'ema12') {
-        data = calculateEMA(displayCandles, 12);
+        data = ema12 ?? [];
       } else if (indicator.id === 'vwap') {
-        const vwapData = calculateVWAP(displayCandles);
-        data = vwapData.map(v => ({ time: v.time, value: v.vwap }));
+        data = (vwap ?? []).map(v => ({ time: v.time, value: v.vwap }));
       } else if (indicator.id === 'bollinger') {
-        const bbData = calculateBollingerBands(displayCandles, 20, 2);
+        const bbData = bollinger ?? [];
 
         // Draw bands
         ctx.strokeStyle = `${indicator.color}60`;
@@ -406,7 +457,7 @@ export function ChartWidget({
       }
     }
 
-    const candleWidth = Math.max(1, (chartWidth / displayCandles.length) * 0.7);
+    const candleWidth = Math.max(1, candleSpacing * 0.7);
 
     // Draw chart based on type
     for (let i = 0; i < displayCandles.length; i++) {
@@ -529,7 +580,7 @@ export function ChartWidget({
       ctx.font = '10px monospace';
       ctx.textAlign = 'left';
       ctx.textBaseline = 'middle';
-      ctx.fillText(crosshairPos.price.toFixed(5), dimensions.width - padding.right + 5, crosshairPos.y);
+      ctx.fillText(formatPrice(crosshairPos.price, instrument, { reference: currentPrice }), dimensions.width - padding.right + 5, crosshairPos.y);
 
       // Time label on bottom
       const timeDate = new Date(crosshairPos.time);
@@ -562,20 +613,20 @@ export function ChartWidget({
     ctx.font = 'bold 10px monospace';
     ctx.textAlign = 'left';
     ctx.textBaseline = 'middle';
-    ctx.fillText(currentPrice.toFixed(5), dimensions.width - padding.right + 5, priceY);
+    ctx.fillText(formatPrice(currentPrice, instrument), dimensions.width - padding.right + 5, priceY);
 
-    // Time label on current bar
-    if (displayCandles.length > 0) {
+    // Time label on current bar; trade-built bars close on activity, not time
+    if (displayCandles.length > 0 && !barSettings) {
       const lastCandle = displayCandles[displayCandles.length - 1];
       const now = new Date();
       const candleTime = new Date(lastCandle.time);
-      const timeframeMs = timeframe === '1m' ? 60000 : timeframe === '5m' ? 300000 : timeframe === '15m' ? 900000 : timeframe === '30m' ? 1800000 : timeframe === '1h' ? 3600000 : timeframe === '4h' ? 14400000 : 86400000;
+      const timeframeMs = timeframeToMs(timeframe);
       const remaining = Math.max(0, timeframeMs - (now.getTime() - candleTime.getTime()));
       const mins = Math.floor(remaining / 60000);
       const secs = Math.floor((remaining % 60000) / 1000);
       const timeStr = `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
 
-      const lastX = padding.left + (displayCandles.length - 1) * candleSpacing + candleSpacing / 2 + panOffset;
+      const lastX = padding.left + (displayCandles.length - 1) * candleSpacing + candleSpacing / 2 + offset;
       ctx.fillStyle = priceLineColor;
       ctx.fillRect(lastX - 18, priceY + 12, 36, 14);
       ctx.fillStyle = '#fff';
@@ -592,25 +643,26 @@ export function ChartWidget({
     for (let i = 0; i <= gridLines; i++) {
       const price = maxPrice - (priceRange / gridLines) * i;
       const y = padding.top + (drawHeight / gridLines) * i;
-      ctx.fillText(price.toFixed(5), dimensions.width - 3, y + 3);
+      ctx.fillText(formatPrice(price, instrument, { reference: maxPrice }), dimensions.width - 3, y + 3);
     }
 
     // X-axis time labels
     ctx.fillStyle = '#555';
     ctx.font = '9px monospace';
     ctx.textAlign = 'center';
-    const timeLabels = Math.min(8, displayCandles.length);
+    const { firstVisible, lastVisible } = viewport;
+    const timeLabels = Math.min(8, lastVisible - firstVisible + 1);
     for (let i = 0; i < timeLabels; i++) {
-      const idx = Math.floor((i / (timeLabels - 1)) * (displayCandles.length - 1));
+      const idx = firstVisible + Math.floor((i / Math.max(1, timeLabels - 1)) * (lastVisible - firstVisible));
       if (displayCandles[idx]) {
-        const x = padding.left + idx * candleSpacing + panOffset;
+        const x = padding.left + idx * candleSpacing + offset;
         const date = new Date(displayCandles[idx].time);
         const timeStr = `${date.getHours().toString().padStart(2, '0')}:${date.getMinutes().toString().padStart(2, '0')}`;
         ctx.fillText(timeStr, x, chartHeight - 5);
       }
     }
 
-  }, [candles, dimensions, chartType, indicators, showGrid, showCrosshair, crosshairPos, currentPrice, priceInfo.change, zoomLevel, panOffset, showVolume, timeframe]);
+  }, [candles, displayCandles, dimensions, chartType, indicators, sma20, ema12, vwap, bollinger, showGrid, showCrosshair, crosshairPos, currentPrice, instrument, priceInfo.change, viewport, showVolume, timeframe, barSettings]);
 
   // Draw volume
   useEffect(() => {
@@ -625,17 +677,17 @@ export function ChartWidget({
     canvas.height = 50 * dpr;
     ctx.scale(dpr, dpr);
 
-    const padding = { left: 5, right: 55 };
-    const chartWidth = (dimensions.width - padding.left - padding.right) * zoomLevel;
-    const candleSpacing = chartWidth / candles.length;
+    const padding = CHART_PADDING;
+    const { candleSpacing, offset, firstVisible, lastVisible } = viewport;
 
     ctx.fillStyle = '#0c0c0e';
     ctx.fillRect(0, 0, dimensions.width, 50);
 
     ctx.save();
-    ctx.translate(panOffset, 0);
+    ctx.translate(offset, 0);
 
-    const maxVolume = Math.max(...candles.map(c => c.volume));
+    // Scale bars to the volume on screen
+    const maxVolume = Math.max(...candles.slice(firstVisible, lastVisible + 1).map(c => c.volume));
 
     for (let i = 0; i < candles.length; i++) {
       const candle = candles[i];
@@ -649,7 +701,7 @@ export function ChartWidget({
 
     ctx.restore();
 
-  }, [candles, dimensions, showVolume, zoomLevel, panOffset]);
+  }, [candles, dimensions, showVolume, viewport]);
 
   const displaySymbol = `${symbol?.base || 'BTC'}/${symbol?.quote || 'USDT'}`;
 
@@ -679,31 +731,31 @@ export function ChartWidget({
           {crosshairPos?.candle ? (
             <div className="flex items-center gap-2 text-[10px] ml-2">
               <span className="text-zinc-500">O</span>
-              <span className="text-white">{crosshairPos.candle.open.toFixed(5)}</span>
+              <span className="text-white">{formatPrice(crosshairPos.candle.open, instrument)}</span>
               <span className="text-zinc-500">H</span>
-              <span className="text-emerald-400">{crosshairPos.candle.high.toFixed(5)}</span>
+              <span className="text-emerald-400">{formatPrice(crosshairPos.candle.high, instrument)}</span>
               <span className="text-zinc-500">L</span>
-              <span className="text-red-400">{crosshairPos.candle.low.toFixed(5)}</span>
+              <span className="text-red-400">{formatPrice(crosshairPos.candle.low, instrument)}</span>
               <span className="text-zinc-500">C</span>
-              <span className="text-white">{crosshairPos.candle.close.toFixed(5)}</span>
+              <span className="text-white">{formatPrice(crosshairPos.candle.close, instrument)}</span>
               <span className="text-zinc-500">D</span>
               <span className={priceInfo.change >= 0 ? 'text-emerald-400' : 'text-red-400'}>
-                {(crosshairPos.candle.close - crosshairPos.candle.open).toFixed(0)}
+                {formatPrice(crosshairPos.candle.close - crosshairPos.candle.open, instrument, { reference: crosshairPos.candle.close })}
               </span>
             </div>
           ) : candles.length > 0 && (
             <div className="flex items-center gap-2 text-[10px] ml-2">
               <span className="text-zinc-500">O</span>
-              <span className="text-white">{priceInfo.open.toFixed(5)}</span>
+              <span className="text-white">{formatPrice(priceInfo.open, instrument)}</span>
               <span className="text-zinc-500">H</span>
-              <span className="text-emerald-400">{priceInfo.high.toFixed(5)}</span>
+              <span className="text-emerald-400">{formatPrice(priceInfo.high, instrument)}</span>
               <span className="text-zinc-500">L</span>
-              <span className="text-red-400">{priceInfo.low.toFixed(5)}</span>
+              <span className="text-red-400">{formatPrice(priceInfo.low, instrument)}</span>
               <span className="text-zinc-500">C</span>
-              <span className="text-white">{priceInfo.close.toFixed(5)}</span>
+              <span className="text-white">{formatPrice(priceInfo.close, instrument)}</span>
               <span className="text-zinc-500">D</span>
               <span className={priceInfo.change >= 0 ? 'text-emerald-400' : 'text-red-400'}>
-                {priceInfo.change.toFixed(0)}
+                {formatPrice(priceInfo.change, instrument, { reference: priceInfo.close })}
               </span>
             </div>
           )}
@@ -738,20 +790,57 @@ export function ChartWidget({
       <div className="h-7 bg-[#0f0f12] border-b border-zinc-800 flex items-center justify-between px-2 shrink-0">
         {/* Left - Timeframes */}
         <div className="flex items-center gap-0.5">
-          {TIMEFRAMES.map((tf) => (
+          {timeframeFavorites.map((tf) => (
             <button
-              key={tf.value}
+              key={tf}
               type="button"
-              onClick={() => setTimeframe(tf.value)}
+              onClick={() => handleTimeframeSelect(tf)}
               className={`px-2 py-0.5 text-[10px] font-medium rounded transition-colors ${
-                timeframe === tf.value
+                !barSettings && timeframe === tf
                   ? 'bg-zinc-700 text-white'
                   : 'text-zinc-500 hover:text-white hover:bg-zinc-800'
               }`}
             >
-              {tf.label}
+              {timeframeLabel(tf)}
             </button>
           ))}
+          <div className="relative">
+            <button
+              type="button"
+              onClick={() => setShowTimeframeMenu(!showTimeframeMenu)}
+              className={`flex items-center px-1.5 py-0.5 text-[10px] font-medium rounded transition-colors ${
+                timeframeFavorites.includes(timeframe)
+                  ? 'text-zinc-500 hover:text-white hover:bg-zinc-800'
+                  : 'bg-zinc-700 text-white'
+              }`}
+            >
+              {!timeframeFavorites.includes(timeframe) && timeframeLabel(timeframe)}
+              <ChevronDown className="w-3 h-3" />
+            </button>
+            {showTimeframeMenu && (
+              <TimeframeMenu value={timeframe} onSelect={handleTimeframeSelect} onClose={() => setShowTimeframeMenu(false)} />
+            )}
+          </div>
+          <div className="relative ml-1">
+            <button
+              type="button"
+              onClick={() => setShowBarMenu(!showBarMenu)}
+              className={`px-1.5 py-0.5 text-[10px] font-medium rounded transition-colors ${
+                barSettings ? 'bg-zinc-700 text-white' : 'text-zinc-500 hover:text-white hover:bg-zinc-800'
+              }`}
+              title="Build bars from trades"
+            >
+              {barSettings ? barSettingsLabel(barSettings) : 'Bars'}
+            </button>
+            {showBarMenu && (
+              <BarTypeMenu
+                value={barSettings}
+                candles={timeCandles}
+                onChange={setBarSettings}
+                onClose={() => setShowBarMenu(false)}
+              />
+            )}
+          </div>
         </div>
 
         {/* Right - Chart controls */}
@@ -853,7 +942,7 @@ export function ChartWidget({
         onDoubleClick={handleDoubleClick}
         style={{ cursor: isDragging ? 'grabbing' : 'crosshair' }}
       >
-        {isLoading ? (
+        {(barSettings ? tradeBars.isLoading : isLoading) ? (
           <div className="absolute inset-0 flex items-center justify-center bg-[#0c0c0e]">
             <div className="flex flex-col items-center gap-2">
               <div className="w-6 h-6 border-2 border-zinc-700 border-t-cyan-500 rounded-full animate-spin" />
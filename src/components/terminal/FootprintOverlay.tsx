@@ -1,11 +1,12 @@
 "use client";
 
-import React, { useRef, useEffect, useState, useCallback } from 'react';
+import React, { useRef, useEffect, useMemo } from 'react';
 import type { CandleData, FootprintCandle } from '@/lib/types';
-import { calculateFootprint } from '@/lib/indicators';
 
 interface FootprintOverlayProps {
   candles: CandleData[];
+  footprint: FootprintCandle[] | null; // From trades; candles without one are left bare
+  levelSize: number;
   width: number;
   height: number;
   padding: { top: number; right: number; bottom: number; left: number };
@@ -13,12 +14,20 @@ interface FootprintOverlayProps {
 
 export function FootprintOverlay({
   candles,
+  footprint,
+  levelSize,
   width,
   height,
   padding,
 }: FootprintOverlayProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
 
+  // Footprints lined up with the visible candles
+  const footprintData = useMemo(() => {
+    const byTime = new Map((footprint ?? []).map((fp) => [fp.time, fp]));
+    return candles.map((candle) => byTime.get(candle.time) ?? null);
+  }, [candles, footprint]);
+
   useEffect(() => {
     const canvas = canvasRef.current;
     if (!canvas || candles.length === 0 || width === 0) return;
@@ -47,39 +56,40 @@ export function FootprintOverlay({
 
     const candleSpacing = chartWidth / candles.length;
 
-    // Calculate footprint data
-    const footprintData = calculateFootprint(candles, 8);
-
     // Find max volume for normalization
     const maxVolume = Math.max(
+      0,
       ...footprintData.flatMap(fp =>
-        fp.levels.map(l => Math.max(l.bidVolume, l.askVolume))
+        fp ? fp.levels.map(l => Math.max(l.bidVolume, l.askVolume)) : []
       )
     );
+    if (maxVolume === 0) return;
+
+    // Each level covers [price, price + levelSize)
+    const levelHeightPx = (levelSize / priceRange) * chartHeight;
 
     // Draw footprint for each candle
     for (let i = 0; i < footprintData.length; i++) {
       const fp = footprintData[i];
+      if (!fp) continue;
       const candle = candles[i];
       const x = padding.left + i * candleSpacing;
       const candleWidth = candleSpacing * 0.9;
 
       // Draw each level
       for (const level of fp.levels) {
-        const y = priceToY(level.price);
-        const levelHeight = (candle.high - candle.low) / fp.levels.length;
-        const levelHeightPx = (levelHeight / priceRange) * chartHeight;
+        const y = priceToY(level.price + levelSize / 2);
 
         // Normalize volumes for display
         const bidWidth = (level.bidVolume / maxVolume) * (candleWidth / 2) * 0.8;
         const askWidth = (level.askVolume / maxVolume) * (candleWidth / 2) * 0.8;
 
-        // Draw bid side (left, green)
+        // Draw bid side (left, red): sellers hitting the bid
         if (bidWidth > 1) {
           const bidAlpha = Math.min(0.3 + (level.bidVolume / maxVolume) * 0.5, 0.8);
           ctx.fillStyle = level.imbalance === 'bid'
-            ? `rgba(34, 197, 94, ${bidAlpha + 0.2})`  // Bright green for imbalance
-            : `rgba(34, 197, 94, ${bidAlpha})`;
+            ? `rgba(239, 68, 68, ${bidAlpha + 0.2})`  // Bright red for imbalance
+            : `rgba(239, 68, 68, ${bidAlpha})`;
 
           ctx.fillRect(
             x + candleWidth / 2 - bidWidth,
@@ -90,19 +100,19 @@ export function FootprintOverlay({
 
           // Draw imbalance indicator
           if (level.imbalance === 'bid') {
-            ctx.fillStyle = '#22c55e';
+            ctx.fillStyle = '#ef4444';
             ctx.beginPath();
             ctx.arc(x + candleWidth / 2 - bidWidth - 3, y, 2, 0, Math.PI * 2);
             ctx.fill();
           }
         }
 
-        // Draw ask side (right, red)
+        // Draw ask side (right, green): buyers lifting the ask
         if (askWidth > 1) {
           const askAlpha = Math.min(0.3 + (level.askVolume / maxVolume) * 0.5, 0.8);
           ctx.fillStyle = level.imbalance === 'ask'
-            ? `rgba(239, 68, 68, ${askAlpha + 0.2})`  // Bright red for imbalance
-            : `rgba(239, 68, 68, ${askAlpha})`;
+            ? `rgba(34, 197, 94, ${askAlpha + 0.2})`  // Bright green for imbalance
+            : `rgba(34, 197, 94, ${askAlpha})`;
 
           ctx.fillRect(
             x + candleWidth / 2,
@@ -113,7 +123,7 @@ export function FootprintOverlay({
 
           // Draw imbalance indicator
           if (level.imbalance === 'ask') {
-            ctx.fillStyle = '#ef4444';
+            ctx.fillStyle = '#22c55e';
             ctx.beginPath();
             ctx.arc(x + candleWidth / 2 + askWidth + 3, y, 2, 0, Math.PI * 2);
             ctx.fill();
@@ -127,7 +137,7 @@ export function FootprintOverlay({
           ctx.textBaseline = 'middle';
 
           if (level.bidVolume > maxVolume * 0.3) {
-            ctx.fillStyle = '#22c55e';
+            ctx.fillStyle = '#ef4444';
             ctx.fillText(
               formatVolume(level.bidVolume),
               x + candleWidth / 4,
@@ -136,7 +146,7 @@ export function FootprintOverlay({
           }
 
           if (level.askVolume > maxVolume * 0.3) {
-            ctx.fillStyle = '#ef4444';
+            ctx.fillStyle = '#22c55e';
             ctx.fillText(
               formatVolume(level.askVolume),
               x + (candleWidth * 3) / 4,
@@ -147,7 +157,7 @@ export function FootprintOverlay({
       }
 
       // Draw POC line (Point of Control)
-      const pocY = priceToY(fp.pocPrice);
+      const pocY = priceToY(fp.pocPrice + levelSize / 2);
       ctx.strokeStyle = 'rgba(251, 191, 36, 0.7)';
       ctx.lineWidth = 1;
       ctx.setLineDash([2, 2]);
@@ -171,7 +181,7 @@ export function FootprintOverlay({
         );
       }
     }
-  }, [candles, width, height, padding]);
+  }, [candles, width, height, padding, footprintData, levelSize]);
 
   return (
     <canvas
@@ -194,5 +204,5 @@ function formatVolume(volume: number): string {
   if (absVolume >= 1000) {
     return `${(volume / 1000).toFixed(1)}K`;
   }
-  return volume.toFixed(0);
+  return absVolume >= 10 ? volume.toFixed(0) : volume.toFixed(2);
 }
@@ -0,0 +1,159 @@
+"use client";
+
+import React, { useRef, useEffect, useState, useCallback } from 'react';
+import type { AssetContext, Symbol } from '@/lib/types';
+import { annualizedFunding, formatFundingRate, fundingInterval } from '@/lib/funding';
+import { useFundingHistory } from '@/hooks/useFundingHistory';
+
+interface FundingPanelProps {
+  symbol: Symbol;
+  context: AssetContext | null; // Live predicted rate, drawn after the settled ones
+  height?: number;
+}
+
+const HISTORY_LIMIT = 90;
+
+export function FundingPanel({ symbol, context, height = 120 }: FundingPanelProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [dimensions, setDimensions] = useState({ width: 0, height });
+  const history = useFundingHistory(symbol, HISTORY_LIMIT);
+
+  const updateDimensions = useCallback(() => {
+    if (containerRef.current) {
+      const rect = containerRef.current.getBoundingClientRect();
+      setDimensions({ width: rect.width, height });
+    }
+  }, [height]);
+
+  useEffect(() => {
+    updateDimensions();
+    window.addEventListener('resize', updateDimensions);
+    return () => window.removeEventListener('resize', updateDimensions);
+  }, [updateDimensions]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || dimensions.width === 0) return;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = dimensions.width * dpr;
+    canvas.height = dimensions.height * dpr;
+    ctx.scale(dpr, dpr);
+
+    const padding = { top: 20, right: 80, bottom: 20, left: 10 };
+    const chartWidth = dimensions.width - padding.left - padding.right;
+    const chartHeight = dimensions.height - padding.top - padding.bottom;
+
+    // Clear canvas
+    ctx.fillStyle = '#0a0a0c';
+    ctx.fillRect(0, 0, dimensions.width, dimensions.height);
+
+    // Draw title
+    ctx.fillStyle = '#f59e0b';
+    ctx.font = 'bold 10px monospace';
+    ctx.textAlign = 'left';
+    ctx.fillText('FUNDING', padding.left + 5, padding.top - 5);
+
+    if (history.length === 0 && !context) {
+      ctx.fillStyle = '#666';
+      ctx.font = '10px monospace';
+      ctx.fillText(
+        symbol.type === 'spot' ? 'Funding is only paid on perpetuals' : 'No funding history',
+        padding.left + 60,
+        padding.top - 5
+      );
+      return;
+    }
+
+    // Settled rates, then the predicted one
+    const rates = history.map((point) => point.fundingRate);
+    if (context) rates.push(context.fundingRate);
+
+    // Symmetric range so zero sits in the middle
+    const maxAbs = Math.max(...rates.map((rate) => Math.abs(rate))) || 0.0001;
+    const rateToY = (rate: number) => padding.top + chartHeight / 2 - (rate / maxAbs) * (chartHeight / 2);
+    const zeroY = rateToY(0);
+
+    // Draw grid lines
+    ctx.strokeStyle = '#1a1a1f';
+    ctx.lineWidth = 1;
+    for (const y of [padding.top, padding.top + chartHeight]) {
+      ctx.beginPath();
+      ctx.moveTo(padding.left, y);
+      ctx.lineTo(dimensions.width - padding.right, y);
+      ctx.stroke();
+    }
+    ctx.strokeStyle = '#3f3f46';
+    ctx.setLineDash([4, 4]);
+    ctx.beginPath();
+    ctx.moveTo(padding.left, zeroY);
+    ctx.lineTo(dimensions.width - padding.right, zeroY);
+    ctx.stroke();
+    ctx.setLineDash([]);
+
+    // Draw rate bars, the predicted one outlined
+    const spacing = chartWidth / rates.length;
+    const barWidth = Math.max(2, spacing * 0.7);
+    for (let i = 0; i < rates.length; i++) {
+      const rate = rates[i];
+      const x = padding.left + i * spacing + (spacing - barWidth) / 2;
+      const y = Math.min(zeroY, rateToY(rate));
+      const barHeight = Math.max(1, Math.abs(rateToY(rate) - zeroY));
+      const isPredicted = context !== null && i === rates.length - 1;
+
+      if (isPredicted) {
+        ctx.strokeStyle = '#f59e0b';
+        ctx.lineWidth = 1;
+        ctx.strokeRect(x, y, barWidth, barHeight);
+      } else {
+        ctx.fillStyle = rate >= 0 ? 'rgba(34, 197, 94, 0.6)' : 'rgba(239, 68, 68, 0.6)';
+        ctx.fillRect(x, y, barWidth, barHeight);
+      }
+    }
+
+    // Draw rate labels on right axis
+    ctx.fillStyle = '#666';
+    ctx.font = '9px monospace';
+    ctx.textAlign = 'right';
+    ctx.fillText(formatFundingRate(maxAbs), dimensions.width - 5, padding.top + 3);
+    ctx.fillText('0', dimensions.width - 5, zeroY + 3);
+    ctx.fillText(formatFundingRate(-maxAbs), dimensions.width - 5, padding.top + chartHeight + 3);
+
+    // Draw current (predicted) rate tag
+    const latest = rates[rates.length - 1];
+    const latestY = rateToY(latest);
+    ctx.fillStyle = '#f59e0b';
+    ctx.fillRect(dimensions.width - padding.right, latestY - 8, padding.right - 5, 16);
+    ctx.fillStyle = '#000';
+    ctx.font = 'bold 9px monospace';
+    ctx.textAlign = 'left';
+    ctx.fillText(formatFundingRate(latest), dimensions.width - padding.right + 3, latestY + 3);
+
+    // Average of the settled rates, and what it comes to over a year
+    if (history.length > 0) {
+      const average = history.reduce((sum, point) => sum + point.fundingRate, 0) / history.length;
+      const interval = fundingInterval(history);
+      const summary = interval
+        ? `avg ${formatFundingRate(average)}  APR ${formatFundingRate(annualizedFunding(average, interval), 2)}`
+        : `avg ${formatFundingRate(average)}`;
+      ctx.fillStyle = '#a1a1aa';
+      ctx.font = '9px monospace';
+      ctx.fillText(`${summary}  (${history.length} settlements)`, padding.left + 60, padding.top - 5);
+    }
+
+  }, [history, context, dimensions, symbol.type]);
+
+  return (
+    <div ref={containerRef} className="w-full bg-[#0a0a0c] border-t border-zinc-800" style={{ height }}>
+      <canvas
+        ref={canvasRef}
+        style={{ width: dimensions.width, height: dimensions.height }}
+        className="block"
+      />
+    </div>
+  );
+}
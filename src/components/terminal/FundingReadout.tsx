@@ -0,0 +1,38 @@
+"use client";
+
+import React from 'react';
+import type { AssetContext, InstrumentInfo } from '@/lib/types';
+import { formatPrice } from '@/lib/format';
+import { formatCountdown, formatFundingRate } from '@/lib/funding';
+import { useCountdown } from '@/hooks/useCountdown';
+
+interface FundingReadoutProps {
+  context: AssetContext;
+  instrument?: InstrumentInfo | null;
+}
+
+// Compact mark / funding / countdown strip for the toolbar
+export function FundingReadout({ context, instrument }: FundingReadoutProps) {
+  const remaining = useCountdown(context.nextFundingTime);
+
+  return (
+    <div className="flex items-center gap-3 px-2 text-xs font-mono">
+      <div className="flex items-center gap-1" title="Mark price">
+        <span className="text-zinc-500">Mark</span>
+        <span className="text-white">{formatPrice(context.markPrice, instrument, { grouping: true })}</span>
+      </div>
+      <div className="flex items-center gap-1" title="Predicted rate for the next funding">
+        <span className="text-zinc-500">Funding</span>
+        <span className={context.fundingRate >= 0 ? 'text-emerald-400' : 'text-red-400'}>
+          {formatFundingRate(context.fundingRate)}
+        </span>
+      </div>
+      {remaining !== null && (
+        <div className="flex items-center gap-1" title="Time to next funding">
+          <span className="text-zinc-500">in</span>
+          <span className="text-amber-400">{formatCountdown(remaining)}</span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+"use client";
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { X, Percent, ArrowUp, ArrowDown, Search } from 'lucide-react';
+import { fetchMarketFundingRates, hasFundingRates } from '@/lib/marketData';
+import type { AssetContext, Symbol as SymbolType } from '@/lib/types';
+import { EXCHANGES } from '@/lib/data';
+import { formatPrice } from '@/lib/format';
+import { formatCountdown, formatFundingRate } from '@/lib/funding';
+
+interface FundingTableWidgetProps {
+  symbol: SymbolType;
+  onClose?: () => void;
+}
+
+type SortKey = 'symbol' | 'rate' | 'mark' | 'next';
+
+const REFRESH_INTERVAL = 30 * 1000;
+const MAX_ROWS = 200;
+
+// Spot Binance shares the USD-M listing, so only the futures entry is offered
+const FUNDING_EXCHANGES = EXCHANGES.filter((exchange) => exchange.id !== 'binance' && hasFundingRates(exchange.id));
+
+function defaultExchange(symbol: SymbolType): string {
+  if (symbol.exchange !== 'binance' && hasFundingRates(symbol.exchange)) return symbol.exchange;
+  return 'binancef';
+}
+
+// Funding across every perpetual on one venue, sortable, with the current
+// symbol highlighted
+export function FundingTableWidget({ symbol, onClose }: FundingTableWidgetProps) {
+  const [exchange, setExchange] = useState(() => defaultExchange(symbol));
+  const [rates, setRates] = useState<AssetContext[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [filter, setFilter] = useState('');
+  const [sort, setSort] = useState<{ key: SortKey; descending: boolean }>({ key: 'rate', descending: true });
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    setExchange(defaultExchange(symbol));
+  }, [symbol]);
+
+  // Load the venue's rates and refresh them while the widget is open
+  useEffect(() => {
+    let cancelled = false;
+    setRates([]);
+    setIsLoading(true);
+
+    const load = () => {
+      fetchMarketFundingRates(exchange)
+        .then((next) => {
+          if (!cancelled) setRates(next);
+        })
+        .catch((error) => console.error('Failed to fetch funding rates:', error))
+        .finally(() => {
+          if (!cancelled) setIsLoading(false);
+        });
+    };
+    load();
+    const refreshTimer = setInterval(load, REFRESH_INTERVAL);
+
+    return () => {
+      cancelled = true;
+      clearInterval(refreshTimer);
+    };
+  }, [exchange]);
+
+  // Countdowns tick between refreshes
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const rows = useMemo(() => {
+    const query = filter.trim().toUpperCase();
+    const filtered = query ? rates.filter((rate) => rate.symbol.toUpperCase().includes(query)) : rates;
+    const value = (rate: AssetContext): number | string => {
+      switch (sort.key) {
+        case 'symbol':
+          return rate.symbol;
+        case 'mark':
+          return rate.markPrice;
+        case 'next':
+          return rate.nextFundingTime ?? Infinity;
+        default:
+          return rate.fundingRate;
+      }
+    };
+    const sorted = [...filtered].sort((a, b) => {
+      const left = value(a);
+      const right = value(b);
+      const order = typeof left === 'string' ? left.localeCompare(String(right)) : left - (right as number);
+      return sort.descending ? -order : order;
+    });
+    return sorted.slice(0, MAX_ROWS);
+  }, [rates, filter, sort]);
+
+  const toggleSort = (key: SortKey) => {
+    setSort((prev) => (prev.key === key ? { key, descending: !prev.descending } : { key, descending: key !== 'symbol' }));
+  };
+
+  // Venues name perpetuals either by pair (BTCUSDT) or by coin (BTC)
+  const isCurrent = (rate: AssetContext) =>
+    rate.symbol === `${symbol.base}${symbol.quote}`.toUpperCase() || rate.symbol === symbol.base.toUpperCase();
+
+  const sortIcon = (key: SortKey) =>
+    sort.key === key ? (sort.descending ? <ArrowDown className="w-2.5 h-2.5" /> : <ArrowUp className="w-2.5 h-2.5" />) : null;
+
+  return (
+    <div className="h-full flex flex-col bg-[#0a0a0c]">
+      {/* Header */}
+      <div className="h-8 flex items-center justify-between px-3 border-b border-zinc-800 bg-zinc-900/50 flex-shrink-0">
+        <div className="flex items-center gap-2">
+          <Percent className="w-3 h-3 text-amber-500" />
+          <span className="text-xs font-medium text-white">Funding Rates</span>
+          <select
+            value={exchange}
+            onChange={(e) => setExchange(e.target.value)}
+            className="bg-zinc-800 border border-zinc-700 rounded px-1 py-0.5 text-[10px] text-zinc-300 focus:outline-none"
+          >
+            {FUNDING_EXCHANGES.map((option) => (
+              <option key={option.id} value={option.id}>
+                {option.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        {onClose && (
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-1 hover:bg-zinc-800 rounded text-zinc-500 hover:text-white"
+          >
+            <X className="w-3 h-3" />
+          </button>
+        )}
+      </div>
+
+      {/* Filter */}
+      <div className="flex items-center gap-2 px-3 py-1.5 border-b border-zinc-800/50 bg-zinc-900/30 flex-shrink-0">
+        <Search className="w-3 h-3 text-zinc-500" />
+        <input
+          type="text"
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          placeholder="Filter symbols"
+          className="flex-1 bg-transparent text-xs text-white placeholder-zinc-600 focus:outline-none"
+        />
+        <span className="text-[10px] text-zinc-500">{rates.length} perps</span>
+      </div>
+
+      {/* Column Headers */}
+      <div className="grid grid-cols-4 gap-2 px-3 py-1.5 text-[10px] text-zinc-500 uppercase tracking-wide border-b border-zinc-800/50 flex-shrink-0">
+        {([
+          ['symbol', 'Symbol', ''],
+          ['rate', 'Funding', 'justify-end'],
+          ['mark', 'Mark', 'justify-end'],
+          ['next', 'Next', 'justify-end'],
+        ] as const).map(([key, label, align]) => (
+          <button
+            key={key}
+            type="button"
+            onClick={() => toggleSort(key)}
+            className={`flex items-center gap-0.5 uppercase hover:text-white ${align}`}
+          >
+            {label}
+            {sortIcon(key)}
+          </button>
+        ))}
+      </div>
+
+      {/* Rates */}
+      <div className="flex-1 overflow-y-auto scrollbar-thin">
+        {rows.length > 0 ? (
+          rows.map((rate) => (
+            <div
+              key={rate.symbol}
+              className={`grid grid-cols-4 gap-2 px-3 py-1 text-xs font-mono border-b border-zinc-900 ${
+                isCurrent(rate) ? 'bg-cyan-500/10' : 'hover:bg-zinc-800/30'
+              }`}
+            >
+              <span className="text-white truncate">{rate.symbol}</span>
+              <span className={`text-right ${rate.fundingRate >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+                {formatFundingRate(rate.fundingRate)}
+              </span>
+              <span className="text-right text-zinc-300">{formatPrice(rate.markPrice, null)}</span>
+              <span className="text-right text-zinc-400">
+                {rate.nextFundingTime ? formatCountdown(rate.nextFundingTime - now) : '-'}
+              </span>
+            </div>
+          ))
+        ) : (
+          <div className="flex items-center justify-center h-full text-xs text-zinc-500">
+            {isLoading ? 'Loading funding rates...' : 'No funding rates'}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,14 +1,15 @@
 "use client";
 
 import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
-import type { OrderBookUpdate } from '@/lib/binance';
-import { BinanceWebSocket, fetchKlines, toBinanceInterval } from '@/lib/binance';
-import type { CandleData, TimeFrame } from '@/lib/types';
+import { createMarketStream, fetchMarketKlines, parseSymbol, upsertCandle, type MarketStream } from '@/lib/marketData';
+import type { CandleData, OrderBookUpdate, TimeFrame, Symbol as SymbolType } from '@/lib/types';
+import { formatPrice, formatQuantity } from '@/lib/format';
+import { useInstrument } from '@/hooks/useInstrument';
 import { Settings, X } from 'lucide-react';
 import { HeatmapSettingsModal, defaultHeatmapSettings, type HeatmapSettings } from './HeatmapSettingsModal';
 
 interface HeatmapWidgetProps {
-  symbol?: string;
+  symbol?: SymbolType;
   onClose?: () => void;
 }
 
@@ -79,8 +80,8 @@ const COLORMAPS: Record<string, string[]> = {
   fire: ['#1a0000', '#4a0000', '#8b0000', '#ff4500', '#ffa500', '#ffff00'],
 };
 
-export function HeatmapWidget({ symbol: initialSymbol = 'LTC/USDT', onClose }: HeatmapWidgetProps) {
-  const [selectedSymbol, setSelectedSymbol] = useState(initialSymbol);
+export function HeatmapWidget({ symbol: initialSymbol, onClose }: HeatmapWidgetProps) {
+  const [selectedSymbol, setSelectedSymbol] = useState<SymbolType>(initialSymbol ?? parseSymbol('LTC/USDT'));
   const [updateInterval, setUpdateInterval] = useState(500);
   const [maxHeatmapSize, setMaxHeatmapSize] = useState(100);
   const [levels, setLevels] = useState(20);
@@ -97,11 +98,12 @@ export function HeatmapWidget({ symbol: initialSymbol = 'LTC/USDT', onClose }: H
   const [orderBook, setOrderBook] = useState<OrderBookUpdate | null>(null);
   const [candles, setCandles] = useState<CandleData[]>([]);
   const [isConnected, setIsConnected] = useState(false);
+  const instrument = useInstrument(selectedSymbol);
 
   const heatmapCanvasRef = useRef<HTMLCanvasElement>(null);
   const chartCanvasRef = useRef<HTMLCanvasElement>(null);
   const barChartCanvasRef = useRef<HTMLCanvasElement>(null);
-  const wsRef = useRef<BinanceWebSocket | null>(null);
+  const wsRef = useRef<MarketStream | null>(null);
   const updateTimerRef = useRef<NodeJS.Timeout | null>(null);
 
   const containerRef = useRef<HTMLDivElement>(null);
@@ -207,7 +209,7 @@ export function HeatmapWidget({ symbol: initialSymbol = 'LTC/USDT', onClose }: H
   useEffect(() => {
     const loadData = async () => {
       try {
-        const klines = await fetchKlines(selectedSymbol, '1m', 100);
+        const klines = await fetchMarketKlines(selectedSymbol, '1m', 100);
         if (klines.length > 0) {
           setCandles(klines);
           setCurrentPrice(klines[klines.length - 1].close);
@@ -224,20 +226,10 @@ export function HeatmapWidget({ symbol: initialSymbol = 'LTC/USDT', onClose }: H
       wsRef.current.disconnect();
     }
 
-    wsRef.current = new BinanceWebSocket(selectedSymbol, '1m', {
+    wsRef.current = createMarketStream(selectedSymbol, { interval: '1m', channels: ['kline', 'depth'] }, {
       onPrice: (price) => setCurrentPrice(price),
-      onKline: (kline, isClosed) => {
-        setCandles((prev) => {
-          if (prev.length === 0) return [kline];
-          const newCandles = [...prev];
-          if (isClosed) {
-            newCandles.push(kline);
-            if (newCandles.length > 100) newCandles.shift();
-          } else {
-            newCandles[newCandles.length - 1] = kline;
-          }
-          return newCandles;
-        });
+      onKline: (kline) => {
+        setCandles((prev) => upsertCandle(prev, kline).slice(-100));
       },
       onOrderBook: (update) => {
         setOrderBook(update);
@@ -381,7 +373,7 @@ export function HeatmapWidget({ symbol: initialSymbol = 'LTC/USDT', onClose }: H
     for (let i = 0; i <= priceSteps; i++) {
       const price = extendedMax - (extendedRange / priceSteps) * i;
       const y = padding.top + (chartHeight / priceSteps) * i;
-      ctx.fillText(price.toFixed(2), padding.left - 5, y + 3);
+      ctx.fillText(formatPrice(price, instrument, { reference: extendedMax }), padding.left - 5, y + 3);
     }
 
     // Draw time axis
@@ -397,7 +389,7 @@ export function HeatmapWidget({ symbol: initialSymbol = 'LTC/USDT', onClose }: H
       }
     }
 
-  }, [heatmapData, orderBook, currentPrice, getHeatmapColor, scaleValue, heatmapSettings.extendHeatmap, heatmapSettings.style]);
+  }, [heatmapData, orderBook, currentPrice, instrument, getHeatmapColor, scaleValue, heatmapSettings.extendHeatmap, heatmapSettings.style]);
 
   // Draw Candlestick Chart
   useEffect(() => {
@@ -466,10 +458,10 @@ export function HeatmapWidget({ symbol: initialSymbol = 'LTC/USDT', onClose }: H
     for (let i = 0; i <= 5; i++) {
       const price = maxPrice - (priceRange / 5) * i;
       const y = padding.top + (chartHeight / 5) * i;
-      ctx.fillText(price.toFixed(2), width - 5, y + 3);
+      ctx.fillText(formatPrice(price, instrument, { reference: maxPrice }), width - 5, y + 3);
     }
 
-  }, [candles]);
+  }, [candles, instrument]);
 
   // Draw Bar Chart (Order Book Depth)
   useEffect(() => {
@@ -542,13 +534,13 @@ export function HeatmapWidget({ symbol: initialSymbol = 'LTC/USDT', onClose }: H
     ctx.textAlign = 'center';
 
     if (sortedBids[sortedBids.length - 1]) {
-      ctx.fillText(sortedBids[sortedBids.length - 1].price.toFixed(2), padding.left + 20, height - 5);
+      ctx.fillText(formatPrice(sortedBids[sortedBids.length - 1].price, instrument), padding.left + 20, height - 5);
     }
     if (sortedAsks[sortedAsks.length - 1]) {
-      ctx.fillText(sortedAsks[sortedAsks.length - 1].price.toFixed(2), width - padding.right - 20, height - 5);
+      ctx.fillText(formatPrice(sortedAsks[sortedAsks.length - 1].price, instrument), width - padding.right - 20, height - 5);
     }
 
-  }, [orderBook, levels, theme]);
+  }, [orderBook, levels, theme, instrument]);
 
   return (
     <div className="w-full h-full flex flex-col bg-[#040404] text-[#d4d4d4] font-mono text-sm overflow-hidden">
@@ -558,8 +550,8 @@ export function HeatmapWidget({ symbol: initialSymbol = 'LTC/USDT', onClose }: H
         <div className="flex flex-col gap-1">
           <label className="text-[#7c7c7c] text-[11px]">symbol</label>
           <select
-            value={selectedSymbol}
-            onChange={(e) => setSelectedSymbol(e.target.value)}
+            value={`${selectedSymbol.base}/${selectedSymbol.quote}`}
+            onChange={(e) => setSelectedSymbol(parseSymbol(e.target.value))}
             className="bg-[#242424] text-[#d4d4d4] border border-[#3c3c3c] rounded px-2 py-1 text-xs focus:outline-none focus:border-[#575757] cursor-pointer"
           >
             {SYMBOLS.map((s) => (
@@ -651,7 +643,7 @@ export function HeatmapWidget({ symbol: initialSymbol = 'LTC/USDT', onClose }: H
           <div className={`w-2 h-2 rounded-full ${isConnected ? 'bg-green-500' : 'bg-red-500'}`} />
           <span className="text-[11px] text-[#7c7c7c]">{isConnected ? 'Live' : 'Disconnected'}</span>
           {currentPrice > 0 && (
-            <span className="text-[#ffd700] font-bold">${currentPrice.toFixed(2)}</span>
+            <span className="text-[#ffd700] font-bold">${formatPrice(currentPrice, instrument)}</span>
           )}
           {onClose && (
             <button
@@ -720,15 +712,15 @@ export function HeatmapWidget({ symbol: initialSymbol = 'LTC/USDT', onClose }: H
                 <tbody>
                   {orderBook && orderBook.bids.slice(0, 15).map(([price, quantity], i) => (
                     <tr key={`bid-${price}-${i}`} className="text-cyan-400">
-                      <td className="px-2 py-0.5">{parseFloat(quantity).toFixed(4)}</td>
-                      <td className="px-2 py-0.5">{parseFloat(price).toFixed(2)}</td>
+                      <td className="px-2 py-0.5">{formatQuantity(parseFloat(quantity), instrument)}</td>
+                      <td className="px-2 py-0.5">{formatPrice(parseFloat(price), instrument)}</td>
                       <td className="px-2 py-0.5">{new Date().toLocaleTimeString()}</td>
                     </tr>
                   ))}
                   {orderBook && orderBook.asks.slice(0, 15).map(([price, quantity], i) => (
                     <tr key={`ask-${price}-${i}`} className="text-red-400">
-                      <td className="px-2 py-0.5">{parseFloat(quantity).toFixed(4)}</td>
-                      <td className="px-2 py-0.5">{parseFloat(price).toFixed(2)}</td>
+                      <td className="px-2 py-0.5">{formatQuantity(parseFloat(quantity), instrument)}</td>
+                      <td className="px-2 py-0.5">{formatPrice(parseFloat(price), instrument)}</td>
                       <td className="px-2 py-0.5">{new Date().toLocaleTimeString()}</td>
                     </tr>
                   ))}
@@ -1,105 +1,68 @@
 "use client";
 
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { X, Settings, Zap, TrendingUp, TrendingDown, AlertTriangle } from 'lucide-react';
+import { createMarketStream, parseSymbol, type MarketStream } from '@/lib/marketData';
+import type { LiquidationEvent, Symbol as SymbolType } from '@/lib/types';
+import { formatPrice } from '@/lib/format';
+import { useInstrument } from '@/hooks/useInstrument';
 
-interface Liquidation {
+interface Liquidation extends LiquidationEvent {
   id: string;
-  symbol: string;
-  side: 'SELL' | 'BUY'; // SELL = long liquidated, BUY = short liquidated
-  orderType: string;
-  quantity: number;
-  price: number;
-  averagePrice: number;
-  orderStatus: string;
-  time: number;
   value: number;
 }
 
 interface LiquidationsWidgetProps {
-  symbol?: string;
+  symbol?: SymbolType;
   onClose?: () => void;
 }
 
-export function LiquidationsWidget({ symbol = 'BTC/USDT', onClose }: LiquidationsWidgetProps) {
+const DEFAULT_SYMBOL = parseSymbol('BTC/USDT');
+
+export function LiquidationsWidget({ symbol = DEFAULT_SYMBOL, onClose }: LiquidationsWidgetProps) {
   const [liquidations, setLiquidations] = useState<Liquidation[]>([]);
   const [isConnected, setIsConnected] = useState(false);
   const [filter, setFilter] = useState<'all' | 'longs' | 'shorts'>('all');
   const [totalLongs, setTotalLongs] = useState(0);
   const [totalShorts, setTotalShorts] = useState(0);
-  const wsRef = useRef<WebSocket | null>(null);
-
-  // Format symbol for Binance WebSocket
-  const formatSymbol = useCallback((sym: string) => {
-    return sym.replace('/', '').toLowerCase();
-  }, []);
+  const wsRef = useRef<MarketStream | null>(null);
+  const instrument = useInstrument(symbol);
 
-  // Connect to Binance Futures Liquidation Stream
+  // Subscribe to the symbol's liquidation stream
   useEffect(() => {
-    const formattedSymbol = formatSymbol(symbol);
-    // Using all liquidation stream for now (more active)
-    const wsUrl = `wss://fstream.binance.com/ws/${formattedSymbol}@forceOrder`;
-
-    const connect = () => {
-      wsRef.current = new WebSocket(wsUrl);
-
-      wsRef.current.onopen = () => {
-        setIsConnected(true);
-      };
-
-      wsRef.current.onmessage = (event) => {
-        try {
-          const data = JSON.parse(event.data);
-          const order = data.o;
-
-          const liquidation: Liquidation = {
-            id: `${order.s}-${order.T}`,
-            symbol: order.s,
-            side: order.S,
-            orderType: order.o,
-            quantity: parseFloat(order.q),
-            price: parseFloat(order.p),
-            averagePrice: parseFloat(order.ap),
-            orderStatus: order.X,
-            time: order.T,
-            value: parseFloat(order.q) * parseFloat(order.p),
-          };
-
-          setLiquidations((prev) => {
-            const newLiqs = [liquidation, ...prev].slice(0, 100);
-            return newLiqs;
-          });
-
-          // Update totals
-          if (order.S === 'SELL') {
-            setTotalLongs((prev) => prev + liquidation.value);
-          } else {
-            setTotalShorts((prev) => prev + liquidation.value);
-          }
-        } catch (error) {
-          console.error('Error parsing liquidation data:', error);
+    wsRef.current = createMarketStream(symbol, { channels: ['liquidations'] }, {
+      onLiquidation: (event) => {
+        const liquidation: Liquidation = {
+          ...event,
+          id: `${event.symbol}-${event.time}-${event.price}`,
+          value: event.quantity * event.price,
+        };
+
+        setLiquidations((prev) => {
+          const newLiqs = [liquidation, ...prev].slice(0, 100);
+          return newLiqs;
+        });
+
+        // Update totals
+        if (event.side === 'SELL') {
+          setTotalLongs((prev) => prev + liquidation.value);
+        } else {
+          setTotalShorts((prev) => prev + liquidation.value);
         }
-      };
-
-      wsRef.current.onclose = () => {
-        setIsConnected(false);
-        // Reconnect after 3 seconds
-        setTimeout(connect, 3000);
-      };
-
-      wsRef.current.onerror = () => {
-        wsRef.current?.close();
-      };
-    };
+      },
+      onConnect: () => setIsConnected(true),
+      onDisconnect: () => setIsConnected(false),
+      onError: (error) => console.error('Liquidation stream error:', error),
+    });
 
-    connect();
+    wsRef.current.connect();
 
     return () => {
       if (wsRef.current) {
-        wsRef.current.close();
+        wsRef.current.disconnect();
       }
     };
-  }, [symbol, formatSymbol]);
+  }, [symbol]);
 
   // Filter liquidations
   const filteredLiquidations = liquidations.filter((liq) => {
@@ -140,7 +103,7 @@ export function LiquidationsWidget({ symbol = 'BTC/USDT', onClose }: Liquidation
         <div className="flex items-center gap-2">
           <Zap className="w-3 h-3 text-amber-500" />
           <span className="text-xs font-medium text-white">Liquidations</span>
-          <span className="text-[10px] text-zinc-500">{symbol}</span>
+          <span className="text-[10px] text-zinc-500">{symbol.base}/{symbol.quote}</span>
           <div
             className={`w-1.5 h-1.5 rounded-full ${
               isConnected ? 'bg-emerald-500' : 'bg-red-500'
@@ -251,10 +214,7 @@ export function LiquidationsWidget({ symbol = 'BTC/USDT', onClose }: Liquidation
                   )}
                 </span>
                 <span className="text-right text-zinc-300">
-                  ${liq.price.toLocaleString(undefined, {
-                    minimumFractionDigits: 0,
-                    maximumFractionDigits: 0,
-                  })}
+                  ${formatPrice(liq.price, instrument, { grouping: true })}
                 </span>
                 <span
                   className={`text-right ${
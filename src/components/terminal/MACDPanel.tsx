@@ -2,7 +2,8 @@
 
 import React, { useRef, useEffect, useState, useCallback } from 'react';
 import type { CandleData } from '@/lib/types';
-import { calculateMACD, type MACDData } from '@/lib/indicators';
+import type { MACDData } from '@/lib/indicators';
+import { useIndicator } from '@/hooks/useIndicator';
 
 interface MACDPanelProps {
   candles: CandleData[];
@@ -23,6 +24,7 @@ export function MACDPanel({
   const containerRef = useRef<HTMLDivElement>(null);
   const [dimensions, setDimensions] = useState({ width: 0, height: 0 });
   const [crosshair, setCrosshair] = useState<{ x: number; macd: number; signal: number; histogram: number; time: number } | null>(null);
+  const macdData = useIndicator(candles, { name: 'macd', fastPeriod, slowPeriod, signalPeriod });
 
   const updateDimensions = useCallback(() => {
     if (containerRef.current) {
@@ -47,18 +49,15 @@ export function MACDPanel({
     const padding = { top: 15, right: 80, bottom: 20, left: 10 };
     const chartWidth = dimensions.width - padding.left - padding.right;
 
-    const macdData = calculateMACD(candles, fastPeriod, slowPeriod, signalPeriod);
-    if (macdData.length === 0) return;
+    if (!macdData || macdData.length === 0) return;
 
     const candleSpacing = chartWidth / candles.length;
     const candleIndex = Math.floor((mouseX - padding.left) / candleSpacing);
 
-    // Find the closest MACD data point
-    const dataStartIdx = candles.length - macdData.length;
-    const macdIdx = candleIndex - dataStartIdx;
+    // The MACD point for the hovered candle, matched by time
+    const data = candles[candleIndex] && macdData.find((point) => point.time === candles[candleIndex].time);
 
-    if (macdIdx >= 0 && macdIdx < macdData.length) {
-      const data = macdData[macdIdx];
+    if (data) {
       setCrosshair({
         x: mouseX,
         macd: data.macd,
@@ -67,7 +66,7 @@ export function MACDPanel({
         time: data.time,
       });
     }
-  }, [candles, dimensions, fastPeriod, slowPeriod, signalPeriod]);
+  }, [candles, dimensions, macdData]);
 
   const handleMouseLeave = useCallback(() => {
     setCrosshair(null);
@@ -93,9 +92,7 @@ export function MACDPanel({
     ctx.fillStyle = '#0c0c0e';
     ctx.fillRect(0, 0, dimensions.width, dimensions.height);
 
-    // Calculate MACD
-    const macdData = calculateMACD(candles, fastPeriod, slowPeriod, signalPeriod);
-    if (macdData.length === 0) return;
+    if (!macdData || macdData.length === 0) return;
 
     // Find min/max for scaling
     let minVal = Number.POSITIVE_INFINITY;
@@ -127,12 +124,18 @@ export function MACDPanel({
 
     // Draw histogram bars
     const barWidth = Math.max(1, candleSpacing * 0.6);
-    const dataStartIdx = candles.length - macdData.length;
+    // Points are placed by time; a result a worker round trip behind the
+    // candles leaves the newest ones without a point for a moment
+    const candleIndex = new Map(candles.map((candle, index) => [candle.time, index]));
+    const xAt = (time: number) => {
+      const idx = candleIndex.get(time);
+      return idx === undefined ? null : padding.left + idx * candleSpacing + candleSpacing / 2;
+    };
 
     for (let i = 0; i < macdData.length; i++) {
       const data = macdData[i];
-      const candleIdx = dataStartIdx + i;
-      const x = padding.left + candleIdx * candleSpacing + candleSpacing / 2;
+      const x = xAt(data.time);
+      if (x === null) continue;
       const barTop = valueToY(data.histogram);
 
       // Color based on histogram direction and value
@@ -157,12 +160,14 @@ export function MACDPanel({
     ctx.strokeStyle = '#3b82f6';
     ctx.lineWidth = 1.5;
     ctx.beginPath();
-    for (let i = 0; i < macdData.length; i++) {
-      const candleIdx = dataStartIdx + i;
-      const x = padding.left + candleIdx * candleSpacing + candleSpacing / 2;
-      const y = valueToY(macdData[i].macd);
-      if (i === 0) ctx.moveTo(x, y);
+    let started = false;
+    for (const data of macdData) {
+      const x = xAt(data.time);
+      if (x === null) continue;
+      const y = valueToY(data.macd);
+      if (!started) ctx.moveTo(x, y);
       else ctx.lineTo(x, y);
+      started = true;
     }
     ctx.stroke();
 
@@ -170,21 +175,21 @@ export function MACDPanel({
     ctx.strokeStyle = '#f97316';
     ctx.lineWidth = 1.5;
     ctx.beginPath();
-    for (let i = 0; i < macdData.length; i++) {
-      const candleIdx = dataStartIdx + i;
-      const x = padding.left + candleIdx * candleSpacing + candleSpacing / 2;
-      const y = valueToY(macdData[i].signal);
-      if (i === 0) ctx.moveTo(x, y);
+    started = false;
+    for (const data of macdData) {
+      const x = xAt(data.time);
+      if (x === null) continue;
+      const y = valueToY(data.signal);
+      if (!started) ctx.moveTo(x, y);
       else ctx.lineTo(x, y);
+      started = true;
     }
     ctx.stroke();
 
     // Draw current values
-    if (macdData.length > 0) {
-      const lastData = macdData[macdData.length - 1];
-      const lastCandleIdx = dataStartIdx + macdData.length - 1;
-      const x = padding.left + lastCandleIdx * candleSpacing + candleSpacing / 2;
-
+    const lastData = macdData[macdData.length - 1];
+    const x = lastData ? xAt(lastData.time) : null;
+    if (lastData && x !== null) {
       // MACD dot
       ctx.fillStyle = '#3b82f6';
       ctx.beginPath();
@@ -253,7 +258,7 @@ export function MACDPanel({
     ctx.fillStyle = '#888';
     ctx.fillText('Signal', legendX + 62, 12);
 
-  }, [candles, dimensions, fastPeriod, slowPeriod, signalPeriod, crosshair]);
+  }, [candles, dimensions, fastPeriod, slowPeriod, signalPeriod, crosshair, macdData]);
 
   return (
     <div
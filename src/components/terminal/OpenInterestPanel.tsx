@@ -0,0 +1,179 @@
+"use client";
+
+import React, { useRef, useEffect, useState, useCallback, useMemo } from 'react';
+import type { CandleData, Symbol } from '@/lib/types';
+import { alignOpenInterest } from '@/lib/openInterest';
+import { useOpenInterest } from '@/hooks/useOpenInterest';
+
+interface OpenInterestPanelProps {
+  symbol: Symbol;
+  timeframe: string;
+  candles: CandleData[];
+  height?: number;
+}
+
+function formatOpenInterest(value: number, decimals: number): string {
+  const abs = Math.abs(value);
+  if (abs >= 1_000_000_000) return `${(value / 1_000_000_000).toFixed(decimals)}B`;
+  if (abs >= 1_000_000) return `${(value / 1_000_000).toFixed(decimals)}M`;
+  if (abs >= 1_000) return `${(value / 1_000).toFixed(decimals)}K`;
+  return value.toFixed(decimals);
+}
+
+export function OpenInterestPanel({ symbol, timeframe, candles, height = 120 }: OpenInterestPanelProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [dimensions, setDimensions] = useState({ width: 0, height });
+  const { points, isLoading } = useOpenInterest(symbol, timeframe);
+  const bars = useMemo(() => alignOpenInterest(candles, points), [candles, points]);
+
+  const updateDimensions = useCallback(() => {
+    if (containerRef.current) {
+      const rect = containerRef.current.getBoundingClientRect();
+      setDimensions({ width: rect.width, height });
+    }
+  }, [height]);
+
+  useEffect(() => {
+    updateDimensions();
+    window.addEventListener('resize', updateDimensions);
+    return () => window.removeEventListener('resize', updateDimensions);
+  }, [updateDimensions]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || candles.length === 0 || dimensions.width === 0) return;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = dimensions.width * dpr;
+    canvas.height = dimensions.height * dpr;
+    ctx.scale(dpr, dpr);
+
+    const padding = { top: 20, right: 80, bottom: 20, left: 10 };
+    const chartWidth = dimensions.width - padding.left - padding.right;
+    const chartHeight = dimensions.height - padding.top - padding.bottom;
+    const candleSpacing = chartWidth / candles.length;
+    const columnX = (i: number) => padding.left + i * candleSpacing + candleSpacing / 2;
+
+    // Clear canvas
+    ctx.fillStyle = '#0a0a0c';
+    ctx.fillRect(0, 0, dimensions.width, dimensions.height);
+
+    // Draw grid lines
+    ctx.strokeStyle = '#1a1a1f';
+    ctx.lineWidth = 1;
+    const gridLines = 3;
+    for (let i = 0; i <= gridLines; i++) {
+      const y = padding.top + (chartHeight / gridLines) * i;
+      ctx.beginPath();
+      ctx.moveTo(padding.left, y);
+      ctx.lineTo(dimensions.width - padding.right, y);
+      ctx.stroke();
+    }
+
+    // Draw title
+    ctx.fillStyle = '#f97316';
+    ctx.font = 'bold 10px monospace';
+    ctx.textAlign = 'left';
+    ctx.fillText('OI', padding.left + 5, padding.top - 5);
+
+    const levels = bars.map((bar) => bar.openInterest).filter((value): value is number => value !== null);
+    if (levels.length === 0) {
+      ctx.fillStyle = '#666';
+      ctx.font = '10px monospace';
+      ctx.fillText(
+        symbol.type === 'spot' ? 'Open interest is only available for futures' : isLoading ? 'Loading open interest...' : 'No open interest data',
+        padding.left + 30,
+        padding.top - 5
+      );
+      return;
+    }
+
+    // Find OI range
+    const minOI = Math.min(...levels);
+    const maxOI = Math.max(...levels);
+    const oiRange = maxOI - minOI || maxOI * 0.001 || 1;
+    const oiToY = (oi: number) =>
+      padding.top + chartHeight - ((oi - minOI) / oiRange) * chartHeight;
+
+    // Highlight candles where OI and price pull apart
+    ctx.fillStyle = 'rgba(245, 158, 11, 0.12)';
+    for (let i = 0; i < bars.length; i++) {
+      if (bars[i].divergence) {
+        ctx.fillRect(padding.left + i * candleSpacing, padding.top, candleSpacing, chartHeight);
+      }
+    }
+
+    // Draw delta bars along the bottom third, scaled to the largest change
+    const maxDelta = Math.max(...bars.map((bar) => Math.abs(bar.delta))) || 1;
+    const barWidth = Math.max(2, candleSpacing * 0.6);
+    const deltaHeight = chartHeight / 3;
+    const baseY = padding.top + chartHeight - deltaHeight / 2;
+
+    for (let i = 0; i < bars.length; i++) {
+      const delta = bars[i].delta;
+      if (delta === 0) continue;
+      const barHeight = Math.max(1, (Math.abs(delta) / maxDelta) * (deltaHeight / 2));
+      ctx.fillStyle = delta > 0 ? 'rgba(34, 197, 94, 0.5)' : 'rgba(239, 68, 68, 0.5)';
+      ctx.fillRect(columnX(i) - barWidth / 2, delta > 0 ? baseY - barHeight : baseY, barWidth, barHeight);
+    }
+
+    // Draw OI line, starting where the history does
+    ctx.strokeStyle = '#f97316';
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    let started = false;
+    for (let i = 0; i < bars.length; i++) {
+      const oi = bars[i].openInterest;
+      if (oi === null) continue;
+      if (started) {
+        ctx.lineTo(columnX(i), oiToY(oi));
+      } else {
+        ctx.moveTo(columnX(i), oiToY(oi));
+        started = true;
+      }
+    }
+    ctx.stroke();
+
+    // Draw OI value labels on right axis
+    ctx.fillStyle = '#666';
+    ctx.font = '9px monospace';
+    ctx.textAlign = 'right';
+    const labels = [maxOI, (maxOI + minOI) / 2, minOI];
+    for (let i = 0; i < labels.length; i++) {
+      const y = padding.top + (chartHeight / 2) * i;
+      ctx.fillText(formatOpenInterest(labels[i], 1), dimensions.width - 5, y + 3);
+    }
+
+    // Draw current OI value
+    const lastOI = levels[levels.length - 1];
+    const lastY = oiToY(lastOI);
+    ctx.fillStyle = '#f97316';
+    ctx.fillRect(dimensions.width - padding.right, lastY - 8, padding.right - 5, 16);
+    ctx.fillStyle = '#000';
+    ctx.font = 'bold 9px monospace';
+    ctx.textAlign = 'left';
+    ctx.fillText(formatOpenInterest(lastOI, 2), dimensions.width - padding.right + 3, lastY + 3);
+
+    // Legend for the divergence shading
+    if (bars.some((bar) => bar.divergence)) {
+      ctx.fillStyle = '#f59e0b';
+      ctx.font = '9px monospace';
+      ctx.fillText('▮ OI/price divergence', padding.left + 30, padding.top - 5);
+    }
+
+  }, [candles, dimensions, bars, isLoading, symbol.type]);
+
+  return (
+    <div ref={containerRef} className="w-full bg-[#0a0a0c] border-t border-zinc-800" style={{ height }}>
+      <canvas
+        ref={canvasRef}
+        style={{ width: dimensions.width, height: dimensions.height }}
+        className="block"
+      />
+    </div>
+  );
+}
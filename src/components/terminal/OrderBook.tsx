@@ -1,14 +1,16 @@
 "use client";
 
 import React, { useMemo } from 'react';
-import type { OrderBookUpdate } from '@/lib/binance';
+import type { InstrumentInfo, OrderBookUpdate } from '@/lib/types';
+import { formatPrice, formatQuantity } from '@/lib/format';
 
 interface OrderBookProps {
   data: OrderBookUpdate;
   currentPrice: number;
+  instrument?: InstrumentInfo | null;
 }
 
-export function OrderBook({ data, currentPrice }: OrderBookProps) {
+export function OrderBook({ data, currentPrice, instrument }: OrderBookProps) {
   const { bids, asks } = useMemo(() => {
     // Parse and sort bids (highest first)
     const parsedBids = data.bids
@@ -57,8 +59,8 @@ export function OrderBook({ data, currentPrice }: OrderBookProps) {
                 className="absolute right-0 top-0 h-full bg-red-500/20"
                 style={{ width: `${(ask.quantity / maxQty) * 100}%` }}
               />
-              <span className="relative text-red-400">{ask.price.toFixed(2)}</span>
-              <span className="relative text-zinc-400">{ask.quantity.toFixed(4)}</span>
+              <span className="relative text-red-400">{formatPrice(ask.price, instrument, { reference: currentPrice })}</span>
+              <span className="relative text-zinc-400">{formatQuantity(ask.quantity, instrument, { reference: maxQty })}</span>
             </div>
           ))}
       </div>
@@ -66,7 +68,7 @@ export function OrderBook({ data, currentPrice }: OrderBookProps) {
       {/* Current Price Divider */}
       <div className="flex items-center justify-center py-2 border-y border-zinc-700 bg-zinc-900/50">
         <span className="text-amber-500 font-bold text-sm">
-          {currentPrice.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+          {formatPrice(currentPrice, instrument, { grouping: true })}
         </span>
       </div>
 
@@ -79,8 +81,8 @@ export function OrderBook({ data, currentPrice }: OrderBookProps) {
               className="absolute right-0 top-0 h-full bg-emerald-500/20"
               style={{ width: `${(bid.quantity / maxQty) * 100}%` }}
             />
-            <span className="relative text-emerald-400">{bid.price.toFixed(2)}</span>
-            <span className="relative text-zinc-400">{bid.quantity.toFixed(4)}</span>
+            <span className="relative text-emerald-400">{formatPrice(bid.price, instrument, { reference: currentPrice })}</span>
+            <span className="relative text-zinc-400">{formatQuantity(bid.quantity, instrument, { reference: maxQty })}</span>
           </div>
         ))}
       </div>
@@ -0,0 +1,324 @@
+"use client";
+
+import React, { useRef, useEffect, useState, useCallback } from 'react';
+import { X, Users } from 'lucide-react';
+import { fetchMarketKlines, fetchMarketPositioning } from '@/lib/marketData';
+import type { CandleData, PositioningPoint, Symbol as SymbolType } from '@/lib/types';
+import { formatPrice } from '@/lib/format';
+import { timeframeLabel } from '@/lib/timeframes';
+import { useInstrument } from '@/hooks/useInstrument';
+
+interface PositioningWidgetProps {
+  symbol: SymbolType;
+  onClose?: () => void;
+}
+
+type RatioKey = 'topAccountRatio' | 'topPositionRatio' | 'globalAccountRatio';
+
+const PERIODS = ['5m', '15m', '30m', '1h', '4h', '1d'];
+const HISTORY_LIMIT = 200;
+const REFRESH_INTERVAL = 60 * 1000;
+
+const RATIO_SERIES: { key: RatioKey; label: string; color: string }[] = [
+  { key: 'topAccountRatio', label: 'Top Accounts', color: '#22d3ee' },
+  { key: 'topPositionRatio', label: 'Top Positions', color: '#a78bfa' },
+  { key: 'globalAccountRatio', label: 'All Accounts', color: '#f59e0b' },
+];
+
+function formatVolume(value: number): string {
+  const abs = Math.abs(value);
+  if (abs >= 1_000_000) return `${(value / 1_000_000).toFixed(2)}M`;
+  if (abs >= 1_000) return `${(value / 1_000).toFixed(2)}K`;
+  return value.toFixed(2);
+}
+
+// Long/short ratios and taker buy/sell volume under the price, one column
+// per period, for venues that publish futures positioning
+export function PositioningWidget({ symbol, onClose }: PositioningWidgetProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [dimensions, setDimensions] = useState({ width: 0, height: 0 });
+  const [period, setPeriod] = useState('1h');
+  const [points, setPoints] = useState<PositioningPoint[]>([]);
+  const [candles, setCandles] = useState<CandleData[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const instrument = useInstrument(symbol);
+
+  const updateDimensions = useCallback(() => {
+    if (containerRef.current) {
+      const rect = containerRef.current.getBoundingClientRect();
+      setDimensions((prev) =>
+        prev.width === rect.width && prev.height === rect.height ? prev : { width: rect.width, height: rect.height }
+      );
+    }
+  }, []);
+
+  // Widgets resize without a window resize, so poll the container too
+  useEffect(() => {
+    updateDimensions();
+    window.addEventListener('resize', updateDimensions);
+    const interval = setInterval(updateDimensions, 500);
+    return () => {
+      window.removeEventListener('resize', updateDimensions);
+      clearInterval(interval);
+    };
+  }, [updateDimensions]);
+
+  // Load positioning and price for the period, and refresh while open
+  useEffect(() => {
+    let cancelled = false;
+    setPoints([]);
+    setCandles([]);
+    setIsLoading(true);
+
+    const load = () => {
+      Promise.all([
+        fetchMarketPositioning(symbol, period, HISTORY_LIMIT).catch((error) => {
+          console.error('Failed to fetch positioning:', error);
+          return [] as PositioningPoint[];
+        }),
+        fetchMarketKlines(symbol, period, HISTORY_LIMIT).catch((error) => {
+          console.error('Failed to fetch positioning prices:', error);
+          return [] as CandleData[];
+        }),
+      ]).then(([nextPoints, nextCandles]) => {
+        if (cancelled) return;
+        setPoints(nextPoints);
+        setCandles(nextCandles);
+        setIsLoading(false);
+      });
+    };
+    load();
+    const refreshTimer = setInterval(load, REFRESH_INTERVAL);
+
+    return () => {
+      cancelled = true;
+      clearInterval(refreshTimer);
+    };
+  }, [symbol, period]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || dimensions.width === 0 || dimensions.height === 0) return;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = dimensions.width * dpr;
+    canvas.height = dimensions.height * dpr;
+    ctx.scale(dpr, dpr);
+
+    const padding = { top: 20, right: 70, bottom: 20, left: 10 };
+    const chartWidth = dimensions.width - padding.left - padding.right;
+    const chartHeight = dimensions.height - padding.top - padding.bottom;
+
+    // Clear canvas
+    ctx.fillStyle = '#0a0a0c';
+    ctx.fillRect(0, 0, dimensions.width, dimensions.height);
+
+    if (points.length === 0) {
+      ctx.fillStyle = '#666';
+      ctx.font = '10px monospace';
+      ctx.textAlign = 'center';
+      ctx.fillText(
+        isLoading ? 'Loading positioning...' : 'No positioning data for this market',
+        dimensions.width / 2,
+        dimensions.height / 2
+      );
+      return;
+    }
+
+    // Three stacked sections sharing one time axis
+    const gap = 16;
+    const priceHeight = (chartHeight - gap * 2) * 0.4;
+    const ratioHeight = (chartHeight - gap * 2) * 0.35;
+    const takerHeight = (chartHeight - gap * 2) * 0.25;
+    const priceTop = padding.top;
+    const ratioTop = priceTop + priceHeight + gap;
+    const takerTop = ratioTop + ratioHeight + gap;
+
+    const start = points[0].time;
+    const end = points[points.length - 1].time;
+    const spacing = chartWidth / points.length;
+    const timeToX = (time: number) =>
+      padding.left + spacing / 2 + (end > start ? ((time - start) / (end - start)) * (chartWidth - spacing) : 0);
+
+    const drawSectionFrame = (top: number, height: number, title: string, color: string) => {
+      ctx.strokeStyle = '#1a1a1f';
+      ctx.lineWidth = 1;
+      for (const y of [top, top + height]) {
+        ctx.beginPath();
+        ctx.moveTo(padding.left, y);
+        ctx.lineTo(dimensions.width - padding.right, y);
+        ctx.stroke();
+      }
+      ctx.fillStyle = color;
+      ctx.font = 'bold 10px monospace';
+      ctx.textAlign = 'left';
+      ctx.fillText(title, padding.left + 5, top - 4);
+    };
+
+    const drawLine = (values: [number, number][], toY: (value: number) => number, color: string, width: number) => {
+      if (values.length === 0) return;
+      ctx.strokeStyle = color;
+      ctx.lineWidth = width;
+      ctx.beginPath();
+      values.forEach(([time, value], i) => {
+        if (i === 0) ctx.moveTo(timeToX(time), toY(value));
+        else ctx.lineTo(timeToX(time), toY(value));
+      });
+      ctx.stroke();
+    };
+
+    const drawTag = (y: number, text: string, color: string) => {
+      ctx.fillStyle = color;
+      ctx.fillRect(dimensions.width - padding.right, y - 8, padding.right - 5, 16);
+      ctx.fillStyle = '#000';
+      ctx.font = 'bold 9px monospace';
+      ctx.textAlign = 'left';
+      ctx.fillText(text, dimensions.width - padding.right + 3, y + 3);
+    };
+
+    const axisLabel = (y: number, text: string) => {
+      ctx.fillStyle = '#666';
+      ctx.font = '9px monospace';
+      ctx.textAlign = 'right';
+      ctx.fillText(text, dimensions.width - 5, y + 3);
+    };
+
+    // Price, limited to the positioning window
+    drawSectionFrame(priceTop, priceHeight, 'PRICE', '#e4e4e7');
+    const prices = candles
+      .filter((candle) => candle.time >= start && candle.time <= end)
+      .map((candle): [number, number] => [candle.time, candle.close]);
+    if (prices.length > 0) {
+      const minPrice = Math.min(...prices.map(([, price]) => price));
+      const maxPrice = Math.max(...prices.map(([, price]) => price));
+      const priceRange = maxPrice - minPrice || maxPrice * 0.001 || 1;
+      const priceToY = (price: number) => priceTop + priceHeight - ((price - minPrice) / priceRange) * priceHeight;
+      drawLine(prices, priceToY, '#e4e4e7', 1.5);
+      axisLabel(priceTop, formatPrice(maxPrice, instrument));
+      axisLabel(priceTop + priceHeight, formatPrice(minPrice, instrument));
+      const lastPrice = prices[prices.length - 1][1];
+      drawTag(priceToY(lastPrice), formatPrice(lastPrice, instrument), '#e4e4e7');
+    }
+
+    // Long/short ratios around the balanced line
+    drawSectionFrame(ratioTop, ratioHeight, 'LONG/SHORT', '#22d3ee');
+    const ratios = RATIO_SERIES.flatMap(({ key }) =>
+      points.map((point) => point[key]).filter((value): value is number => value !== undefined)
+    );
+    if (ratios.length > 0) {
+      const minRatio = Math.min(1, ...ratios);
+      const maxRatio = Math.max(1, ...ratios);
+      const ratioRange = maxRatio - minRatio || 0.1;
+      const ratioToY = (ratio: number) => ratioTop + ratioHeight - ((ratio - minRatio) / ratioRange) * ratioHeight;
+
+      ctx.strokeStyle = '#3f3f46';
+      ctx.lineWidth = 1;
+      ctx.setLineDash([4, 4]);
+      ctx.beginPath();
+      ctx.moveTo(padding.left, ratioToY(1));
+      ctx.lineTo(dimensions.width - padding.right, ratioToY(1));
+      ctx.stroke();
+      ctx.setLineDash([]);
+
+      for (const { key, color } of RATIO_SERIES) {
+        const series = points
+          .filter((point) => point[key] !== undefined)
+          .map((point): [number, number] => [point.time, point[key] as number]);
+        drawLine(series, ratioToY, color, 1.5);
+      }
+      axisLabel(ratioTop, maxRatio.toFixed(2));
+      axisLabel(ratioToY(1), '1.00');
+      axisLabel(ratioTop + ratioHeight, minRatio.toFixed(2));
+    }
+
+    // Taker buys above the midline, sells below
+    drawSectionFrame(takerTop, takerHeight, 'TAKER VOL', '#22c55e');
+    const takers = points.filter((point) => point.takerBuyVolume !== undefined && point.takerSellVolume !== undefined);
+    if (takers.length > 0) {
+      const maxVolume = Math.max(...takers.map((point) => Math.max(point.takerBuyVolume ?? 0, point.takerSellVolume ?? 0))) || 1;
+      const midY = takerTop + takerHeight / 2;
+      const barWidth = Math.max(1, spacing * 0.7);
+      for (const point of takers) {
+        const x = timeToX(point.time) - barWidth / 2;
+        const buyHeight = ((point.takerBuyVolume ?? 0) / maxVolume) * (takerHeight / 2);
+        const sellHeight = ((point.takerSellVolume ?? 0) / maxVolume) * (takerHeight / 2);
+        ctx.fillStyle = 'rgba(34, 197, 94, 0.6)';
+        ctx.fillRect(x, midY - buyHeight, barWidth, buyHeight);
+        ctx.fillStyle = 'rgba(239, 68, 68, 0.6)';
+        ctx.fillRect(x, midY, barWidth, sellHeight);
+      }
+      axisLabel(takerTop, formatVolume(maxVolume));
+      axisLabel(takerTop + takerHeight, formatVolume(-maxVolume));
+    }
+
+  }, [points, candles, dimensions, isLoading, instrument]);
+
+  // Latest value of each series for the legend
+  const latest = points[points.length - 1];
+  const takerTotal = latest ? (latest.takerBuyVolume ?? 0) + (latest.takerSellVolume ?? 0) : 0;
+
+  return (
+    <div className="h-full flex flex-col bg-[#0a0a0c]">
+      {/* Header */}
+      <div className="h-8 flex items-center justify-between px-3 border-b border-zinc-800 bg-zinc-900/50 flex-shrink-0">
+        <div className="flex items-center gap-2">
+          <Users className="w-3 h-3 text-cyan-400" />
+          <span className="text-xs font-medium text-white">Positioning</span>
+          <div className="flex items-center gap-0.5">
+            {PERIODS.map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setPeriod(option)}
+                className={`px-1.5 py-0.5 text-[10px] rounded ${
+                  period === option ? 'bg-cyan-500/20 text-cyan-400' : 'text-zinc-500 hover:text-white'
+                }`}
+              >
+                {timeframeLabel(option)}
+              </button>
+            ))}
+          </div>
+        </div>
+        {onClose && (
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-1 hover:bg-zinc-800 rounded text-zinc-500 hover:text-white"
+          >
+            <X className="w-3 h-3" />
+          </button>
+        )}
+      </div>
+
+      {/* Legend */}
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-0.5 px-3 py-1 border-b border-zinc-800/50 bg-zinc-900/30 text-[10px] font-mono flex-shrink-0">
+        {RATIO_SERIES.map(({ key, label, color }) => (
+          <span key={key} className="flex items-center gap-1 text-zinc-400">
+            <span className="w-2 h-2 rounded-full" style={{ backgroundColor: color }} />
+            {label}
+            <span className="text-white">{latest?.[key] !== undefined ? latest[key]?.toFixed(2) : '-'}</span>
+          </span>
+        ))}
+        <span className="text-zinc-400">
+          Taker Buy{' '}
+          <span className="text-emerald-400">
+            {latest && takerTotal > 0 ? `${(((latest.takerBuyVolume ?? 0) / takerTotal) * 100).toFixed(1)}%` : '-'}
+          </span>
+        </span>
+      </div>
+
+      {/* Chart */}
+      <div ref={containerRef} className="flex-1 min-h-0">
+        <canvas
+          ref={canvasRef}
+          style={{ width: dimensions.width, height: dimensions.height }}
+          className="block"
+        />
+      </div>
+    </div>
+  );
+}
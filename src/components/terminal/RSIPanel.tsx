@@ -2,7 +2,7 @@
 
 import React, { useRef, useEffect, useState, useCallback } from 'react';
 import type { CandleData } from '@/lib/types';
-import { calculateRSI, type IndicatorData } from '@/lib/indicators';
+import { useIndicator } from '@/hooks/useIndicator';
 
 interface RSIPanelProps {
   candles: CandleData[];
@@ -23,6 +23,7 @@ export function RSIPanel({
   const containerRef = useRef<HTMLDivElement>(null);
   const [dimensions, setDimensions] = useState({ width: 0, height: 0 });
   const [crosshair, setCrosshair] = useState<{ x: number; y: number; value: number; time: number } | null>(null);
+  const rsiData = useIndicator(candles, { name: 'rsi', period });
 
   const updateDimensions = useCallback(() => {
     if (containerRef.current) {
@@ -47,27 +48,23 @@ export function RSIPanel({
 
     const padding = { top: 15, right: 80, bottom: 20, left: 10 };
     const chartWidth = dimensions.width - padding.left - padding.right;
-    const chartHeight = dimensions.height - padding.top - padding.bottom;
 
-    const rsiData = calculateRSI(candles, period);
-    if (rsiData.length === 0) return;
+    if (!rsiData || rsiData.length === 0) return;
 
     const candleSpacing = chartWidth / candles.length;
     const candleIndex = Math.floor((mouseX - padding.left) / candleSpacing);
 
-    if (candleIndex >= 0 && candleIndex < rsiData.length) {
-      const rsiIdx = Math.min(candleIndex, rsiData.length - 1);
-      const value = rsiData[rsiIdx]?.value || 0;
-      const y = padding.top + chartHeight - (value / 100) * chartHeight;
-
+    // The RSI point for the hovered candle, matched by time
+    const point = candles[candleIndex] && rsiData.find((data) => data.time === candles[candleIndex].time);
+    if (point) {
       setCrosshair({
         x: mouseX,
         y: mouseY,
-        value,
-        time: rsiData[rsiIdx]?.time || 0,
+        value: point.value,
+        time: point.time,
       });
     }
-  }, [candles, dimensions, period]);
+  }, [candles, dimensions, rsiData]);
 
   const handleMouseLeave = useCallback(() => {
     setCrosshair(null);
@@ -120,9 +117,7 @@ export function RSIPanel({
     ctx.fillStyle = 'rgba(34, 197, 94, 0.08)';
     ctx.fillRect(padding.left, oversoldY, chartWidth, padding.top + chartHeight - oversoldY);
 
-    // Calculate RSI
-    const rsiData = calculateRSI(candles, period);
-    if (rsiData.length === 0) return;
+    if (!rsiData || rsiData.length === 0) return;
 
     const candleSpacing = chartWidth / candles.length;
 
@@ -233,7 +228,7 @@ export function RSIPanel({
     ctx.textAlign = 'left';
     ctx.fillText(`RSI (${period})`, padding.left + 5, 12);
 
-  }, [candles, dimensions, period, overbought, oversold, crosshair]);
+  }, [candles, dimensions, period, overbought, oversold, crosshair, rsiData]);
 
   return (
     <div
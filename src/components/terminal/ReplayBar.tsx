@@ -0,0 +1,226 @@
+"use client";
+
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { Circle, Square, Play, Pause, Trash2, X, History } from 'lucide-react';
+import type { Symbol as SymbolType, TimeFrame } from '@/lib/types';
+import { startRecording, type MarketRecorder } from '@/lib/recorder';
+import { deleteRecordingSession, listRecordingSessions, type RecordingSession } from '@/lib/recordingStore';
+import { replayController, REPLAY_SPEEDS, type ReplayState } from '@/lib/replay';
+
+interface ReplayBarProps {
+  symbol: SymbolType;
+  timeframe: TimeFrame;
+  onStartReplay: (session: RecordingSession) => void;
+  onExitReplay: () => void;
+  onSeek: () => void; // Widgets need to reload after a jump
+  onClose: () => void;
+}
+
+function formatClock(time: number): string {
+  const date = new Date(time);
+  return date.toLocaleTimeString(undefined, { hour12: false });
+}
+
+function formatSession(session: RecordingSession): string {
+  const date = new Date(session.startTime);
+  const duration = session.endTime ? Math.round((session.endTime - session.startTime) / 1000) : 0;
+  return `${session.symbol.symbol} ${session.symbol.exchange} ${session.interval} · ${date.toLocaleString()} · ${duration}s`;
+}
+
+export function ReplayBar({
+  symbol,
+  timeframe,
+  onStartReplay,
+  onExitReplay,
+  onSeek,
+  onClose,
+}: ReplayBarProps) {
+  const [sessions, setSessions] = useState<RecordingSession[]>([]);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [replay, setReplay] = useState<ReplayState>(() => replayController.getState());
+  const [scrubTime, setScrubTime] = useState<number | null>(null);
+  const [recording, setRecording] = useState<{ startTime: number; events: number } | null>(null);
+  const recorderRef = useRef<MarketRecorder | null>(null);
+
+  const refreshSessions = useCallback(async () => {
+    const list = await listRecordingSessions();
+    setSessions(list.filter((session) => session.endTime !== null));
+    setSelectedId((prev) => prev ?? list[0]?.id ?? null);
+  }, []);
+
+  useEffect(() => {
+    refreshSessions();
+  }, [refreshSessions]);
+
+  useEffect(() => replayController.subscribe(setReplay), []);
+
+  // Recording stats, and stop the recorder if the bar goes away
+  useEffect(() => {
+    if (!recording) return;
+    const interval = setInterval(() => {
+      const recorder = recorderRef.current;
+      if (recorder) setRecording({ startTime: recorder.session.startTime, events: recorder.eventCount() });
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [recording]);
+
+  useEffect(() => () => {
+    recorderRef.current?.stop();
+  }, []);
+
+  const toggleRecording = async () => {
+    try {
+      if (recorderRef.current) {
+        const recorder = recorderRef.current;
+        recorderRef.current = null;
+        setRecording(null);
+        const session = await recorder.stop();
+        await refreshSessions();
+        setSelectedId(session.id);
+      } else {
+        const recorder = await startRecording(symbol, timeframe);
+        recorderRef.current = recorder;
+        setRecording({ startTime: recorder.session.startTime, events: 0 });
+      }
+    } catch (error) {
+      console.error('Failed to toggle recording:', error);
+    }
+  };
+
+  const deleteSelected = async () => {
+    if (selectedId === null) return;
+    try {
+      await deleteRecordingSession(selectedId);
+      setSelectedId(null);
+      await refreshSessions();
+    } catch (error) {
+      console.error('Failed to delete recording:', error);
+    }
+  };
+
+  const startReplay = () => {
+    const session = sessions.find((s) => s.id === selectedId);
+    if (session) onStartReplay(session);
+  };
+
+  const commitSeek = () => {
+    if (scrubTime === null) return;
+    replayController.seek(scrubTime);
+    setScrubTime(null);
+    onSeek();
+  };
+
+  const isReplaying = replay.session !== null;
+
+  return (
+    <div className="h-9 bg-zinc-900 border-t border-zinc-800 flex items-center gap-3 px-3 text-xs">
+      <History className="w-3.5 h-3.5 text-cyan-400" />
+
+      {isReplaying ? (
+        <>
+          <button
+            type="button"
+            onClick={() => (replay.playing ? replayController.pause() : replayController.play())}
+            className="p-1 rounded bg-zinc-800 text-white hover:bg-zinc-700"
+            title={replay.playing ? 'Pause' : 'Play'}
+          >
+            {replay.playing ? <Pause className="w-3.5 h-3.5" /> : <Play className="w-3.5 h-3.5" />}
+          </button>
+
+          <select
+            value={replay.speed}
+            onChange={(e) => replayController.setSpeed(parseFloat(e.target.value))}
+            className="bg-zinc-800 text-zinc-300 rounded px-1 py-0.5 outline-none"
+          >
+            {REPLAY_SPEEDS.map((speed) => (
+              <option key={speed} value={speed} className="bg-zinc-900">{speed}x</option>
+            ))}
+          </select>
+
+          <span className="font-mono text-zinc-300">{formatClock(scrubTime ?? replay.time)}</span>
+          <input
+            type="range"
+            min={replay.startTime}
+            max={replay.endTime}
+            step={1000}
+            value={scrubTime ?? replay.time}
+            onChange={(e) => setScrubTime(parseFloat(e.target.value))}
+            onPointerUp={commitSeek}
+            onKeyUp={commitSeek}
+            className="flex-1 accent-cyan-500"
+          />
+          <span className="font-mono text-zinc-500">{formatClock(replay.endTime)}</span>
+
+          <button
+            type="button"
+            onClick={onExitReplay}
+            className="px-2 py-0.5 rounded bg-zinc-800 text-zinc-300 hover:bg-zinc-700 hover:text-white"
+          >
+            Back to live
+          </button>
+        </>
+      ) : (
+        <>
+          <button
+            type="button"
+            onClick={toggleRecording}
+            className={`flex items-center gap-1 px-2 py-0.5 rounded ${
+              recording ? 'bg-red-600 text-white' : 'bg-zinc-800 text-zinc-300 hover:bg-zinc-700'
+            }`}
+            title={recording ? 'Stop recording' : `Record ${symbol.symbol}`}
+          >
+            {recording ? <Square className="w-3 h-3 fill-current" /> : <Circle className="w-3 h-3 fill-red-500 text-red-500" />}
+            <span>{recording ? 'Stop' : 'Record'}</span>
+          </button>
+
+          {recording && (
+            <span className="font-mono text-red-400">
+              REC {Math.round((Date.now() - recording.startTime) / 1000)}s · {recording.events} events
+            </span>
+          )}
+
+          <select
+            value={selectedId ?? ''}
+            onChange={(e) => setSelectedId(e.target.value ? parseInt(e.target.value, 10) : null)}
+            className="flex-1 min-w-0 bg-zinc-800 text-zinc-300 rounded px-1 py-0.5 outline-none"
+          >
+            {sessions.length === 0 && <option value="">No recordings</option>}
+            {sessions.map((session) => (
+              <option key={session.id} value={session.id} className="bg-zinc-900">
+                {formatSession(session)}
+              </option>
+            ))}
+          </select>
+
+          <button
+            type="button"
+            onClick={startReplay}
+            disabled={selectedId === null || recording !== null}
+            className="flex items-center gap-1 px-2 py-0.5 rounded bg-cyan-600 text-white hover:bg-cyan-500 disabled:opacity-40"
+          >
+            <Play className="w-3 h-3" />
+            <span>Replay</span>
+          </button>
+
+          <button
+            type="button"
+            onClick={deleteSelected}
+            disabled={selectedId === null}
+            className="p-1 rounded text-zinc-500 hover:text-red-400 hover:bg-zinc-800 disabled:opacity-40"
+            title="Delete recording"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+          </button>
+        </>
+      )}
+
+      <button
+        type="button"
+        onClick={onClose}
+        className="p-1 rounded text-zinc-500 hover:text-white hover:bg-zinc-800"
+      >
+        <X className="w-3.5 h-3.5" />
+      </button>
+    </div>
+  );
+}
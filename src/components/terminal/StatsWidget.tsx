@@ -1,87 +1,62 @@
 "use client";
 
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { X, Settings, TrendingUp, TrendingDown, Activity, BarChart3, Clock, DollarSign } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { X, Settings, TrendingUp, TrendingDown, Activity, BarChart3, Clock, DollarSign, Layers, Percent } from 'lucide-react';
+import { createMarketStream, fetchMarketTicker, type MarketStream } from '@/lib/marketData';
+import type { MarketTicker, Symbol as SymbolType } from '@/lib/types';
+import { formatPrice } from '@/lib/format';
+import { useInstrument } from '@/hooks/useInstrument';
+import { useOpenInterest } from '@/hooks/useOpenInterest';
+import { useAssetContext } from '@/hooks/useAssetContext';
+import { useCountdown } from '@/hooks/useCountdown';
+import { formatCountdown, formatFundingRate } from '@/lib/funding';
 
-interface TickerData {
-  symbol: string;
-  priceChange: number;
-  priceChangePercent: number;
-  lastPrice: number;
-  highPrice: number;
-  lowPrice: number;
-  volume: number;
-  quoteVolume: number;
-  openPrice: number;
-  count: number;
-}
+const DAY = 24 * 60 * 60 * 1000;
 
 interface StatsWidgetProps {
-  symbol: string;
+  symbol: SymbolType;
   onClose?: () => void;
 }
 
 export function StatsWidget({ symbol, onClose }: StatsWidgetProps) {
-  const [ticker, setTicker] = useState<TickerData | null>(null);
+  const [ticker, setTicker] = useState<MarketTicker | null>(null);
   const [isConnected, setIsConnected] = useState(false);
-  const wsRef = useRef<WebSocket | null>(null);
-
-  // Format symbol for Binance WebSocket
-  const formatSymbol = useCallback((sym: string) => {
-    return sym.replace('/', '').toLowerCase();
-  }, []);
+  const wsRef = useRef<MarketStream | null>(null);
+  const instrument = useInstrument(symbol);
+  // Hourly snapshots cover the 24h change; empty for spot symbols
+  const { points: openInterest } = useOpenInterest(symbol, '1h', 25);
+  const context = useAssetContext(symbol);
+  const fundingCountdown = useCountdown(context?.nextFundingTime);
 
-  // Connect to Binance 24hr ticker WebSocket
+  // Seed from REST, then follow the symbol's 24hr ticker stream
   useEffect(() => {
-    const formattedSymbol = formatSymbol(symbol);
-    const wsUrl = `wss://stream.binance.com:9443/ws/${formattedSymbol}@ticker`;
-
-    const connect = () => {
-      wsRef.current = new WebSocket(wsUrl);
+    let cancelled = false;
+    setTicker(null);
 
-      wsRef.current.onopen = () => {
-        setIsConnected(true);
-      };
-
-      wsRef.current.onmessage = (event) => {
-        try {
-          const data = JSON.parse(event.data);
-          setTicker({
-            symbol: data.s,
-            priceChange: parseFloat(data.p),
-            priceChangePercent: parseFloat(data.P),
-            lastPrice: parseFloat(data.c),
-            highPrice: parseFloat(data.h),
-            lowPrice: parseFloat(data.l),
-            volume: parseFloat(data.v),
-            quoteVolume: parseFloat(data.q),
-            openPrice: parseFloat(data.o),
-            count: parseInt(data.n),
-          });
-        } catch (error) {
-          console.error('Error parsing ticker data:', error);
+    fetchMarketTicker(symbol)
+      .then((initial) => {
+        if (!cancelled && initial) {
+          setTicker((prev) => prev ?? initial);
         }
-      };
-
-      wsRef.current.onclose = () => {
-        setIsConnected(false);
-        // Reconnect after 3 seconds
-        setTimeout(connect, 3000);
-      };
+      })
+      .catch((error) => console.error('Failed to fetch ticker:', error));
 
-      wsRef.current.onerror = () => {
-        wsRef.current?.close();
-      };
-    };
+    wsRef.current = createMarketStream(symbol, { channels: ['ticker'] }, {
+      onTicker: (update) => setTicker(update),
+      onConnect: () => setIsConnected(true),
+      onDisconnect: () => setIsConnected(false),
+      onError: (error) => console.error('Ticker stream error:', error),
+    });
 
-    connect();
+    wsRef.current.connect();
 
     return () => {
+      cancelled = true;
       if (wsRef.current) {
-        wsRef.current.close();
+        wsRef.current.disconnect();
       }
     };
-  }, [symbol, formatSymbol]);
+  }, [symbol]);
 
   // Format large numbers
   const formatNumber = (num: number, decimals = 2) => {
@@ -91,23 +66,23 @@ export function StatsWidget({ symbol, onClose }: StatsWidgetProps) {
     return num.toFixed(decimals);
   };
 
-  // Format price
-  const formatPrice = (price: number) => {
-    if (price >= 10000) return price.toFixed(0);
-    if (price >= 100) return price.toFixed(2);
-    if (price >= 1) return price.toFixed(4);
-    return price.toFixed(6);
-  };
-
   const isPositive = ticker ? ticker.priceChangePercent >= 0 : true;
 
+  const latestOI = openInterest[openInterest.length - 1];
+  const dayAgoOI = latestOI
+    ? [...openInterest].reverse().find((point) => point.time <= latestOI.time - DAY) ?? openInterest[0]
+    : undefined;
+  const oiChangePercent = latestOI && dayAgoOI && dayAgoOI !== latestOI && dayAgoOI.openInterest > 0
+    ? ((latestOI.openInterest - dayAgoOI.openInterest) / dayAgoOI.openInterest) * 100
+    : null;
+
   return (
     <div className="h-full flex flex-col bg-[#0a0a0c]">
       {/* Header */}
       <div className="h-8 flex items-center justify-between px-3 border-b border-zinc-800 bg-zinc-900/50 flex-shrink-0">
         <div className="flex items-center gap-2">
           <span className="text-xs font-medium text-white">Statistics</span>
-          <span className="text-[10px] text-zinc-500">{symbol}</span>
+          <span className="text-[10px] text-zinc-500">{symbol.base}/{symbol.quote}</span>
           <div
             className={`w-1.5 h-1.5 rounded-full ${
               isConnected ? 'bg-emerald-500' : 'bg-red-500'
@@ -148,14 +123,14 @@ export function StatsWidget({ symbol, onClose }: StatsWidgetProps) {
             </div>
             <div className="flex items-baseline gap-2">
               <span className={`text-2xl font-bold font-mono ${isPositive ? 'text-emerald-400' : 'text-red-400'}`}>
-                ${formatPrice(ticker.lastPrice)}
+                ${formatPrice(ticker.lastPrice, instrument)}
               </span>
               <span className={`text-sm font-medium ${isPositive ? 'text-emerald-400' : 'text-red-400'}`}>
                 {isPositive ? '+' : ''}{ticker.priceChangePercent.toFixed(2)}%
               </span>
             </div>
             <div className="text-xs text-zinc-500 mt-1">
-              {isPositive ? '+' : ''}${ticker.priceChange.toFixed(2)} (24h)
+              {isPositive ? '+' : ''}${formatPrice(ticker.priceChange, instrument, { reference: ticker.lastPrice })} (24h)
             </div>
           </div>
 
@@ -166,14 +141,14 @@ export function StatsWidget({ symbol, onClose }: StatsWidgetProps) {
                 <TrendingUp className="w-3 h-3 text-emerald-500" />
                 <span className="text-[10px] text-zinc-500 uppercase">24h High</span>
               </div>
-              <span className="text-sm font-mono text-white">${formatPrice(ticker.highPrice)}</span>
+              <span className="text-sm font-mono text-white">${formatPrice(ticker.highPrice, instrument)}</span>
             </div>
             <div className="p-3 bg-zinc-900/50 rounded-lg border border-zinc-800">
               <div className="flex items-center gap-1 mb-1">
                 <TrendingDown className="w-3 h-3 text-red-500" />
                 <span className="text-[10px] text-zinc-500 uppercase">24h Low</span>
               </div>
-              <span className="text-sm font-mono text-white">${formatPrice(ticker.lowPrice)}</span>
+              <span className="text-sm font-mono text-white">${formatPrice(ticker.lowPrice, instrument)}</span>
             </div>
           </div>
 
@@ -189,12 +164,72 @@ export function StatsWidget({ symbol, onClose }: StatsWidgetProps) {
                 <span className="text-sm font-mono text-white">{formatNumber(ticker.volume)}</span>
               </div>
               <div>
-                <span className="text-xs text-zinc-500 block mb-0.5">Quote (USDT)</span>
+                <span className="text-xs text-zinc-500 block mb-0.5">Quote ({symbol.quote})</span>
                 <span className="text-sm font-mono text-white">${formatNumber(ticker.quoteVolume)}</span>
               </div>
             </div>
           </div>
 
+          {/* Mark & Funding (perpetuals only) */}
+          {context && (
+            <div className="p-3 bg-zinc-900/50 rounded-lg border border-zinc-800">
+              <div className="flex items-center justify-between mb-2">
+                <div className="flex items-center gap-1">
+                  <Percent className="w-3 h-3 text-amber-500" />
+                  <span className="text-[10px] text-zinc-500 uppercase">Funding</span>
+                </div>
+                {fundingCountdown !== null && (
+                  <span className="text-[10px] font-mono text-amber-400">in {formatCountdown(fundingCountdown)}</span>
+                )}
+              </div>
+              <div className="grid grid-cols-3 gap-2">
+                <div>
+                  <span className="text-xs text-zinc-500 block mb-0.5">Rate</span>
+                  <span className={`text-sm font-mono ${context.fundingRate >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+                    {formatFundingRate(context.fundingRate)}
+                  </span>
+                </div>
+                <div>
+                  <span className="text-xs text-zinc-500 block mb-0.5">Mark</span>
+                  <span className="text-sm font-mono text-white">${formatPrice(context.markPrice, instrument)}</span>
+                </div>
+                <div>
+                  <span className="text-xs text-zinc-500 block mb-0.5">Index</span>
+                  <span className="text-sm font-mono text-white">${formatPrice(context.indexPrice, instrument)}</span>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Open Interest (futures only) */}
+          {latestOI && (
+            <div className="p-3 bg-zinc-900/50 rounded-lg border border-zinc-800">
+              <div className="flex items-center justify-between mb-2">
+                <div className="flex items-center gap-1">
+                  <Layers className="w-3 h-3 text-orange-500" />
+                  <span className="text-[10px] text-zinc-500 uppercase">Open Interest</span>
+                </div>
+                {oiChangePercent !== null && (
+                  <span className={`text-[10px] font-medium ${oiChangePercent >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+                    {oiChangePercent >= 0 ? '+' : ''}{oiChangePercent.toFixed(2)}% (24h)
+                  </span>
+                )}
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <span className="text-xs text-zinc-500 block mb-0.5">Base ({symbol.base})</span>
+                  <span className="text-sm font-mono text-white">{formatNumber(latestOI.openInterest)}</span>
+                </div>
+                {latestOI.openInterestValue !== undefined && (
+                  <div>
+                    <span className="text-xs text-zinc-500 block mb-0.5">Value</span>
+                    <span className="text-sm font-mono text-white">${formatNumber(latestOI.openInterestValue)}</span>
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+
           {/* Additional Stats */}
           <div className="grid grid-cols-2 gap-2">
             <div className="p-3 bg-zinc-900/50 rounded-lg border border-zinc-800">
@@ -202,7 +237,7 @@ export function StatsWidget({ symbol, onClose }: StatsWidgetProps) {
                 <DollarSign className="w-3 h-3 text-amber-500" />
                 <span className="text-[10px] text-zinc-500 uppercase">Open</span>
               </div>
-              <span className="text-sm font-mono text-white">${formatPrice(ticker.openPrice)}</span>
+              <span className="text-sm font-mono text-white">${formatPrice(ticker.openPrice, instrument)}</span>
             </div>
             <div className="p-3 bg-zinc-900/50 rounded-lg border border-zinc-800">
               <div className="flex items-center gap-1 mb-1">
@@ -230,8 +265,8 @@ export function StatsWidget({ symbol, onClose }: StatsWidgetProps) {
               />
             </div>
             <div className="flex justify-between mt-1 text-[10px] text-zinc-500">
-              <span>${formatPrice(ticker.lowPrice)}</span>
-              <span>${formatPrice(ticker.highPrice)}</span>
+              <span>${formatPrice(ticker.lowPrice, instrument)}</span>
+              <span>${formatPrice(ticker.highPrice, instrument)}</span>
             </div>
           </div>
         </div>
@@ -2,10 +2,12 @@
 
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { ChevronDown, Circle, Globe, Activity, Clock, Wifi, Server, Maximize2, Minimize2 } from 'lucide-react';
+import type { ConnectionState } from '@/lib/marketData';
 
 interface StatusBarProps {
   version: string;
-  connectionStatus?: 'connected' | 'disconnected' | 'connecting';
+  connectionStatus?: ConnectionState;
+  reconnectAttempt?: number;
   symbol?: string;
   onToggleFullscreen?: () => void;
   isFullscreen?: boolean;
@@ -22,6 +24,7 @@ const REGIONS = [
 export function StatusBar({
   version,
   connectionStatus = 'disconnected',
+  reconnectAttempt,
   symbol,
   onToggleFullscreen,
   isFullscreen = false,
@@ -97,6 +100,8 @@ export function StatusBar({
       case 'connected':
         return 'text-emerald-500';
       case 'connecting':
+      case 'reconnecting':
+      case 'recovering':
         return 'text-amber-500';
       default:
         return 'text-red-500';
@@ -109,6 +114,10 @@ export function StatusBar({
         return 'Connected';
       case 'connecting':
         return 'Connecting...';
+      case 'reconnecting':
+        return reconnectAttempt ? `Reconnecting (attempt ${reconnectAttempt})...` : 'Reconnecting...';
+      case 'recovering':
+        return 'Recovering missed data...';
       default:
         return 'Disconnected';
     }
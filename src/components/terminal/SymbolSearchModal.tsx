@@ -11,7 +11,8 @@ import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { SYMBOLS } from '@/lib/data';
-import { fetchSymbols, type BinanceSymbol } from '@/lib/binance';
+import type { BinanceSymbol } from '@/lib/binance';
+import { fetchMarketOkxSymbols, fetchMarketSymbols } from '@/lib/marketData';
 import type { Symbol } from '@/lib/types';
 import { Search, Loader2, X } from 'lucide-react';
 
@@ -35,6 +36,7 @@ const EXCHANGE_CONFIG = [
   { id: 'deribit', name: 'DERIBIT', color: '#04E8B3', icon: '◐' },
   { id: 'bitfinex', name: 'BITFINEX', color: '#16B157', icon: '◒' },
   { id: 'kucoin', name: 'KUCOIN', color: '#23AF91', icon: '▢' },
+  { id: 'demo', name: 'DEMO', color: '#A78BFA', icon: '◌' },
 ];
 
 type MarketType = 'all' | 'spot' | 'futures_usd' | 'futures_coin';
@@ -48,23 +50,37 @@ export function SymbolSearchModal({
   const [marketType, setMarketType] = useState<MarketType>('all');
   const [selectedExchanges, setSelectedExchanges] = useState<string[]>([]);
   const [binanceSymbols, setBinanceSymbols] = useState<BinanceSymbol[]>([]);
+  const [okxSymbols, setOkxSymbols] = useState<Symbol[]>([]);
   const [loading, setLoading] = useState(false);
 
   // Fetch Binance symbols when modal opens
   useEffect(() => {
     if (open && binanceSymbols.length === 0) {
       setLoading(true);
-      fetchSymbols()
+      fetchMarketSymbols()
         .then((symbols) => {
           setBinanceSymbols(symbols);
         })
+        .catch((error) => {
+          // The local list still works without Binance's
+          console.error('Failed to fetch symbols:', error);
+        })
         .finally(() => {
           setLoading(false);
         });
     }
   }, [open, binanceSymbols.length]);
 
-  // Combine local and Binance symbols
+  // OKX spot pairs and swaps, loaded alongside
+  useEffect(() => {
+    if (open && okxSymbols.length === 0) {
+      fetchMarketOkxSymbols()
+        .then(setOkxSymbols)
+        .catch((error) => console.error('Failed to fetch OKX symbols:', error));
+    }
+  }, [open, okxSymbols.length]);
+
+  // Combine local, Binance and OKX symbols
   const allSymbols = useMemo(() => {
     const local = [...SYMBOLS];
 
@@ -84,8 +100,15 @@ export function SymbolSearchModal({
       }
     }
 
+    for (const os of okxSymbols) {
+      const exists = local.some(
+        s => s.base === os.base && s.quote === os.quote && s.exchange === 'okx' && s.type === os.type
+      );
+      if (!exists) local.push(os);
+    }
+
     return local;
-  }, [binanceSymbols]);
+  }, [binanceSymbols, okxSymbols]);
 
   const filteredSymbols = useMemo(() => {
     return allSymbols.filter((s) => {
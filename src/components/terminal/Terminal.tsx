@@ -11,21 +11,37 @@ import { ChartHeader } from './ChartHeader';
 import { SymbolSearchModal } from './SymbolSearchModal';
 import { OrderBook } from './OrderBook';
 import { CVDPanel } from './CVDPanel';
+import { OpenInterestPanel } from './OpenInterestPanel';
+import { FundingPanel } from './FundingPanel';
 import { RSIPanel } from './RSIPanel';
 import { MACDPanel } from './MACDPanel';
-import { generateHeatmapData, generateVPVRData } from '@/lib/data';
-import { fetchKlines, BinanceWebSocket, toBinanceInterval, type OrderBookUpdate } from '@/lib/binance';
-import type { TimeFrame, Symbol as SymbolType, CandleData, HeatmapCell, ActiveIndicators } from '@/lib/types';
-import { X, Wifi, WifiOff, LayoutGrid, LineChart, Activity, TrendingUp, Zap } from 'lucide-react';
+import { generateHeatmapData } from '@/lib/data';
+import { createMarketStream, fetchMarketKlines, fetchOlderKlines, mergeCandles, upsertCandle, type ConnectionStatus, type MarketStream } from '@/lib/marketData';
+import type { TimeFrame, Symbol as SymbolType, CandleData, HeatmapCell, ActiveIndicators, OrderBookUpdate, BarSettings } from '@/lib/types';
+import { X, Wifi, WifiOff, LayoutGrid, LineChart, Activity, TrendingUp, Zap, History, BarChart3 } from 'lucide-react';
 import { HeatmapWidget } from './HeatmapWidget';
 import { AdvancedChartWidget } from './AdvancedChartWidget';
 import { ChartWidget } from './ChartWidget';
 import { TradesWidget } from './TradesWidget';
 import { StatsWidget } from './StatsWidget';
 import { LiquidationsWidget } from './LiquidationsWidget';
+import { ReplayBar } from './ReplayBar';
 import { type WidgetType } from './WidgetMenu';
 import { WidgetWorkspace, createWidget, type WidgetInstance } from './WidgetWorkspace';
-import { loadIndicators, saveIndicators, defaultIndicators, loadDisplaySettings, saveDisplaySettings, defaultDisplaySettings, type DisplaySettings, loadWidgets, saveWidgets } from '@/lib/storage';
+import { replayController, REPLAY_EXCHANGE } from '@/lib/replay';
+import { fallbackDecimals, formatPrice } from '@/lib/format';
+import { useInstrument } from '@/hooks/useInstrument';
+import { useAssetContext } from '@/hooks/useAssetContext';
+import { useTradeBars } from '@/hooks/useTradeBars';
+import { useTradeFlow } from '@/hooks/useTradeFlow';
+import { useLowerTimeframeKlines } from '@/hooks/useLowerTimeframeKlines';
+import { autoLevelSize } from '@/lib/footprint';
+import { buildVolumeProfile, profileRowSize } from '@/lib/volumeProfile';
+import { timeframeLabel } from '@/lib/timeframes';
+import { barSettingsLabel } from '@/lib/tradeBars';
+import { BarTypeMenu } from './BarTypeMenu';
+import type { RecordingSession } from '@/lib/recordingStore';
+import { loadIndicators, saveIndicators, defaultIndicators, loadDisplaySettings, saveDisplaySettings, defaultDisplaySettings, type DisplaySettings, loadWidgets, saveWidgets, loadFootprintTicks, saveFootprintTicks, loadVpvrTicks, saveVpvrTicks } from '@/lib/storage';
 
 export function Terminal() {
   const [selectedSymbol, setSelectedSymbol] = useState<SymbolType>({
@@ -36,10 +52,17 @@ export function Terminal() {
     type: 'spot',
   });
   const [timeframe, setTimeframe] = useState<TimeFrame>('5m');
+  const instrument = useInstrument(selectedSymbol);
+  const assetContext = useAssetContext(selectedSymbol);
   const [activeTool, setActiveTool] = useState('cursor');
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
   const [showSymbolSearch, setShowSymbolSearch] = useState(false);
   const [isFullscreen, setIsFullscreen] = useState(false);
+  const [showReplayBar, setShowReplayBar] = useState(false);
+  // Live symbol to return to, set while a recording is being replayed
+  const [replayOrigin, setReplayOrigin] = useState<{ symbol: SymbolType; timeframe: TimeFrame } | null>(null);
+  // Bumped when the replay clock jumps so panel widgets remount and reload
+  const [replayEpoch, setReplayEpoch] = useState(0);
 
   // Fullscreen toggle handler
   const toggleFullscreen = useCallback(() => {
@@ -71,6 +94,8 @@ export function Terminal() {
 
   // Display settings with localStorage persistence
   const [displaySettings, setDisplaySettings] = useState<DisplaySettings>(defaultDisplaySettings);
+  const [footprintTicks, setFootprintTicks] = useState(0);
+  const [vpvrTicks, setVpvrTicks] = useState(0);
 
   // Indicator state with localStorage persistence
   const [indicators, setIndicators] = useState<ActiveIndicators>(defaultIndicators);
@@ -78,74 +103,95 @@ export function Terminal() {
   const [currentPrice, setCurrentPrice] = useState(0);
   const [isClient, setIsClient] = useState(false);
   const [isConnected, setIsConnected] = useState(false);
+  const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>({ state: 'connecting' });
   const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
 
   // State for chart data
-  const [candles, setCandles] = useState<CandleData[]>([]);
+  const [timeCandles, setTimeCandles] = useState<CandleData[]>([]);
   const [heatmap, setHeatmap] = useState<HeatmapCell[][]>([]);
-  const [vpvrData, setVpvrData] = useState<{ price: number; buyVolume: number; sellVolume: number }[]>([]);
   const [orderBook, setOrderBook] = useState<OrderBookUpdate | null>(null);
 
+  // Trade-built bars replace the time candles everywhere on the main chart;
+  // their volume at price feeds the footprints and the VPVR
+  const [barSettings, setBarSettings] = useState<BarSettings | null>(null);
+  const [showBarMenu, setShowBarMenu] = useState(false);
+  const tradeBars = useTradeBars(selectedSymbol, barSettings, true);
+  const candles = barSettings ? tradeBars.bars : timeCandles;
+  const isChartLoading = barSettings ? tradeBars.isLoading : isLoading;
+
   // Floating widgets state
   const [floatingWidgets, setFloatingWidgets] = useState<WidgetInstance[]>([]);
   const workspaceRef = useRef<HTMLDivElement>(null);
 
-  // WebSocket reference
-  const wsRef = useRef<BinanceWebSocket | null>(null);
+  // Market stream reference
+  const wsRef = useRef<MarketStream | null>(null);
+
+  // History backfill; `key` drops pages that arrive after a symbol/timeframe switch
+  const backfillRef = useRef({ key: '', loading: false, exhausted: false });
 
-  // Load initial data from Binance
-  const loadInitialData = useCallback(async (symbol: string, tf: TimeFrame) => {
+  // Load initial data from the symbol's exchange
+  const loadInitialData = useCallback(async (symbol: SymbolType, tf: TimeFrame) => {
     setIsLoading(true);
+    setLoadError(null);
+    // Live klines only update loaded candles, so none land on the old symbol's
+    setTimeCandles([]);
+    const key = `${symbol.exchange}:${symbol.symbol}:${tf}`;
+    backfillRef.current = { key, loading: false, exhausted: false };
+    // A later switch owns the chart now; its load reports instead
+    const superseded = () => backfillRef.current.key !== key;
     try {
-      const klines = await fetchKlines(symbol, tf, 100);
+      const klines = await fetchMarketKlines(symbol, tf, 100);
+      if (superseded()) return;
+      setTimeCandles(klines);
       if (klines.length > 0) {
-        setCandles(klines);
         setHeatmap(generateHeatmapData(klines, 25));
-        setVpvrData(generateVPVRData(klines, 40));
         setCurrentPrice(klines[klines.length - 1].close);
       }
     } catch (error) {
+      if (superseded()) return;
       console.error('Failed to load initial data:', error);
+      setLoadError(error instanceof Error ? error.message : String(error));
     } finally {
-      setIsLoading(false);
+      if (!superseded()) setIsLoading(false);
     }
   }, []);
 
+  // Prepend the page of candles before the oldest one loaded
+  const loadOlderCandles = useCallback(async () => {
+    const backfill = backfillRef.current;
+    if (barSettings || backfill.loading || backfill.exhausted || candles.length === 0) return;
+
+    const key = backfill.key;
+    backfill.loading = true;
+    try {
+      const older = await fetchOlderKlines(selectedSymbol, timeframe, candles[0].time);
+      if (backfillRef.current.key !== key) return;
+      if (older.length === 0) {
+        backfill.exhausted = true;
+        return;
+      }
+      setTimeCandles((prev) => mergeCandles(prev, older));
+    } catch (error) {
+      console.error('Failed to load older candles:', error);
+    } finally {
+      backfill.loading = false;
+    }
+  }, [barSettings, candles, selectedSymbol, timeframe]);
+
   // Initialize WebSocket connection
-  const initWebSocket = useCallback((symbol: string, tf: TimeFrame) => {
+  const initWebSocket = useCallback((symbol: SymbolType, tf: TimeFrame) => {
     // Disconnect existing connection
     if (wsRef.current) {
       wsRef.current.disconnect();
     }
 
-    const interval = toBinanceInterval(tf);
-
-    wsRef.current = new BinanceWebSocket(symbol, interval, {
+    wsRef.current = createMarketStream(symbol, { interval: tf, channels: ['kline', 'depth'] }, {
       onPrice: (price) => {
         setCurrentPrice(price);
       },
-      onKline: (kline, isClosed) => {
-        setCandles((prev) => {
-          if (prev.length === 0) return prev;
-
-          const newCandles = [...prev];
-          const lastCandle = newCandles[newCandles.length - 1];
-
-          if (isClosed) {
-            // Add new candle and remove oldest
-            newCandles.push(kline);
-            if (newCandles.length > 100) {
-              newCandles.shift();
-            }
-          } else {
-            // Update current candle
-            if (lastCandle && Math.floor(lastCandle.time / 60000) === Math.floor(kline.time / 60000)) {
-              newCandles[newCandles.length - 1] = kline;
-            }
-          }
-
-          return newCandles;
-        });
+      onKline: (kline) => {
+        setTimeCandles((prev) => (prev.length === 0 ? prev : upsertCandle(prev, kline)));
       },
       onOrderBook: (update) => {
         setOrderBook(update);
@@ -156,6 +202,9 @@ export function Terminal() {
       onDisconnect: () => {
         setIsConnected(false);
       },
+      onStatus: (status) => {
+        setConnectionStatus(status);
+      },
       onError: (error) => {
         console.error('WebSocket error:', error);
       },
@@ -164,11 +213,10 @@ export function Terminal() {
     wsRef.current.connect();
   }, []);
 
-  // Generate heatmap and VPVR when candles update
+  // Generate heatmap when candles update
   useEffect(() => {
     if (candles.length > 0) {
       setHeatmap(generateHeatmapData(candles, 25));
-      setVpvrData(generateVPVRData(candles, 40));
     }
   }, [candles]);
 
@@ -184,6 +232,8 @@ export function Terminal() {
       const savedDisplay = loadDisplaySettings();
       setIndicators(savedIndicators);
       setDisplaySettings(savedDisplay);
+      setFootprintTicks(loadFootprintTicks());
+      setVpvrTicks(loadVpvrTicks());
       setSettingsLoaded(true);
     }
   }, [isClient, settingsLoaded]);
@@ -242,15 +292,62 @@ export function Terminal() {
   }, [floatingWidgets]);
 
   // Destructure display settings for easier access
-  const { showHeatmap, showVWAP, showCVD, showFootprint, showHeatmapWidget, showAdvancedChartWidget, showChartWidget, showRSI, showMACD, showBollinger } = displaySettings;
+  const { showHeatmap, showVWAP, showCVD, showOI, showFunding, showFootprint, showHeatmapWidget, showAdvancedChartWidget, showChartWidget, showRSI, showMACD, showBollinger } = displaySettings;
+
+  // Real taker volume for the CVD panel, and volume at price for footprints
+  // and the VPVR; trade-built bars carry their own
+  const timeTrades = useTradeFlow(
+    selectedSymbol,
+    timeframe,
+    isClient && showCVD && !barSettings,
+    isClient && !barSettings
+  );
+  const { flow: tradeFlow, footprint: footprintTape } = barSettings ? tradeBars : timeTrades;
+  const tickSize = instrument?.tickSize ?? Math.pow(10, -fallbackDecimals(currentPrice));
+  const footprintLevelSize = useMemo(
+    () => (footprintTicks > 0 ? footprintTicks * tickSize : autoLevelSize(candles, tickSize)),
+    [tickSize, footprintTicks, candles]
+  );
+  const footprint = useMemo(
+    () => (footprintTape ? footprintTape.tape.candles(footprintLevelSize) : null),
+    [footprintTape, footprintLevelSize]
+  );
+
+  const changeFootprintTicks = useCallback((ticks: number) => {
+    setFootprintTicks(ticks);
+    saveFootprintTicks(ticks);
+  }, []);
+
+  // VPVR from trades where the tape covers a candle, else from klines a
+  // tenth its length, else from the candle itself
+  const lowerKlines = useLowerTimeframeKlines(selectedSymbol, timeframe, isClient && !barSettings);
+  const vpvrRowSize = useMemo(() => profileRowSize(candles, tickSize, vpvrTicks), [candles, tickSize, vpvrTicks]);
+  const volumeProfile = useMemo(
+    () => buildVolumeProfile(candles, vpvrRowSize, footprintTape ? footprintTape.tape : null, lowerKlines.klines),
+    // The tape itself is mutable; a new snapshot means it took trades
+    [candles, vpvrRowSize, footprintTape, lowerKlines.klines]
+  );
+  const vpvrSource = useMemo(() => {
+    if (!volumeProfile) return undefined;
+    const { coverage } = volumeProfile;
+    const parts: string[] = [];
+    if (coverage.trades > 0) parts.push('TRADES');
+    if (coverage.klines > 0 && lowerKlines.timeframe) parts.push(timeframeLabel(lowerKlines.timeframe));
+    if (coverage.candles > 0) parts.push('EST');
+    return parts.join(' + ');
+  }, [volumeProfile, lowerKlines.timeframe]);
+
+  const changeVpvrTicks = useCallback((ticks: number) => {
+    setVpvrTicks(ticks);
+    saveVpvrTicks(ticks);
+  }, []);
 
   // Load data and connect WebSocket when symbol or timeframe changes
   useEffect(() => {
     if (!isClient) return;
 
-    const symbolString = `${selectedSymbol.base}/${selectedSymbol.quote}`;
-    loadInitialData(symbolString, timeframe);
-    initWebSocket(symbolString, timeframe);
+    loadInitialData(selectedSymbol, timeframe);
+    initWebSocket(selectedSymbol, timeframe);
 
     return () => {
       if (wsRef.current) {
@@ -290,6 +387,36 @@ export function Terminal() {
 
   const handleTimeframeChange = (tf: TimeFrame) => {
     setTimeframe(tf);
+    setBarSettings(null);
+  };
+
+  const startReplay = async (session: RecordingSession) => {
+    try {
+      await replayController.load(session);
+    } catch (error) {
+      console.error('Failed to load recording:', error);
+      return;
+    }
+    setReplayOrigin((prev) => prev ?? { symbol: selectedSymbol, timeframe });
+    setTimeframe(session.interval as TimeFrame);
+    setSelectedSymbol({ ...session.symbol, exchange: REPLAY_EXCHANGE });
+    setReplayEpoch((prev) => prev + 1);
+  };
+
+  const exitReplay = () => {
+    replayController.unload();
+    if (replayOrigin) {
+      setSelectedSymbol(replayOrigin.symbol);
+      setTimeframe(replayOrigin.timeframe);
+    }
+    setReplayOrigin(null);
+    setReplayEpoch((prev) => prev + 1);
+  };
+
+  const handleReplaySeek = () => {
+    // A fresh symbol object makes every widget refetch from the replay clock
+    setSelectedSymbol((prev) => ({ ...prev }));
+    setReplayEpoch((prev) => prev + 1);
   };
 
   const displaySymbol = `${selectedSymbol.base}/${selectedSymbol.quote}@${selectedSymbol.exchange.toUpperCase()}`;
@@ -316,6 +443,8 @@ export function Terminal() {
         onTimeframeChange={handleTimeframeChange}
         priceInfo={priceInfo}
         onAddWidget={handleAddWidget}
+        assetContext={assetContext}
+        instrument={instrument}
       />
 
       {/* Main Content */}
@@ -336,7 +465,7 @@ export function Terminal() {
               <ChartTab
                 symbol={selectedSymbol.symbol}
                 exchange={selectedSymbol.exchange}
-                timeframe={timeframe}
+                timeframe={barSettings ? barSettingsLabel(barSettings) : timeframe}
                 active={true}
                 onClick={() => {}}
                 onClose={() => {}}
@@ -344,6 +473,32 @@ export function Terminal() {
             </div>
             {/* Connection Status & Heatmap Widget Toggle */}
             <div className="flex items-center gap-3 pr-2">
+              {/* Bar Type */}
+              <div className="relative">
+                <button
+                  type="button"
+                  onClick={() => setShowBarMenu(!showBarMenu)}
+                  className={`flex items-center gap-1 px-2 py-1 rounded text-xs transition-colors ${
+                    barSettings
+                      ? 'bg-cyan-600 text-white'
+                      : 'bg-zinc-800 text-zinc-400 hover:bg-zinc-700 hover:text-white'
+                  }`}
+                  title="Build bars from trades"
+                >
+                  <BarChart3 className="w-3 h-3" />
+                  <span>{barSettings ? barSettingsLabel(barSettings) : 'Time bars'}</span>
+                </button>
+                {showBarMenu && (
+                  <BarTypeMenu
+                    value={barSettings}
+                    candles={timeCandles}
+                    onChange={setBarSettings}
+                    onClose={() => setShowBarMenu(false)}
+                    align="right"
+                  />
+                )}
+              </div>
+
               {/* Chart Widget Toggle */}
               <button
                 type="button"
@@ -389,7 +544,22 @@ export function Terminal() {
                 <span>Heatmap</span>
               </button>
 
-              {isLoading ? (
+              {/* Record / Replay Toggle */}
+              <button
+                type="button"
+                onClick={() => setShowReplayBar((prev) => !prev)}
+                className={`flex items-center gap-1 px-2 py-1 rounded text-xs transition-colors ${
+                  showReplayBar || replayOrigin
+                    ? 'bg-red-600 text-white'
+                    : 'bg-zinc-800 text-zinc-400 hover:bg-zinc-700 hover:text-white'
+                }`}
+                title="Record and replay market data"
+              >
+                <History className="w-3 h-3" />
+                <span>Replay</span>
+              </button>
+
+              {isChartLoading ? (
                 <div className="flex items-center gap-1 text-xs text-amber-500">
                   <div className="w-3 h-3 border border-amber-500 border-t-transparent rounded-full animate-spin" />
                   <span>Loading...</span>
@@ -414,14 +584,23 @@ export function Terminal() {
             exchange={selectedSymbol.exchange}
             timeframe={timeframe}
             priceInfo={priceInfo}
+            instrument={instrument}
             showHeatmap={showHeatmap}
             onToggleHeatmap={() => toggleDisplay('showHeatmap')}
             showVWAP={showVWAP}
             onToggleVWAP={() => toggleDisplay('showVWAP')}
             showCVD={showCVD}
             onToggleCVD={() => toggleDisplay('showCVD')}
+            showOI={showOI}
+            onToggleOI={() => toggleDisplay('showOI')}
+            showFunding={showFunding}
+            onToggleFunding={() => toggleDisplay('showFunding')}
             showFootprint={showFootprint}
             onToggleFootprint={() => toggleDisplay('showFootprint')}
+            footprintTicks={footprintTicks}
+            onFootprintTicksChange={changeFootprintTicks}
+            vpvrTicks={vpvrTicks}
+            onVpvrTicksChange={changeVpvrTicks}
             showRSI={showRSI}
             onToggleRSI={() => toggleDisplay('showRSI')}
             showMACD={showMACD}
@@ -434,23 +613,35 @@ export function Terminal() {
           <div className="flex-1 flex overflow-hidden relative">
             {/* Main Chart */}
             <div className="flex-1 relative">
-              {isLoading && candles.length === 0 ? (
+              {isChartLoading && candles.length === 0 ? (
                 <div className="w-full h-full flex items-center justify-center bg-[#0a0a0c]">
                   <div className="flex flex-col items-center gap-4">
                     <div className="w-8 h-8 border-2 border-zinc-600 border-t-cyan-500 rounded-full animate-spin" />
                     <span className="text-zinc-500">Loading chart data...</span>
                   </div>
                 </div>
+              ) : loadError && candles.length === 0 ? (
+                <div className="w-full h-full flex items-center justify-center bg-[#0a0a0c]">
+                  <div className="flex flex-col items-center gap-2 text-center">
+                    <span className="text-red-400">No data for {selectedSymbol.symbol}</span>
+                    <span className="text-xs text-zinc-500">{loadError}</span>
+                  </div>
+                </div>
               ) : (
                 <CandleChart
                   candles={candles}
                   heatmap={heatmap}
                   showHeatmap={showHeatmap}
                   currentPrice={currentPrice}
+                  instrument={instrument}
                   showVWAP={showVWAP}
                   showCVD={showCVD}
                   showFootprint={showFootprint}
+                  footprint={footprint}
+                  footprintLevelSize={footprintLevelSize}
+                  volumeProfile={volumeProfile}
                   showBollinger={showBollinger}
+                  onReachStart={loadOlderCandles}
                 />
               )}
 
@@ -465,7 +656,7 @@ export function Terminal() {
                 <div className="absolute top-4 right-4 bg-zinc-900/90 border border-zinc-700 rounded px-3 py-1.5">
                   <div className="text-xs text-zinc-400">Live Price</div>
                   <div className={`text-lg font-mono font-bold ${priceInfo.change >= 0 ? 'text-emerald-500' : 'text-red-500'}`}>
-                    ${currentPrice.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                    ${formatPrice(currentPrice, instrument, { grouping: true })}
                   </div>
                 </div>
               )}
@@ -474,14 +665,15 @@ export function Terminal() {
             {/* Order Book Panel */}
             {orderBook && (
               <div className="w-40 border-l border-zinc-800">
-                <OrderBook data={orderBook} currentPrice={currentPrice} />
+                <OrderBook data={orderBook} currentPrice={currentPrice} instrument={instrument} />
               </div>
             )}
 
             {/* VPVR Panel */}
             <div className="w-32 border-l border-zinc-800">
               <VPVR
-                data={vpvrData}
+                profile={volumeProfile}
+                source={vpvrSource}
                 currentPrice={currentPrice}
                 minPrice={priceRange.min}
                 maxPrice={priceRange.max}
@@ -514,7 +706,17 @@ export function Terminal() {
 
           {/* CVD Panel - shown when CVD is enabled */}
           {showCVD && candles.length > 0 && (
-            <CVDPanel candles={candles} height={100} />
+            <CVDPanel candles={candles} flow={tradeFlow} height={100} />
+          )}
+
+          {/* Open Interest Panel - shown when OI is enabled */}
+          {showOI && candles.length > 0 && (
+            <OpenInterestPanel symbol={selectedSymbol} timeframe={timeframe} candles={candles} height={100} />
+          )}
+
+          {/* Funding Panel - shown when funding is enabled */}
+          {showFunding && (
+            <FundingPanel symbol={selectedSymbol} context={assetContext} height={100} />
           )}
 
           {/* RSI Panel - shown when RSI is enabled */}
@@ -543,7 +745,8 @@ export function Terminal() {
             </div>
             <div className="flex-1 overflow-hidden">
               <AdvancedChartWidget
-                symbol={`${selectedSymbol.base}/${selectedSymbol.quote}`}
+                key={replayEpoch}
+                symbol={selectedSymbol}
                 defaultTimeframe={timeframe}
                 onClose={() => toggleDisplay('showAdvancedChartWidget')}
               />
@@ -579,7 +782,8 @@ export function Terminal() {
             </div>
             <div className="flex-1 overflow-hidden">
               <HeatmapWidget
-                symbol={`${selectedSymbol.base}/${selectedSymbol.quote}`}
+                key={replayEpoch}
+                symbol={selectedSymbol}
                 onClose={() => toggleDisplay('showHeatmapWidget')}
               />
             </div>
@@ -587,10 +791,26 @@ export function Terminal() {
         )}
       </div>
 
+      {/* Record / Replay Controls */}
+      {(showReplayBar || replayOrigin) && (
+        <ReplayBar
+          symbol={selectedSymbol}
+          timeframe={timeframe}
+          onStartReplay={startReplay}
+          onExitReplay={exitReplay}
+          onSeek={handleReplaySeek}
+          onClose={() => {
+            if (replayOrigin) exitReplay();
+            setShowReplayBar(false);
+          }}
+        />
+      )}
+
       {/* Status Bar */}
       <StatusBar
         version="OKAP v1.0.0"
-        connectionStatus={isConnected ? 'connected' : 'disconnected'}
+        connectionStatus={connectionStatus.state}
+        reconnectAttempt={connectionStatus.attempt}
         symbol={`${selectedSymbol.base}${selectedSymbol.quote}`}
         onToggleFullscreen={toggleFullscreen}
         isFullscreen={isFullscreen}
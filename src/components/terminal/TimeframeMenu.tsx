@@ -0,0 +1,92 @@
+"use client";
+
+import React, { useState } from 'react';
+import { Star } from 'lucide-react';
+import type { TimeFrame } from '@/lib/types';
+import { STANDARD_TIMEFRAMES, normalizeTimeframe, timeframeLabel, timeframeToMs } from '@/lib/timeframes';
+import { useTimeframeFavorites } from '@/hooks/useTimeframeFavorites';
+
+interface TimeframeMenuProps {
+  value: TimeFrame;
+  onSelect: (timeframe: TimeFrame) => void;
+  onClose: () => void;
+  align?: 'left' | 'right';
+}
+
+// Dropdown listing the standard timeframes plus any custom favourites, with a
+// star to pin each one to the pickers and a field for custom intervals
+export function TimeframeMenu({ value, onSelect, onClose, align = 'left' }: TimeframeMenuProps) {
+  const { favorites, toggleFavorite } = useTimeframeFavorites();
+  const [custom, setCustom] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const options = Array.from(new Set<TimeFrame>([...STANDARD_TIMEFRAMES, ...favorites, value]))
+    .sort((a, b) => timeframeToMs(a) - timeframeToMs(b));
+
+  const select = (timeframe: TimeFrame) => {
+    onSelect(timeframe);
+    onClose();
+  };
+
+  const handleCustomSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const timeframe = normalizeTimeframe(custom);
+    if (!timeframe) {
+      setError('Use a number and m, h, d or w, e.g. 90m');
+      return;
+    }
+    if (!favorites.includes(timeframe)) toggleFavorite(timeframe);
+    setCustom('');
+    setError(null);
+    select(timeframe);
+  };
+
+  return (
+    <>
+      <div className="fixed inset-0 z-40" onClick={onClose} />
+      <div
+        className={`absolute top-full ${align === 'right' ? 'right-0' : 'left-0'} mt-1 bg-zinc-900 border border-zinc-700 rounded-md shadow-xl z-50 w-44`}
+      >
+        <div className="max-h-72 overflow-y-auto py-1">
+          {options.map((tf) => {
+            const isFavorite = favorites.includes(tf);
+            return (
+              <div
+                key={tf}
+                className={`flex items-center justify-between px-3 py-1 text-sm hover:bg-zinc-800 transition-colors ${
+                  tf === value ? 'text-cyan-400 bg-zinc-800' : 'text-white'
+                }`}
+              >
+                <button type="button" className="flex-1 text-left" onClick={() => select(tf)}>
+                  {timeframeLabel(tf)}
+                  {!STANDARD_TIMEFRAMES.includes(tf) && <span className="ml-2 text-[10px] text-zinc-500">custom</span>}
+                </button>
+                <button
+                  type="button"
+                  title={isFavorite ? 'Remove from favourites' : 'Add to favourites'}
+                  onClick={() => toggleFavorite(tf)}
+                  className="p-0.5"
+                >
+                  <Star className={`w-3.5 h-3.5 ${isFavorite ? 'text-amber-400 fill-amber-400' : 'text-zinc-600 hover:text-zinc-400'}`} />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+        <form onSubmit={handleCustomSubmit} className="border-t border-zinc-800 p-2">
+          <input
+            type="text"
+            value={custom}
+            onChange={(e) => {
+              setCustom(e.target.value);
+              setError(null);
+            }}
+            placeholder="Custom, e.g. 90m"
+            className="w-full bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-xs text-white placeholder-zinc-500 focus:outline-none focus:border-cyan-500"
+          />
+          {error && <div className="mt-1 text-[10px] text-red-400">{error}</div>}
+        </form>
+      </div>
+    </>
+  );
+}
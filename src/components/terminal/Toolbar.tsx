@@ -2,9 +2,14 @@
 
 import React, { useState, useCallback, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
-import type { TimeFrame } from '@/lib/types';
-import { TIMEFRAMES } from '@/lib/data';
+import type { AssetContext, InstrumentInfo, TimeFrame } from '@/lib/types';
+import { getMarketTransport, setMarketTransport, type MarketTransport } from '@/lib/marketProxy';
+import { formatPrice } from '@/lib/format';
 import { WidgetMenu, type WidgetType } from './WidgetMenu';
+import { TimeframeMenu } from './TimeframeMenu';
+import { FundingReadout } from './FundingReadout';
+import { useTimeframeFavorites } from '@/hooks/useTimeframeFavorites';
+import { timeframeLabel } from '@/lib/timeframes';
 import {
   ChevronDown,
   BarChart2,
@@ -39,6 +44,7 @@ import {
   ArrowDown,
   Plus,
   Crosshair,
+  Server,
 } from 'lucide-react';
 
 interface ToolbarProps {
@@ -54,6 +60,8 @@ interface ToolbarProps {
     close: number;
     change: number;
   };
+  assetContext?: AssetContext | null; // Perpetuals only
+  instrument?: InstrumentInfo | null;
 }
 
 type DrawingTool = 'line' | 'rectangle' | 'circle' | 'triangle' | 'text' | 'trendline' | null;
@@ -84,9 +92,12 @@ export function Toolbar({
   onTimeframeChange,
   onAddWidget,
   priceInfo,
+  assetContext,
+  instrument,
 }: ToolbarProps) {
   const isPositive = priceInfo.change >= 0;
   const [showTimeframeDropdown, setShowTimeframeDropdown] = useState(false);
+  const { favorites: timeframeFavorites } = useTimeframeFavorites();
   const [showChartTypeDropdown, setShowChartTypeDropdown] = useState(false);
   const [showIndicatorsPanel, setShowIndicatorsPanel] = useState(false);
   const [chartType, setChartType] = useState<'candles' | 'line' | 'heikin'>('candles');
@@ -110,6 +121,9 @@ export function Toolbar({
     colorScheme: 'default',
   });
 
+  // REST through this app's server instead of straight to the exchanges
+  const [marketTransport, setMarketTransportState] = useState<MarketTransport>('direct');
+
   // Alerts state
   const [alerts, setAlerts] = useState<Alert[]>([]);
   const [newAlertPrice, setNewAlertPrice] = useState('');
@@ -175,6 +189,16 @@ export function Toolbar({
     }
   }, []);
 
+  useEffect(() => {
+    setMarketTransportState(getMarketTransport());
+  }, []);
+
+  const toggleMarketTransport = useCallback(() => {
+    const next = marketTransport === 'proxy' ? 'direct' : 'proxy';
+    setMarketTransport(next);
+    setMarketTransportState(next);
+  }, [marketTransport]);
+
   // Save settings to localStorage
   const saveSettings = useCallback((newSettings: SettingsState) => {
     setSettings(newSettings);
@@ -187,11 +211,6 @@ export function Toolbar({
     localStorage.setItem('okapTerminalAlerts', JSON.stringify(newAlerts));
   }, []);
 
-  const handleTimeframeSelect = (tf: TimeFrame) => {
-    onTimeframeChange(tf);
-    setShowTimeframeDropdown(false);
-  };
-
   const handleChartTypeSelect = (type: 'candles' | 'line' | 'heikin') => {
     setChartType(type);
     setShowChartTypeDropdown(false);
@@ -225,7 +244,7 @@ export function Toolbar({
           ctx.font = '16px monospace';
           ctx.fillText(`Symbol: ${symbol}`, 40, 90);
           ctx.fillText(`Timeframe: ${timeframe}`, 40, 115);
-          ctx.fillText(`Price: $${priceInfo.close.toFixed(2)}`, 40, 140);
+          ctx.fillText(`Price: $${formatPrice(priceInfo.close)}`, 40, 140);
           ctx.fillText(`Captured: ${new Date().toLocaleString()}`, 40, 165);
         }
 
@@ -292,6 +311,20 @@ export function Toolbar({
         <ChevronDown className="w-3 h-3 text-zinc-400" />
       </Button>
 
+      {/* Favourite timeframes */}
+      {timeframeFavorites.map((tf) => (
+        <button
+          key={tf}
+          type="button"
+          className={`h-7 px-1.5 text-xs font-medium rounded transition-colors ${
+            tf === timeframe ? 'text-cyan-400 bg-zinc-800' : 'text-zinc-400 hover:text-white hover:bg-zinc-800'
+          }`}
+          onClick={() => onTimeframeChange(tf)}
+        >
+          {timeframeLabel(tf)}
+        </button>
+      ))}
+
       {/* Timeframe Selector */}
       <div className="relative">
         <Button
@@ -299,28 +332,16 @@ export function Toolbar({
           className="h-7 px-2 text-sm font-medium text-white hover:bg-zinc-800"
           onClick={() => setShowTimeframeDropdown(!showTimeframeDropdown)}
         >
-          {timeframe}
+          {timeframeFavorites.includes(timeframe) ? null : timeframeLabel(timeframe)}
           <ChevronDown className="w-3 h-3 text-zinc-400 ml-1" />
         </Button>
 
         {showTimeframeDropdown && (
-          <>
-            <div className="fixed inset-0 z-40" onClick={() => setShowTimeframeDropdown(false)} />
-            <div className="absolute top-full left-0 mt-1 bg-zinc-900 border border-zinc-700 rounded-md shadow-xl z-50 min-w-[80px]">
-              {TIMEFRAMES.map((tf) => (
-                <button
-                  key={tf}
-                  type="button"
-                  className={`w-full px-3 py-1.5 text-left text-sm hover:bg-zinc-800 transition-colors ${
-                    tf === timeframe ? 'text-cyan-400 bg-zinc-800' : 'text-white'
-                  }`}
-                  onClick={() => handleTimeframeSelect(tf)}
-                >
-                  {tf}
-                </button>
-              ))}
-            </div>
-          </>
+          <TimeframeMenu
+            value={timeframe}
+            onSelect={onTimeframeChange}
+            onClose={() => setShowTimeframeDropdown(false)}
+          />
         )}
       </div>
 
@@ -334,6 +355,14 @@ export function Toolbar({
 
       <div className="h-5 w-px bg-zinc-700 mx-2" />
 
+      {/* Mark price and funding countdown */}
+      {assetContext && (
+        <>
+          <FundingReadout context={assetContext} instrument={instrument} />
+          <div className="h-5 w-px bg-zinc-700 mx-2" />
+        </>
+      )}
+
       {/* Chart Type Dropdown */}
       <div className="relative">
         <Button
@@ -684,6 +713,27 @@ export function Toolbar({
                   </button>
                 ))}
               </div>
+
+              {/* Market data transport */}
+              <div className="space-y-3">
+                <label className="text-xs text-zinc-400 uppercase tracking-wide">Market Data</label>
+                <button
+                  type="button"
+                  onClick={toggleMarketTransport}
+                  className="w-full flex items-center justify-between p-3 rounded-lg border border-zinc-700 hover:border-zinc-500 transition-colors"
+                >
+                  <span className="flex flex-col items-start text-left">
+                    <span className="flex items-center gap-2 text-white text-sm">
+                      <Server className="w-4 h-4 text-zinc-400" />
+                      Server Proxy
+                    </span>
+                    <span className="text-[11px] text-zinc-500 mt-0.5">Fetch history and snapshots through the app server's shared cache</span>
+                  </span>
+                  <div className={`w-10 h-5 rounded-full transition-colors relative ${marketTransport === 'proxy' ? 'bg-cyan-500' : 'bg-zinc-700'}`}>
+                    <div className={`absolute top-0.5 w-4 h-4 rounded-full bg-white shadow transition-transform ${marketTransport === 'proxy' ? 'translate-x-5' : 'translate-x-0.5'}`} />
+                  </div>
+                </button>
+              </div>
             </div>
           </div>
         </>
@@ -769,7 +819,7 @@ export function Toolbar({
                           <div>
                             <div className="flex items-center gap-2 text-sm text-white">
                               {alert.condition === 'above' ? <ArrowUp className="w-3 h-3 text-green-400" /> : alert.condition === 'below' ? <ArrowDown className="w-3 h-3 text-red-400" /> : <TrendingUp className="w-3 h-3 text-amber-400" />}
-                              <span className="font-mono">${alert.price.toLocaleString()}</span>
+                              <span className="font-mono">${formatPrice(alert.price, null, { grouping: true })}</span>
                             </div>
                             <div className="flex items-center gap-2 text-xs text-zinc-500">
                               <span>{alert.symbol}</span>
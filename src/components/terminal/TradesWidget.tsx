@@ -1,7 +1,11 @@
 "use client";
 
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { X, Settings, ArrowUp, ArrowDown } from 'lucide-react';
+import { createMarketStream, type MarketStream } from '@/lib/marketData';
+import type { Symbol as SymbolType } from '@/lib/types';
+import { formatPrice, formatQuantity as formatInstrumentQuantity } from '@/lib/format';
+import { useInstrument } from '@/hooks/useInstrument';
 
 interface Trade {
   id: string;
@@ -12,7 +16,7 @@ interface Trade {
 }
 
 interface TradesWidgetProps {
-  symbol: string;
+  symbol: SymbolType;
   onClose?: () => void;
 }
 
@@ -21,65 +25,43 @@ export function TradesWidget({ symbol, onClose }: TradesWidgetProps) {
   const [isConnected, setIsConnected] = useState(false);
   const [filter, setFilter] = useState<'all' | 'buys' | 'sells'>('all');
   const [minSize, setMinSize] = useState(0);
-  const wsRef = useRef<WebSocket | null>(null);
+  const wsRef = useRef<MarketStream | null>(null);
+  const tradeSeqRef = useRef(0);
   const containerRef = useRef<HTMLDivElement>(null);
+  const instrument = useInstrument(symbol);
 
-  // Format symbol for Binance WebSocket
-  const formatSymbol = useCallback((sym: string) => {
-    return sym.replace('/', '').toLowerCase();
-  }, []);
-
-  // Connect to Binance trades WebSocket
+  // Subscribe to the symbol's trade stream
   useEffect(() => {
-    const formattedSymbol = formatSymbol(symbol);
-    const wsUrl = `wss://stream.binance.com:9443/ws/${formattedSymbol}@trade`;
-
-    const connect = () => {
-      wsRef.current = new WebSocket(wsUrl);
-
-      wsRef.current.onopen = () => {
-        setIsConnected(true);
-      };
-
-      wsRef.current.onmessage = (event) => {
-        try {
-          const data = JSON.parse(event.data);
-          const trade: Trade = {
-            id: data.t.toString(),
-            price: parseFloat(data.p),
-            quantity: parseFloat(data.q),
-            time: data.T,
-            isBuyerMaker: data.m,
-          };
-
-          setTrades((prev) => {
-            const newTrades = [trade, ...prev].slice(0, 100);
-            return newTrades;
-          });
-        } catch (error) {
-          console.error('Error parsing trade data:', error);
-        }
-      };
-
-      wsRef.current.onclose = () => {
-        setIsConnected(false);
-        // Reconnect after 3 seconds
-        setTimeout(connect, 3000);
-      };
-
-      wsRef.current.onerror = () => {
-        wsRef.current?.close();
-      };
-    };
+    wsRef.current = createMarketStream(symbol, { channels: ['trades'] }, {
+      onTrade: (aggTrade) => {
+        tradeSeqRef.current += 1;
+        const trade: Trade = {
+          id: `${aggTrade.id ?? aggTrade.time}-${tradeSeqRef.current}`,
+          price: aggTrade.price,
+          quantity: aggTrade.quantity,
+          time: aggTrade.time,
+          isBuyerMaker: aggTrade.isBuyerMaker,
+        };
+
+        setTrades((prev) => {
+          const newTrades = [trade, ...prev].slice(0, 100);
+          return newTrades;
+        });
+      },
+      onConnect: () => setIsConnected(true),
+      onDisconnect: () => setIsConnected(false),
+      onError: (error) => console.error('Trade stream error:', error),
+    });
 
-    connect();
+    wsRef.current.connect();
 
     return () => {
       if (wsRef.current) {
-        wsRef.current.close();
+        wsRef.current.disconnect();
       }
+      setTrades([]);
     };
-  }, [symbol, formatSymbol]);
+  }, [symbol]);
 
   // Filter trades
   const filteredTrades = trades.filter((trade) => {
@@ -103,8 +85,7 @@ export function TradesWidget({ symbol, onClose }: TradesWidgetProps) {
   // Format quantity
   const formatQuantity = (qty: number) => {
     if (qty >= 1000) return `${(qty / 1000).toFixed(2)}K`;
-    if (qty >= 1) return qty.toFixed(4);
-    return qty.toFixed(6);
+    return formatInstrumentQuantity(qty, instrument);
   };
 
   return (
@@ -113,7 +94,7 @@ export function TradesWidget({ symbol, onClose }: TradesWidgetProps) {
       <div className="h-8 flex items-center justify-between px-3 border-b border-zinc-800 bg-zinc-900/50 flex-shrink-0">
         <div className="flex items-center gap-2">
           <span className="text-xs font-medium text-white">Time & Sales</span>
-          <span className="text-[10px] text-zinc-500">{symbol}</span>
+          <span className="text-[10px] text-zinc-500">{symbol.base}/{symbol.quote}</span>
           <div
             className={`w-1.5 h-1.5 rounded-full ${
               isConnected ? 'bg-emerald-500' : 'bg-red-500'
@@ -194,10 +175,7 @@ export function TradesWidget({ symbol, onClose }: TradesWidgetProps) {
               ) : (
                 <ArrowUp className="w-2.5 h-2.5" />
               )}
-              {trade.price.toLocaleString(undefined, {
-                minimumFractionDigits: 2,
-                maximumFractionDigits: 2,
-              })}
+              {formatPrice(trade.price, instrument, { grouping: true })}
             </span>
             <span className="text-right text-zinc-300">
               {formatQuantity(trade.quantity)}
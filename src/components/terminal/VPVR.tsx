@@ -1,21 +1,22 @@
 "use client";
 
 import React, { useRef, useEffect, useState, useCallback } from 'react';
-
-interface VPVRData {
-  price: number;
-  buyVolume: number;
-  sellVolume: number;
-}
+import type { VolumeProfile } from '@/lib/volumeProfile';
 
 interface VPVRProps {
-  data: VPVRData[];
+  profile: VolumeProfile | null;
   currentPrice: number;
   minPrice: number;
   maxPrice: number;
+  source?: string; // Where the volume came from, shown under the panel
 }
 
-export function VPVR({ data, currentPrice, minPrice, maxPrice }: VPVRProps) {
+const POC_COLOR = '#e040fb';
+const VALUE_AREA_COLOR = '#9e9e9e';
+
+// Sells to the left of the centre line and buys to the right, brighter
+// inside the value area, with the POC and value area edges marked
+export function VPVR({ profile, currentPrice, minPrice, maxPrice, source }: VPVRProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const [dimensions, setDimensions] = useState({ width: 0, height: 0 });
@@ -35,7 +36,7 @@ export function VPVR({ data, currentPrice, minPrice, maxPrice }: VPVRProps) {
 
   useEffect(() => {
     const canvas = canvasRef.current;
-    if (!canvas || data.length === 0 || dimensions.width === 0) return;
+    if (!canvas || !profile || dimensions.width === 0) return;
 
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
@@ -48,33 +49,64 @@ export function VPVR({ data, currentPrice, minPrice, maxPrice }: VPVRProps) {
     const padding = { top: 20, bottom: 30 };
     const chartHeight = dimensions.height - padding.top - padding.bottom;
     const priceRange = maxPrice - minPrice;
+    const priceToY = (price: number) => padding.top + chartHeight - ((price - minPrice) / priceRange) * chartHeight;
 
     // Clear canvas
     ctx.fillStyle = '#0a0a0c';
     ctx.fillRect(0, 0, dimensions.width, dimensions.height);
 
-    // Find max volume for normalization
-    const maxVolume = Math.max(...data.map(d => d.buyVolume + d.sellVolume));
-    const barHeight = chartHeight / data.length;
-
-    for (let i = 0; i < data.length; i++) {
-      const item = data[i];
-      const y = padding.top + chartHeight - (i + 1) * barHeight;
-
-      const buyWidth = (item.buyVolume / maxVolume) * (dimensions.width * 0.45);
-      const sellWidth = (item.sellVolume / maxVolume) * (dimensions.width * 0.45);
+    // Both sides share one scale, so the wider side trades more
+    let maxSide = 0;
+    for (const row of profile.rows) maxSide = Math.max(maxSide, row.buyVolume, row.sellVolume);
+    const center = dimensions.width / 2;
+    const halfWidth = dimensions.width / 2 - 2;
+
+    for (const row of profile.rows) {
+      const top = priceToY(row.price + profile.rowSize);
+      const rowHeight = priceToY(row.price) - top;
+      const height = rowHeight > 3 ? rowHeight - 1 : Math.max(1, rowHeight);
+      const alpha = row.inValueArea ? 0.85 : 0.35;
+
+      const sellWidth = maxSide > 0 ? (row.sellVolume / maxSide) * halfWidth : 0;
+      ctx.fillStyle = `rgba(239, 83, 80, ${alpha})`;
+      ctx.fillRect(center - sellWidth, top, sellWidth, height);
+
+      const buyWidth = maxSide > 0 ? (row.buyVolume / maxSide) * halfWidth : 0;
+      ctx.fillStyle = `rgba(38, 166, 154, ${alpha})`;
+      ctx.fillRect(center, top, buyWidth, height);
+    }
 
-      // Draw buy volume (green) - from right to left
-      ctx.fillStyle = '#26a69a';
-      ctx.fillRect(dimensions.width - buyWidth, y, buyWidth, barHeight - 1);
+    ctx.strokeStyle = '#27272a';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(center, padding.top);
+    ctx.lineTo(center, padding.top + chartHeight);
+    ctx.stroke();
 
-      // Draw sell volume (red) - from right after buy
-      ctx.fillStyle = '#ef5350';
-      ctx.fillRect(dimensions.width - buyWidth - sellWidth, y, sellWidth, barHeight - 1);
+    // POC and value area edges
+    const marks: [string, number, string][] = [
+      ['VAH', profile.valueAreaHigh, VALUE_AREA_COLOR],
+      ['POC', profile.pocPrice, POC_COLOR],
+      ['VAL', profile.valueAreaLow, VALUE_AREA_COLOR],
+    ];
+    ctx.font = '9px monospace';
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'bottom';
+    for (const [label, price, color] of marks) {
+      const y = priceToY(price);
+      ctx.strokeStyle = color;
+      ctx.setLineDash(label === 'POC' ? [] : [3, 3]);
+      ctx.beginPath();
+      ctx.moveTo(0, y);
+      ctx.lineTo(dimensions.width, y);
+      ctx.stroke();
+      ctx.fillStyle = color;
+      ctx.fillText(label, 2, y - 1);
     }
+    ctx.setLineDash([]);
 
     // Draw current price line
-    const priceY = padding.top + chartHeight - ((currentPrice - minPrice) / priceRange) * chartHeight;
+    const priceY = priceToY(currentPrice);
     ctx.strokeStyle = '#f5c842';
     ctx.lineWidth = 1;
     ctx.setLineDash([3, 3]);
@@ -84,7 +116,13 @@ export function VPVR({ data, currentPrice, minPrice, maxPrice }: VPVRProps) {
     ctx.stroke();
     ctx.setLineDash([]);
 
-  }, [data, currentPrice, minPrice, maxPrice, dimensions]);
+    if (source) {
+      ctx.fillStyle = '#71717a';
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillText(source, center, dimensions.height - padding.bottom / 2);
+    }
+  }, [profile, currentPrice, minPrice, maxPrice, source, dimensions]);
 
   return (
     <div ref={containerRef} className="w-full h-full bg-[#0a0a0c]">
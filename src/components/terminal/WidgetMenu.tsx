@@ -11,6 +11,8 @@ import {
   Zap,
   List,
   Terminal,
+  Percent,
+  Users,
 } from 'lucide-react';
 
 export type WidgetType =
@@ -20,6 +22,8 @@ export type WidgetType =
   | 'trades'
   | 'stats'
   | 'liquidations'
+  | 'positioning'
+  | 'funding'
   | 'watchlist'
   | 'terminal';
 
@@ -71,6 +75,18 @@ const WIDGET_OPTIONS: WidgetOption[] = [
     icon: <Zap className="w-4 h-4" />,
     description: 'Liquidation Events',
   },
+  {
+    id: 'positioning',
+    name: 'Positioning',
+    icon: <Users className="w-4 h-4" />,
+    description: 'Long/Short Ratios & Taker Volume',
+  },
+  {
+    id: 'funding',
+    name: 'Funding',
+    icon: <Percent className="w-4 h-4" />,
+    description: 'Funding Rates Table',
+  },
   {
     id: 'watchlist',
     name: 'WatchList',
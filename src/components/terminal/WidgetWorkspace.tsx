@@ -7,10 +7,13 @@ import { HeatmapWidget } from './HeatmapWidget';
 import { TradesWidget } from './TradesWidget';
 import { StatsWidget } from './StatsWidget';
 import { LiquidationsWidget } from './LiquidationsWidget';
+import { PositioningWidget } from './PositioningWidget';
+import { FundingTableWidget } from './FundingTableWidget';
 import { OrderBook } from './OrderBook';
 import type { WidgetType } from './WidgetMenu';
 import type { Symbol as SymbolType, TimeFrame } from '@/lib/types';
-import type { OrderBookUpdate } from '@/lib/binance';
+import type { OrderBookUpdate } from '@/lib/types';
+import { useInstrument } from '@/hooks/useInstrument';
 import {
   LineChart,
   LayoutGrid,
@@ -19,6 +22,8 @@ import {
   Zap,
   BookOpen,
   List,
+  Percent,
+  Users,
   Terminal as TerminalIcon,
 } from 'lucide-react';
 
@@ -46,6 +51,8 @@ const WIDGET_ICONS: Record<WidgetType, React.ReactNode> = {
   trades: <Activity className="w-3 h-3" />,
   stats: <TrendingUp className="w-3 h-3" />,
   liquidations: <Zap className="w-3 h-3" />,
+  positioning: <Users className="w-3 h-3" />,
+  funding: <Percent className="w-3 h-3" />,
   watchlist: <List className="w-3 h-3" />,
   terminal: <TerminalIcon className="w-3 h-3" />,
 };
@@ -57,6 +64,8 @@ const DEFAULT_SIZES: Record<WidgetType, { width: number; height: number }> = {
   trades: { width: 320, height: 400 },
   stats: { width: 400, height: 350 },
   liquidations: { width: 350, height: 400 },
+  positioning: { width: 480, height: 420 },
+  funding: { width: 380, height: 420 },
   watchlist: { width: 300, height: 400 },
   terminal: { width: 500, height: 350 },
 };
@@ -72,6 +81,7 @@ export function WidgetWorkspace({
 }: WidgetWorkspaceProps) {
   const workspaceRef = useRef<HTMLDivElement>(null);
   const [maxZIndex, setMaxZIndex] = useState(10);
+  const instrument = useInstrument(symbol);
 
   // Update widget position
   const handlePositionChange = useCallback((id: string, newPosition: Partial<WidgetPosition>) => {
@@ -100,8 +110,6 @@ export function WidgetWorkspace({
 
   // Render widget content based on type
   const renderWidgetContent = (widget: WidgetInstance) => {
-    const symbolString = `${symbol.base}/${symbol.quote}`;
-
     switch (widget.type) {
       case 'chart':
         return (
@@ -114,18 +122,22 @@ export function WidgetWorkspace({
       case 'dom':
       case 'orderbook':
         return orderBook ? (
-          <OrderBook data={orderBook} currentPrice={currentPrice} />
+          <OrderBook data={orderBook} currentPrice={currentPrice} instrument={instrument} />
         ) : (
           <div className="flex items-center justify-center h-full text-zinc-500 text-sm">
             Loading order book...
           </div>
         );
       case 'trades':
-        return <TradesWidget symbol={symbolString} />;
+        return <TradesWidget symbol={symbol} />;
       case 'stats':
-        return <StatsWidget symbol={symbolString} />;
+        return <StatsWidget symbol={symbol} />;
       case 'liquidations':
-        return <LiquidationsWidget symbol={symbolString} />;
+        return <LiquidationsWidget symbol={symbol} />;
+      case 'positioning':
+        return <PositioningWidget symbol={symbol} />;
+      case 'funding':
+        return <FundingTableWidget symbol={symbol} />;
       case 'watchlist':
         return (
           <div className="flex flex-col h-full p-3 text-zinc-400 text-sm">
@@ -214,6 +226,8 @@ export function createWidget(
     trades: 'Time & Sales',
     stats: 'Market Stats',
     liquidations: 'Liquidations',
+    positioning: 'Positioning',
+    funding: 'Funding Rates',
     watchlist: 'Watchlist',
     terminal: 'Terminal',
   };
@@ -0,0 +1,59 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import type { AssetContext, Symbol } from '@/lib/types';
+import { createMarketStream, fetchMarketAssetContext, getMarketDataSource } from '@/lib/marketData';
+
+const POLL_INTERVAL = 15 * 1000; // Venues without a mark price stream
+
+// Mark and index price, funding rate and next funding time for a perpetual:
+// seeded over REST, then followed on the venue's mark price stream or polled
+// where it has none. Null for spot symbols.
+export function useAssetContext(symbol: Symbol): AssetContext | null {
+  const [context, setContext] = useState<AssetContext | null>(null);
+  const isFutures = symbol.type !== 'spot';
+
+  useEffect(() => {
+    setContext(null);
+    if (!isFutures) return;
+
+    let cancelled = false;
+    // Mark price streams leave out open interest, so the last REST figure stays
+    const apply = (next: AssetContext) => {
+      if (cancelled) return;
+      setContext((prev) => {
+        if (prev && next.time < prev.time) return prev;
+        return { ...next, openInterest: next.openInterest ?? prev?.openInterest };
+      });
+    };
+
+    const load = () => {
+      fetchMarketAssetContext(symbol)
+        .then((next) => {
+          if (next) apply(next);
+        })
+        .catch((error) => console.error('Failed to fetch asset context:', error));
+    };
+    load();
+
+    if (getMarketDataSource(symbol.exchange).capabilities.assetContext) {
+      const stream = createMarketStream(symbol, { channels: ['assetContext'] }, {
+        onAssetContext: apply,
+        onError: (error) => console.error('Mark price stream error:', error),
+      });
+      stream.connect();
+      return () => {
+        cancelled = true;
+        stream.disconnect();
+      };
+    }
+
+    const pollTimer = setInterval(load, POLL_INTERVAL);
+    return () => {
+      cancelled = true;
+      clearInterval(pollTimer);
+    };
+  }, [symbol, isFutures]);
+
+  return context;
+}
@@ -0,0 +1,17 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+
+// Milliseconds until `target`, ticking every second; null without a target
+export function useCountdown(target: number | null | undefined): number | null {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!target) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [target]);
+
+  return target ? Math.max(0, target - now) : null;
+}
@@ -0,0 +1,36 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import type { FundingRatePoint, Symbol } from '@/lib/types';
+import { fetchMarketFundingHistory } from '@/lib/marketData';
+
+const REFRESH_INTERVAL = 5 * 60 * 1000; // Picks up each settlement soon after it lands
+
+// Settled funding rates for a perpetual, oldest first; empty for spot symbols
+export function useFundingHistory(symbol: Symbol, limit = 100): FundingRatePoint[] {
+  const [history, setHistory] = useState<FundingRatePoint[]>([]);
+  const isFutures = symbol.type !== 'spot';
+
+  useEffect(() => {
+    setHistory([]);
+    if (!isFutures) return;
+
+    let cancelled = false;
+    const load = () => {
+      fetchMarketFundingHistory(symbol, limit)
+        .then((points) => {
+          if (!cancelled) setHistory(points);
+        })
+        .catch((error) => console.error('Failed to fetch funding history:', error));
+    };
+    load();
+    const refreshTimer = setInterval(load, REFRESH_INTERVAL);
+
+    return () => {
+      cancelled = true;
+      clearInterval(refreshTimer);
+    };
+  }, [symbol, limit, isFutures]);
+
+  return history;
+}
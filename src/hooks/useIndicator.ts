@@ -0,0 +1,72 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { CandleData } from '@/lib/types';
+import type { IndicatorRequest, IndicatorResults } from '@/lib/indicators';
+import { computeIndicator } from '@/lib/workerPipeline';
+
+interface ComputedIndicator<R extends IndicatorRequest> {
+  key: string;
+  // Second-newest candle of the input; live updates replace the newest one,
+  // and trimming to a maximum drops the oldest
+  anchor: CandleData;
+  result: IndicatorResults[R['name']];
+}
+
+// Indicator series for the given candles, computed in the market worker.
+// Until a run over the current candles finishes, the last result stays up as
+// long as it belongs to the same series (appends and backfill keep the
+// existing candle objects), so overlays don't blink on every new candle;
+// charts place points by time, so the newest candles just lack them for a
+// moment. Null before the first result and after a switch to another series.
+// While a run is in flight, newer candles queue up and only the latest set
+// is computed next.
+export function useIndicator<R extends IndicatorRequest>(
+  candles: CandleData[],
+  request: R | null
+): IndicatorResults[R['name']] | null {
+  const key = request ? JSON.stringify(request) : null;
+  const [computed, setComputed] = useState<ComputedIndicator<R> | null>(null);
+  const latestRef = useRef({ candles, key });
+  const runningRef = useRef(false);
+  const mountedRef = useRef(true);
+
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    latestRef.current = { candles, key };
+    if (runningRef.current) return; // Picked up when the current run finishes
+    runningRef.current = true;
+
+    const run = async () => {
+      while (mountedRef.current) {
+        const { candles: input, key: inputKey } = latestRef.current;
+        if (!inputKey || input.length === 0) break;
+
+        try {
+          const result = await computeIndicator(input, JSON.parse(inputKey) as R);
+          if (mountedRef.current) {
+            setComputed({ key: inputKey, anchor: input[Math.max(0, input.length - 2)], result });
+          }
+        } catch (error) {
+          console.error('Indicator calculation failed:', error);
+        }
+
+        if (latestRef.current.candles === input && latestRef.current.key === inputKey) break;
+      }
+      runningRef.current = false;
+    };
+    run();
+  }, [candles, key]);
+
+  const sameSeries = useMemo(
+    () => computed !== null && computed.key === key && candles.includes(computed.anchor),
+    [computed, key, candles]
+  );
+  return computed && sameSeries ? computed.result : null;
+}
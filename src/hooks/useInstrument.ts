@@ -0,0 +1,29 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import type { InstrumentInfo, Symbol } from '@/lib/types';
+import { getInstrument } from '@/lib/instruments';
+import { fetchMarketInstrument } from '@/lib/marketData';
+
+// Trading rules for the symbol; null while loading or when the venue has none,
+// in which case the format helpers fall back to magnitude-based decimals
+export function useInstrument(symbol: Symbol | null | undefined): InstrumentInfo | null {
+  const [instrument, setInstrument] = useState<InstrumentInfo | null>(() => (symbol ? getInstrument(symbol) : null));
+
+  useEffect(() => {
+    if (!symbol) {
+      setInstrument(null);
+      return;
+    }
+    let cancelled = false;
+    setInstrument(getInstrument(symbol));
+    fetchMarketInstrument(symbol).then((info) => {
+      if (!cancelled) setInstrument(info);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [symbol]);
+
+  return instrument;
+}
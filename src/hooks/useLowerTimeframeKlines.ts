@@ -0,0 +1,45 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import type { CandleData, Symbol } from '@/lib/types';
+import { fetchMarketKlines, mergeCandles } from '@/lib/marketData';
+import { lowerTimeframe } from '@/lib/timeframeAggregation';
+
+const PARTS_PER_CANDLE = 10;
+const KLINE_LIMIT = 1000; // Venues with a lower cap return fewer
+const REFRESH_INTERVAL = 5 * 60 * 1000;
+
+// Recent klines of a timeframe about a tenth of `timeframe`, for profiling
+// inside its candles. Empty when disabled or when no shorter interval tiles
+// `timeframe`; refreshed now and then, since trades cover the live candles.
+export function useLowerTimeframeKlines(
+  symbol: Symbol,
+  timeframe: string,
+  enabled: boolean
+): { klines: CandleData[]; timeframe: string | null } {
+  const [klines, setKlines] = useState<CandleData[]>([]);
+  const lower = enabled ? lowerTimeframe(timeframe, PARTS_PER_CANDLE) : null;
+
+  useEffect(() => {
+    setKlines([]);
+    if (!lower) return;
+
+    let cancelled = false;
+    const load = () => {
+      fetchMarketKlines(symbol, lower, KLINE_LIMIT)
+        .then((next) => {
+          if (!cancelled) setKlines((prev) => mergeCandles(next, prev).slice(-KLINE_LIMIT * 2));
+        })
+        .catch((error) => console.error('Failed to fetch lower timeframe klines:', error));
+    };
+    load();
+    const refreshTimer = setInterval(load, REFRESH_INTERVAL);
+
+    return () => {
+      cancelled = true;
+      clearInterval(refreshTimer);
+    };
+  }, [symbol, lower]);
+
+  return { klines, timeframe: lower };
+}
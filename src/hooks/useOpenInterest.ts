@@ -0,0 +1,66 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import type { OpenInterestPoint, Symbol } from '@/lib/types';
+import { fetchMarketAssetContext, fetchMarketOpenInterest } from '@/lib/marketData';
+import { mergeOpenInterest } from '@/lib/openInterest';
+
+const POLL_INTERVAL = 15 * 1000;
+const HISTORY_LIMIT = 500;
+const MAX_POINTS = 2000; // History plus a few hours of polls
+
+// Open interest for a futures symbol: snapshot history at the period nearest
+// `timeframe`, extended by polling the venue's live figure. Empty for spot
+// symbols, and history-less venues only fill in from the polls.
+export function useOpenInterest(
+  symbol: Symbol,
+  timeframe: string,
+  limit = HISTORY_LIMIT
+): { points: OpenInterestPoint[]; isLoading: boolean } {
+  const [points, setPoints] = useState<OpenInterestPoint[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const isFutures = symbol.type !== 'spot';
+
+  useEffect(() => {
+    setPoints([]);
+    if (!isFutures) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+
+    fetchMarketOpenInterest(symbol, timeframe, limit)
+      .catch((error) => {
+        console.error('Failed to fetch open interest history:', error);
+        return [] as OpenInterestPoint[];
+      })
+      .then((history) => {
+        if (cancelled) return;
+        setPoints((prev) => mergeOpenInterest(history, prev, MAX_POINTS));
+        setIsLoading(false);
+      });
+
+    const poll = () => {
+      fetchMarketAssetContext(symbol)
+        .then((context) => {
+          if (cancelled || context?.openInterest === undefined) return;
+          const point: OpenInterestPoint = {
+            time: context.time,
+            openInterest: context.openInterest,
+            openInterestValue: context.openInterest * context.markPrice,
+          };
+          setPoints((prev) => mergeOpenInterest(prev, [point], MAX_POINTS));
+        })
+        .catch((error) => console.error('Failed to poll open interest:', error));
+    };
+    poll();
+    const pollTimer = setInterval(poll, POLL_INTERVAL);
+
+    return () => {
+      cancelled = true;
+      clearInterval(pollTimer);
+      setIsLoading(false);
+    };
+  }, [symbol, timeframe, limit, isFutures]);
+
+  return { points, isLoading };
+}
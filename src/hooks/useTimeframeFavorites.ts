@@ -0,0 +1,37 @@
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+import type { TimeFrame } from '@/lib/types';
+import { defaultTimeframeFavorites, loadTimeframeFavorites, saveTimeframeFavorites } from '@/lib/storage';
+import { timeframeToMs } from '@/lib/timeframes';
+
+// Every mounted picker follows the same list, so starring a timeframe in the
+// toolbar shows it in the chart widgets straight away
+const listeners = new Set<(favorites: TimeFrame[]) => void>();
+
+export function useTimeframeFavorites(): {
+  favorites: TimeFrame[];
+  toggleFavorite: (timeframe: TimeFrame) => void;
+} {
+  // Defaults on the first render so server and client markup match
+  const [favorites, setFavorites] = useState<TimeFrame[]>(defaultTimeframeFavorites);
+
+  useEffect(() => {
+    setFavorites(loadTimeframeFavorites());
+    listeners.add(setFavorites);
+    return () => {
+      listeners.delete(setFavorites);
+    };
+  }, []);
+
+  const toggleFavorite = useCallback((timeframe: TimeFrame) => {
+    const current = loadTimeframeFavorites();
+    const next = current.includes(timeframe)
+      ? current.filter((tf) => tf !== timeframe)
+      : [...current, timeframe].sort((a, b) => timeframeToMs(a) - timeframeToMs(b));
+    saveTimeframeFavorites(next);
+    listeners.forEach((listener) => listener(next));
+  }, []);
+
+  return { favorites, toggleFavorite };
+}
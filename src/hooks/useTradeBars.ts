@@ -0,0 +1,104 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import type { AggTrade, BarSettings, CandleData, Symbol } from '@/lib/types';
+import { createMarketStream, fetchMarketTrades } from '@/lib/marketData';
+import { isAfter } from '@/lib/gapRecovery';
+import { createTradeBarBuilder } from '@/lib/tradeBars';
+import { createTradeFlow, type TradeFlowSnapshot, type TradeSink } from '@/lib/tradeFlow';
+import { createFootprintTape, type FootprintSnapshot } from '@/lib/footprint';
+
+const HISTORY_WINDOW = 60 * 60 * 1000; // Trades fetched to seed the bars
+const FLUSH_INTERVAL = 250; // Live trades are folded in, then rendered at most this often
+
+// Tick, volume, range or Renko bars for the symbol, seeded from recent REST
+// trades and extended by the live trade stream. Empty while `settings` is
+// null, so callers can keep it mounted alongside time candles. `flow` is
+// each bar's taker buy/sell volume, exact since every bar is built from trades;
+// with `withFootprint` set, `footprint` holds each bar's volume by price too.
+export function useTradeBars(
+  symbol: Symbol,
+  settings: BarSettings | null,
+  withFootprint = false
+): { bars: CandleData[]; flow: TradeFlowSnapshot | null; footprint: FootprintSnapshot | null; isLoading: boolean } {
+  const [bars, setBars] = useState<CandleData[]>([]);
+  const [flow, setFlow] = useState<TradeFlowSnapshot | null>(null);
+  const [footprint, setFootprint] = useState<FootprintSnapshot | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const type = settings?.type;
+  const size = settings?.size;
+
+  useEffect(() => {
+    setBars([]);
+    setFlow(null);
+    setFootprint(null);
+    if (!type || !size) return;
+
+    const tradeFlow = createTradeFlow();
+    const tape = withFootprint ? createFootprintTape() : null;
+    const sinks: TradeSink[] = tape ? [tradeFlow, tape] : [tradeFlow];
+    const builder = createTradeBarBuilder({ type, size }, sinks);
+    let revision = 0;
+    const publish = () => {
+      setBars(builder.bars());
+      setFlow(tradeFlow.snapshot());
+      if (tape) setFootprint({ tape, revision: ++revision });
+    };
+    let cancelled = false;
+    let seeded = false;
+    let lastSeeded: AggTrade | null = null;
+    let pending: AggTrade[] = [];
+    let dirty = false;
+
+    // Live trades start before the history request so nothing falls between
+    // them; the ones history already covers are dropped
+    const stream = createMarketStream(symbol, { channels: ['trades'] }, {
+      onTrade: (trade) => {
+        if (!seeded) {
+          pending.push(trade);
+          return;
+        }
+        builder.add(trade);
+        dirty = true;
+      },
+      onError: (error) => console.error('Trade bar stream error:', error),
+    });
+    stream.connect();
+
+    const flushTimer = setInterval(() => {
+      if (!dirty) return;
+      dirty = false;
+      publish();
+    }, FLUSH_INTERVAL);
+
+    setIsLoading(true);
+    fetchMarketTrades(symbol, Date.now() - HISTORY_WINDOW)
+      .catch((error) => {
+        console.error('Failed to fetch trade history:', error);
+        return [] as AggTrade[];
+      })
+      .then((trades) => {
+        if (cancelled) return;
+        for (const trade of trades) {
+          builder.add(trade);
+          lastSeeded = trade;
+        }
+        for (const trade of pending) {
+          if (!lastSeeded || isAfter(trade, lastSeeded)) builder.add(trade);
+        }
+        pending = [];
+        seeded = true;
+        publish();
+        setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+      clearInterval(flushTimer);
+      stream.disconnect();
+      setIsLoading(false);
+    };
+  }, [symbol, type, size, withFootprint]);
+
+  return { bars, flow, footprint, isLoading };
+}
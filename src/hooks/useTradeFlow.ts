@@ -0,0 +1,100 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import type { AggTrade, Symbol } from '@/lib/types';
+import { createMarketStream, fetchMarketTrades } from '@/lib/marketData';
+import { isAfter } from '@/lib/gapRecovery';
+import { candleOpenTime } from '@/lib/timeframes';
+import { createTradeFlow, type TradeFlowSnapshot, type TradeSink } from '@/lib/tradeFlow';
+import { createFootprintTape, type FootprintSnapshot } from '@/lib/footprint';
+
+const HISTORY_WINDOW = 60 * 60 * 1000; // Trades fetched to backfill; venues may return less
+const FLUSH_INTERVAL = 250; // Live trades are counted, then published at most this often
+
+// Taker buy/sell volume (`withFlow`) and volume by price (`withFootprint`)
+// per `timeframe` candle, backfilled from recent REST trades and extended by
+// the live trade stream. Each is null while not asked for; candles from before
+// the first trade counted are left to estimates.
+export function useTradeFlow(
+  symbol: Symbol,
+  timeframe: string,
+  withFlow: boolean,
+  withFootprint = false
+): { flow: TradeFlowSnapshot | null; footprint: FootprintSnapshot | null } {
+  const [flow, setFlow] = useState<TradeFlowSnapshot | null>(null);
+  const [footprint, setFootprint] = useState<FootprintSnapshot | null>(null);
+
+  useEffect(() => {
+    setFlow(null);
+    setFootprint(null);
+    if (!withFlow && !withFootprint) return;
+
+    const tradeFlow = withFlow ? createTradeFlow() : null;
+    const tape = withFootprint ? createFootprintTape() : null;
+    const sinks: TradeSink[] = [];
+    if (tradeFlow) sinks.push(tradeFlow);
+    if (tape) sinks.push(tape);
+    const add = (trade: AggTrade) => {
+      const barTime = candleOpenTime(trade.time, timeframe);
+      for (const sink of sinks) sink.add(barTime, trade);
+    };
+    let revision = 0;
+    const publish = () => {
+      if (tradeFlow) setFlow(tradeFlow.snapshot());
+      if (tape) setFootprint({ tape, revision: ++revision });
+    };
+    let cancelled = false;
+    let seeded = false;
+    let lastSeeded: AggTrade | null = null;
+    let pending: AggTrade[] = [];
+    let dirty = false;
+
+    // Live trades start before the history request so nothing falls between
+    // them; the ones history already covers are dropped
+    const stream = createMarketStream(symbol, { channels: ['trades'] }, {
+      onTrade: (trade) => {
+        if (!seeded) {
+          pending.push(trade);
+          return;
+        }
+        add(trade);
+        dirty = true;
+      },
+      onError: (error) => console.error('Trade flow stream error:', error),
+    });
+    stream.connect();
+
+    const flushTimer = setInterval(() => {
+      if (!dirty) return;
+      dirty = false;
+      publish();
+    }, FLUSH_INTERVAL);
+
+    fetchMarketTrades(symbol, Date.now() - HISTORY_WINDOW)
+      .catch((error) => {
+        console.error('Failed to fetch trade history:', error);
+        return [] as AggTrade[];
+      })
+      .then((trades) => {
+        if (cancelled) return;
+        for (const trade of trades) {
+          add(trade);
+          lastSeeded = trade;
+        }
+        for (const trade of pending) {
+          if (!lastSeeded || isAfter(trade, lastSeeded)) add(trade);
+        }
+        pending = [];
+        seeded = true;
+        publish();
+      });
+
+    return () => {
+      cancelled = true;
+      clearInterval(flushTimer);
+      stream.disconnect();
+    };
+  }, [symbol, timeframe, withFlow, withFootprint]);
+
+  return { flow, footprint };
+}
@@ -0,0 +1,178 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import type { AggTrade, CandleData, LiquidationEvent, OrderBookUpdate, Symbol } from '../types';
+import type { MarketDataSource, MarketStreamOptions } from '../marketData';
+import { createBybitSource } from '../bybit';
+import { startFixtureServer, type FixtureServer } from './fixtureServer';
+import recorded from './fixtures/bybit.json';
+
+interface BybitFixture {
+  rest: Record<string, Record<string, unknown>>;
+  invalidSymbol: unknown;
+  stream: Record<string, { topic?: string; op?: string }[]>;
+}
+
+const fixture = recorded as BybitFixture;
+
+const SPOT: Symbol = { symbol: 'BTC/USDT', base: 'BTC', quote: 'USDT', exchange: 'bybit', type: 'spot' };
+const LINEAR: Symbol = { ...SPOT, type: 'futures_usd' };
+const INVERSE: Symbol = { symbol: 'BTC/USD', base: 'BTC', quote: 'USD', exchange: 'bybit', type: 'futures_coin' };
+const RECORDED_SYMBOLS = ['BTCUSDT', 'BTCUSD'];
+
+let server: FixtureServer;
+let source: MarketDataSource;
+
+beforeAll(async () => {
+  server = await startFixtureServer({
+    rest: ({ path, query }) => {
+      if (!RECORDED_SYMBOLS.includes(query.get('symbol') ?? '')) return { body: fixture.invalidSymbol };
+      const body = fixture.rest[query.get('category') ?? '']?.[path];
+      return body ? { body } : undefined;
+    },
+    // Replay the recorded pushes for the subscribed topics, in recorded order
+    socket: (message, path) => {
+      const { op, args = [] } = message as { op: string; args?: string[] };
+      if (op !== 'subscribe') return [];
+      const messages = fixture.stream[path.slice(1)] ?? [fixture.stream.linear[0]];
+      return messages.filter((entry) => entry.op === 'subscribe' || args.includes(entry.topic ?? ''));
+    },
+  });
+  source = createBybitSource({ restBase: server.httpBase, wsBase: server.wsBase });
+});
+
+afterAll(() => server.close());
+
+// Collect everything a stream emits until `done` holds
+async function record(symbol: Symbol, options: MarketStreamOptions, done: (events: StreamEvents) => boolean) {
+  const events: StreamEvents = { books: [], trades: [], klines: [], liquidations: [], errors: [] };
+  const stream = source.createStream(symbol, options, {
+    onOrderBook: (update) => events.books.push(update),
+    onTrade: (trade) => events.trades.push(trade),
+    onKline: (kline, isClosed) => events.klines.push([kline, isClosed]),
+    onLiquidation: (liquidation) => events.liquidations.push(liquidation),
+    onError: (error) => events.errors.push(error),
+  });
+  stream.connect();
+  try {
+    await vi.waitFor(() => expect(done(events)).toBe(true));
+  } finally {
+    stream.disconnect();
+  }
+  return events;
+}
+
+interface StreamEvents {
+  books: OrderBookUpdate[];
+  trades: AggTrade[];
+  klines: [CandleData, boolean][];
+  liquidations: LiquidationEvent[];
+  errors: Error[];
+}
+
+describe('Bybit REST', () => {
+  it('returns linear klines oldest first', async () => {
+    const klines = await source.fetchKlines(LINEAR, '1m', 3, 1700000150000);
+
+    expect(klines.map((kline) => kline.time)).toEqual([1700000000000, 1700000060000, 1700000120000]);
+    expect(klines[0]).toEqual({ time: 1700000000000, open: 36990.1, high: 37008, low: 36985, close: 37005, volume: 15.002 });
+
+    const { query } = server.requests[server.requests.length - 1];
+    expect(Object.fromEntries(query)).toEqual({
+      category: 'linear',
+      symbol: 'BTCUSDT',
+      interval: '1',
+      limit: '3',
+      end: '1700000150000',
+    });
+  });
+
+  it('takes inverse kline volume from the base coin turnover', async () => {
+    const klines = await source.fetchKlines(INVERSE, '1m', 2);
+    expect(klines.map((kline) => kline.volume)).toEqual([5.0003, 10.0005]);
+  });
+
+  it('converts inverse book and trade sizes from USD contracts to the base coin', async () => {
+    const book = await source.fetchOrderBook(INVERSE);
+    expect(book).toEqual({ bids: [['37000', '2']], asks: [['40000', '0.5']], lastUpdateId: 1200 });
+
+    const trades = await source.fetchTrades?.(INVERSE, 0);
+    expect(trades).toEqual([{ price: 40000, quantity: 0.25, time: 1700000149000, isBuyerMaker: true }]);
+  });
+
+  it('returns recent trades from the start time, oldest first', async () => {
+    const trades = await source.fetchTrades?.(LINEAR, 1700000145000);
+    expect(trades).toEqual([
+      { price: 37014, quantity: 0.2, time: 1700000148000, isBuyerMaker: true },
+      { price: 37015.2, quantity: 0.01, time: 1700000149000, isBuyerMaker: false },
+    ]);
+  });
+
+  it('rejects when Bybit answers with an error code', async () => {
+    const unknown: Symbol = { ...LINEAR, base: 'NOPE' };
+    await expect(source.fetchKlines(unknown, '1m')).rejects.toThrow('Bybit API error 10001: params error: Symbol Is Invalid');
+  });
+});
+
+describe('Bybit stream', () => {
+  it('merges book deltas and maps klines, trades and liquidations', async () => {
+    const events = await record(
+      LINEAR,
+      { channels: ['kline', 'depth', 'trades', 'liquidations'], interval: '1m' },
+      ({ liquidations }) => liquidations.length > 0
+    );
+
+    expect(server.socketMessages).toContainEqual({
+      op: 'subscribe',
+      args: ['kline.1.BTCUSDT', 'orderbook.50.BTCUSDT', 'publicTrade.BTCUSDT', 'allLiquidation.BTCUSDT'],
+    });
+    expect(events.errors).toEqual([]);
+
+    expect(events.books).toHaveLength(2);
+    expect(events.books[1]).toEqual({
+      bids: [['37000.5', '1.2'], ['36999.5', '3']],
+      asks: [['37001', '1.1'], ['37001.5', '2']],
+      lastUpdateId: 5001,
+    });
+
+    expect(events.trades).toEqual([
+      { price: 37000.5, quantity: 0.25, time: 1700000150099, isBuyerMaker: true },
+      { price: 37001, quantity: 0.1, time: 1700000150100, isBuyerMaker: false },
+    ]);
+
+    expect(events.klines).toEqual([
+      [{ time: 1700000120000, open: 37012.4, high: 37020, low: 37001.1, close: 37015.2, volume: 12.345 }, false],
+      [{ time: 1700000120000, open: 37012.4, high: 37020, low: 36999.5, close: 37001, volume: 12.695 }, true],
+    ]);
+
+    expect(events.liquidations).toEqual([
+      {
+        symbol: 'BTCUSDT',
+        side: 'SELL',
+        orderType: 'LIMIT',
+        quantity: 0.5,
+        price: 36990,
+        averagePrice: 36990,
+        orderStatus: 'FILLED',
+        time: 1700000180199,
+      },
+    ]);
+  });
+
+  it('converts inverse stream sizes to the base coin', async () => {
+    const events = await record(
+      INVERSE,
+      { channels: ['depth', 'trades', 'liquidations'] },
+      ({ liquidations }) => liquidations.length > 0
+    );
+
+    expect(events.books[0]).toEqual({ bids: [['37000', '2']], asks: [['40000', '0.5']], lastUpdateId: 1201 });
+    expect(events.trades).toEqual([{ price: 40000, quantity: 0.5, time: 1700000150099, isBuyerMaker: false }]);
+    expect(events.liquidations[0]).toMatchObject({ symbol: 'BTCUSD', side: 'BUY', quantity: 1, price: 37000 });
+  });
+
+  it('skips the liquidation topic on spot', async () => {
+    const before = server.socketMessages.length;
+    await record(SPOT, { channels: ['depth', 'trades', 'liquidations'] }, () => server.socketMessages.length > before);
+
+    expect(server.socketMessages[before]).toEqual({ op: 'subscribe', args: ['orderbook.50.BTCUSDT', 'publicTrade.BTCUSDT'] });
+  });
+});
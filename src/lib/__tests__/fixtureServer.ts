@@ -0,0 +1,88 @@
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import WebSocket, { WebSocketServer } from 'ws';
+
+// Node 20 has no global WebSocket; the adapters' sockets need one
+if (typeof globalThis.WebSocket === 'undefined') {
+  globalThis.WebSocket = WebSocket as unknown as typeof globalThis.WebSocket;
+}
+
+export interface FixtureRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  body: unknown;
+}
+
+export interface FixtureResponse {
+  status?: number; // Defaults to 200
+  body: unknown;
+}
+
+export interface FixtureServerOptions {
+  // Recorded reply for a REST call; undefined answers 404
+  rest: (request: FixtureRequest) => FixtureResponse | undefined;
+  // Recorded messages to push back for a client message on `path`
+  socket?: (message: unknown, path: string) => unknown[];
+}
+
+export interface FixtureServer {
+  httpBase: string;
+  wsBase: string;
+  requests: FixtureRequest[];
+  socketMessages: unknown[]; // Everything clients sent, in order
+  close: () => Promise<void>;
+}
+
+// Local HTTP + WebSocket server replaying recorded exchange traffic
+export async function startFixtureServer(options: FixtureServerOptions): Promise<FixtureServer> {
+  const requests: FixtureRequest[] = [];
+  const socketMessages: unknown[] = [];
+
+  const server = createServer(async (req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const text = Buffer.concat(chunks).toString();
+
+    const request: FixtureRequest = {
+      method: req.method ?? 'GET',
+      path: url.pathname,
+      query: url.searchParams,
+      body: text ? JSON.parse(text) : null,
+    };
+    requests.push(request);
+
+    const response = options.rest(request);
+    res.writeHead(response ? response.status ?? 200 : 404, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(response ? response.body : { error: 'Not recorded' }));
+  });
+
+  const sockets = new WebSocketServer({ server });
+  sockets.on('connection', (socket, req) => {
+    const path = req.url ?? '/';
+    socket.on('message', (data) => {
+      const message: unknown = JSON.parse(data.toString());
+      socketMessages.push(message);
+      for (const reply of options.socket?.(message, path) ?? []) {
+        socket.send(JSON.stringify(reply));
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    httpBase: `http://127.0.0.1:${port}`,
+    wsBase: `ws://127.0.0.1:${port}`,
+    requests,
+    socketMessages,
+    close: () =>
+      new Promise<void>((resolve) => {
+        for (const client of sockets.clients) client.terminate();
+        sockets.close();
+        server.close(() => resolve());
+      }),
+  };
+}
@@ -0,0 +1,229 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import type { AggTrade, AssetContext, CandleData, MarketTicker, OrderBookUpdate, Symbol } from '../types';
+import type { MarketDataSource } from '../marketData';
+import { createHyperliquidSource } from '../hyperliquid';
+import { startFixtureServer, type FixtureRequest, type FixtureServer } from './fixtureServer';
+import recorded from './fixtures/hyperliquid.json';
+
+interface InfoRequest {
+  type: string;
+  coin?: string;
+  req?: { coin: string; interval: string; startTime: number; endTime: number };
+}
+
+interface HyperliquidFixture {
+  info: {
+    candleSnapshot: Record<string, unknown[]>;
+    l2Book: unknown;
+    metaAndAssetCtxs: unknown;
+    fundingHistory: unknown[];
+  };
+  stream: Record<string, unknown[]>;
+}
+
+const fixture = recorded as HyperliquidFixture;
+
+const BTC: Symbol = { symbol: 'BTC/USDC', base: 'BTC', quote: 'USDC', exchange: 'hyperliquid', type: 'futures_usd' };
+const RECORDED_COINS = ['BTC'];
+const HOUR = 60 * 60 * 1000;
+
+// Hyperliquid rejects bodies it cannot deserialize with a 422
+const UNPROCESSABLE = { status: 422, body: 'Failed to deserialize the JSON body into the target type' };
+
+// Stand-in for POST /info, dispatching on the request type
+function answerInfo({ method, path, body }: FixtureRequest) {
+  if (method !== 'POST' || path !== '/info') return undefined;
+  const request = body as InfoRequest;
+  const coin = request.coin ?? request.req?.coin;
+  if (coin !== undefined && !RECORDED_COINS.includes(coin)) return UNPROCESSABLE;
+
+  switch (request.type) {
+    case 'candleSnapshot': {
+      const candles = fixture.info.candleSnapshot[request.req?.interval ?? ''];
+      return candles ? { body: candles } : UNPROCESSABLE;
+    }
+    case 'l2Book':
+      return { body: fixture.info.l2Book };
+    case 'metaAndAssetCtxs':
+      return { body: fixture.info.metaAndAssetCtxs };
+    case 'fundingHistory':
+      return { body: fixture.info.fundingHistory };
+    default:
+      return UNPROCESSABLE;
+  }
+}
+
+// Stand-in for the WebSocket: acknowledge each subscription, then push its recorded messages
+function answerSocket(message: unknown): unknown[] {
+  const { method, subscription } = message as { method: string; subscription?: { type: string } };
+  if (method === 'ping') return [{ channel: 'pong' }];
+  if (method !== 'subscribe' || !subscription) return [];
+  return [
+    { channel: 'subscriptionResponse', data: { method, subscription } },
+    ...(fixture.stream[subscription.type] ?? []),
+  ];
+}
+
+let server: FixtureServer;
+let source: MarketDataSource;
+
+beforeAll(async () => {
+  server = await startFixtureServer({ rest: answerInfo, socket: answerSocket });
+  source = createHyperliquidSource({ infoUrl: `${server.httpBase}/info`, wsUrl: `${server.wsBase}/ws` });
+});
+
+afterAll(() => server.close());
+
+function lastInfoRequest(): InfoRequest {
+  return server.requests[server.requests.length - 1].body as InfoRequest;
+}
+
+describe('Hyperliquid info', () => {
+  it('requests a candle snapshot covering the limit and keeps the newest candles', async () => {
+    const klines = await source.fetchKlines(BTC, '1m', 2, 1700000100000);
+
+    expect(lastInfoRequest()).toEqual({
+      type: 'candleSnapshot',
+      req: { coin: 'BTC', interval: '1m', startTime: 1699999980000, endTime: 1700000100000 },
+    });
+    expect(klines).toEqual([
+      { time: 1699999980000, open: 37001, high: 37011, low: 36999, close: 37008, volume: 3.0501 },
+      { time: 1700000040000, open: 37008, high: 37015, low: 37002, close: 37010, volume: 1.87 },
+    ]);
+  });
+
+  it('maps and truncates the l2 book', async () => {
+    const book = await source.fetchOrderBook(BTC, 2);
+
+    expect(lastInfoRequest()).toEqual({ type: 'l2Book', coin: 'BTC' });
+    expect(book).toEqual({
+      bids: [['37012', '1.5012'], ['37011', '0.25']],
+      asks: [['37013', '0.9'], ['37014', '2.02']],
+      lastUpdateId: 1700000050123,
+    });
+  });
+
+  it('reads mark, oracle, funding and open interest from the asset contexts', async () => {
+    const context = await source.fetchAssetContext?.(BTC);
+
+    expect(context).toMatchObject({
+      symbol: 'BTC',
+      markPrice: 37010,
+      indexPrice: 37005,
+      fundingRate: 0.0000125,
+      openInterest: 12345.678,
+    });
+    expect(context?.nextFundingTime ?? 0).toBeGreaterThan(Date.now() - HOUR);
+    expect((context?.nextFundingTime ?? 1) % HOUR).toBe(0);
+
+    expect(await source.fetchAssetContext?.({ ...BTC, base: 'NOPE' })).toBeNull();
+  });
+
+  it('builds the ticker from the mid price and hourly candles', async () => {
+    const ticker = await source.fetchTicker(BTC);
+
+    expect(ticker).toMatchObject({
+      symbol: 'BTC',
+      lastPrice: 37012.5,
+      openPrice: 36500,
+      priceChange: 512.5,
+      highPrice: 37250,
+      lowPrice: 36400,
+      volume: 33450.12,
+      quoteVolume: 1234567890.5,
+    });
+    expect(ticker?.priceChangePercent).toBeCloseTo(1.4041, 4);
+  });
+
+  it('derives the tick size from the mark price and size decimals', async () => {
+    expect(await source.fetchInstrument?.(BTC)).toEqual({
+      tickSize: 1,
+      stepSize: 0.00001,
+      minNotional: 10,
+      contractSize: 1,
+      pricePrecision: 0,
+      quantityPrecision: 5,
+    });
+  });
+
+  it('returns funding history and current rates for every listed coin', async () => {
+    const history = await source.fetchFundingHistory?.(BTC, 2);
+    expect(history).toEqual([
+      { time: 1699995600000, fundingRate: 0.0000125 },
+      { time: 1699999200000, fundingRate: -0.000005 },
+    ]);
+
+    const rates = await source.fetchFundingRates?.();
+    expect(rates?.map(({ symbol, fundingRate, markPrice }) => ({ symbol, fundingRate, markPrice }))).toEqual([
+      { symbol: 'BTC', fundingRate: 0.0000125, markPrice: 37010 },
+      { symbol: 'ETH', fundingRate: -0.000003, markPrice: 2045.3 },
+    ]);
+  });
+
+  it('rejects when the info endpoint refuses the request', async () => {
+    await expect(source.fetchOrderBook({ ...BTC, base: 'NOPE' })).rejects.toThrow('Hyperliquid API error: 422');
+  });
+});
+
+describe('Hyperliquid stream', () => {
+  it('subscribes per channel and normalizes book, trade, candle and context pushes', async () => {
+    const books: OrderBookUpdate[] = [];
+    const trades: AggTrade[] = [];
+    const klines: [CandleData, boolean][] = [];
+    const contexts: AssetContext[] = [];
+    const tickers: MarketTicker[] = [];
+    const errors: Error[] = [];
+
+    const stream = source.createStream(
+      BTC,
+      { channels: ['kline', 'depth', 'trades', 'ticker', 'assetContext'], interval: '1m' },
+      {
+        onOrderBook: (update) => books.push(update),
+        onTrade: (trade) => trades.push(trade),
+        onKline: (kline, isClosed) => klines.push([kline, isClosed]),
+        onAssetContext: (context) => contexts.push(context),
+        onTicker: (ticker) => tickers.push(ticker),
+        onError: (error) => errors.push(error),
+      }
+    );
+    stream.connect();
+    try {
+      await vi.waitFor(() => expect(tickers).toHaveLength(1));
+    } finally {
+      stream.disconnect();
+    }
+
+    expect(server.socketMessages).toEqual([
+      { method: 'subscribe', subscription: { type: 'candle', coin: 'BTC', interval: '1m' } },
+      { method: 'subscribe', subscription: { type: 'l2Book', coin: 'BTC' } },
+      { method: 'subscribe', subscription: { type: 'trades', coin: 'BTC' } },
+      { method: 'subscribe', subscription: { type: 'activeAssetCtx', coin: 'BTC' } },
+    ]);
+    expect(errors).toEqual([]);
+
+    // A candle is closed once the next one starts
+    const first = { time: 1700000040000, open: 37008, high: 37015, low: 37002, close: 37010, volume: 1.87 };
+    expect(klines).toEqual([
+      [first, false],
+      [first, true],
+      [{ time: 1700000100000, open: 37010, high: 37013, low: 37009, close: 37012, volume: 0.31 }, false],
+    ]);
+
+    expect(books).toEqual([
+      {
+        bids: [['37012', '1.2'], ['37011', '0.25']],
+        asks: [['37013', '1.1'], ['37014', '2.02']],
+        lastUpdateId: 1700000100500,
+      },
+    ]);
+
+    expect(trades).toEqual([
+      { id: 881234001, price: 37012, quantity: 0.3, time: 1700000100600, isBuyerMaker: true },
+      { id: 881234002, price: 37013, quantity: 0.05, time: 1700000100700, isBuyerMaker: false },
+    ]);
+
+    expect(contexts).toHaveLength(1);
+    expect(contexts[0]).toMatchObject({ symbol: 'BTC', markPrice: 37011, indexPrice: 37006, openInterest: 12350.1 });
+    expect(tickers[0]).toMatchObject({ symbol: 'BTC', lastPrice: 37012.5, openPrice: 36500, volume: 33451 });
+  });
+});
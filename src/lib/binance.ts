@@ -1,9 +1,44 @@
-import type { CandleData } from './types';
+import type {
+  AggTrade,
+  AssetContext,
+  CandleData,
+  FundingRatePoint,
+  InstrumentInfo,
+  LiquidationEvent,
+  MarketTicker,
+  OpenInterestPoint,
+  OrderBookUpdate,
+  PositioningPoint,
+  Symbol,
+} from './types';
+import type { MarketChannel, MarketDataSource, MarketStream, MarketStreamCallbacks } from './marketData';
+import { combineStreams } from './streams';
+import { LocalOrderBook } from './orderBook';
+import { getBinanceConnection, type BinanceConnection } from './binanceConnection';
+import { getRestClient, type RestClient } from './restClient';
+import { isWorkerPipelineAvailable, WorkerDepthStream } from './workerPipeline';
+import { candleOpenTime, nearestPeriod, timeframeToMs } from './timeframes';
+import { createInstrumentInfo } from './instruments';
 
 const BINANCE_API_BASE = 'https://api.binance.com/api/v3';
 const BINANCE_WS_BASE = 'wss://stream.binance.com:9443';
 const BINANCE_WS_SINGLE = 'wss://stream.binance.com:9443/ws';
 const BINANCE_WS_COMBINED = 'wss://stream.binance.com:9443/stream?streams=';
+const BINANCE_USDM_API_BASE = 'https://fapi.binance.com/fapi/v1';
+const BINANCE_USDM_WS_COMBINED = 'wss://fstream.binance.com/stream?streams=';
+const BINANCE_COINM_API_BASE = 'https://dapi.binance.com/dapi/v1';
+const BINANCE_COINM_WS_COMBINED = 'wss://dstream.binance.com/stream?streams=';
+const BINANCE_USDM_DATA_BASE = 'https://fapi.binance.com/futures/data';
+const BINANCE_COINM_DATA_BASE = 'https://dapi.binance.com/futures/data';
+
+// spot = api/stream, usdm = fapi/fstream (USDT-margined), coinm = dapi/dstream (coin-margined)
+export type BinanceMarket = 'spot' | 'usdm' | 'coinm';
+
+const BINANCE_ENDPOINTS: Record<BinanceMarket, { rest: string; ws: string }> = {
+  spot: { rest: BINANCE_API_BASE, ws: BINANCE_WS_COMBINED },
+  usdm: { rest: BINANCE_USDM_API_BASE, ws: BINANCE_USDM_WS_COMBINED },
+  coinm: { rest: BINANCE_COINM_API_BASE, ws: BINANCE_COINM_WS_COMBINED },
+};
 
 export interface BinanceKline {
   openTime: number;
@@ -24,6 +59,24 @@ export interface BinanceSymbol {
   baseAsset: string;
   quoteAsset: string;
   status: string;
+  instrument: InstrumentInfo;
+}
+
+interface BinanceSymbolFilter {
+  filterType: string;
+  tickSize?: string;    // PRICE_FILTER
+  stepSize?: string;    // LOT_SIZE
+  minNotional?: string; // Spot NOTIONAL / MIN_NOTIONAL
+  notional?: string;    // USD-M MIN_NOTIONAL
+}
+
+interface BinanceExchangeInfoSymbol {
+  symbol: string;
+  baseAsset: string;
+  quoteAsset: string;
+  status: string;
+  filters: BinanceSymbolFilter[];
+  contractSize?: number; // COIN-M only
 }
 
 export interface BinanceTicker {
@@ -35,19 +88,25 @@ export interface BinanceTicker {
   lowPrice: string;
   volume: string;
   quoteVolume: string;
+  openPrice: string;
+  count: number;
+  baseVolume?: string; // COIN-M only; `volume` is in contracts there
 }
 
-export interface OrderBookUpdate {
-  bids: [string, string][]; // [price, quantity]
-  asks: [string, string][]; // [price, quantity]
-  lastUpdateId: number;
+interface BinancePremiumIndex {
+  symbol: string;
+  markPrice: string;
+  indexPrice: string;
+  lastFundingRate: string;
+  nextFundingTime: number;
+  time: number;
 }
 
-export interface AggTrade {
-  price: number;
-  quantity: number;
-  time: number;
-  isBuyerMaker: boolean;
+interface BinanceFundingRate {
+  symbol: string;
+  fundingTime: number;
+  fundingRate: string;
+  markPrice?: string; // Empty on older entries
 }
 
 // WebSocket message types
@@ -57,7 +116,8 @@ interface BinanceKlineData {
   h: string;  // High price
   l: string;  // Low price
   c: string;  // Close price
-  v: string;  // Base asset volume
+  v: string;  // Base asset volume (contracts on COIN-M)
+  q: string;  // Quote asset volume (base asset volume on COIN-M)
   x: boolean; // Is this kline closed?
 }
 
@@ -68,10 +128,11 @@ interface BinanceKlineEvent {
 
 interface BinanceDepthUpdate {
   e: 'depthUpdate';
+  U: number;  // First update ID in event
+  u: number;  // Final update ID in event
+  pu?: number; // Futures: final update ID of the previous event
   b: [string, string][]; // Bids
   a: [string, string][]; // Asks
-  u?: number;
-  lastUpdateId?: number;
 }
 
 interface BinanceDepthSnapshot {
@@ -82,12 +143,51 @@ interface BinanceDepthSnapshot {
 
 interface BinanceAggTradeEvent {
   e: 'aggTrade';
+  a: number;  // Aggregate trade ID
   p: string;  // Price
   q: string;  // Quantity
   T: number;  // Trade time
   m: boolean; // Is buyer maker
 }
 
+interface BinanceTickerEvent {
+  e: '24hrTicker';
+  s: string;  // Symbol
+  p: string;  // Price change
+  P: string;  // Price change percent
+  o: string;  // Open price
+  h: string;  // High price
+  l: string;  // Low price
+  c: string;  // Last price
+  v: string;  // Base asset volume
+  q: string;  // Quote asset volume
+  n: number;  // Number of trades
+}
+
+interface BinanceMarkPriceEvent {
+  e: 'markPriceUpdate';
+  E: number;  // Event time
+  s: string;  // Symbol
+  p: string;  // Mark price
+  i: string;  // Index price
+  r: string;  // Funding rate
+  T: number;  // Next funding time
+}
+
+interface BinanceForceOrderEvent {
+  e: 'forceOrder';
+  o: {
+    s: string;  // Symbol
+    S: 'SELL' | 'BUY';
+    o: string;  // Order type
+    q: string;  // Original quantity
+    p: string;  // Price
+    ap: string; // Average price
+    X: string;  // Order status
+    T: number;  // Trade time
+  };
+}
+
 type BinanceEventData = BinanceKlineEvent | BinanceDepthUpdate | BinanceAggTradeEvent | BinanceDepthSnapshot;
 
 interface BinanceStreamMessage {
@@ -96,230 +196,533 @@ interface BinanceStreamMessage {
   [key: string]: unknown;
 }
 
+// Kline intervals Binance serves; spot, USD-M and COIN-M share the set
+export const BINANCE_INTERVALS = [
+  '1m', '3m', '5m', '15m', '30m', '1h', '2h', '4h', '6h', '8h', '12h', '1d', '3d', '1w', '1M',
+];
+
 // Convert Binance timeframe format
 export function toBinanceInterval(timeframe: string): string {
-  const map: Record<string, string> = {
-    '1m': '1m',
-    '5m': '5m',
-    '15m': '15m',
-    '30m': '30m',
-    '1h': '1h',
-    '4h': '4h',
-    '1d': '1d',
-  };
-  return map[timeframe] || '5m';
-}
-
-// Generate mock kline data as fallback
-function generateMockKlines(count: number, basePrice = 97500): CandleData[] {
-  const candles: CandleData[] = [];
-  let currentPrice = basePrice;
-  const now = Date.now();
-  const interval = 5 * 60 * 1000; // 5 minutes
-
-  for (let i = count - 1; i >= 0; i--) {
-    const volatility = 0.002 + Math.random() * 0.003;
-    const trend = (Math.random() - 0.48) * volatility;
-
-    const open = currentPrice;
-    const close = open * (1 + trend);
-    const high = Math.max(open, close) * (1 + Math.random() * volatility * 0.5);
-    const low = Math.min(open, close) * (1 - Math.random() * volatility * 0.5);
-    const volume = 100 + Math.random() * 500;
-
-    candles.push({
-      time: now - i * interval,
-      open,
-      high,
-      low,
-      close,
-      volume,
-    });
+  return BINANCE_INTERVALS.includes(timeframe) ? timeframe : '5m';
+}
 
-    currentPrice = close;
-  }
+// Request weight budgets per minute; api, fapi and dapi are counted separately
+const BINANCE_WEIGHT_LIMITS: Record<BinanceMarket, number> = { spot: 6000, usdm: 2400, coinm: 2400 };
+const EXCHANGE_INFO_TTL = 60 * 60 * 1000;
+
+function binanceRest(market: BinanceMarket): RestClient {
+  return getRestClient({
+    name: 'Binance',
+    baseUrl: BINANCE_ENDPOINTS[market].rest,
+    weightLimit: BINANCE_WEIGHT_LIMITS[market],
+    weightHeader: 'x-mbx-used-weight-1m',
+  });
+}
+
+// Futures analytics (open interest history and the like) are capped per IP
+// by request count rather than weight: 1000 every 5 minutes
+const FUTURES_DATA_LIMIT = 1000;
+const FUTURES_DATA_WINDOW = 5 * 60 * 1000;
+
+function binanceFuturesData(market: Exclude<BinanceMarket, 'spot'>): RestClient {
+  return getRestClient({
+    name: 'Binance',
+    baseUrl: market === 'coinm' ? BINANCE_COINM_DATA_BASE : BINANCE_USDM_DATA_BASE,
+    weightLimit: FUTURES_DATA_LIMIT,
+    windowMs: FUTURES_DATA_WINDOW,
+  });
+}
+
+// Weight of the first tier whose limit covers the request
+function tieredWeight(limit: number, tiers: [number, number][], max: number): number {
+  return tiers.find(([upTo]) => limit <= upTo)?.[1] ?? max;
+}
 
-  return candles;
+function klinesWeight(limit: number): number {
+  return tieredWeight(limit, [[99, 1], [499, 2], [1000, 5]], 10);
+}
+
+function depthWeight(limit: number, market: BinanceMarket): number {
+  return market === 'spot'
+    ? tieredWeight(limit, [[100, 5], [500, 25], [1000, 50]], 250)
+    : tieredWeight(limit, [[50, 2], [100, 5], [500, 10], [1000, 20]], 50);
 }
 
 // Fetch klines (candlestick data) from Binance
 export async function fetchKlines(
   symbol: string,
   interval: string,
-  limit = 100
+  limit = 100,
+  market: BinanceMarket = 'spot',
+  endTime?: number
 ): Promise<CandleData[]> {
-  try {
-    // Convert symbol format (BTC/USDT -> BTCUSDT)
-    const binanceSymbol = symbol.replace('/', '').toUpperCase();
-    const binanceInterval = toBinanceInterval(interval);
+  // Convert symbol format (BTC/USDT -> BTCUSDT)
+  const binanceSymbol = symbol.replace('/', '').toUpperCase();
+  const binanceInterval = toBinanceInterval(interval);
 
-    const response = await fetch(
-      `${BINANCE_API_BASE}/klines?symbol=${binanceSymbol}&interval=${binanceInterval}&limit=${limit}`
-    );
+  // A page that ends before the current candle only holds closed candles, which never change
+  const closed = endTime !== undefined && candleOpenTime(endTime, interval) + timeframeToMs(interval) <= Date.now();
 
-    if (!response.ok) {
-      throw new Error(`Binance API error: ${response.status}`);
-    }
+  const data = await binanceRest(market).get<(string | number)[][]>(
+    '/klines',
+    { symbol: binanceSymbol, interval: binanceInterval, limit, endTime },
+    { weight: klinesWeight(limit), cacheTtl: closed ? Infinity : undefined }
+  );
+  // COIN-M reports volume in contracts; index 7 is the base asset volume
+  const volumeIndex = market === 'coinm' ? 7 : 5;
 
-    const data = await response.json();
-
-    return data.map((kline: (string | number)[]): CandleData => ({
-      time: kline[0] as number,
-      open: parseFloat(kline[1] as string),
-      high: parseFloat(kline[2] as string),
-      low: parseFloat(kline[3] as string),
-      close: parseFloat(kline[4] as string),
-      volume: parseFloat(kline[5] as string),
-    }));
-  } catch (error) {
-    console.error('Failed to fetch klines, using mock data:', error);
-    // Return mock data as fallback
-    return generateMockKlines(limit);
-  }
+  return data.map((kline): CandleData => ({
+    time: kline[0] as number,
+    open: parseFloat(kline[1] as string),
+    high: parseFloat(kline[2] as string),
+    low: parseFloat(kline[3] as string),
+    close: parseFloat(kline[4] as string),
+    volume: parseFloat(kline[volumeIndex] as string),
+  }));
 }
 
 // Fetch 24hr ticker for a symbol
-export async function fetchTicker(symbol: string): Promise<BinanceTicker | null> {
-  try {
-    const binanceSymbol = symbol.replace('/', '').toUpperCase();
-    const response = await fetch(
-      `${BINANCE_API_BASE}/ticker/24hr?symbol=${binanceSymbol}`
-    );
+export async function fetchTicker(symbol: string, market: BinanceMarket = 'spot'): Promise<BinanceTicker | null> {
+  const binanceSymbol = symbol.replace('/', '').toUpperCase();
+  const data = await binanceRest(market).get<BinanceTicker | BinanceTicker[]>(
+    '/ticker/24hr',
+    { symbol: binanceSymbol },
+    { weight: 2 }
+  );
+  // COIN-M answers with a one-element array
+  return Array.isArray(data) ? data[0] ?? null : data;
+}
 
-    if (!response.ok) {
-      throw new Error(`Binance API error: ${response.status}`);
-    }
+function toInstrumentInfo(info: BinanceExchangeInfoSymbol, market: BinanceMarket): InstrumentInfo {
+  const filter = (type: string) => info.filters.find((f) => f.filterType === type);
+  const notional = filter('NOTIONAL') ?? filter('MIN_NOTIONAL');
+  const tickSize = parseFloat(filter('PRICE_FILTER')?.tickSize ?? '0');
 
-    return await response.json();
-  } catch (error) {
-    console.error('Failed to fetch ticker:', error);
-    return null;
+  // COIN-M sizes are whole contracts; displayed quantities are base asset at the current price
+  if (market === 'coinm') {
+    return createInstrumentInfo({
+      tickSize,
+      stepSize: 0,
+      contractSize: info.contractSize ?? defaultContractSize(info.symbol),
+    });
   }
+  return createInstrumentInfo({
+    tickSize,
+    stepSize: parseFloat(filter('LOT_SIZE')?.stepSize ?? '0'),
+    minNotional: parseFloat(notional?.minNotional ?? notional?.notional ?? '0'),
+  });
 }
 
 // Fetch all trading symbols from Binance
 export async function fetchSymbols(): Promise<BinanceSymbol[]> {
-  try {
-    const response = await fetch(`${BINANCE_API_BASE}/exchangeInfo`);
+  const data = await binanceRest('spot').get<{ symbols: BinanceExchangeInfoSymbol[] }>(
+    '/exchangeInfo',
+    {},
+    { weight: 20, cacheTtl: EXCHANGE_INFO_TTL }
+  );
+  return data.symbols
+    .filter((s) => s.status === 'TRADING')
+    .map((s) => ({
+      symbol: s.symbol,
+      baseAsset: s.baseAsset,
+      quoteAsset: s.quoteAsset,
+      status: s.status,
+      instrument: toInstrumentInfo(s, 'spot'),
+    }));
+}
 
-    if (!response.ok) {
-      throw new Error(`Binance API error: ${response.status}`);
-    }
+// Trading rules for one pair. Spot can be asked for a single symbol; the
+// futures hosts only list everything, which fetchContractSize shares.
+export async function fetchInstrumentInfo(symbol: string, market: BinanceMarket = 'spot'): Promise<InstrumentInfo | null> {
+  const binanceSymbol = symbol.toUpperCase();
+  const data = await binanceRest(market).get<{ symbols: BinanceExchangeInfoSymbol[] }>(
+    '/exchangeInfo',
+    market === 'spot' ? { symbol: binanceSymbol } : {},
+    { weight: market === 'spot' ? 20 : 1, cacheTtl: EXCHANGE_INFO_TTL }
+  );
+  const info = data.symbols.find((s) => s.symbol === binanceSymbol);
+  return info ? toInstrumentInfo(info, market) : null;
+}
 
-    const data = await response.json();
-    return data.symbols
-      .filter((s: BinanceSymbol) => s.status === 'TRADING')
-      .map((s: BinanceSymbol) => ({
-        symbol: s.symbol,
-        baseAsset: s.baseAsset,
-        quoteAsset: s.quoteAsset,
-        status: s.status,
-      }));
-  } catch (error) {
-    console.error('Failed to fetch symbols:', error);
-    return [];
+// Fetch order book depth
+export async function fetchOrderBook(
+  symbol: string,
+  limit = 100,
+  market: BinanceMarket = 'spot'
+): Promise<OrderBookUpdate> {
+  const binanceSymbol = symbol.replace('/', '').toUpperCase();
+  const data = await binanceRest(market).get<OrderBookUpdate>(
+    '/depth',
+    { symbol: binanceSymbol, limit },
+    { weight: depthWeight(limit, market) }
+  );
+  return {
+    bids: data.bids,
+    asks: data.asks,
+    lastUpdateId: data.lastUpdateId,
+  };
+}
+
+interface BinanceAggTradeRow {
+  a: number;  // Aggregate trade ID
+  p: string;  // Price
+  q: string;  // Quantity (contracts on COIN-M)
+  T: number;  // Trade time
+  m: boolean; // Is buyer maker
+}
+
+// Aggregate trades from a trade ID or a time (the latest without either), oldest first
+export async function fetchAggTrades(
+  symbol: string,
+  from: { fromId: number } | { startTime: number } | null,
+  limit = 1000,
+  market: BinanceMarket = 'spot'
+): Promise<AggTrade[]> {
+  const binanceSymbol = symbol.replace('/', '').toUpperCase();
+  const data = await binanceRest(market).get<BinanceAggTradeRow[]>(
+    '/aggTrades',
+    { symbol: binanceSymbol, ...from, limit },
+    { weight: market === 'spot' ? 2 : 20 }
+  );
+  return data.map((row) => ({
+    id: row.a,
+    price: parseFloat(row.p),
+    quantity: parseFloat(row.q),
+    time: row.T,
+    isBuyerMaker: row.m,
+  }));
+}
+
+let coinmContractSizes: Promise<Map<string, number>> | null = null;
+
+// COIN-M contracts are worth a fixed USD amount: 100 for BTC, 10 for everything else
+function defaultContractSize(symbol: string): number {
+  return symbol.toUpperCase().startsWith('BTCUSD') ? 100 : 10;
+}
+
+// USD value of one COIN-M contract, from exchangeInfo (cached for the session)
+export async function fetchContractSize(symbol: string): Promise<number> {
+  const binanceSymbol = symbol.toUpperCase();
+
+  if (!coinmContractSizes) {
+    coinmContractSizes = binanceRest('coinm')
+      .get<{ symbols: { symbol: string; contractSize: number }[] }>('/exchangeInfo', {}, { cacheTtl: EXCHANGE_INFO_TTL })
+      .then((data) =>
+        new Map(data.symbols.map((s) => [s.symbol, s.contractSize]))
+      )
+      .catch((error) => {
+        console.error('Failed to fetch contract sizes:', error);
+        coinmContractSizes = null; // Retry next time
+        return new Map<string, number>();
+      });
   }
+
+  const sizes = await coinmContractSizes;
+  return sizes.get(binanceSymbol) ?? defaultContractSize(binanceSymbol);
 }
 
-// Fetch order book depth
-export async function fetchOrderBook(symbol: string, limit = 100): Promise<OrderBookUpdate | null> {
-  try {
-    const binanceSymbol = symbol.replace('/', '').toUpperCase();
-    const response = await fetch(
-      `${BINANCE_API_BASE}/depth?symbol=${binanceSymbol}&limit=${limit}`
-    );
+// Convert a COIN-M contract count to base asset at the given price
+export function contractsToBase(contracts: number, price: number, contractSize: number): number {
+  return price > 0 ? (contracts * contractSize) / price : 0;
+}
+
+// Mark/index price, funding and open interest for a futures symbol
+export async function fetchPremiumIndex(
+  symbol: string,
+  market: Exclude<BinanceMarket, 'spot'> = 'usdm'
+): Promise<AssetContext> {
+  const binanceSymbol = symbol.replace('/', '').toUpperCase();
+  const rest = binanceRest(market);
+  const [indexData, interest] = await Promise.all([
+    rest.get<BinancePremiumIndex | BinancePremiumIndex[]>('/premiumIndex', { symbol: binanceSymbol }),
+    // Open interest is a nice-to-have; the premium index alone still answers
+    rest.get<{ openInterest: string }>('/openInterest', { symbol: binanceSymbol }).catch((error) => {
+      console.error('Failed to fetch open interest:', error);
+      return null;
+    }),
+  ]);
 
-    if (!response.ok) {
-      throw new Error(`Binance API error: ${response.status}`);
+  // COIN-M answers with a one-element array
+  const premium = Array.isArray(indexData) ? indexData[0] : indexData;
+  const markPrice = parseFloat(premium.markPrice);
+
+  let openInterest: number | undefined;
+  if (interest) {
+    openInterest = parseFloat(interest.openInterest);
+    if (market === 'coinm') {
+      openInterest = contractsToBase(openInterest, markPrice, await fetchContractSize(binanceSymbol));
     }
+  }
 
-    const data = await response.json();
-    return {
-      bids: data.bids,
-      asks: data.asks,
-      lastUpdateId: data.lastUpdateId,
-    };
-  } catch (error) {
-    console.error('Failed to fetch order book:', error);
-    return null;
+  return premiumToContext(premium, openInterest);
+}
+
+function premiumToContext(premium: BinancePremiumIndex, openInterest?: number): AssetContext {
+  return {
+    symbol: premium.symbol,
+    markPrice: parseFloat(premium.markPrice),
+    indexPrice: parseFloat(premium.indexPrice),
+    fundingRate: parseFloat(premium.lastFundingRate),
+    openInterest,
+    nextFundingTime: premium.nextFundingTime,
+    time: premium.time,
+  };
+}
+
+// Mark price and funding for every USD-M perpetual, for the funding table
+export async function fetchAllPremiumIndexes(): Promise<AssetContext[]> {
+  const all = await binanceRest('usdm').get<BinancePremiumIndex[]>('/premiumIndex', {}, { weight: 10 });
+  // Delivery contracts list here too, with no next funding
+  return all.filter((premium) => premium.nextFundingTime > 0).map((premium) => premiumToContext(premium));
+}
+
+const MAX_FUNDING_HISTORY = 1000;
+
+// Settled funding rates for a futures symbol, oldest first
+export async function fetchFundingHistory(
+  symbol: string,
+  limit = 100,
+  market: Exclude<BinanceMarket, 'spot'> = 'usdm'
+): Promise<FundingRatePoint[]> {
+  const binanceSymbol = symbol.replace('/', '').toUpperCase();
+  const history = await binanceRest(market).get<BinanceFundingRate[]>('/fundingRate', {
+    symbol: binanceSymbol,
+    limit: Math.min(limit, MAX_FUNDING_HISTORY),
+  });
+  return history
+    .map((entry): FundingRatePoint => ({
+      time: entry.fundingTime,
+      fundingRate: parseFloat(entry.fundingRate),
+      markPrice: entry.markPrice ? parseFloat(entry.markPrice) : undefined,
+    }))
+    .sort((a, b) => a.time - b.time);
+}
+
+// Periods Binance keeps futures analytics (open interest, long/short ratios,
+// taker volume) for, over the last 30 days
+const FUTURES_DATA_PERIODS = ['5m', '15m', '30m', '1h', '2h', '4h', '6h', '12h', '1d'];
+const MAX_OPEN_INTEREST_HISTORY = 500;
+
+interface BinanceOpenInterestHist {
+  sumOpenInterest: string;      // Base asset on USD-M, contracts on COIN-M
+  sumOpenInterestValue: string; // Quote on USD-M, base asset on COIN-M
+  timestamp: number;
+}
+
+// Open interest snapshots for a futures symbol, oldest first
+export async function fetchOpenInterestHistory(
+  symbol: string,
+  period: string,
+  limit = MAX_OPEN_INTEREST_HISTORY,
+  market: Exclude<BinanceMarket, 'spot'> = 'usdm'
+): Promise<OpenInterestPoint[]> {
+  const binanceSymbol = symbol.replace('/', '').toUpperCase();
+  // COIN-M reports the whole pair (perpetual and quarterlies) per contract type
+  const target = market === 'coinm'
+    ? { pair: binanceSymbol.replace(/_PERP$/, ''), contractType: 'PERPETUAL' }
+    : { symbol: binanceSymbol };
+  const history = await binanceFuturesData(market).get<BinanceOpenInterestHist[]>('/openInterestHist', {
+    ...target,
+    period: nearestPeriod(period, FUTURES_DATA_PERIODS),
+    limit: Math.min(limit, MAX_OPEN_INTEREST_HISTORY),
+  });
+
+  const contractSize = market === 'coinm' ? await fetchContractSize(binanceSymbol) : 0;
+  return history
+    .map((entry): OpenInterestPoint => market === 'coinm'
+      ? {
+          time: entry.timestamp,
+          openInterest: parseFloat(entry.sumOpenInterestValue),
+          openInterestValue: parseFloat(entry.sumOpenInterest) * contractSize,
+        }
+      : {
+          time: entry.timestamp,
+          openInterest: parseFloat(entry.sumOpenInterest),
+          openInterestValue: parseFloat(entry.sumOpenInterestValue),
+        })
+    .sort((a, b) => a.time - b.time);
+}
+
+const MAX_POSITIONING_HISTORY = 500;
+
+interface BinanceLongShortRatio {
+  longShortRatio: string;
+  timestamp: number;
+}
+
+interface BinanceTakerVolume {
+  buyVol: string;  // Base asset
+  sellVol: string;
+  timestamp: number;
+}
+
+interface BinanceCoinmTakerVolume {
+  takerBuyVolValue: string;  // Base asset
+  takerSellVolValue: string;
+  timestamp: number;
+}
+
+// Long/short ratios and taker volume for a futures symbol, oldest first.
+// Each series is its own request; one that fails leaves its fields unset.
+export async function fetchPositioning(
+  symbol: string,
+  period: string,
+  limit = MAX_POSITIONING_HISTORY,
+  market: Exclude<BinanceMarket, 'spot'> = 'usdm'
+): Promise<PositioningPoint[]> {
+  const binanceSymbol = symbol.replace('/', '').toUpperCase();
+  const pair = binanceSymbol.replace(/_PERP$/, '');
+  const client = binanceFuturesData(market);
+  const params = {
+    ...(market === 'coinm' ? { pair } : { symbol: binanceSymbol }),
+    period: nearestPeriod(period, FUTURES_DATA_PERIODS),
+    limit: Math.min(limit, MAX_POSITIONING_HISTORY),
+  };
+
+  const series = <T>(path: string, extra: Record<string, string> = {}): Promise<T[]> =>
+    client.get<T[]>(path, { ...params, ...extra }).catch((error) => {
+      console.error(`Failed to fetch ${path}:`, error);
+      return [];
+    });
+  const takerVolume: Promise<{ timestamp: number; buy: number; sell: number }[]> = market === 'coinm'
+    ? series<BinanceCoinmTakerVolume>('/takerBuySellVol', { contractType: 'PERPETUAL' }).then((rows) =>
+        rows.map((row) => ({
+          timestamp: row.timestamp,
+          buy: parseFloat(row.takerBuyVolValue),
+          sell: parseFloat(row.takerSellVolValue),
+        }))
+      )
+    : series<BinanceTakerVolume>('/takerlongshortRatio').then((rows) =>
+        rows.map((row) => ({ timestamp: row.timestamp, buy: parseFloat(row.buyVol), sell: parseFloat(row.sellVol) }))
+      );
+
+  const [topAccounts, topPositions, globalAccounts, taker] = await Promise.all([
+    series<BinanceLongShortRatio>('/topLongShortAccountRatio'),
+    series<BinanceLongShortRatio>('/topLongShortPositionRatio'),
+    series<BinanceLongShortRatio>('/globalLongShortAccountRatio'),
+    takerVolume,
+  ]);
+
+  // Line the series up by period start
+  const byTime = new Map<number, PositioningPoint>();
+  const at = (time: number) => {
+    let point = byTime.get(time);
+    if (!point) {
+      point = { time };
+      byTime.set(time, point);
+    }
+    return point;
+  };
+  for (const row of topAccounts) at(row.timestamp).topAccountRatio = parseFloat(row.longShortRatio);
+  for (const row of topPositions) at(row.timestamp).topPositionRatio = parseFloat(row.longShortRatio);
+  for (const row of globalAccounts) at(row.timestamp).globalAccountRatio = parseFloat(row.longShortRatio);
+  for (const row of taker) {
+    const point = at(row.timestamp);
+    point.takerBuyVolume = row.buy;
+    point.takerSellVolume = row.sell;
   }
+  return Array.from(byTime.values()).sort((a, b) => a.time - b.time);
+}
+
+// Build the stream names for a lowercase pair and set of channels
+function buildStreams(pair: string, interval: string, channels: MarketChannel[]): string[] {
+  const streams: string[] = [];
+  if (channels.includes('kline')) streams.push(`${pair}@kline_${interval}`);
+  if (channels.includes('depth')) streams.push(`${pair}@depth@100ms`); // Diffs for LocalOrderBook
+  if (channels.includes('trades')) streams.push(`${pair}@aggTrade`);
+  if (channels.includes('ticker')) streams.push(`${pair}@ticker`);
+  if (channels.includes('liquidations')) streams.push(`${pair}@forceOrder`);
+  if (channels.includes('assetContext')) streams.push(`${pair}@markPrice@1s`);
+  return streams;
 }
 
-// Enhanced WebSocket manager for real-time data
+const DEFAULT_CHANNELS: MarketChannel[] = ['kline', 'depth', 'trades'];
+const SNAPSHOT_DEPTH = 1000;
+// Levels per side published with each book update; diffs grow the local book
+// well past what the snapshot covered
+const BOOK_DEPTH = SNAPSHOT_DEPTH;
+
+export interface BinanceWebSocketOptions {
+  channels?: MarketChannel[];
+  market?: BinanceMarket;
+  wsBase?: string; // Combined stream endpoint, defaults to the market's host
+  contractSize?: number; // COIN-M only, see setContractSize
+  // REST snapshot the local book starts from, in base asset like the book
+  // itself; supplied through the market transport, fetched directly when omitted
+  loadSnapshot?: () => Promise<OrderBookUpdate | null>;
+}
+
+// Re-express COIN-M book levels (contracts) in base asset
+function levelsToBase(levels: [string, string][], contractSize: number): [string, string][] {
+  return levels.map(([price, quantity]) => [
+    price,
+    contractsToBase(parseFloat(quantity), parseFloat(price), contractSize).toString(),
+  ]);
+}
+
+// Real-time data for one symbol. Streams are multiplexed over the shared
+// connection for the market's endpoint, see binanceConnection.ts.
 export class BinanceWebSocket {
-  private ws: WebSocket | null = null;
-  private reconnectAttempts = 0;
-  private maxReconnectAttempts = 5;
-  private reconnectDelay = 1000;
+  private connection: BinanceConnection;
+  private unsubscribe: (() => void) | null = null;
   private symbol: string;
   private streams: string[];
-  private callbacks: {
-    onKline?: (kline: CandleData, isClosed: boolean) => void;
-    onPrice?: (price: number) => void;
-    onOrderBook?: (update: OrderBookUpdate) => void;
-    onTrade?: (trade: AggTrade) => void;
-    onError?: (error: Error) => void;
-    onConnect?: () => void;
-    onDisconnect?: () => void;
-  };
+  private channels: MarketChannel[];
+  private market: BinanceMarket;
+  private contractSize: number;
+  private callbacks: MarketStreamCallbacks;
+  private book: LocalOrderBook;
 
   constructor(
     symbol: string,
     interval: string,
-    callbacks: BinanceWebSocket['callbacks']
+    callbacks: MarketStreamCallbacks,
+    options: BinanceWebSocketOptions = {}
   ) {
     this.symbol = symbol.replace('/', '').toLowerCase();
     this.callbacks = callbacks;
+    this.channels = options.channels ?? DEFAULT_CHANNELS;
+    this.market = options.market ?? 'spot';
+    this.connection = getBinanceConnection(options.wsBase ?? BINANCE_ENDPOINTS[this.market].ws);
+    this.contractSize = options.contractSize ?? defaultContractSize(this.symbol);
 
     // Build streams array
-    this.streams = [
-      `${this.symbol}@kline_${interval}`,
-      `${this.symbol}@depth20@100ms`,
-      `${this.symbol}@aggTrade`,
-    ];
+    this.streams = buildStreams(this.symbol, interval, this.channels);
+
+    const loadSnapshot = options.loadSnapshot ?? (async () => {
+      const book = await fetchOrderBook(this.symbol, SNAPSHOT_DEPTH, this.market);
+      return { ...book, bids: this.toBaseLevels(book.bids), asks: this.toBaseLevels(book.asks) };
+    });
+    this.book = new LocalOrderBook({
+      loadSnapshot: () =>
+        loadSnapshot().catch((error) => {
+          console.error('Failed to fetch order book snapshot:', error);
+          return null;
+        }),
+      onUpdate: (book) => this.handleBookUpdate(book),
+      futures: this.market !== 'spot',
+    });
   }
 
   connect(): void {
-    if (this.ws?.readyState === WebSocket.OPEN) {
+    if (this.unsubscribe) {
       return;
     }
 
-    // Use combined stream endpoint for multiple streams
-    const streamString = this.streams.join('/');
-    const wsUrl = `${BINANCE_WS_COMBINED}${streamString}`;
-
-    try {
-      this.ws = new WebSocket(wsUrl);
-
-      this.ws.onopen = () => {
-        console.log('Binance WebSocket connected');
-        this.reconnectAttempts = 0;
+    this.callbacks.onStatus?.({ state: 'connecting' });
+    this.unsubscribe = this.connection.subscribe(this.streams, {
+      onOpen: () => {
+        this.book.reset(); // Diffs may have been missed while disconnected
+        this.callbacks.onStatus?.({ state: 'connected' });
         this.callbacks.onConnect?.();
-      };
-
-      this.ws.onmessage = (event) => {
-        try {
-          const data = JSON.parse(event.data);
-          this.handleMessage(data);
-        } catch (error) {
-          console.error('Failed to parse WebSocket message:', error);
-        }
-      };
-
-      this.ws.onerror = (error) => {
-        console.error('WebSocket error:', error);
-        this.callbacks.onError?.(new Error('WebSocket connection error'));
-      };
-
-      this.ws.onclose = () => {
-        console.log('Binance WebSocket disconnected');
-        this.callbacks.onDisconnect?.();
-        this.attemptReconnect();
-      };
-    } catch (error) {
-      console.error('Failed to create WebSocket:', error);
-      this.attemptReconnect();
-    }
+      },
+      onMessage: (data) => this.handleMessage(data),
+      onError: (error) => this.callbacks.onError?.(error),
+      onClose: () => this.callbacks.onDisconnect?.(),
+      onReconnecting: (attempt, delay) => {
+        this.callbacks.onStatus?.({ state: 'reconnecting', attempt, retryIn: delay });
+      },
+    });
   }
 
   private handleMessage(data: BinanceStreamMessage): void {
@@ -336,21 +739,32 @@ export class BinanceWebSocket {
       case 'depthUpdate':
         this.handleDepthUpdate({
           e: 'depthUpdate',
+          U: eventData.U as number,
+          u: eventData.u as number,
+          pu: eventData.pu as number | undefined,
           b: (eventData.b || []) as [string, string][],
           a: (eventData.a || []) as [string, string][],
-          u: eventData.u as number | undefined,
-          lastUpdateId: eventData.lastUpdateId as number | undefined,
         });
         break;
       case 'aggTrade':
         this.handleAggTrade({
           e: 'aggTrade',
+          a: eventData.a as number,
           p: eventData.p as string,
           q: eventData.q as string,
           T: eventData.T as number,
           m: eventData.m as boolean,
         });
         break;
+      case '24hrTicker':
+        this.handleTicker(eventData as unknown as BinanceTickerEvent);
+        break;
+      case 'forceOrder':
+        this.handleForceOrder(eventData as unknown as BinanceForceOrderEvent);
+        break;
+      case 'markPriceUpdate':
+        this.handleMarkPrice(eventData as unknown as BinanceMarkPriceEvent);
+        break;
       default:
         // Handle direct stream data (non-combined)
         if (eventData.bids && eventData.asks) {
@@ -370,78 +784,129 @@ export class BinanceWebSocket {
       high: parseFloat(k.h),
       low: parseFloat(k.l),
       close: parseFloat(k.c),
-      volume: parseFloat(k.v),
+      volume: parseFloat(this.market === 'coinm' ? k.q : k.v),
     };
 
     this.callbacks.onPrice?.(kline.close);
     this.callbacks.onKline?.(kline, k.x); // k.x = is this kline closed?
   }
 
+  // The local book is kept in base asset, so COIN-M diffs are converted first
   private handleDepthUpdate(data: BinanceDepthUpdate): void {
-    const update: OrderBookUpdate = {
-      bids: data.b || [],
-      asks: data.a || [],
-      lastUpdateId: data.u || data.lastUpdateId || 0,
-    };
-    this.callbacks.onOrderBook?.(update);
+    this.book.handleDiff({ U: data.U, u: data.u, pu: data.pu, b: this.toBaseLevels(data.b), a: this.toBaseLevels(data.a) });
+  }
+
+  // Publish the top of the local book after every applied diff
+  private handleBookUpdate(book: LocalOrderBook): void {
+    this.callbacks.onOrderBook?.(book.toUpdate(BOOK_DEPTH));
+  }
+
+  getOrderBook(): LocalOrderBook {
+    return this.book;
   }
 
   private handleDepthSnapshot(data: BinanceDepthSnapshot): void {
     const update: OrderBookUpdate = {
-      bids: data.bids || [],
-      asks: data.asks || [],
+      bids: this.toBaseLevels(data.bids || []),
+      asks: this.toBaseLevels(data.asks || []),
       lastUpdateId: data.lastUpdateId,
     };
     this.callbacks.onOrderBook?.(update);
   }
 
   private handleAggTrade(data: BinanceAggTradeEvent): void {
+    const price = parseFloat(data.p);
     const trade: AggTrade = {
-      price: parseFloat(data.p),
-      quantity: parseFloat(data.q),
+      id: data.a,
+      price,
+      quantity: this.toBaseQuantity(parseFloat(data.q), price),
       time: data.T,
       isBuyerMaker: data.m,
     };
     this.callbacks.onTrade?.(trade);
   }
 
-  private attemptReconnect(): void {
-    if (this.reconnectAttempts >= this.maxReconnectAttempts) {
-      console.error('Max reconnect attempts reached');
-      return;
+  private handleTicker(data: BinanceTickerEvent): void {
+    const ticker: MarketTicker = {
+      symbol: data.s,
+      priceChange: parseFloat(data.p),
+      priceChangePercent: parseFloat(data.P),
+      lastPrice: parseFloat(data.c),
+      highPrice: parseFloat(data.h),
+      lowPrice: parseFloat(data.l),
+      volume: parseFloat(data.v),
+      quoteVolume: parseFloat(data.q),
+      openPrice: parseFloat(data.o),
+      count: data.n,
+    };
+    if (this.market === 'coinm') {
+      // v is contracts and q is base asset; report base and USD notional
+      ticker.volume = parseFloat(data.q);
+      ticker.quoteVolume = parseFloat(data.v) * this.contractSize;
     }
+    this.callbacks.onTicker?.(ticker);
+  }
+
+  private handleForceOrder(data: BinanceForceOrderEvent): void {
+    const order = data.o;
+    const liquidation: LiquidationEvent = {
+      symbol: order.s,
+      side: order.S,
+      orderType: order.o,
+      quantity: this.toBaseQuantity(parseFloat(order.q), parseFloat(order.ap)),
+      price: parseFloat(order.p),
+      averagePrice: parseFloat(order.ap),
+      orderStatus: order.X,
+      time: order.T,
+    };
+    this.callbacks.onLiquidation?.(liquidation);
+  }
+
+  private handleMarkPrice(data: BinanceMarkPriceEvent): void {
+    const context: AssetContext = {
+      symbol: data.s,
+      markPrice: parseFloat(data.p),
+      indexPrice: parseFloat(data.i),
+      fundingRate: parseFloat(data.r),
+      nextFundingTime: data.T,
+      time: data.E,
+    };
+    this.callbacks.onAssetContext?.(context);
+  }
 
-    this.reconnectAttempts++;
-    const delay = this.reconnectDelay * Math.pow(2, this.reconnectAttempts - 1);
+  // COIN-M quantities are contracts; everything downstream expects base asset
+  private toBaseQuantity(quantity: number, price: number): number {
+    return this.market === 'coinm' ? contractsToBase(quantity, price, this.contractSize) : quantity;
+  }
 
-    console.log(`Attempting to reconnect in ${delay}ms (attempt ${this.reconnectAttempts})`);
+  private toBaseLevels(levels: [string, string][]): [string, string][] {
+    return this.market === 'coinm' ? levelsToBase(levels, this.contractSize) : levels;
+  }
 
-    setTimeout(() => {
-      this.connect();
-    }, delay);
+  // Replace the default contract size once exchangeInfo has loaded
+  setContractSize(contractSize: number): void {
+    this.contractSize = contractSize;
   }
 
   changeSymbol(newSymbol: string, interval: string): void {
     this.disconnect();
     this.symbol = newSymbol.replace('/', '').toLowerCase();
-    this.streams = [
-      `${this.symbol}@kline_${interval}`,
-      `${this.symbol}@depth20@100ms`,
-      `${this.symbol}@aggTrade`,
-    ];
+    this.streams = buildStreams(this.symbol, interval, this.channels);
+    this.book.reset();
     this.connect();
   }
 
   disconnect(): void {
-    if (this.ws) {
-      this.ws.close();
-      this.ws = null;
+    if (this.unsubscribe) {
+      this.unsubscribe();
+      this.unsubscribe = null;
+      this.callbacks.onDisconnect?.();
     }
-    this.reconnectAttempts = this.maxReconnectAttempts; // Prevent auto-reconnect
+    this.book.reset();
   }
 
   isConnected(): boolean {
-    return this.ws?.readyState === WebSocket.OPEN;
+    return this.unsubscribe !== null && this.connection.isOpen();
   }
 }
 
@@ -484,3 +949,224 @@ export function createPriceWebSocket(
     return null;
   }
 }
+
+// Which Binance market serves a terminal symbol; binancef lists USD-M perps
+export function getBinanceMarket(symbol: Symbol): BinanceMarket {
+  if (symbol.type === 'futures_coin') return 'coinm';
+  if (symbol.type === 'futures_usd' || symbol.exchange === 'binancef') return 'usdm';
+  return 'spot';
+}
+
+// Binance pair for a terminal symbol (BTC/USDT -> BTCUSDT, COIN-M BTC -> BTCUSD_PERP)
+function toBinancePair(symbol: Symbol, market = getBinanceMarket(symbol)): string {
+  if (market === 'coinm') return `${symbol.base}USD_PERP`.toUpperCase();
+  return `${symbol.base}${symbol.quote}`.toUpperCase();
+}
+
+// Pages of aggTrades fetched to close a reconnect gap, 1000 trades each
+const MAX_TRADE_RECOVERY_PAGES = 10;
+// Pages fetched when seeding history; busy pairs keep only the newest part
+const MAX_TRADE_HISTORY_PAGES = 10;
+
+// Channels only the futures hosts publish
+const FUTURES_CHANNELS: MarketChannel[] = ['liquidations', 'assetContext'];
+
+// Depth-only stream for one pair on the main thread, where the market
+// worker isn't there to keep the book
+export function createBinanceBookStream(
+  pair: string,
+  market: BinanceMarket,
+  callbacks: MarketStreamCallbacks,
+  loadSnapshot?: () => Promise<OrderBookUpdate | null>
+): BinanceWebSocket {
+  const stream = new BinanceWebSocket(pair, '1m', callbacks, { channels: ['depth'], market, loadSnapshot });
+  if (market === 'coinm') {
+    fetchContractSize(pair).then((size) => stream.setContractSize(size));
+  }
+  return stream;
+}
+
+// Market data adapter used by the registry in marketData.ts
+export const binanceSource: MarketDataSource = {
+  id: 'binance',
+  name: 'Binance',
+  capabilities: { kline: true, depth: true, trades: true, ticker: true, liquidations: true, assetContext: true },
+  intervals: BINANCE_INTERVALS,
+
+  fetchKlines: (symbol, interval, limit, endTime) => {
+    const market = getBinanceMarket(symbol);
+    return fetchKlines(toBinancePair(symbol, market), interval, limit, market, endTime);
+  },
+
+  async fetchOrderBook(symbol, limit) {
+    const market = getBinanceMarket(symbol);
+    const pair = toBinancePair(symbol, market);
+    const book = await fetchOrderBook(pair, limit, market);
+    if (!book || market !== 'coinm') return book;
+
+    const contractSize = await fetchContractSize(pair);
+    return {
+      bids: levelsToBase(book.bids, contractSize),
+      asks: levelsToBase(book.asks, contractSize),
+      lastUpdateId: book.lastUpdateId,
+    };
+  },
+
+  async fetchTicker(symbol) {
+    const market = getBinanceMarket(symbol);
+    const pair = toBinancePair(symbol, market);
+    const ticker = await fetchTicker(pair, market);
+    if (!ticker) return null;
+
+    let volume = parseFloat(ticker.volume);
+    let quoteVolume = parseFloat(ticker.quoteVolume);
+    if (market === 'coinm') {
+      // volume is contracts; report base asset and USD notional like the other markets
+      quoteVolume = volume * (await fetchContractSize(pair));
+      volume = parseFloat(ticker.baseVolume ?? '0');
+    }
+
+    return {
+      symbol: ticker.symbol,
+      priceChange: parseFloat(ticker.priceChange),
+      priceChangePercent: parseFloat(ticker.priceChangePercent),
+      lastPrice: parseFloat(ticker.lastPrice),
+      highPrice: parseFloat(ticker.highPrice),
+      lowPrice: parseFloat(ticker.lowPrice),
+      volume,
+      quoteVolume,
+      openPrice: parseFloat(ticker.openPrice),
+      count: ticker.count,
+    };
+  },
+
+  fetchInstrument(symbol) {
+    const market = getBinanceMarket(symbol);
+    return fetchInstrumentInfo(toBinancePair(symbol, market), market);
+  },
+
+  // Spot symbols report the USD-M perpetual of the same pair
+  fetchAssetContext(symbol) {
+    const market = getBinanceMarket(symbol);
+    const futuresMarket = market === 'spot' ? 'usdm' : market;
+    return fetchPremiumIndex(toBinancePair(symbol, futuresMarket), futuresMarket);
+  },
+
+  fetchFundingHistory(symbol, limit) {
+    const market = getBinanceMarket(symbol);
+    const futuresMarket = market === 'spot' ? 'usdm' : market;
+    return fetchFundingHistory(toBinancePair(symbol, futuresMarket), limit, futuresMarket);
+  },
+
+  // USD-M only; COIN-M lists a handful of pairs
+  fetchFundingRates: () => fetchAllPremiumIndexes(),
+
+  fetchOpenInterestHistory(symbol, period, limit) {
+    const market = getBinanceMarket(symbol);
+    const futuresMarket = market === 'spot' ? 'usdm' : market;
+    return fetchOpenInterestHistory(toBinancePair(symbol, futuresMarket), period, limit, futuresMarket);
+  },
+
+  fetchPositioning(symbol, period, limit) {
+    const market = getBinanceMarket(symbol);
+    const futuresMarket = market === 'spot' ? 'usdm' : market;
+    return fetchPositioning(toBinancePair(symbol, futuresMarket), period, limit, futuresMarket);
+  },
+
+  // Walk aggTrades forward from the last trade seen, by ID when it has one
+  async fetchTradesSince(symbol, after) {
+    const market = getBinanceMarket(symbol);
+    const pair = toBinancePair(symbol, market);
+    const contractSize = market === 'coinm' ? await fetchContractSize(pair) : 0;
+
+    const trades: AggTrade[] = [];
+    let from: { fromId: number } | { startTime: number } =
+      after.id !== undefined ? { fromId: after.id + 1 } : { startTime: after.time + 1 };
+    for (let page = 0; page < MAX_TRADE_RECOVERY_PAGES; page++) {
+      const batch = await fetchAggTrades(pair, from, 1000, market);
+      for (const trade of batch) {
+        if (market === 'coinm') trade.quantity = contractsToBase(trade.quantity, trade.price, contractSize);
+        trades.push(trade);
+      }
+      if (batch.length < 1000) return trades;
+      from = { fromId: (batch[batch.length - 1].id ?? 0) + 1 };
+    }
+    console.warn(`Trade gap for ${pair} exceeds ${MAX_TRADE_RECOVERY_PAGES * 1000} trades, recovered the oldest part only`);
+    return trades;
+  },
+
+  // Walk aggTrades back by ID from the latest until startTime is covered
+  async fetchTrades(symbol, startTime) {
+    const market = getBinanceMarket(symbol);
+    const pair = toBinancePair(symbol, market);
+    const contractSize = market === 'coinm' ? await fetchContractSize(pair) : 0;
+
+    let trades = await fetchAggTrades(pair, null, 1000, market);
+    for (let page = 1; page < MAX_TRADE_HISTORY_PAGES; page++) {
+      const oldestId = trades[0]?.id;
+      if (!oldestId || trades[0].time <= startTime) break;
+      const fromId = Math.max(0, oldestId - 1000);
+      const batch = await fetchAggTrades(pair, { fromId }, oldestId - fromId, market);
+      if (batch.length === 0) break;
+      trades = [...batch.filter((trade) => (trade.id ?? 0) < oldestId), ...trades];
+    }
+
+    const recent = trades.filter((trade) => trade.time >= startTime);
+    if (market === 'coinm') {
+      for (const trade of recent) trade.quantity = contractsToBase(trade.quantity, trade.price, contractSize);
+    }
+    return recent;
+  },
+
+  createStream(symbol, options, callbacks) {
+    const market = getBinanceMarket(symbol);
+    const pair = toBinancePair(symbol, market);
+    const interval = toBinanceInterval(options.interval ?? '1m');
+
+    // Book snapshots go through the market transport when the registry
+    // supplies it, so proxy mode keeps this traffic on the server
+    const { loadBookSnapshot } = options;
+    const loadSnapshot = () =>
+      loadBookSnapshot ? loadBookSnapshot(SNAPSHOT_DEPTH) : binanceSource.fetchOrderBook(symbol, SNAPSHOT_DEPTH);
+
+    // The order book is maintained in the worker when there is one
+    const offloadDepth = options.channels.includes('depth') && isWorkerPipelineAvailable();
+    const channels = offloadDepth ? options.channels.filter((c) => c !== 'depth') : options.channels;
+
+    const streams: MarketStream[] = [];
+    if (offloadDepth) {
+      // REST stays on this thread so it shares the weight budget
+      streams.push(new WorkerDepthStream(pair, market, callbacks, {
+        loadSnapshot,
+        contractSize: market === 'coinm' ? fetchContractSize(pair) : undefined,
+        createInline: () => createBinanceBookStream(pair, market, callbacks, loadSnapshot),
+      }));
+    }
+
+    if (market !== 'spot') {
+      // Futures symbols get everything from their own host
+      if (channels.length > 0) {
+        const stream = new BinanceWebSocket(pair, interval, callbacks, { channels, market, loadSnapshot });
+        if (market === 'coinm') {
+          fetchContractSize(pair).then((size) => stream.setContractSize(size));
+        }
+        streams.push(stream);
+      }
+    } else {
+      // Liquidations and mark price for spot symbols come from the matching USD-M perpetual
+      const spotChannels = channels.filter((c) => !FUTURES_CHANNELS.includes(c));
+      const futuresChannels = channels.filter((c) => FUTURES_CHANNELS.includes(c));
+
+      if (spotChannels.length > 0) {
+        streams.push(new BinanceWebSocket(pair, interval, callbacks, { channels: spotChannels, loadSnapshot }));
+      }
+      if (futuresChannels.length > 0) {
+        streams.push(new BinanceWebSocket(pair, interval, callbacks, {
+          channels: futuresChannels,
+          market: 'usdm',
+        }));
+      }
+    }
+    return streams.length === 1 ? streams[0] : combineStreams(streams);
+  },
+};
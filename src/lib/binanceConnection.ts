@@ -0,0 +1,217 @@
+// One combined-stream socket per Binance endpoint, shared by every widget.
+// Streams are reference counted: the first subscriber sends SUBSCRIBE, the
+// last one to leave sends UNSUBSCRIBE, and an empty connection is closed.
+
+import { getReconnectDelay } from './streams';
+
+export interface BinanceStreamListener {
+  onMessage: (data: Record<string, unknown>) => void;
+  onOpen?: () => void;
+  onClose?: () => void;
+  onReconnecting?: (attempt: number, delay: number) => void;
+  onError?: (error: Error) => void;
+}
+
+interface BinanceCombinedMessage {
+  stream?: string;
+  data?: Record<string, unknown>;
+  id?: number;
+  error?: { code: number; msg: string };
+}
+
+// Binance allows 5 incoming messages per second; a flush sends at most two
+const MIN_FLUSH_INTERVAL = 500;
+
+export class BinanceConnection {
+  private ws: WebSocket | null = null;
+  private subscriptions = new Map<string, Set<BinanceStreamListener>>();
+  private active = new Set<string>(); // Streams the server is sending us
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private lastFlush = 0;
+  private requestId = 0;
+
+  // wsBase is a combined endpoint ending in "?streams="
+  constructor(private wsBase: string) {}
+
+  // Returns the matching unsubscribe
+  subscribe(streams: string[], listener: BinanceStreamListener): () => void {
+    for (const stream of streams) {
+      let listeners = this.subscriptions.get(stream);
+      if (!listeners) {
+        listeners = new Set();
+        this.subscriptions.set(stream, listeners);
+      }
+      listeners.add(listener);
+    }
+
+    if (this.isOpen()) {
+      listener.onOpen?.();
+      this.scheduleFlush();
+    } else if (!this.ws && !this.reconnectTimer) {
+      this.connect();
+    }
+
+    let subscribed = true;
+    return () => {
+      if (!subscribed) return;
+      subscribed = false;
+      for (const stream of streams) {
+        const listeners = this.subscriptions.get(stream);
+        listeners?.delete(listener);
+        if (listeners?.size === 0) this.subscriptions.delete(stream);
+      }
+      this.scheduleFlush();
+    };
+  }
+
+  isOpen(): boolean {
+    return this.ws?.readyState === WebSocket.OPEN;
+  }
+
+  private connect(): void {
+    const streams = Array.from(this.subscriptions.keys());
+    if (streams.length === 0) return;
+
+    try {
+      const ws = new WebSocket(`${this.wsBase}${streams.join('/')}`);
+      this.ws = ws;
+
+      ws.onopen = () => {
+        console.log('Binance WebSocket connected');
+        this.reconnectAttempts = 0;
+        this.active = new Set(streams);
+        this.forEachListener((listener) => listener.onOpen?.());
+        this.flush(); // Catch up with changes made while connecting
+      };
+
+      ws.onmessage = (event) => {
+        try {
+          this.handleMessage(JSON.parse(event.data));
+        } catch (error) {
+          console.error('Failed to parse WebSocket message:', error);
+        }
+      };
+
+      ws.onerror = (error) => {
+        console.error('WebSocket error:', error);
+        this.forEachListener((listener) => listener.onError?.(new Error('WebSocket connection error')));
+      };
+
+      ws.onclose = () => {
+        if (this.ws !== ws) return; // Closed on purpose
+        console.log('Binance WebSocket disconnected');
+        this.ws = null;
+        this.active.clear();
+        this.forEachListener((listener) => listener.onClose?.());
+        this.attemptReconnect();
+      };
+    } catch (error) {
+      console.error('Failed to create WebSocket:', error);
+      this.attemptReconnect();
+    }
+  }
+
+  private handleMessage(message: BinanceCombinedMessage): void {
+    if (message.error) {
+      console.error(`Binance stream request ${message.id} failed: ${message.error.msg}`);
+      return;
+    }
+    if (!message.stream || !message.data) return; // Subscription acknowledgement
+
+    const listeners = this.subscriptions.get(message.stream);
+    if (!listeners) return;
+    for (const listener of listeners) {
+      listener.onMessage(message.data);
+    }
+  }
+
+  // Batch subscription changes made in the same tick, e.g. a symbol switch
+  private scheduleFlush(): void {
+    if (this.flushTimer) return;
+    const wait = Math.max(0, this.lastFlush + MIN_FLUSH_INTERVAL - Date.now());
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.flush();
+    }, wait);
+  }
+
+  // Bring the server's stream set in line with the current subscriptions
+  private flush(): void {
+    if (this.subscriptions.size === 0) {
+      this.close();
+      return;
+    }
+    if (!this.isOpen()) {
+      if (!this.ws && !this.reconnectTimer) this.connect();
+      return;
+    }
+
+    const wanted = Array.from(this.subscriptions.keys());
+    const added = wanted.filter((stream) => !this.active.has(stream));
+    const removed = Array.from(this.active).filter((stream) => !this.subscriptions.has(stream));
+
+    if (added.length > 0) this.send('SUBSCRIBE', added);
+    if (removed.length > 0) this.send('UNSUBSCRIBE', removed);
+    this.active = new Set(wanted);
+    this.lastFlush = Date.now();
+  }
+
+  private send(method: 'SUBSCRIBE' | 'UNSUBSCRIBE', params: string[]): void {
+    this.ws?.send(JSON.stringify({ method, params, id: ++this.requestId }));
+  }
+
+  // Keeps retrying for as long as anyone is subscribed
+  private attemptReconnect(): void {
+    if (this.subscriptions.size === 0 || this.reconnectTimer) return;
+
+    this.reconnectAttempts++;
+    const attempt = this.reconnectAttempts;
+    const delay = getReconnectDelay(attempt);
+
+    this.forEachListener((listener) => listener.onReconnecting?.(attempt, delay));
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  // Last subscriber left: drop the socket without reconnecting
+  private close(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.reconnectAttempts = 0;
+    this.active.clear();
+    const ws = this.ws;
+    this.ws = null;
+    ws?.close();
+  }
+
+  // Listeners can hold several streams; notify each once
+  private forEachListener(fn: (listener: BinanceStreamListener) => void): void {
+    const seen = new Set<BinanceStreamListener>();
+    for (const listeners of this.subscriptions.values()) {
+      for (const listener of listeners) {
+        if (seen.has(listener)) continue;
+        seen.add(listener);
+        fn(listener);
+      }
+    }
+  }
+}
+
+const connections = new Map<string, BinanceConnection>();
+
+// Shared connection for a combined-stream endpoint
+export function getBinanceConnection(wsBase: string): BinanceConnection {
+  let connection = connections.get(wsBase);
+  if (!connection) {
+    connection = new BinanceConnection(wsBase);
+    connections.set(wsBase, connection);
+  }
+  return connection;
+}
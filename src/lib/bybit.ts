@@ -0,0 +1,524 @@
+import type {
+  AggTrade,
+  AssetContext,
+  CandleData,
+  FundingRatePoint,
+  LiquidationEvent,
+  MarketTicker,
+  OpenInterestPoint,
+  OrderBookUpdate,
+  Symbol,
+} from './types';
+import type { MarketDataSource, MarketStreamCallbacks, MarketStreamOptions } from './marketData';
+import { ExchangeSocket } from './streams';
+import { OrderBookState, type PriceLevel } from './orderBook';
+import { createInstrumentInfo } from './instruments';
+import { nearestPeriod } from './timeframes';
+
+const BYBIT_API_BASE = 'https://api.bybit.com';
+const BYBIT_WS_BASE = 'wss://stream.bybit.com/v5/public';
+const BYBIT_BOOK_DEPTH = 50;
+const BYBIT_PING_INTERVAL = 20000;
+
+type BybitCategory = 'spot' | 'linear' | 'inverse';
+
+export interface BybitSourceOptions {
+  restBase?: string; // e.g. a local fixture server
+  wsBase?: string;   // Category is appended: `${wsBase}/spot`
+}
+
+interface BybitResponse<T> {
+  retCode: number;
+  retMsg: string;
+  result: T;
+}
+
+interface BybitOrderBookData {
+  s: string;
+  b: PriceLevel[];
+  a: PriceLevel[];
+  u: number;
+  seq?: number;
+}
+
+interface BybitTradeData {
+  T: number;  // Trade time
+  s: string;  // Symbol
+  S: 'Buy' | 'Sell'; // Taker side
+  v: string;  // Size
+  p: string;  // Price
+  i: string;  // Trade ID
+}
+
+interface BybitRecentTrade {
+  execId: string;
+  price: string;
+  size: string;
+  side: 'Buy' | 'Sell'; // Taker side
+  time: string;
+}
+
+interface BybitKlineData {
+  start: number;
+  open: string;
+  close: string;
+  high: string;
+  low: string;
+  volume: string;   // USD contracts on inverse
+  turnover: string; // Quote on spot and linear, base coin on inverse
+  confirm: boolean;
+}
+
+interface BybitTickerData {
+  symbol: string;
+  lastPrice?: string;
+  prevPrice24h?: string;
+  price24hPcnt?: string; // Fraction, 0.01 = 1%
+  highPrice24h?: string;
+  lowPrice24h?: string;
+  volume24h?: string;   // USD contracts on inverse
+  turnover24h?: string; // Base coin on inverse
+  // Derivatives only
+  markPrice?: string;
+  indexPrice?: string;
+  fundingRate?: string;
+  nextFundingTime?: string;
+  openInterest?: string; // Base asset on linear, USD contracts on inverse
+}
+
+interface BybitFundingData {
+  fundingRate: string;
+  fundingRateTimestamp: string;
+}
+
+interface BybitOpenInterestData {
+  openInterest: string;
+  timestamp: string;
+}
+
+interface BybitInstrumentData {
+  priceFilter: { tickSize: string };
+  lotSizeFilter: {
+    basePrecision?: string;    // Spot
+    qtyStep?: string;          // Derivatives; contracts (USD) on inverse
+    minOrderAmt?: string;      // Spot, in quote
+    minNotionalValue?: string; // Linear
+  };
+}
+
+interface BybitLiquidationData {
+  T: number;
+  s: string;
+  S: 'Buy' | 'Sell'; // Position side that was liquidated
+  v: string;
+  p: string;
+}
+
+interface BybitStreamMessage {
+  topic?: string;
+  type?: 'snapshot' | 'delta';
+  ts?: number;
+  data?: unknown;
+  op?: string;
+  success?: boolean;
+  ret_msg?: string;
+}
+
+// Terminal timeframe -> Bybit v5 interval
+const BYBIT_INTERVALS: Record<string, string> = {
+  '1m': '1',
+  '3m': '3',
+  '5m': '5',
+  '15m': '15',
+  '30m': '30',
+  '1h': '60',
+  '2h': '120',
+  '4h': '240',
+  '6h': '360',
+  '12h': '720',
+  '1d': 'D',
+  '1w': 'W',
+  '1M': 'M',
+};
+
+// Open interest history periods, terminal timeframe -> Bybit intervalTime
+const BYBIT_OPEN_INTEREST_PERIODS: Record<string, string> = {
+  '5m': '5min',
+  '15m': '15min',
+  '30m': '30min',
+  '1h': '1h',
+  '4h': '4h',
+  '1d': '1d',
+};
+const MAX_BYBIT_OPEN_INTEREST = 200;
+const MAX_BYBIT_FUNDING_HISTORY = 200;
+
+// Convert terminal timeframe to Bybit v5 interval
+export function toBybitInterval(timeframe: string): string {
+  return BYBIT_INTERVALS[timeframe] || '5';
+}
+
+function toBybitCategory(symbol: Symbol): BybitCategory {
+  if (symbol.type === 'futures_usd') return 'linear';
+  if (symbol.type === 'futures_coin') return 'inverse';
+  return 'spot';
+}
+
+function toBybitSymbol(symbol: Symbol): string {
+  // Inverse contracts are margined in the base coin and quoted in USD
+  const quote = symbol.type === 'futures_coin' ? 'USD' : symbol.quote;
+  return `${symbol.base}${quote}`.toUpperCase();
+}
+
+// Inverse sizes are counted in USD contracts worth 1 USD each
+function toBaseQuantity(quantity: number, price: number, category: BybitCategory): number {
+  if (category !== 'inverse') return quantity;
+  return price > 0 ? quantity / price : 0;
+}
+
+function toBaseLevels(levels: PriceLevel[], category: BybitCategory): PriceLevel[] {
+  if (category !== 'inverse') return levels;
+  return levels.map(([price, quantity]) => [
+    price,
+    toBaseQuantity(parseFloat(quantity), parseFloat(price), category).toString(),
+  ]);
+}
+
+function toTicker(data: BybitTickerData, category: BybitCategory): MarketTicker {
+  const lastPrice = parseFloat(data.lastPrice ?? '0');
+  const openPrice = parseFloat(data.prevPrice24h ?? '0');
+  // Inverse volume is in USD and turnover in the base coin
+  const volume = parseFloat((category === 'inverse' ? data.turnover24h : data.volume24h) ?? '0');
+  const quoteVolume = parseFloat((category === 'inverse' ? data.volume24h : data.turnover24h) ?? '0');
+  return {
+    symbol: data.symbol,
+    priceChange: lastPrice - openPrice,
+    priceChangePercent: parseFloat(data.price24hPcnt ?? '0') * 100,
+    lastPrice,
+    highPrice: parseFloat(data.highPrice24h ?? '0'),
+    lowPrice: parseFloat(data.lowPrice24h ?? '0'),
+    volume,
+    quoteVolume,
+    openPrice,
+    count: 0, // Not published by Bybit
+  };
+}
+
+// Perpetual state from a derivatives ticker; inverse open interest is in USD
+function toAssetContext(data: BybitTickerData, category: BybitCategory): AssetContext {
+  const markPrice = parseFloat(data.markPrice ?? '0');
+  let openInterest = data.openInterest !== undefined ? parseFloat(data.openInterest) : undefined;
+  if (openInterest !== undefined && category === 'inverse') {
+    openInterest = markPrice > 0 ? openInterest / markPrice : undefined;
+  }
+  return {
+    symbol: data.symbol,
+    markPrice,
+    indexPrice: parseFloat(data.indexPrice ?? '0'),
+    fundingRate: parseFloat(data.fundingRate ?? '0'),
+    openInterest,
+    nextFundingTime: data.nextFundingTime ? parseInt(data.nextFundingTime, 10) : undefined,
+    time: Date.now(),
+  };
+}
+
+async function bybitGet<T>(restBase: string, path: string, params: Record<string, string | number>): Promise<T> {
+  const query = new URLSearchParams(
+    Object.entries(params).map(([key, value]) => [key, String(value)])
+  );
+  const response = await fetch(`${restBase}${path}?${query}`);
+
+  if (!response.ok) {
+    throw new Error(`Bybit API error: ${response.status}`);
+  }
+
+  const body: BybitResponse<T> = await response.json();
+  if (body.retCode !== 0) {
+    throw new Error(`Bybit API error ${body.retCode}: ${body.retMsg}`);
+  }
+  return body.result;
+}
+
+// One socket per symbol carrying all requested topics
+class BybitStream extends ExchangeSocket {
+  private book = new OrderBookState();
+  private ticker: BybitTickerData | null = null;
+  private readonly emitsTicker: boolean;
+  private readonly emitsContext: boolean;
+
+  constructor(
+    wsBase: string,
+    private category: BybitCategory,
+    pair: string,
+    options: MarketStreamOptions,
+    private callbacks: MarketStreamCallbacks
+  ) {
+    const topics: string[] = [];
+    const { channels } = options;
+    // Derivative tickers also carry mark price, funding and open interest
+    const emitsTicker = channels.includes('ticker');
+    const emitsContext = channels.includes('assetContext') && category !== 'spot';
+    if (channels.includes('kline')) topics.push(`kline.${toBybitInterval(options.interval ?? '1m')}.${pair}`);
+    if (channels.includes('depth')) topics.push(`orderbook.${BYBIT_BOOK_DEPTH}.${pair}`);
+    if (channels.includes('trades')) topics.push(`publicTrade.${pair}`);
+    if (emitsTicker || emitsContext) topics.push(`tickers.${pair}`);
+    // Liquidations only exist for derivatives
+    if (channels.includes('liquidations') && category !== 'spot') topics.push(`allLiquidation.${pair}`);
+
+    super({
+      url: `${wsBase}/${category}`,
+      name: 'Bybit',
+      callbacks,
+      ping: { interval: BYBIT_PING_INTERVAL, message: () => ({ op: 'ping' }) },
+      onOpen: (socket) => {
+        this.book.clear();
+        this.ticker = null;
+        socket.send({ op: 'subscribe', args: topics });
+      },
+      onMessage: (data) => this.handleMessage(data as BybitStreamMessage),
+    });
+    this.emitsTicker = emitsTicker;
+    this.emitsContext = emitsContext;
+  }
+
+  private handleMessage(message: BybitStreamMessage): void {
+    if (message.op) {
+      if (message.op === 'subscribe' && message.success === false) {
+        this.callbacks.onError?.(new Error(`Bybit subscribe failed: ${message.ret_msg}`));
+      }
+      return;
+    }
+
+    const topic = message.topic ?? '';
+    if (topic.startsWith('orderbook.')) {
+      this.handleOrderBook(message.type, message.data as BybitOrderBookData);
+    } else if (topic.startsWith('publicTrade.')) {
+      for (const trade of message.data as BybitTradeData[]) {
+        this.handleTrade(trade);
+      }
+    } else if (topic.startsWith('kline.')) {
+      for (const kline of message.data as BybitKlineData[]) {
+        this.handleKline(kline);
+      }
+    } else if (topic.startsWith('tickers.')) {
+      this.handleTicker(message.type, message.data as BybitTickerData);
+    } else if (topic.startsWith('allLiquidation.')) {
+      for (const liquidation of message.data as BybitLiquidationData[]) {
+        this.handleLiquidation(liquidation);
+      }
+    }
+  }
+
+  private handleOrderBook(type: BybitStreamMessage['type'], data: BybitOrderBookData): void {
+    // u === 1 means Bybit restarted the book; treat it as a fresh snapshot
+    if (type === 'snapshot' || data.u === 1) {
+      this.book.reset(toBaseLevels(data.b, this.category), toBaseLevels(data.a, this.category), data.u);
+    } else {
+      if (this.book.isEmpty()) return; // Wait for the snapshot
+      this.book.applyDelta(toBaseLevels(data.b, this.category), toBaseLevels(data.a, this.category), data.u);
+    }
+    this.callbacks.onOrderBook?.(this.book.toUpdate(BYBIT_BOOK_DEPTH));
+  }
+
+  private handleTrade(data: BybitTradeData): void {
+    const price = parseFloat(data.p);
+    const trade: AggTrade = {
+      price,
+      quantity: toBaseQuantity(parseFloat(data.v), price, this.category),
+      time: data.T,
+      isBuyerMaker: data.S === 'Sell', // Taker sold into the bid
+    };
+    this.callbacks.onTrade?.(trade);
+  }
+
+  private handleKline(data: BybitKlineData): void {
+    const kline: CandleData = {
+      time: data.start,
+      open: parseFloat(data.open),
+      high: parseFloat(data.high),
+      low: parseFloat(data.low),
+      close: parseFloat(data.close),
+      volume: parseFloat(this.category === 'inverse' ? data.turnover : data.volume),
+    };
+    this.callbacks.onPrice?.(kline.close);
+    this.callbacks.onKline?.(kline, data.confirm);
+  }
+
+  private handleTicker(type: BybitStreamMessage['type'], data: BybitTickerData): void {
+    // Derivative tickers send only changed fields after the first snapshot
+    this.ticker = type === 'delta' && this.ticker ? { ...this.ticker, ...data } : data;
+    if (this.emitsTicker) this.callbacks.onTicker?.(toTicker(this.ticker, this.category));
+    if (this.emitsContext) this.callbacks.onAssetContext?.(toAssetContext(this.ticker, this.category));
+  }
+
+  private handleLiquidation(data: BybitLiquidationData): void {
+    const price = parseFloat(data.p);
+    const liquidation: LiquidationEvent = {
+      symbol: data.s,
+      side: data.S === 'Buy' ? 'SELL' : 'BUY', // Long liquidated -> forced sell
+      orderType: 'LIMIT',
+      quantity: toBaseQuantity(parseFloat(data.v), price, this.category),
+      price,
+      averagePrice: price,
+      orderStatus: 'FILLED',
+      time: data.T,
+    };
+    this.callbacks.onLiquidation?.(liquidation);
+  }
+}
+
+// Bybit v5 public market data (spot, linear and inverse)
+export function createBybitSource(options: BybitSourceOptions = {}): MarketDataSource {
+  const restBase = options.restBase ?? BYBIT_API_BASE;
+  const wsBase = options.wsBase ?? BYBIT_WS_BASE;
+
+  return {
+    id: 'bybit',
+    name: 'Bybit',
+    capabilities: { kline: true, depth: true, trades: true, ticker: true, liquidations: true, assetContext: true },
+    intervals: Object.keys(BYBIT_INTERVALS),
+
+    async fetchKlines(symbol, interval, limit = 100, endTime) {
+      const category = toBybitCategory(symbol);
+      const params: Record<string, string | number> = {
+        category,
+        symbol: toBybitSymbol(symbol),
+        interval: toBybitInterval(interval),
+        limit: Math.min(limit, 1000),
+      };
+      if (endTime !== undefined) params.end = endTime;
+
+      const result = await bybitGet<{ list: string[][] }>(restBase, '/v5/market/kline', params);
+
+      // Bybit returns newest first; inverse volume is USD, turnover the base coin
+      return result.list
+        .map((kline): CandleData => ({
+          time: parseInt(kline[0], 10),
+          open: parseFloat(kline[1]),
+          high: parseFloat(kline[2]),
+          low: parseFloat(kline[3]),
+          close: parseFloat(kline[4]),
+          volume: parseFloat(kline[category === 'inverse' ? 6 : 5]),
+        }))
+        .reverse();
+    },
+
+    async fetchOrderBook(symbol, limit = BYBIT_BOOK_DEPTH): Promise<OrderBookUpdate | null> {
+      const category = toBybitCategory(symbol);
+      const result = await bybitGet<BybitOrderBookData>(restBase, '/v5/market/orderbook', {
+        category,
+        symbol: toBybitSymbol(symbol),
+        limit: Math.min(limit, category === 'spot' ? 200 : 500),
+      });
+      return { bids: toBaseLevels(result.b, category), asks: toBaseLevels(result.a, category), lastUpdateId: result.u };
+    },
+
+    async fetchTicker(symbol) {
+      const category = toBybitCategory(symbol);
+      const result = await bybitGet<{ list: BybitTickerData[] }>(restBase, '/v5/market/tickers', {
+        category,
+        symbol: toBybitSymbol(symbol),
+      });
+      return result.list[0] ? toTicker(result.list[0], category) : null;
+    },
+
+    async fetchAssetContext(symbol): Promise<AssetContext | null> {
+      const category = toBybitCategory(symbol);
+      if (category === 'spot') return null;
+      const result = await bybitGet<{ list: BybitTickerData[] }>(restBase, '/v5/market/tickers', {
+        category,
+        symbol: toBybitSymbol(symbol),
+      });
+      return result.list[0] ? toAssetContext(result.list[0], category) : null;
+    },
+
+    async fetchFundingHistory(symbol, limit = 100) {
+      const category = toBybitCategory(symbol);
+      if (category === 'spot') return [];
+      const result = await bybitGet<{ list: BybitFundingData[] }>(restBase, '/v5/market/funding/history', {
+        category,
+        symbol: toBybitSymbol(symbol),
+        limit: Math.min(limit, MAX_BYBIT_FUNDING_HISTORY),
+      });
+      return result.list
+        .map((entry): FundingRatePoint => ({
+          time: parseInt(entry.fundingRateTimestamp, 10),
+          fundingRate: parseFloat(entry.fundingRate),
+        }))
+        .reverse(); // Newest first on the wire
+    },
+
+    // Linear perpetuals; dated futures list with no funding rate
+    async fetchFundingRates() {
+      const result = await bybitGet<{ list: BybitTickerData[] }>(restBase, '/v5/market/tickers', { category: 'linear' });
+      return result.list
+        .filter((data) => data.fundingRate !== undefined && data.fundingRate !== '')
+        .map((data) => toAssetContext(data, 'linear'));
+    },
+
+    // Linear only: inverse open interest is counted in USD, with no base
+    // figure for past snapshots
+    async fetchOpenInterestHistory(symbol, period, limit = MAX_BYBIT_OPEN_INTEREST) {
+      if (toBybitCategory(symbol) !== 'linear') return [];
+      const interval = nearestPeriod(period, Object.keys(BYBIT_OPEN_INTEREST_PERIODS));
+      const result = await bybitGet<{ list: BybitOpenInterestData[] }>(restBase, '/v5/market/open-interest', {
+        category: 'linear',
+        symbol: toBybitSymbol(symbol),
+        intervalTime: BYBIT_OPEN_INTEREST_PERIODS[interval],
+        limit: Math.min(limit, MAX_BYBIT_OPEN_INTEREST),
+      });
+      return result.list
+        .map((entry): OpenInterestPoint => ({
+          time: parseInt(entry.timestamp, 10),
+          openInterest: parseFloat(entry.openInterest),
+        }))
+        .reverse(); // Newest first on the wire
+    },
+
+    // Bybit only serves the latest trades (60 on spot, 1000 on derivatives)
+    async fetchTrades(symbol, startTime) {
+      const category = toBybitCategory(symbol);
+      const result = await bybitGet<{ list: BybitRecentTrade[] }>(restBase, '/v5/market/recent-trade', {
+        category,
+        symbol: toBybitSymbol(symbol),
+        limit: category === 'spot' ? 60 : 1000,
+      });
+      return result.list
+        .map((trade): AggTrade => {
+          const price = parseFloat(trade.price);
+          return {
+            price,
+            quantity: toBaseQuantity(parseFloat(trade.size), price, category),
+            time: parseInt(trade.time, 10),
+            isBuyerMaker: trade.side === 'Sell',
+          };
+        })
+        .filter((trade) => trade.time >= startTime)
+        .reverse(); // Newest first on the wire
+    },
+
+    async fetchInstrument(symbol) {
+      const category = toBybitCategory(symbol);
+      const result = await bybitGet<{ list: BybitInstrumentData[] }>(restBase, '/v5/market/instruments-info', {
+        category,
+        symbol: toBybitSymbol(symbol),
+      });
+      const info = result.list[0];
+      if (!info) return null;
+
+      // Inverse lots are USD contracts, so base sizes sit on no step grid
+      const lot = info.lotSizeFilter;
+      return createInstrumentInfo({
+        tickSize: parseFloat(info.priceFilter.tickSize),
+        stepSize: category === 'inverse' ? 0 : parseFloat(lot.basePrecision ?? lot.qtyStep ?? '0'),
+        minNotional: parseFloat(lot.minOrderAmt ?? lot.minNotionalValue ?? '0'),
+      });
+    },
+
+    createStream(symbol, streamOptions, callbacks) {
+      return new BybitStream(wsBase, toBybitCategory(symbol), toBybitSymbol(symbol), streamOptions, callbacks);
+    },
+  };
+}
+
+export const bybitSource = createBybitSource();
@@ -0,0 +1,48 @@
+import type { CandleData } from './types';
+
+// Start loading older history when this few candles remain off-screen to the left
+export const BACKFILL_THRESHOLD = 10;
+
+export interface ChartViewport {
+  candleSpacing: number;
+  offset: number;       // x shift of candle 0 from the plot's left edge, pan included
+  firstVisible: number; // Index range currently on screen
+  lastVisible: number;
+}
+
+// Horizontal layout for a candle chart anchored to the right edge. At zoom 1
+// `baseCount` candles fill the plot, so prepending older history leaves the
+// on-screen candles where they are.
+export function getChartViewport(
+  count: number,
+  plotWidth: number,
+  zoomLevel: number,
+  panOffset: number,
+  baseCount: number
+): ChartViewport {
+  const candleSpacing = (plotWidth * zoomLevel) / Math.max(1, Math.min(count, baseCount));
+  const offset = plotWidth - count * candleSpacing + panOffset;
+  const firstVisible = Math.max(0, Math.floor(-offset / candleSpacing));
+  const lastVisible = Math.min(count - 1, Math.ceil((plotWidth - offset) / candleSpacing));
+  return { candleSpacing, offset, firstVisible, lastVisible };
+}
+
+// Price range of the candles on screen, padded by `margin` (e.g. 0.002 = 0.2%)
+export function getVisiblePriceRange(
+  candles: CandleData[],
+  viewport: ChartViewport,
+  margin: number
+): { minPrice: number; maxPrice: number } {
+  const visible = candles.slice(viewport.firstVisible, viewport.lastVisible + 1);
+  const range = visible.length > 0 ? visible : candles;
+  return {
+    minPrice: Math.min(...range.map((c) => c.low)) * (1 - margin),
+    maxPrice: Math.max(...range.map((c) => c.high)) * (1 + margin),
+  };
+}
+
+// True once the user has moved the chart close enough to the oldest candle
+export function needsBackfill(viewport: ChartViewport, zoomLevel: number, panOffset: number): boolean {
+  if (zoomLevel === 1 && panOffset === 0) return false; // Untouched chart shows the initial page
+  return viewport.firstVisible <= BACKFILL_THRESHOLD;
+}
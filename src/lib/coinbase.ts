@@ -0,0 +1,378 @@
+import type { AggTrade, CandleData, MarketTicker, OrderBookUpdate, Symbol } from './types';
+import type { MarketDataSource, MarketStreamCallbacks, MarketStreamOptions } from './marketData';
+import { ExchangeSocket } from './streams';
+import { OrderBookState, type PriceLevel } from './orderBook';
+import { aggregateCandles, candleOpenTime, timeframeToMs } from './timeframes';
+import { createInstrumentInfo } from './instruments';
+
+const COINBASE_API_BASE = 'https://api.exchange.coinbase.com';
+const COINBASE_WS_BASE = 'wss://ws-feed.exchange.coinbase.com';
+const COINBASE_BOOK_DEPTH = 50;
+const COINBASE_MAX_CANDLES = 300;
+
+// Candle granularities the REST API accepts, in seconds
+const COINBASE_GRANULARITIES = [86400, 21600, 3600, 900, 300, 60];
+
+// level2 needs an authenticated connection; level2_batch is the same feed batched every 50ms
+export type CoinbaseLevel2Channel = 'level2' | 'level2_batch';
+
+export interface CoinbaseSourceOptions {
+  restBase?: string;
+  wsBase?: string;
+  level2Channel?: CoinbaseLevel2Channel;
+}
+
+interface CoinbaseBook {
+  bids: [string, string, number][];
+  asks: [string, string, number][];
+  sequence: number;
+}
+
+interface CoinbaseProduct {
+  quote_increment: string;
+  base_increment: string;
+  min_market_funds?: string;
+}
+
+interface CoinbaseStats {
+  open: string;
+  high: string;
+  low: string;
+  last: string;
+  volume: string;
+}
+
+interface CoinbaseSnapshotMessage {
+  type: 'snapshot';
+  bids: PriceLevel[];
+  asks: PriceLevel[];
+}
+
+interface CoinbaseL2UpdateMessage {
+  type: 'l2update';
+  changes: ['buy' | 'sell', string, string][];
+}
+
+interface CoinbaseMatchMessage {
+  type: 'match' | 'last_match';
+  trade_id: number;
+  side: 'buy' | 'sell'; // Maker side
+  size: string;
+  price: string;
+  time: string;
+}
+
+interface CoinbaseTickerMessage {
+  type: 'ticker';
+  product_id: string;
+  price: string;
+  open_24h: string;
+  high_24h: string;
+  low_24h: string;
+  volume_24h: string;
+}
+
+interface CoinbaseErrorMessage {
+  type: 'error';
+  message: string;
+  reason?: string;
+}
+
+type CoinbaseMessage =
+  | CoinbaseSnapshotMessage
+  | CoinbaseL2UpdateMessage
+  | CoinbaseMatchMessage
+  | CoinbaseTickerMessage
+  | CoinbaseErrorMessage
+  | { type: 'subscriptions' | 'heartbeat' };
+
+export function toCoinbaseProductId(symbol: Symbol): string {
+  return `${symbol.base}-${symbol.quote}`.toUpperCase();
+}
+
+// Largest REST granularity that evenly divides the timeframe
+function toCoinbaseGranularity(timeframe: string): number {
+  const seconds = timeframeToMs(timeframe) / 1000;
+  return COINBASE_GRANULARITIES.find((granularity) => seconds % granularity === 0) ?? 60;
+}
+
+function toTicker(productId: string, stats: CoinbaseStats): MarketTicker {
+  const lastPrice = parseFloat(stats.last);
+  const openPrice = parseFloat(stats.open);
+  const volume = parseFloat(stats.volume);
+  return {
+    symbol: productId,
+    priceChange: lastPrice - openPrice,
+    priceChangePercent: openPrice ? ((lastPrice - openPrice) / openPrice) * 100 : 0,
+    lastPrice,
+    highPrice: parseFloat(stats.high),
+    lowPrice: parseFloat(stats.low),
+    volume,
+    quoteVolume: volume * lastPrice, // Coinbase only reports base volume
+    openPrice,
+    count: 0,
+  };
+}
+
+async function coinbaseGet<T>(restBase: string, path: string, params: Record<string, string | number> = {}): Promise<T> {
+  const query = new URLSearchParams(
+    Object.entries(params).map(([key, value]) => [key, String(value)])
+  );
+  const search = query.toString();
+  const response = await fetch(`${restBase}${path}${search ? `?${search}` : ''}`);
+
+  if (!response.ok) {
+    throw new Error(`Coinbase API error: ${response.status}`);
+  }
+
+  return response.json();
+}
+
+// Coinbase has no kline channel, so the live candle is built from matches
+class CoinbaseStream extends ExchangeSocket {
+  private book = new OrderBookState();
+  private candle: CandleData | null = null;
+  private candleSeeded = false;
+  private seedGeneration = 0; // Ignores seeds requested before a reconnect
+  private unseededMatches: AggTrade[] = []; // Matches that arrive while the seed loads
+
+  constructor(
+    wsBase: string,
+    productId: string,
+    private streamOptions: MarketStreamOptions,
+    level2Channel: CoinbaseLevel2Channel,
+    private seedCandle: () => Promise<CandleData | null>,
+    private callbacks: MarketStreamCallbacks
+  ) {
+    const { channels } = streamOptions;
+    const feeds: string[] = [];
+    if (channels.includes('depth')) feeds.push(level2Channel);
+    if (channels.includes('trades') || channels.includes('kline')) feeds.push('matches');
+    if (channels.includes('ticker')) feeds.push('ticker');
+
+    super({
+      url: wsBase,
+      name: 'Coinbase',
+      callbacks,
+      onOpen: (socket) => {
+        this.book.clear();
+        this.startCandle();
+        socket.send({ type: 'subscribe', product_ids: [productId], channels: feeds });
+      },
+      onMessage: (data) => this.handleMessage(data as CoinbaseMessage),
+    });
+  }
+
+  private get interval(): string {
+    return this.streamOptions.interval ?? '1m';
+  }
+
+  // Pick up the in-progress candle from REST so open/high/low survive a (re)connect
+  private startCandle(): void {
+    if (!this.streamOptions.channels.includes('kline')) return;
+
+    this.candle = null;
+    this.candleSeeded = false;
+    this.unseededMatches = [];
+    const generation = ++this.seedGeneration;
+    this.seedCandle()
+      .catch((error) => {
+        // Build the candle from matches alone
+        console.error('Failed to seed Coinbase candle:', error);
+        return null;
+      })
+      .then((seed) => {
+        if (generation !== this.seedGeneration) return;
+        const openTime = candleOpenTime(Date.now(), this.interval);
+        if (seed && seed.time === openTime) {
+          this.candle = { ...seed };
+        }
+        this.candleSeeded = true;
+        // The seed was fetched after these matches, so it already counts the
+        // ones in its own candle; only those opening a newer one are replayed
+        const matches = this.unseededMatches;
+        this.unseededMatches = [];
+        for (const trade of matches) {
+          if (!seed || candleOpenTime(trade.time, this.interval) > seed.time) this.updateCandle(trade);
+        }
+      });
+  }
+
+  private handleMessage(message: CoinbaseMessage): void {
+    switch (message.type) {
+      case 'snapshot':
+        this.book.reset(message.bids, message.asks);
+        this.callbacks.onOrderBook?.(this.book.toUpdate(COINBASE_BOOK_DEPTH));
+        break;
+      case 'l2update':
+        this.handleL2Update(message);
+        break;
+      case 'match':
+      case 'last_match':
+        this.handleMatch(message);
+        break;
+      case 'ticker':
+        this.callbacks.onTicker?.(toTicker(message.product_id, {
+          open: message.open_24h,
+          high: message.high_24h,
+          low: message.low_24h,
+          last: message.price,
+          volume: message.volume_24h,
+        }));
+        break;
+      case 'error':
+        this.callbacks.onError?.(new Error(`Coinbase error: ${message.message} ${message.reason ?? ''}`.trim()));
+        break;
+    }
+  }
+
+  private handleL2Update(message: CoinbaseL2UpdateMessage): void {
+    if (this.book.isEmpty()) return; // Wait for the snapshot
+
+    const bids: PriceLevel[] = [];
+    const asks: PriceLevel[] = [];
+    for (const [side, price, size] of message.changes) {
+      (side === 'buy' ? bids : asks).push([price, size]);
+    }
+    this.book.applyDelta(bids, asks);
+    this.callbacks.onOrderBook?.(this.book.toUpdate(COINBASE_BOOK_DEPTH));
+  }
+
+  private handleMatch(message: CoinbaseMatchMessage): void {
+    const trade: AggTrade = {
+      id: message.trade_id,
+      price: parseFloat(message.price),
+      quantity: parseFloat(message.size),
+      time: new Date(message.time).getTime(),
+      isBuyerMaker: message.side === 'buy', // Maker bought, so the taker sold
+    };
+
+    if (this.streamOptions.channels.includes('trades')) {
+      this.callbacks.onTrade?.(trade);
+    }
+    // last_match is a replay of the previous trade, already in the REST candle
+    if (message.type === 'match' && this.streamOptions.channels.includes('kline')) {
+      this.updateCandle(trade);
+    }
+  }
+
+  private updateCandle(trade: AggTrade): void {
+    if (!this.candleSeeded) {
+      this.unseededMatches.push(trade);
+      return;
+    }
+
+    const openTime = candleOpenTime(trade.time, this.interval);
+    if (this.candle && this.candle.time !== openTime) {
+      this.callbacks.onKline?.(this.candle, true);
+      this.candle = null;
+    }
+
+    if (!this.candle) {
+      this.candle = {
+        time: openTime,
+        open: trade.price,
+        high: trade.price,
+        low: trade.price,
+        close: trade.price,
+        volume: 0,
+      };
+    }
+
+    this.candle.high = Math.max(this.candle.high, trade.price);
+    this.candle.low = Math.min(this.candle.low, trade.price);
+    this.candle.close = trade.price;
+    this.candle.volume += trade.quantity;
+
+    this.callbacks.onPrice?.(trade.price);
+    this.callbacks.onKline?.({ ...this.candle }, false);
+  }
+}
+
+// Coinbase Exchange public market data (spot only)
+export function createCoinbaseSource(options: CoinbaseSourceOptions = {}): MarketDataSource {
+  const restBase = options.restBase ?? COINBASE_API_BASE;
+  const wsBase = options.wsBase ?? COINBASE_WS_BASE;
+  const level2Channel = options.level2Channel ?? 'level2_batch';
+
+  const source: MarketDataSource = {
+    id: 'coinbase',
+    name: 'Coinbase',
+    capabilities: { kline: true, depth: true, trades: true, ticker: true, liquidations: false, assetContext: false },
+
+    async fetchKlines(symbol, interval, limit = 100, endTime) {
+      const granularity = toCoinbaseGranularity(interval);
+      const perCandle = Math.max(1, Math.round(timeframeToMs(interval) / (granularity * 1000)));
+      const count = Math.min(limit * perCandle, COINBASE_MAX_CANDLES);
+      const end = endTime ?? Date.now();
+      const start = end - count * granularity * 1000;
+
+      // [time (s), low, high, open, close, volume], newest first
+      const data = await coinbaseGet<number[][]>(restBase, `/products/${toCoinbaseProductId(symbol)}/candles`, {
+        granularity,
+        start: new Date(start).toISOString(),
+        end: new Date(end).toISOString(),
+      });
+
+      const candles = data
+        .map((candle): CandleData => ({
+          time: candle[0] * 1000,
+          open: candle[3],
+          high: candle[2],
+          low: candle[1],
+          close: candle[4],
+          volume: candle[5],
+        }))
+        .reverse();
+
+      // Timeframes Coinbase doesn't serve are built from the nearest granularity
+      return perCandle > 1 || interval === '1M' ? aggregateCandles(candles, interval).slice(-limit) : candles;
+    },
+
+    async fetchOrderBook(symbol, limit = 20): Promise<OrderBookUpdate | null> {
+      const book = await coinbaseGet<CoinbaseBook>(restBase, `/products/${toCoinbaseProductId(symbol)}/book`, {
+        level: 2,
+      });
+      return {
+        bids: book.bids.slice(0, limit).map(([price, size]) => [price, size]),
+        asks: book.asks.slice(0, limit).map(([price, size]) => [price, size]),
+        lastUpdateId: book.sequence,
+      };
+    },
+
+    async fetchInstrument(symbol) {
+      const product = await coinbaseGet<CoinbaseProduct>(restBase, `/products/${toCoinbaseProductId(symbol)}`);
+      return createInstrumentInfo({
+        tickSize: parseFloat(product.quote_increment),
+        stepSize: parseFloat(product.base_increment),
+        minNotional: parseFloat(product.min_market_funds ?? '0'),
+      });
+    },
+
+    async fetchTicker(symbol) {
+      const productId = toCoinbaseProductId(symbol);
+      const stats = await coinbaseGet<CoinbaseStats>(restBase, `/products/${productId}/stats`);
+      return toTicker(productId, stats);
+    },
+
+    createStream(symbol, streamOptions, callbacks) {
+      const interval = streamOptions.interval ?? '1m';
+      const seedCandle = async () => {
+        const candles = await source.fetchKlines(symbol, interval, 1);
+        return candles[candles.length - 1] ?? null;
+      };
+      return new CoinbaseStream(
+        wsBase,
+        toCoinbaseProductId(symbol),
+        streamOptions,
+        level2Channel,
+        seedCandle,
+        callbacks
+      );
+    },
+  };
+
+  return source;
+}
+
+export const coinbaseSource = createCoinbaseSource();
@@ -1,20 +1,22 @@
 import type { CandleData, Symbol, HeatmapCell } from './types';
+import { createRandom, DEFAULT_SIMULATOR_SEED } from './simulator';
 
-export function generateCandleData(count: number, basePrice = 77800): CandleData[] {
+export function generateCandleData(count: number, basePrice = 77800, seed = DEFAULT_SIMULATOR_SEED): CandleData[] {
+  const random = createRandom(seed);
   const candles: CandleData[] = [];
   let currentPrice = basePrice;
   const now = Date.now();
   const interval = 5 * 60 * 1000; // 5 minutes
 
   for (let i = count - 1; i >= 0; i--) {
-    const volatility = 0.002 + Math.random() * 0.003;
-    const trend = (Math.random() - 0.48) * volatility;
+    const volatility = 0.002 + random() * 0.003;
+    const trend = (random() - 0.48) * volatility;
 
     const open = currentPrice;
     const close = open * (1 + trend);
-    const high = Math.max(open, close) * (1 + Math.random() * volatility * 0.5);
-    const low = Math.min(open, close) * (1 - Math.random() * volatility * 0.5);
-    const volume = 10000 + Math.random() * 50000;
+    const high = Math.max(open, close) * (1 + random() * volatility * 0.5);
+    const low = Math.min(open, close) * (1 - random() * volatility * 0.5);
+    const volume = 10000 + random() * 50000;
 
     candles.push({
       time: now - i * interval,
@@ -43,6 +45,8 @@ export function generateHeatmapData(candles: CandleData[], priceLevels: number):
   for (let i = 0; i < candles.length; i++) {
     const column: HeatmapCell[] = [];
     const candle = candles[i];
+    // Seeded per candle so columns keep their look as new candles arrive
+    const random = createRandom(Math.floor(candle.time / 1000));
 
     for (let j = 0; j < priceLevels; j++) {
       const price = minPrice + j * priceStep;
@@ -54,14 +58,14 @@ export function generateHeatmapData(candles: CandleData[], priceLevels: number):
       const isBid = price < (candle.open + candle.close) / 2;
 
       if (isBid) {
-        value = Math.pow(normalized, 2) * (5 + Math.random() * 25);
+        value = Math.pow(normalized, 2) * (5 + random() * 25);
       } else {
-        value = Math.pow(normalized, 2) * (5 + Math.random() * 30);
+        value = Math.pow(normalized, 2) * (5 + random() * 30);
       }
 
       // Add some randomness for realistic look
-      if (Math.random() > 0.7) {
-        value *= 1.5 + Math.random();
+      if (random() > 0.7) {
+        value *= 1.5 + random();
       }
 
       column.push({
@@ -78,43 +82,6 @@ export function generateHeatmapData(candles: CandleData[], priceLevels: number):
   return heatmap;
 }
 
-export function generateVPVRData(candles: CandleData[], levels: number): { price: number; buyVolume: number; sellVolume: number }[] {
-  if (candles.length === 0) return [];
-
-  const minPrice = Math.min(...candles.map(c => c.low)) * 0.998;
-  const maxPrice = Math.max(...candles.map(c => c.high)) * 1.002;
-  const priceStep = (maxPrice - minPrice) / levels;
-
-  const vpvr: { price: number; buyVolume: number; sellVolume: number }[] = [];
-
-  for (let i = 0; i < levels; i++) {
-    const price = minPrice + i * priceStep;
-
-    // Calculate volume at this price level
-    let buyVolume = 0;
-    let sellVolume = 0;
-
-    for (const candle of candles) {
-      if (price >= candle.low && price <= candle.high) {
-        const isBullish = candle.close > candle.open;
-        const volumeAtLevel = candle.volume / ((candle.high - candle.low) / priceStep);
-
-        if (isBullish) {
-          buyVolume += volumeAtLevel * 0.6;
-          sellVolume += volumeAtLevel * 0.4;
-        } else {
-          buyVolume += volumeAtLevel * 0.4;
-          sellVolume += volumeAtLevel * 0.6;
-        }
-      }
-    }
-
-    vpvr.push({ price, buyVolume, sellVolume });
-  }
-
-  return vpvr;
-}
-
 export const EXCHANGES = [
   { id: 'binance', name: 'BINANCE', icon: 'https://ext.same-assets.com/644821230/763722988.png' },
   { id: 'binancef', name: 'BINANCEF', icon: 'https://ext.same-assets.com/644821230/763722988.png' },
@@ -124,6 +91,7 @@ export const EXCHANGES = [
   { id: 'bybit', name: 'BYBIT', icon: '🟡' },
   { id: 'hyperliquid', name: 'HYPERLIQUID', icon: '💧' },
   { id: 'lighterf', name: 'LIGHTERF', icon: '⚡' },
+  { id: 'demo', name: 'DEMO', icon: '🧪' },
 ];
 
 export const SYMBOLS: Symbol[] = [
@@ -147,6 +115,8 @@ export const SYMBOLS: Symbol[] = [
   { symbol: 'ADA/USDT', base: 'ADA', quote: 'USDT', exchange: 'binancef', type: 'futures_usd' },
   { symbol: 'AVAX/USD', base: 'AVAX', quote: 'USD', exchange: 'kraken', type: 'spot' },
   { symbol: 'LINK/USDT', base: 'LINK', quote: 'USDT', exchange: 'binancef', type: 'futures_usd' },
+  // Simulated offline markets
+  { symbol: 'BTC/USDT', base: 'BTC', quote: 'USDT', exchange: 'demo', type: 'futures_usd' },
+  { symbol: 'ETH/USDT', base: 'ETH', quote: 'USDT', exchange: 'demo', type: 'futures_usd' },
+  { symbol: 'SOL/USDT', base: 'SOL', quote: 'USDT', exchange: 'demo', type: 'spot' },
 ];
-
-export const TIMEFRAMES = ['1m', '5m', '15m', '30m', '1h', '4h', '1d'] as const;
@@ -0,0 +1,164 @@
+// Footprint candles from the trade tape: volume hitting the bid and lifting
+// the ask at each price, per bar. Trades are kept per exact price so the
+// level size can change without refetching; candles are bucketed on demand.
+
+import type { CandleData, FootprintCandle, FootprintLevel } from './types';
+import type { TradeSink } from './tradeFlow';
+import { niceNumber } from './tradeBars';
+
+const MAX_FOOTPRINT_BARS = 1000;
+const IMBALANCE_RATIO = 3; // A side with 3x the other's volume at a level
+const AUTO_LEVELS_PER_CANDLE = 12;
+const MAX_CACHED_LEVEL_SIZES = 4;
+
+interface PriceVolume {
+  bidVolume: number; // Taker sells, filled at the bid
+  askVolume: number; // Taker buys, filled at the ask
+}
+
+interface TapeBar {
+  prices: Map<number, PriceVolume>;
+  revision: number; // Bumped with every trade, so built candles know they're stale
+}
+
+interface BuiltCandle {
+  candle: FootprintCandle;
+  revision: number; // Of the bar it was built from
+}
+
+export interface FootprintTape extends TradeSink {
+  // Footprints for every fully counted bar, oldest first, with `levelSize`
+  // price levels; the bar the first trade landed in is partial, so skipped
+  candles(levelSize: number): FootprintCandle[];
+  coveredFrom(): number | null; // Time of the first trade counted; bars opening earlier are partial
+}
+
+// What the trade hooks publish: the tape, and a revision that moves
+// whenever it has taken trades, so renders know to rebucket
+export interface FootprintSnapshot {
+  tape: FootprintTape;
+  revision: number;
+}
+
+// Level size for roughly a dozen levels per candle, on the tick grid
+export function autoLevelSize(candles: CandleData[], tickSize: number): number {
+  const recent = candles.slice(-50);
+  if (recent.length === 0) return tickSize;
+  const averageRange = recent.reduce((sum, candle) => sum + candle.high - candle.low, 0) / recent.length;
+  const ticks = Math.round(niceNumber(averageRange / AUTO_LEVELS_PER_CANDLE / tickSize));
+  return Math.max(1, ticks) * tickSize;
+}
+
+function buildFootprint(time: number, prices: Map<number, PriceVolume>, levelSize: number): FootprintCandle {
+  // Bucket each price down to its level; the small nudge keeps exact
+  // multiples of the level size from flooring into the level below
+  const buckets = new Map<number, PriceVolume>();
+  prices.forEach((volume, price) => {
+    const index = Math.floor(price / levelSize + 1e-9);
+    const bucket = buckets.get(index);
+    if (bucket) {
+      bucket.bidVolume += volume.bidVolume;
+      bucket.askVolume += volume.askVolume;
+    } else {
+      buckets.set(index, { ...volume });
+    }
+  });
+
+  const levels: FootprintLevel[] = [];
+  let totalBidVolume = 0;
+  let totalAskVolume = 0;
+  let pocPrice = 0;
+  let pocVolume = -1;
+
+  const indexes = Array.from(buckets.keys()).sort((a, b) => a - b);
+  for (const index of indexes) {
+    const { bidVolume, askVolume } = buckets.get(index) as PriceVolume;
+    const price = index * levelSize;
+
+    let imbalance: FootprintLevel['imbalance'] = 'neutral';
+    if (askVolume > bidVolume * IMBALANCE_RATIO) {
+      imbalance = 'ask';
+    } else if (bidVolume > askVolume * IMBALANCE_RATIO) {
+      imbalance = 'bid';
+    }
+
+    if (bidVolume + askVolume > pocVolume) {
+      pocVolume = bidVolume + askVolume;
+      pocPrice = price;
+    }
+    totalBidVolume += bidVolume;
+    totalAskVolume += askVolume;
+    levels.push({ price, bidVolume, askVolume, delta: askVolume - bidVolume, imbalance });
+  }
+
+  return {
+    time,
+    levels,
+    totalBidVolume,
+    totalAskVolume,
+    totalDelta: totalAskVolume - totalBidVolume,
+    pocPrice,
+  };
+}
+
+export function createFootprintTape(max = MAX_FOOTPRINT_BARS): FootprintTape {
+  let bars = new Map<number, TapeBar>();
+  let coveredFrom: number | null = null;
+  let revision = 0;
+
+  // Built candles per level size (the chart and the VPVR ask for different
+  // ones), rebuilt when their bar has taken trades since
+  const caches = new Map<number, Map<number, BuiltCandle>>();
+
+  return {
+    add(barTime, trade, quantity = trade.quantity) {
+      if (coveredFrom === null) coveredFrom = trade.time;
+      let bar = bars.get(barTime);
+      if (!bar) {
+        bar = { prices: new Map(), revision: 0 };
+        bars.set(barTime, bar);
+
+        // Drop the oldest bars; what's left was counted in full
+        if (bars.size > max * 1.5) {
+          const kept = Array.from(bars.keys()).sort((a, b) => a - b).slice(-max);
+          bars = new Map(kept.map((time) => [time, bars.get(time) as TapeBar]));
+          coveredFrom = kept[0];
+          caches.forEach((cache) => cache.forEach((_, time) => {
+            if (!bars.has(time)) cache.delete(time);
+          }));
+        }
+      }
+
+      const volume = bar.prices.get(trade.price) ?? { bidVolume: 0, askVolume: 0 };
+      if (trade.isBuyerMaker) {
+        volume.bidVolume += quantity;
+      } else {
+        volume.askVolume += quantity;
+      }
+      bar.prices.set(trade.price, volume);
+      bar.revision = ++revision;
+    },
+
+    candles(levelSize) {
+      const cache = caches.get(levelSize) ?? new Map<number, BuiltCandle>();
+      if (!caches.has(levelSize)) {
+        if (caches.size >= MAX_CACHED_LEVEL_SIZES) caches.delete(caches.keys().next().value as number);
+        caches.set(levelSize, cache);
+      }
+
+      const times = Array.from(bars.keys())
+        .filter((time) => coveredFrom !== null && time >= coveredFrom)
+        .sort((a, b) => a - b);
+      return times.map((time) => {
+        const bar = bars.get(time) as TapeBar;
+        const entry = cache.get(time);
+        if (entry && entry.revision === bar.revision) return entry.candle;
+        const candle = buildFootprint(time, bar.prices, levelSize);
+        cache.set(time, { candle, revision: bar.revision });
+        return candle;
+      });
+    },
+
+    coveredFrom: () => coveredFrom,
+  };
+}
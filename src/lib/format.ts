@@ -0,0 +1,52 @@
+// Price and quantity formatting for every display. With instrument rules the
+// decimals follow tickSize/stepSize; without them (still loading, or a venue
+// that doesn't publish rules) they scale with magnitude, so PEPE and BONK
+// never round to 0.00.
+
+import type { InstrumentInfo } from './types';
+
+const MIN_FALLBACK_DECIMALS = 2;
+const MAX_FALLBACK_DECIMALS = 10;
+const FALLBACK_SIGNIFICANT_DIGITS = 6;
+
+export interface FormatOptions {
+  grouping?: boolean;  // Thousands separators, for headline numbers
+  reference?: number;  // Value that sets fallback decimals, so a whole axis or ladder matches
+}
+
+// Decimals for about six significant digits, never fewer than two
+export function fallbackDecimals(value: number): number {
+  const abs = Math.abs(value);
+  if (!isFinite(abs) || abs === 0) return MIN_FALLBACK_DECIMALS;
+  const integerDigits = Math.floor(Math.log10(abs)) + 1;
+  return Math.min(MAX_FALLBACK_DECIMALS, Math.max(MIN_FALLBACK_DECIMALS, FALLBACK_SIGNIFICANT_DIGITS - integerDigits));
+}
+
+function formatFixed(value: number, decimals: number, grouping = false): string {
+  if (!grouping) return value.toFixed(decimals);
+  return value.toLocaleString(undefined, { minimumFractionDigits: decimals, maximumFractionDigits: decimals });
+}
+
+export function priceDecimals(instrument: InstrumentInfo | null | undefined, reference: number): number {
+  return instrument ? instrument.pricePrecision : fallbackDecimals(reference);
+}
+
+export function quantityDecimals(instrument: InstrumentInfo | null | undefined, reference: number): number {
+  return instrument && instrument.stepSize > 0 ? instrument.quantityPrecision : fallbackDecimals(reference);
+}
+
+export function formatPrice(
+  price: number,
+  instrument?: InstrumentInfo | null,
+  options: FormatOptions = {}
+): string {
+  return formatFixed(price, priceDecimals(instrument, options.reference ?? price), options.grouping);
+}
+
+export function formatQuantity(
+  quantity: number,
+  instrument?: InstrumentInfo | null,
+  options: FormatOptions = {}
+): string {
+  return formatFixed(quantity, quantityDecimals(instrument, options.reference ?? quantity), options.grouping);
+}
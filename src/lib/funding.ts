@@ -0,0 +1,39 @@
+// Funding display helpers shared by the toolbar readout, panel, stats and table
+
+import type { FundingRatePoint } from './types';
+
+const HOUR = 60 * 60 * 1000;
+const YEAR = 365 * 24 * HOUR;
+
+// Rate per interval as a signed percentage, e.g. +0.0100%
+export function formatFundingRate(rate: number, decimals = 4): string {
+  return `${rate >= 0 ? '+' : ''}${(rate * 100).toFixed(decimals)}%`;
+}
+
+// Time left as hh:mm:ss, or mm:ss under an hour
+export function formatCountdown(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return hours > 0 ? `${pad(hours)}:${pad(minutes)}:${pad(seconds)}` : `${pad(minutes)}:${pad(seconds)}`;
+}
+
+// Usual gap between settlements (venues run 1h, 4h or 8h), or null with too little history
+export function fundingInterval(history: FundingRatePoint[]): number | null {
+  const gaps: number[] = [];
+  for (let i = 1; i < history.length; i++) {
+    const gap = history[i].time - history[i - 1].time;
+    if (gap > 0) gaps.push(gap);
+  }
+  if (gaps.length === 0) return null;
+  gaps.sort((a, b) => a - b);
+  // Settlement times drift by a few ms; round to the nearest hour
+  return Math.max(HOUR, Math.round(gaps[Math.floor(gaps.length / 2)] / HOUR) * HOUR);
+}
+
+// Yearly rate from a per-interval one
+export function annualizedFunding(rate: number, intervalMs: number): number {
+  return rate * (YEAR / intervalMs);
+}
@@ -0,0 +1,134 @@
+import type { AggTrade, CandleData, Symbol } from './types';
+import type { MarketDataSource, MarketStream, MarketStreamCallbacks, MarketStreamOptions } from './marketData';
+import { timeframeToMs } from './timeframes';
+
+// Most exchanges cap a kline request at 1000 candles
+const MAX_RECOVERY_KLINES = 1000;
+
+// Trade order by ID when both sides have one, otherwise by time
+export function isAfter(trade: AggTrade, other: AggTrade): boolean {
+  if (trade.id !== undefined && other.id !== undefined) return trade.id > other.id;
+  return trade.time > other.time;
+}
+
+// REST the recovery fetches with, bound to the stream's symbol
+export interface GapFetchers {
+  fetchKlines(interval: string, limit: number): Promise<CandleData[]>;
+  fetchTradesSince(after: AggTrade): Promise<AggTrade[]>;
+}
+
+// Wrap an adapter stream so a reconnect doesn't leave holes: the stream
+// remembers the last kline and trade it delivered, and after the socket comes
+// back it fetches what was missed over REST. Live klines and trades are held
+// back until the backfill has been delivered, then replayed in order.
+export function withGapRecovery(
+  source: MarketDataSource,
+  symbol: Symbol,
+  options: MarketStreamOptions,
+  callbacks: MarketStreamCallbacks,
+  fetchers: GapFetchers
+): MarketStream {
+  let lastKlineTime = 0;
+  let lastTrade: AggTrade | null = null;
+  let hasConnected = false;
+  let recovering = false;
+  let generation = 0; // Bumped by disconnect() to drop in-flight recoveries
+  let pendingKlines: [CandleData, boolean][] = [];
+  let pendingTrades: AggTrade[] = [];
+
+  const emitKline = (kline: CandleData, isClosed: boolean) => {
+    lastKlineTime = Math.max(lastKlineTime, kline.time);
+    callbacks.onKline?.(kline, isClosed);
+  };
+
+  const emitTrade = (trade: AggTrade) => {
+    lastTrade = trade;
+    callbacks.onTrade?.(trade);
+  };
+
+  const fetchMissedKlines = async (): Promise<CandleData[]> => {
+    if (!lastKlineTime || !options.interval) return [];
+    const missed = Math.ceil((Date.now() - lastKlineTime) / timeframeToMs(options.interval)) + 1;
+    const klines = await fetchers.fetchKlines(options.interval, Math.min(missed, MAX_RECOVERY_KLINES));
+    return klines.filter((kline) => kline.time >= lastKlineTime);
+  };
+
+  const fetchMissedTrades = async (): Promise<AggTrade[]> => {
+    if (!lastTrade) return [];
+    return fetchers.fetchTradesSince(lastTrade);
+  };
+
+  const recover = async () => {
+    const current = generation;
+    recovering = true;
+    callbacks.onStatus?.({ state: 'recovering' });
+    let lastBackfilled: AggTrade | null = null;
+
+    try {
+      const [klines, trades] = await Promise.all([fetchMissedKlines(), fetchMissedTrades()]);
+      if (current !== generation) return;
+
+      const intervalMs = options.interval ? timeframeToMs(options.interval) : 0;
+      for (const kline of klines) {
+        emitKline(kline, kline.time + intervalMs <= Date.now());
+      }
+      for (const trade of trades) {
+        emitTrade(trade);
+        lastBackfilled = trade;
+      }
+    } catch (error) {
+      console.error('Failed to recover stream gap:', error);
+    }
+
+    if (current !== generation) return;
+    recovering = false;
+
+    // Live events that raced the backfill; trades it already covered are dropped
+    const klines = pendingKlines;
+    const trades = pendingTrades;
+    pendingKlines = [];
+    pendingTrades = [];
+    for (const [kline, isClosed] of klines) emitKline(kline, isClosed);
+    for (const trade of trades) {
+      if (!lastBackfilled || isAfter(trade, lastBackfilled)) emitTrade(trade);
+    }
+
+    callbacks.onStatus?.({ state: 'connected' });
+  };
+
+  const stream = source.createStream(symbol, options, {
+    ...callbacks,
+    onKline: (kline, isClosed) => {
+      if (recovering) {
+        pendingKlines.push([kline, isClosed]);
+      } else {
+        emitKline(kline, isClosed);
+      }
+    },
+    onTrade: (trade) => {
+      if (recovering) {
+        pendingTrades.push(trade);
+      } else {
+        emitTrade(trade);
+      }
+    },
+    onConnect: () => {
+      const reconnected = hasConnected && !recovering && (lastKlineTime > 0 || lastTrade !== null);
+      hasConnected = true;
+      callbacks.onConnect?.();
+      if (reconnected) recover();
+    },
+  });
+
+  return {
+    connect: () => stream.connect(),
+    disconnect: () => {
+      generation++;
+      recovering = false;
+      pendingKlines = [];
+      pendingTrades = [];
+      stream.disconnect();
+    },
+    isConnected: () => stream.isConnected(),
+  };
+}
@@ -0,0 +1,395 @@
+import type { AggTrade, AssetContext, CandleData, FundingRatePoint, MarketTicker, OrderBookUpdate, Symbol } from './types';
+import type { MarketDataSource, MarketStreamCallbacks, MarketStreamOptions } from './marketData';
+import { ExchangeSocket } from './streams';
+import type { PriceLevel } from './orderBook';
+import { timeframeToMs } from './timeframes';
+import { createInstrumentInfo } from './instruments';
+
+const HYPERLIQUID_INFO_URL = 'https://api.hyperliquid.xyz/info';
+const HYPERLIQUID_WS_URL = 'wss://api.hyperliquid.xyz/ws';
+const HYPERLIQUID_PING_INTERVAL = 30000;
+const HYPERLIQUID_FUNDING_INTERVAL = 60 * 60 * 1000; // Funding is paid hourly
+const HYPERLIQUID_MIN_NOTIONAL = 10; // USD per order
+const HYPERLIQUID_INTERVALS = ['1m', '3m', '5m', '15m', '30m', '1h', '2h', '4h', '8h', '12h', '1d', '3d', '1w', '1M'];
+
+export interface HyperliquidSourceOptions {
+  infoUrl?: string; // POST endpoint, e.g. a local stand-in
+  wsUrl?: string;
+}
+
+interface HyperliquidCandle {
+  t: number;  // Open time
+  T: number;  // Close time
+  s: string;  // Coin
+  i: string;  // Interval
+  o: string;
+  c: string;
+  h: string;
+  l: string;
+  v: string;  // Base volume
+  n: number;  // Trade count
+}
+
+interface HyperliquidLevel {
+  px: string;
+  sz: string;
+  n: number;
+}
+
+interface HyperliquidBook {
+  coin: string;
+  time: number;
+  levels: [HyperliquidLevel[], HyperliquidLevel[]]; // [bids, asks]
+}
+
+interface HyperliquidTrade {
+  coin: string;
+  side: 'B' | 'A'; // Aggressor: B = buy, A = sell
+  px: string;
+  sz: string;
+  time: number;
+  tid: number;
+}
+
+interface HyperliquidAssetCtx {
+  funding: string;
+  openInterest: string; // In base coin
+  oraclePx: string;
+  markPx: string;
+  midPx: string | null;
+  prevDayPx: string;
+  dayNtlVlm: string;
+  dayBaseVlm: string;
+}
+
+interface HyperliquidFunding {
+  coin: string;
+  fundingRate: string;
+  premium: string;
+  time: number;
+}
+
+interface HyperliquidMeta {
+  universe: { name: string; szDecimals: number }[];
+}
+
+interface HyperliquidStreamMessage {
+  channel: string;
+  data: unknown;
+}
+
+// Perps are named by their base coin; everything settles in USDC
+export function toHyperliquidCoin(symbol: Symbol): string {
+  return symbol.base.toUpperCase();
+}
+
+// Math.pow(10, -5) is 9.999999999999999e-6; dividing keeps small steps exact
+function powerOfTen(exponent: number): number {
+  return exponent < 0 ? 1 / Math.pow(10, -exponent) : Math.pow(10, exponent);
+}
+
+function toCandle(candle: HyperliquidCandle): CandleData {
+  return {
+    time: candle.t,
+    open: parseFloat(candle.o),
+    high: parseFloat(candle.h),
+    low: parseFloat(candle.l),
+    close: parseFloat(candle.c),
+    volume: parseFloat(candle.v),
+  };
+}
+
+function toLevels(levels: HyperliquidLevel[]): PriceLevel[] {
+  return levels.map((level) => [level.px, level.sz]);
+}
+
+function toAssetContext(coin: string, ctx: HyperliquidAssetCtx): AssetContext {
+  const now = Date.now();
+  return {
+    symbol: coin,
+    markPrice: parseFloat(ctx.markPx),
+    indexPrice: parseFloat(ctx.oraclePx),
+    fundingRate: parseFloat(ctx.funding),
+    openInterest: parseFloat(ctx.openInterest),
+    nextFundingTime: Math.ceil(now / HYPERLIQUID_FUNDING_INTERVAL) * HYPERLIQUID_FUNDING_INTERVAL,
+    time: now,
+  };
+}
+
+function toTicker(coin: string, ctx: HyperliquidAssetCtx, high: number, low: number): MarketTicker {
+  const lastPrice = parseFloat(ctx.midPx ?? ctx.markPx);
+  const openPrice = parseFloat(ctx.prevDayPx);
+  return {
+    symbol: coin,
+    priceChange: lastPrice - openPrice,
+    priceChangePercent: openPrice ? ((lastPrice - openPrice) / openPrice) * 100 : 0,
+    lastPrice,
+    highPrice: Math.max(high, lastPrice),
+    lowPrice: Math.min(low, lastPrice),
+    volume: parseFloat(ctx.dayBaseVlm),
+    quoteVolume: parseFloat(ctx.dayNtlVlm),
+    openPrice,
+    count: 0,
+  };
+}
+
+async function infoRequest<T>(infoUrl: string, body: Record<string, unknown>): Promise<T> {
+  const response = await fetch(infoUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Hyperliquid API error: ${response.status}`);
+  }
+
+  return response.json();
+}
+
+class HyperliquidStream extends ExchangeSocket {
+  private candle: CandleData | null = null;
+  private high = -Infinity;
+  private low = Infinity;
+
+  constructor(
+    wsUrl: string,
+    private coin: string,
+    private streamOptions: MarketStreamOptions,
+    private seedTicker: () => Promise<MarketTicker | null>,
+    private callbacks: MarketStreamCallbacks
+  ) {
+    super({
+      url: wsUrl,
+      name: 'Hyperliquid',
+      callbacks,
+      ping: { interval: HYPERLIQUID_PING_INTERVAL, message: () => ({ method: 'ping' }) },
+      onOpen: (socket) => {
+        this.candle = null;
+        for (const subscription of this.subscriptions()) {
+          socket.send({ method: 'subscribe', subscription });
+        }
+        this.startTicker();
+      },
+      onMessage: (data) => this.handleMessage(data as HyperliquidStreamMessage),
+    });
+  }
+
+  private subscriptions(): Record<string, string>[] {
+    const { channels, interval = '1m' } = this.streamOptions;
+    const coin = this.coin;
+    const subscriptions: Record<string, string>[] = [];
+    if (channels.includes('kline')) subscriptions.push({ type: 'candle', coin, interval });
+    if (channels.includes('depth')) subscriptions.push({ type: 'l2Book', coin });
+    if (channels.includes('trades')) subscriptions.push({ type: 'trades', coin });
+    // Ticker and asset context both come from the asset context feed
+    if (channels.includes('ticker') || channels.includes('assetContext')) {
+      subscriptions.push({ type: 'activeAssetCtx', coin });
+    }
+    return subscriptions;
+  }
+
+  // The context feed has no 24h high/low; seed them from REST and track from there
+  private startTicker(): void {
+    if (!this.streamOptions.channels.includes('ticker')) return;
+
+    this.seedTicker()
+      .then((ticker) => {
+        if (!ticker) return;
+        this.high = Math.max(this.high, ticker.highPrice);
+        this.low = Math.min(this.low, ticker.lowPrice);
+      })
+      // The range then starts from the live feed alone
+      .catch((error) => console.error('Failed to seed Hyperliquid ticker:', error));
+  }
+
+  private handleMessage(message: HyperliquidStreamMessage): void {
+    switch (message.channel) {
+      case 'l2Book':
+        this.handleOrderBook(message.data as HyperliquidBook);
+        break;
+      case 'trades':
+        for (const trade of message.data as HyperliquidTrade[]) {
+          this.handleTrade(trade);
+        }
+        break;
+      case 'candle':
+        this.handleCandle(message.data as HyperliquidCandle);
+        break;
+      case 'activeAssetCtx':
+        this.handleAssetContext(message.data as { coin: string; ctx: HyperliquidAssetCtx });
+        break;
+      case 'error':
+        this.callbacks.onError?.(new Error(`Hyperliquid error: ${message.data}`));
+        break;
+    }
+  }
+
+  // Every l2Book push is a full snapshot
+  private handleOrderBook(data: HyperliquidBook): void {
+    const [bids, asks] = data.levels;
+    this.callbacks.onOrderBook?.({
+      bids: toLevels(bids),
+      asks: toLevels(asks),
+      lastUpdateId: data.time,
+    });
+  }
+
+  private handleTrade(data: HyperliquidTrade): void {
+    const trade: AggTrade = {
+      id: data.tid,
+      price: parseFloat(data.px),
+      quantity: parseFloat(data.sz),
+      time: data.time,
+      isBuyerMaker: data.side === 'A', // Taker sold into the bid
+    };
+    this.callbacks.onTrade?.(trade);
+  }
+
+  // No "closed" flag; a candle is final once the next one starts
+  private handleCandle(data: HyperliquidCandle): void {
+    const kline = toCandle(data);
+
+    if (this.candle && this.candle.time < kline.time) {
+      this.callbacks.onKline?.(this.candle, true);
+    }
+    this.candle = kline;
+
+    this.callbacks.onPrice?.(kline.close);
+    this.callbacks.onKline?.(kline, false);
+  }
+
+  private handleAssetContext(data: { coin: string; ctx: HyperliquidAssetCtx }): void {
+    const { channels } = this.streamOptions;
+
+    if (channels.includes('assetContext')) {
+      this.callbacks.onAssetContext?.(toAssetContext(data.coin, data.ctx));
+    }
+
+    if (channels.includes('ticker')) {
+      const ticker = toTicker(data.coin, data.ctx, this.high, this.low);
+      this.high = ticker.highPrice;
+      this.low = ticker.lowPrice;
+      this.callbacks.onTicker?.(ticker);
+    }
+  }
+}
+
+// Hyperliquid perpetuals via the public info endpoint and WebSocket
+export function createHyperliquidSource(options: HyperliquidSourceOptions = {}): MarketDataSource {
+  const infoUrl = options.infoUrl ?? HYPERLIQUID_INFO_URL;
+  const wsUrl = options.wsUrl ?? HYPERLIQUID_WS_URL;
+
+  const fetchContext = async (coin: string): Promise<HyperliquidAssetCtx | null> => {
+    const [meta, contexts] = await infoRequest<[HyperliquidMeta, HyperliquidAssetCtx[]]>(infoUrl, {
+      type: 'metaAndAssetCtxs',
+    });
+    const index = meta.universe.findIndex((asset) => asset.name === coin);
+    return index >= 0 ? contexts[index] : null;
+  };
+
+  // Prices take at most five significant figures and 6 - szDecimals decimals,
+  // so the effective tick is taken at the current mark
+  const fetchInstrumentInfo = async (coin: string) => {
+    const [meta, contexts] = await infoRequest<[HyperliquidMeta, HyperliquidAssetCtx[]]>(infoUrl, {
+      type: 'metaAndAssetCtxs',
+    });
+    const index = meta.universe.findIndex((asset) => asset.name === coin);
+    if (index < 0) return null;
+
+    const { szDecimals } = meta.universe[index];
+    const markPrice = parseFloat(contexts[index].markPx);
+    const significantTick = markPrice > 0 ? powerOfTen(Math.floor(Math.log10(markPrice)) - 4) : 0;
+    return createInstrumentInfo({
+      tickSize: Math.max(significantTick, powerOfTen(szDecimals - 6)),
+      stepSize: powerOfTen(-szDecimals),
+      minNotional: HYPERLIQUID_MIN_NOTIONAL,
+    });
+  };
+
+  const source: MarketDataSource = {
+    id: 'hyperliquid',
+    name: 'Hyperliquid',
+    capabilities: { kline: true, depth: true, trades: true, ticker: true, liquidations: false, assetContext: true },
+    intervals: HYPERLIQUID_INTERVALS,
+
+    async fetchKlines(symbol, interval, limit = 100, endTime = Date.now()) {
+      const startTime = endTime - limit * timeframeToMs(interval);
+      const candles = await infoRequest<HyperliquidCandle[]>(infoUrl, {
+        type: 'candleSnapshot',
+        req: { coin: toHyperliquidCoin(symbol), interval, startTime, endTime },
+      });
+      return candles.map(toCandle).slice(-limit);
+    },
+
+    async fetchOrderBook(symbol, limit = 20): Promise<OrderBookUpdate | null> {
+      const book = await infoRequest<HyperliquidBook>(infoUrl, {
+        type: 'l2Book',
+        coin: toHyperliquidCoin(symbol),
+      });
+      const [bids, asks] = book.levels;
+      return {
+        bids: toLevels(bids.slice(0, limit)),
+        asks: toLevels(asks.slice(0, limit)),
+        lastUpdateId: book.time,
+      };
+    },
+
+    async fetchTicker(symbol) {
+      const coin = toHyperliquidCoin(symbol);
+      const [ctx, candles] = await Promise.all([
+        fetchContext(coin),
+        source.fetchKlines(symbol, '1h', 24),
+      ]);
+      if (!ctx) return null;
+
+      // Rolling 24h high/low from hourly candles
+      const high = Math.max(...candles.map((c) => c.high));
+      const low = Math.min(...candles.map((c) => c.low));
+      return toTicker(coin, ctx, high, low);
+    },
+
+    async fetchInstrument(symbol) {
+      return fetchInstrumentInfo(toHyperliquidCoin(symbol));
+    },
+
+    async fetchAssetContext(symbol) {
+      const coin = toHyperliquidCoin(symbol);
+      const ctx = await fetchContext(coin);
+      return ctx ? toAssetContext(coin, ctx) : null;
+    },
+
+    // Hourly settlements from startTime, up to 500 per request
+    async fetchFundingHistory(symbol, limit = 100) {
+      const history = await infoRequest<HyperliquidFunding[]>(infoUrl, {
+        type: 'fundingHistory',
+        coin: toHyperliquidCoin(symbol),
+        startTime: Date.now() - limit * HYPERLIQUID_FUNDING_INTERVAL,
+      });
+      return history
+        .map((entry): FundingRatePoint => ({ time: entry.time, fundingRate: parseFloat(entry.fundingRate) }))
+        .slice(-limit);
+    },
+
+    async fetchFundingRates() {
+      const [meta, contexts] = await infoRequest<[HyperliquidMeta, HyperliquidAssetCtx[]]>(infoUrl, {
+        type: 'metaAndAssetCtxs',
+      });
+      return meta.universe.map((asset, index) => toAssetContext(asset.name, contexts[index]));
+    },
+
+    createStream(symbol, streamOptions, callbacks) {
+      return new HyperliquidStream(
+        wsUrl,
+        toHyperliquidCoin(symbol),
+        streamOptions,
+        () => source.fetchTicker(symbol),
+        callbacks
+      );
+    },
+  };
+
+  return source;
+}
+
+export const hyperliquidSource = createHyperliquidSource();
@@ -1,4 +1,4 @@
-import type { CandleData, FootprintCandle, FootprintLevel } from './types';
+import type { CandleData } from './types';
 
 export interface IndicatorData {
   time: number;
@@ -233,6 +233,17 @@ export interface CVDData {
   delta: number; // Per-candle delta
 }
 
+// Taker buy/sell split guessed from where the close sits in the range, for
+// candles without trade data; tradeFlow.ts has the real split from trades
+export function estimateCandleFlow(candle: CandleData): { buyVolume: number; sellVolume: number } {
+  const range = candle.high - candle.low;
+  const closePosition = range > 0 ? (candle.close - candle.low) / range : 0.5;
+  return {
+    buyVolume: candle.volume * closePosition,
+    sellVolume: candle.volume * (1 - closePosition),
+  };
+}
+
 export function calculateCVD(candles: CandleData[]): CVDData[] {
   const result: CVDData[] = [];
 
@@ -241,18 +252,8 @@ export function calculateCVD(candles: CandleData[]): CVDData[] {
   let cumulativeDelta = 0;
 
   for (const candle of candles) {
-    // Estimate buy/sell volume based on candle direction and position
-    // This is an approximation - real CVD would need tick data
-    const range = candle.high - candle.low;
-    const body = Math.abs(candle.close - candle.open);
-    const isBullish = candle.close >= candle.open;
-
-    // Calculate buy pressure based on close position within the range
-    const closePosition = range > 0 ? (candle.close - candle.low) / range : 0.5;
-
     // Estimate delta: positive = more buying, negative = more selling
-    const buyVolume = candle.volume * closePosition;
-    const sellVolume = candle.volume * (1 - closePosition);
+    const { buyVolume, sellVolume } = estimateCandleFlow(candle);
     const delta = buyVolume - sellVolume;
 
     cumulativeDelta += delta;
@@ -281,11 +282,7 @@ export function calculateDeltaBars(candles: CandleData[]): DeltaBarData[] {
   const result: DeltaBarData[] = [];
 
   for (const candle of candles) {
-    const range = candle.high - candle.low;
-    const closePosition = range > 0 ? (candle.close - candle.low) / range : 0.5;
-
-    const buyVolume = candle.volume * closePosition;
-    const sellVolume = candle.volume * (1 - closePosition);
+    const { buyVolume, sellVolume } = estimateCandleFlow(candle);
     const delta = buyVolume - sellVolume;
 
     result.push({
@@ -336,103 +333,44 @@ export function calculateBollingerBands(
   return result;
 }
 
-// Footprint Chart Calculation
-// Simulates footprint data from candle data since we don't have tick-level data
-// In production, this would use actual trade tape data
-export function calculateFootprint(candles: CandleData[], levelsPerCandle = 10): FootprintCandle[] {
-  const result: FootprintCandle[] = [];
+// Serializable description of an indicator run, so the same calculation can
+// be requested from the worker pipeline or run inline
+export type IndicatorRequest =
+  | { name: 'sma' | 'ema' | 'rsi'; period: number }
+  | { name: 'macd'; fastPeriod: number; slowPeriod: number; signalPeriod: number }
+  | { name: 'bollinger'; period: number; stdDev: number }
+  | { name: 'vwap' | 'cvd' };
+
+export type IndicatorName = IndicatorRequest['name'];
+
+export interface IndicatorResults {
+  sma: IndicatorData[];
+  ema: IndicatorData[];
+  rsi: IndicatorData[];
+  macd: MACDData[];
+  bollinger: BollingerBandData[];
+  vwap: VWAPData[];
+  cvd: CVDData[];
+}
 
-  for (const candle of candles) {
-    const range = candle.high - candle.low;
-    if (range === 0) continue;
-
-    const priceStep = range / levelsPerCandle;
-    const levels: FootprintLevel[] = [];
-
-    const isBullish = candle.close >= candle.open;
-    const bodyTop = Math.max(candle.open, candle.close);
-    const bodyBottom = Math.min(candle.open, candle.close);
-
-    let totalBidVol = 0;
-    let totalAskVol = 0;
-    let maxVolume = 0;
-    let pocPrice = (candle.high + candle.low) / 2;
-
-    for (let i = 0; i < levelsPerCandle; i++) {
-      const levelPrice = candle.low + (i + 0.5) * priceStep;
-
-      // Distribute volume based on position in candle
-      // More volume near the body, less at wicks
-      const isInBody = levelPrice >= bodyBottom && levelPrice <= bodyTop;
-      const distanceFromCenter = Math.abs(levelPrice - (candle.high + candle.low) / 2) / (range / 2);
-
-      // Base volume allocation
-      let levelVolume = candle.volume / levelsPerCandle;
-
-      // Increase volume in body area
-      if (isInBody) {
-        levelVolume *= 1.5;
-      } else {
-        levelVolume *= 0.5;
-      }
-
-      // Distribute between bid/ask based on candle direction and position
-      let bidRatio: number;
-      let askRatio: number;
-
-      if (isBullish) {
-        // Bullish candle: more buying pressure, especially at lower levels
-        const positionFactor = (levelPrice - candle.low) / range;
-        bidRatio = 0.35 + positionFactor * 0.15;
-        askRatio = 0.65 - positionFactor * 0.15;
-      } else {
-        // Bearish candle: more selling pressure, especially at higher levels
-        const positionFactor = (levelPrice - candle.low) / range;
-        bidRatio = 0.65 - positionFactor * 0.15;
-        askRatio = 0.35 + positionFactor * 0.15;
-      }
-
-      // Add some randomness for realism
-      const noise = 0.9 + Math.random() * 0.2;
-      const bidVolume = levelVolume * bidRatio * noise;
-      const askVolume = levelVolume * askRatio * noise;
-      const delta = askVolume - bidVolume;
-
-      // Determine imbalance (3x threshold is common in footprint trading)
-      let imbalance: 'bid' | 'ask' | 'neutral' = 'neutral';
-      if (askVolume > bidVolume * 3) {
-        imbalance = 'ask';
-      } else if (bidVolume > askVolume * 3) {
-        imbalance = 'bid';
-      }
-
-      const totalLevelVolume = bidVolume + askVolume;
-      if (totalLevelVolume > maxVolume) {
-        maxVolume = totalLevelVolume;
-        pocPrice = levelPrice;
-      }
-
-      totalBidVol += bidVolume;
-      totalAskVol += askVolume;
-
-      levels.push({
-        price: levelPrice,
-        bidVolume,
-        askVolume,
-        delta,
-        imbalance,
-      });
+export function runIndicator<R extends IndicatorRequest>(request: R, candles: CandleData[]): IndicatorResults[R['name']] {
+  const run = (): IndicatorResults[IndicatorName] => {
+    switch (request.name) {
+      case 'sma':
+        return calculateSMA(candles, request.period);
+      case 'ema':
+        return calculateEMA(candles, request.period);
+      case 'rsi':
+        return calculateRSI(candles, request.period);
+      case 'macd':
+        return calculateMACD(candles, request.fastPeriod, request.slowPeriod, request.signalPeriod);
+      case 'bollinger':
+        return calculateBollingerBands(candles, request.period, request.stdDev);
+      case 'vwap':
+        return calculateVWAP(candles);
+      case 'cvd':
+        return calculateCVD(candles);
     }
-
-    result.push({
-      time: candle.time,
-      levels,
-      totalBidVolume: totalBidVol,
-      totalAskVolume: totalAskVol,
-      totalDelta: totalAskVol - totalBidVol,
-      pocPrice,
-    });
-  }
-
-  return result;
+  };
+  return run() as IndicatorResults[R['name']];
 }
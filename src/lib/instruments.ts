@@ -0,0 +1,70 @@
+// Per-instrument trading rules (tick size, step size, min notional, contract
+// size). Adapters publish them through fetchInstrument; this module holds
+// the loaded set so displays can format synchronously once it arrives.
+
+import type { InstrumentInfo, Symbol } from './types';
+
+// Decimals needed to print multiples of a step exactly (0.01 -> 2, 0.5 -> 1, 0.0025 -> 4)
+export function stepDecimals(step: number): number {
+  if (!(step > 0)) return 0;
+  for (let decimals = 0; decimals < 12; decimals++) {
+    const scaled = step * Math.pow(10, decimals);
+    if (Math.abs(scaled - Math.round(scaled)) < 1e-9 * Math.max(1, scaled)) return decimals;
+  }
+  return 12;
+}
+
+export function createInstrumentInfo(rules: {
+  tickSize: number;
+  stepSize: number;
+  minNotional?: number;
+  contractSize?: number;
+}): InstrumentInfo {
+  return {
+    tickSize: rules.tickSize,
+    stepSize: rules.stepSize,
+    minNotional: rules.minNotional ?? 0,
+    contractSize: rules.contractSize ?? 1,
+    pricePrecision: stepDecimals(rules.tickSize),
+    quantityPrecision: stepDecimals(rules.stepSize),
+  };
+}
+
+const instruments = new Map<string, InstrumentInfo>();
+const pending = new Map<string, Promise<InstrumentInfo | null>>();
+
+function instrumentKey(symbol: Symbol): string {
+  return `${symbol.exchange}:${symbol.type}:${symbol.base}/${symbol.quote}`;
+}
+
+// Already-loaded rules, or null until loadInstrument has resolved
+export function getInstrument(symbol: Symbol): InstrumentInfo | null {
+  return instruments.get(instrumentKey(symbol)) ?? null;
+}
+
+// Load once per instrument. Failures resolve to null and are retried on the
+// next call, so a flaky request doesn't pin the fallback formatting.
+export function loadInstrument(
+  symbol: Symbol,
+  fetchInstrument: (symbol: Symbol) => Promise<InstrumentInfo | null>
+): Promise<InstrumentInfo | null> {
+  const key = instrumentKey(symbol);
+  const loaded = instruments.get(key);
+  if (loaded) return Promise.resolve(loaded);
+
+  let request = pending.get(key);
+  if (!request) {
+    request = fetchInstrument(symbol)
+      .then((info) => {
+        if (info) instruments.set(key, info);
+        return info;
+      })
+      .catch((error) => {
+        console.error(`Failed to load instrument ${key}:`, error);
+        return null;
+      })
+      .finally(() => pending.delete(key));
+    pending.set(key, request);
+  }
+  return request;
+}
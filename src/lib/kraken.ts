@@ -0,0 +1,529 @@
+import type { AggTrade, CandleData, MarketTicker, OrderBookUpdate, Symbol } from './types';
+import type { MarketDataSource, MarketStreamCallbacks, MarketStreamOptions } from './marketData';
+import { ExchangeSocket, getReconnectDelay } from './streams';
+import { OrderBookState, crc32, type PriceLevel } from './orderBook';
+import { aggregateCandles, timeframeToMs } from './timeframes';
+import { createInstrumentInfo } from './instruments';
+import { isAfter } from './gapRecovery';
+
+const KRAKEN_API_BASE = 'https://api.kraken.com/0/public';
+const KRAKEN_WS_BASE = 'wss://ws.kraken.com/v2';
+const KRAKEN_BOOK_DEPTH = 25;
+const KRAKEN_CHECKSUM_DEPTH = 10;
+const KRAKEN_PING_INTERVAL = 30000;
+
+// OHLC intervals Kraken serves, in minutes
+const KRAKEN_INTERVALS = [10080, 1440, 240, 60, 30, 15, 5, 1];
+const KRAKEN_TIMEFRAMES = ['1m', '5m', '15m', '30m', '1h', '4h', '1d', '1w'];
+const KRAKEN_TRADE_PAGE = 1000;
+const MAX_TRADE_HISTORY_PAGES = 10;
+const KRAKEN_TRADE_PAGE_SPACING = 1000; // Public calls are limited to about one a second
+
+// Legacy asset codes that differ from everyone else's
+const KRAKEN_ASSET_ALIASES: Record<string, string> = {
+  XBT: 'BTC',
+  XDG: 'DOGE',
+};
+
+export interface KrakenSourceOptions {
+  restBase?: string;
+  wsBase?: string;
+}
+
+interface KrakenResponse<T> {
+  error: string[];
+  result: T;
+}
+
+interface KrakenAssetPair {
+  pair_decimals: number; // Price precision
+  lot_decimals: number;  // Quantity precision
+  tick_size?: string;
+  costmin?: string;      // Minimum order value in quote
+}
+
+interface KrakenTickerInfo {
+  c: [string, string];   // Last trade [price, volume]
+  v: [string, string];   // Volume [today, 24h]
+  p: [string, string];   // VWAP [today, 24h]
+  t: [number, number];   // Trade count [today, 24h]
+  l: [string, string];   // Low [today, 24h]
+  h: [string, string];   // High [today, 24h]
+  o: string;             // Today's open
+}
+
+interface KrakenBookLevel {
+  price: number;
+  qty: number;
+}
+
+interface KrakenBookData {
+  symbol: string;
+  bids: KrakenBookLevel[];
+  asks: KrakenBookLevel[];
+  checksum: number;
+}
+
+interface KrakenTradeData {
+  symbol: string;
+  side: 'buy' | 'sell'; // Taker side
+  price: number;
+  qty: number;
+  trade_id: number;
+  timestamp: string;
+}
+
+interface KrakenOhlcData {
+  symbol: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  interval_begin: string;
+}
+
+interface KrakenTickerData {
+  symbol: string;
+  last: number;
+  volume: number;
+  vwap: number;
+  low: number;
+  high: number;
+  change: number;
+}
+
+interface KrakenStreamMessage {
+  channel?: string;
+  type?: 'snapshot' | 'update';
+  data?: unknown[];
+  method?: string;
+  success?: boolean;
+  error?: string;
+}
+
+// Price/quantity decimals, needed to rebuild the strings the checksum is computed over
+interface KrakenPrecision {
+  price: number;
+  qty: number;
+}
+
+function toKrakenAsset(asset: string): string {
+  const entry = Object.entries(KRAKEN_ASSET_ALIASES).find(([, common]) => common === asset.toUpperCase());
+  return entry ? entry[0] : asset.toUpperCase();
+}
+
+// WebSocket v2 uses common codes with a slash
+function toKrakenWsSymbol(symbol: Symbol): string {
+  return `${symbol.base}/${symbol.quote}`.toUpperCase();
+}
+
+// REST still wants the legacy codes, e.g. XBTUSD
+function toKrakenRestPair(symbol: Symbol): string {
+  return `${toKrakenAsset(symbol.base)}${toKrakenAsset(symbol.quote)}`;
+}
+
+// Largest OHLC interval that evenly divides the timeframe
+function toKrakenInterval(timeframe: string): number {
+  const minutes = timeframeToMs(timeframe) / 60000;
+  return KRAKEN_INTERVALS.find((interval) => minutes % interval === 0) ?? 1;
+}
+
+// Kraken keys results by its own pair name (XXBTZUSD), so take the single entry
+function firstResult<T>(result: Record<string, T>): T | undefined {
+  return Object.entries(result).find(([key]) => key !== 'last')?.[1];
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function toLevels(levels: KrakenBookLevel[], precision: KrakenPrecision): PriceLevel[] {
+  return levels.map(({ price, qty }) => [price.toFixed(precision.price), qty.toFixed(precision.qty)]);
+}
+
+// Kraken checksum: top 10 asks then top 10 bids, each value without the
+// decimal point or leading zeros, concatenated; CRC32 as an unsigned int
+function bookChecksum(book: OrderBookState): number {
+  const format = (value: string) => value.replace('.', '').replace(/^0+/, '');
+  const levels = [...book.getAsks(KRAKEN_CHECKSUM_DEPTH), ...book.getBids(KRAKEN_CHECKSUM_DEPTH)];
+  const input = levels.map(([price, qty]) => format(price) + format(qty)).join('');
+  return crc32(input) >>> 0;
+}
+
+async function krakenGet<T>(restBase: string, path: string, params: Record<string, string | number>): Promise<T> {
+  const query = new URLSearchParams(
+    Object.entries(params).map(([key, value]) => [key, String(value)])
+  );
+  const response = await fetch(`${restBase}${path}?${query}`);
+
+  if (!response.ok) {
+    throw new Error(`Kraken API error: ${response.status}`);
+  }
+
+  const body: KrakenResponse<T> = await response.json();
+  if (body.error.length > 0) {
+    throw new Error(`Kraken API error: ${body.error.join(', ')}`);
+  }
+  return body.result;
+}
+
+class KrakenStream extends ExchangeSocket {
+  private book = new OrderBookState();
+  private precision: KrakenPrecision | null = null;
+  private precisionAttempts = 0;
+  private precisionTimer: ReturnType<typeof setTimeout> | null = null;
+  private bookGeneration = 0; // Drops book subscriptions started before a reconnect
+  private candle: CandleData | null = null;
+
+  constructor(
+    wsBase: string,
+    private pair: string,
+    private streamOptions: MarketStreamOptions,
+    private loadPrecision: () => Promise<KrakenPrecision | null>,
+    private callbacks: MarketStreamCallbacks
+  ) {
+    super({
+      url: wsBase,
+      name: 'Kraken',
+      callbacks,
+      ping: { interval: KRAKEN_PING_INTERVAL, message: () => ({ method: 'ping' }) },
+      onOpen: (socket) => {
+        this.book.clear();
+        this.candle = null;
+        for (const params of this.subscriptions()) {
+          socket.send({ method: 'subscribe', params });
+        }
+        if (streamOptions.channels.includes('depth')) this.subscribeBook();
+      },
+      onMessage: (data) => this.handleMessage(data as KrakenStreamMessage),
+    });
+  }
+
+  private subscriptions(): Record<string, unknown>[] {
+    const { channels, interval = '1m' } = this.streamOptions;
+    const symbol = [this.pair];
+    const params: Record<string, unknown>[] = [];
+    if (channels.includes('kline')) {
+      params.push({ channel: 'ohlc', symbol, interval: toKrakenInterval(interval) });
+    }
+    if (channels.includes('trades')) params.push({ channel: 'trade', symbol });
+    if (channels.includes('ticker')) params.push({ channel: 'ticker', symbol });
+    return params;
+  }
+
+  // The book checksum depends on the pair's precision, so the book waits for
+  // it; a failed load is reported and retried with backoff
+  private async subscribeBook(): Promise<void> {
+    const generation = ++this.bookGeneration;
+    this.clearPrecisionRetry();
+    const precision = this.precision ?? (await this.loadPrecision());
+    if (generation !== this.bookGeneration) return;
+
+    if (!precision) {
+      this.precisionAttempts++;
+      const delay = getReconnectDelay(this.precisionAttempts);
+      this.callbacks.onError?.(
+        new Error(`Kraken ${this.pair} precision unavailable, order book retrying in ${Math.round(delay / 1000)}s`)
+      );
+      this.precisionTimer = setTimeout(() => {
+        this.precisionTimer = null;
+        this.subscribeBook();
+      }, delay);
+      return;
+    }
+
+    this.precision = precision;
+    this.precisionAttempts = 0;
+    this.send({ method: 'subscribe', params: this.bookParams() });
+  }
+
+  private clearPrecisionRetry(): void {
+    if (this.precisionTimer) {
+      clearTimeout(this.precisionTimer);
+      this.precisionTimer = null;
+    }
+  }
+
+  disconnect(): void {
+    this.bookGeneration++;
+    this.clearPrecisionRetry();
+    super.disconnect();
+  }
+
+  private bookParams(): Record<string, unknown> {
+    return { channel: 'book', symbol: [this.pair], depth: KRAKEN_BOOK_DEPTH };
+  }
+
+  private handleMessage(message: KrakenStreamMessage): void {
+    if (message.method) {
+      if (message.success === false) {
+        this.callbacks.onError?.(new Error(`Kraken ${message.method} failed: ${message.error}`));
+      }
+      return;
+    }
+
+    const data = message.data ?? [];
+    switch (message.channel) {
+      case 'book':
+        for (const book of data as KrakenBookData[]) {
+          this.handleOrderBook(message.type, book);
+        }
+        break;
+      case 'trade':
+        for (const trade of data as KrakenTradeData[]) {
+          this.handleTrade(trade);
+        }
+        break;
+      case 'ohlc':
+        for (const ohlc of data as KrakenOhlcData[]) {
+          this.handleOhlc(ohlc);
+        }
+        break;
+      case 'ticker':
+        for (const ticker of data as KrakenTickerData[]) {
+          this.handleTicker(ticker);
+        }
+        break;
+    }
+  }
+
+  private handleOrderBook(type: KrakenStreamMessage['type'], data: KrakenBookData): void {
+    const precision = this.precision;
+    if (!precision) return;
+
+    if (type === 'snapshot') {
+      this.book.reset(toLevels(data.bids, precision), toLevels(data.asks, precision));
+    } else {
+      if (this.book.isEmpty()) return; // Wait for the snapshot
+      this.book.applyDelta(toLevels(data.bids, precision), toLevels(data.asks, precision));
+      // Kraken doesn't delete levels pushed out of the subscribed depth
+      this.book.truncate(KRAKEN_BOOK_DEPTH);
+    }
+
+    if (bookChecksum(this.book) !== data.checksum) {
+      console.warn(`Kraken ${this.pair} order book checksum mismatch, resubscribing`);
+      this.book.clear();
+      this.send({ method: 'unsubscribe', params: this.bookParams() });
+      this.send({ method: 'subscribe', params: this.bookParams() });
+      return;
+    }
+
+    this.callbacks.onOrderBook?.(this.book.toUpdate(KRAKEN_BOOK_DEPTH));
+  }
+
+  private handleTrade(data: KrakenTradeData): void {
+    const trade: AggTrade = {
+      id: data.trade_id,
+      price: data.price,
+      quantity: data.qty,
+      time: new Date(data.timestamp).getTime(),
+      isBuyerMaker: data.side === 'sell', // Taker sold into the bid
+    };
+    this.callbacks.onTrade?.(trade);
+  }
+
+  // Kraken has no "closed" flag; a candle is final once the next one starts
+  private handleOhlc(data: KrakenOhlcData): void {
+    const kline: CandleData = {
+      time: new Date(data.interval_begin).getTime(),
+      open: data.open,
+      high: data.high,
+      low: data.low,
+      close: data.close,
+      volume: data.volume,
+    };
+
+    if (this.candle && this.candle.time < kline.time) {
+      this.callbacks.onKline?.(this.candle, true);
+    }
+    this.candle = kline;
+
+    this.callbacks.onPrice?.(kline.close);
+    this.callbacks.onKline?.(kline, false);
+  }
+
+  private handleTicker(data: KrakenTickerData): void {
+    const openPrice = data.last - data.change;
+    this.callbacks.onTicker?.({
+      symbol: data.symbol,
+      priceChange: data.change,
+      priceChangePercent: openPrice ? (data.change / openPrice) * 100 : 0,
+      lastPrice: data.last,
+      highPrice: data.high,
+      lowPrice: data.low,
+      volume: data.volume,
+      quoteVolume: data.volume * data.vwap,
+      openPrice,
+      count: 0,
+    });
+  }
+}
+
+// Kraken spot market data (REST v0 + WebSocket v2)
+export function createKrakenSource(options: KrakenSourceOptions = {}): MarketDataSource {
+  const restBase = options.restBase ?? KRAKEN_API_BASE;
+  const wsBase = options.wsBase ?? KRAKEN_WS_BASE;
+  const assetPairs = new Map<string, Promise<KrakenAssetPair | null>>();
+
+  const loadAssetPair = (symbol: Symbol): Promise<KrakenAssetPair | null> => {
+    const pair = toKrakenRestPair(symbol);
+    let assetPair = assetPairs.get(pair);
+    if (!assetPair) {
+      assetPair = krakenGet<Record<string, KrakenAssetPair>>(restBase, '/AssetPairs', { pair })
+        .then((result) => firstResult(result) ?? null)
+        .catch((error) => {
+          console.error('Failed to fetch Kraken asset pair:', error);
+          assetPairs.delete(pair);
+          return null;
+        });
+      assetPairs.set(pair, assetPair);
+    }
+    return assetPair;
+  };
+
+  const loadPrecision = async (symbol: Symbol): Promise<KrakenPrecision | null> => {
+    const info = await loadAssetPair(symbol);
+    return info ? { price: info.pair_decimals, qty: info.lot_decimals } : null;
+  };
+
+  return {
+    id: 'kraken',
+    name: 'Kraken',
+    capabilities: { kline: true, depth: true, trades: true, ticker: true, liquidations: false, assetContext: false },
+    intervals: KRAKEN_TIMEFRAMES,
+
+    async fetchKlines(symbol, interval, limit = 100, endTime) {
+      const krakenInterval = toKrakenInterval(interval);
+      const perCandle = Math.max(1, Math.round(timeframeToMs(interval) / (krakenInterval * 60000)));
+      const end = endTime ?? Date.now();
+      const since = Math.floor((end - limit * perCandle * krakenInterval * 60000) / 1000);
+
+      // [time (s), open, high, low, close, vwap, volume, count], oldest first
+      const result = await krakenGet<Record<string, (string | number)[][]>>(restBase, '/OHLC', {
+        pair: toKrakenRestPair(symbol),
+        interval: krakenInterval,
+        since,
+      });
+
+      // Kraken only keeps the latest 720 candles, so deep pages may come back empty
+      const candles = (firstResult(result) ?? [])
+        .map((candle): CandleData => ({
+          time: Number(candle[0]) * 1000,
+          open: parseFloat(String(candle[1])),
+          high: parseFloat(String(candle[2])),
+          low: parseFloat(String(candle[3])),
+          close: parseFloat(String(candle[4])),
+          volume: parseFloat(String(candle[6])),
+        }))
+        .filter((candle) => candle.time <= end);
+
+      // Timeframes Kraken doesn't serve are built from the nearest interval
+      const merged = perCandle > 1 || interval === '1M' ? aggregateCandles(candles, interval) : candles;
+      return merged.slice(-limit);
+    },
+
+    async fetchOrderBook(symbol, limit = 20): Promise<OrderBookUpdate | null> {
+      const result = await krakenGet<Record<string, { bids: string[][]; asks: string[][] }>>(restBase, '/Depth', {
+        pair: toKrakenRestPair(symbol),
+        count: Math.min(limit, 500),
+      });
+      const book = firstResult(result);
+      if (!book) return null;
+
+      return {
+        bids: book.bids.map(([price, volume]) => [price, volume]),
+        asks: book.asks.map(([price, volume]) => [price, volume]),
+        lastUpdateId: Date.now(), // Kraken has no book sequence number
+      };
+    },
+
+    // /Trades only pages forward, so take the latest page and then walk
+    // forward from estimated earlier start points until each slice meets
+    // the trades already held; a slice cut short by the page cap is dropped
+    // so what's returned always runs unbroken up to now
+    async fetchTrades(symbol, startTime) {
+      const pair = toKrakenRestPair(symbol);
+      let requests = 0;
+      const fetchPage = async (since?: string | number) => {
+        if (requests++ > 0) await sleep(KRAKEN_TRADE_PAGE_SPACING);
+        // [price, volume, time (s), side, type, misc, trade_id], oldest first
+        const params: Record<string, string | number> = { pair, count: KRAKEN_TRADE_PAGE };
+        if (since !== undefined) params.since = since;
+        const result: Record<string, unknown> = await krakenGet(restBase, '/Trades', params);
+        const batch = (firstResult(result) ?? []) as (string | number)[][];
+        const trades = batch.map((row): AggTrade => ({
+          id: Number(row[6]),
+          price: parseFloat(String(row[0])),
+          quantity: parseFloat(String(row[1])),
+          time: Math.round(Number(row[2]) * 1000),
+          isBuyerMaker: row[3] === 's', // Taker sold into the bid
+        }));
+        return { trades, last: String(result.last) };
+      };
+
+      let trades = (await fetchPage()).trades;
+      while (trades.length > 1 && trades[0].time > startTime && requests < MAX_TRADE_HISTORY_PAGES) {
+        // Aim about a page back, going by the recent trade rate
+        const oldest = trades[0];
+        const perTrade = (trades[trades.length - 1].time - oldest.time) / (trades.length - 1);
+        const from = Math.max(startTime, oldest.time - Math.max(1000, perTrade * KRAKEN_TRADE_PAGE));
+
+        const older: AggTrade[] = [];
+        let since: string | number = Math.floor(from / 1000);
+        let met = false;
+        while (!met && requests < MAX_TRADE_HISTORY_PAGES) {
+          const page = await fetchPage(since);
+          const before = page.trades.filter((trade) => isAfter(oldest, trade));
+          older.push(...before);
+          met = before.length < page.trades.length || page.trades.length < KRAKEN_TRADE_PAGE;
+          since = page.last;
+        }
+        if (!met) break;
+        trades = [...older, ...trades];
+        if (from === startTime || older.length === 0) break;
+      }
+      return trades.filter((trade) => trade.time >= startTime);
+    },
+
+    async fetchTicker(symbol) {
+      const result = await krakenGet<Record<string, KrakenTickerInfo>>(restBase, '/Ticker', {
+        pair: toKrakenRestPair(symbol),
+      });
+      const info = firstResult(result);
+      if (!info) return null;
+
+      const lastPrice = parseFloat(info.c[0]);
+      const openPrice = parseFloat(info.o); // Since 00:00 UTC, the closest Kraken gives
+      const volume = parseFloat(info.v[1]);
+      return {
+        symbol: toKrakenWsSymbol(symbol),
+        priceChange: lastPrice - openPrice,
+        priceChangePercent: openPrice ? ((lastPrice - openPrice) / openPrice) * 100 : 0,
+        lastPrice,
+        highPrice: parseFloat(info.h[1]),
+        lowPrice: parseFloat(info.l[1]),
+        volume,
+        quoteVolume: volume * parseFloat(info.p[1]),
+        openPrice,
+        count: info.t[1],
+      };
+    },
+
+    async fetchInstrument(symbol) {
+      const info = await loadAssetPair(symbol);
+      if (!info) return null;
+      return createInstrumentInfo({
+        tickSize: info.tick_size ? parseFloat(info.tick_size) : Math.pow(10, -info.pair_decimals),
+        stepSize: Math.pow(10, -info.lot_decimals),
+        minNotional: parseFloat(info.costmin ?? '0'),
+      });
+    },
+
+    createStream(symbol, streamOptions, callbacks) {
+      return new KrakenStream(wsBase, toKrakenWsSymbol(symbol), streamOptions, () => loadPrecision(symbol), callbacks);
+    },
+  };
+}
+
+export const krakenSource = createKrakenSource();
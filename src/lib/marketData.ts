@@ -0,0 +1,314 @@
+import type {
+  AggTrade,
+  AssetContext,
+  CandleData,
+  FundingRatePoint,
+  InstrumentInfo,
+  LiquidationEvent,
+  MarketTicker,
+  OpenInterestPoint,
+  OrderBookUpdate,
+  PositioningPoint,
+  Symbol,
+} from './types';
+import { binanceSource, fetchSymbols, type BinanceSymbol } from './binance';
+import { bybitSource } from './bybit';
+import { coinbaseSource } from './coinbase';
+import { hyperliquidSource } from './hyperliquid';
+import { krakenSource } from './kraken';
+import { fetchOkxSymbols, okxSource } from './okx';
+import { replaySource, REPLAY_EXCHANGE } from './replay';
+import { simulatorSource, DEMO_EXCHANGE } from './simulator';
+import { withGapRecovery } from './gapRecovery';
+import { withTimeframeAggregation } from './timeframeAggregation';
+import { loadInstrument } from './instruments';
+import {
+  isMarketProxyEnabled,
+  proxyFetchAssetContext,
+  proxyFetchFundingHistory,
+  proxyFetchFundingRates,
+  proxyFetchInstrument,
+  proxyFetchKlines,
+  proxyFetchOpenInterest,
+  proxyFetchOrderBook,
+  proxyFetchPositioning,
+  proxyFetchOkxSymbols,
+  proxyFetchSymbols,
+  proxyFetchTicker,
+  proxyFetchTrades,
+  proxyFetchTradesSince,
+} from './marketProxy';
+
+export type ConnectionState = 'connecting' | 'connected' | 'reconnecting' | 'recovering' | 'disconnected';
+
+export interface ConnectionStatus {
+  state: ConnectionState;
+  attempt?: number; // Reconnect attempt, counting from 1
+  retryIn?: number; // ms until that attempt
+}
+
+// Channels an exchange adapter can stream
+export type MarketChannel = 'kline' | 'depth' | 'trades' | 'ticker' | 'liquidations' | 'assetContext';
+
+export interface MarketStreamCallbacks {
+  onKline?: (kline: CandleData, isClosed: boolean) => void;
+  onPrice?: (price: number) => void;
+  onOrderBook?: (update: OrderBookUpdate) => void;
+  onTrade?: (trade: AggTrade) => void;
+  onTicker?: (ticker: MarketTicker) => void;
+  onLiquidation?: (liquidation: LiquidationEvent) => void;
+  onAssetContext?: (context: AssetContext) => void;
+  onError?: (error: Error) => void;
+  onConnect?: () => void;
+  onDisconnect?: () => void;
+  onStatus?: (status: ConnectionStatus) => void;
+}
+
+export interface MarketStreamOptions {
+  channels: MarketChannel[];
+  interval?: string; // Required for the kline channel
+  // REST a stream fetches mid-flight: depth snapshots for adapters that keep
+  // a local book, and base klines for aggregated timeframes. createMarketStream
+  // routes both through the market transport.
+  loadBookSnapshot?: (limit: number) => Promise<OrderBookUpdate | null>;
+  loadKlines?: (interval: string, limit: number, endTime?: number) => Promise<CandleData[]>;
+}
+
+export interface MarketStream {
+  connect(): void;
+  disconnect(): void;
+  isConnected(): boolean;
+}
+
+export interface MarketDataSource {
+  id: string;
+  name: string;
+  capabilities: Record<MarketChannel, boolean>;
+  // Kline intervals the exchange serves; others are aggregated from the largest
+  // one that divides them. Omitted when the adapter builds any interval itself.
+  intervals?: string[];
+  // endTime pages back through history: only candles opening at or before it
+  fetchKlines(symbol: Symbol, interval: string, limit?: number, endTime?: number): Promise<CandleData[]>;
+  fetchOrderBook(symbol: Symbol, limit?: number): Promise<OrderBookUpdate | null>;
+  fetchTicker(symbol: Symbol): Promise<MarketTicker | null>;
+  fetchInstrument?(symbol: Symbol): Promise<InstrumentInfo | null>; // Tick/step size; displays fall back to magnitude without it
+  fetchAssetContext?(symbol: Symbol): Promise<AssetContext | null>; // Derivatives venues only
+  fetchFundingHistory?(symbol: Symbol, limit?: number): Promise<FundingRatePoint[]>; // Settled rates, oldest first
+  fetchFundingRates?(): Promise<AssetContext[]>; // Every perpetual the venue lists
+  // Open interest snapshots ending now, oldest first. Venues keep a few
+  // periods; `period` is rounded down to the nearest one they serve.
+  fetchOpenInterestHistory?(symbol: Symbol, period: string, limit?: number): Promise<OpenInterestPoint[]>;
+  // Long/short ratios and taker volume ending now, oldest first; `period`
+  // rounds down like open interest
+  fetchPositioning?(symbol: Symbol, period: string, limit?: number): Promise<PositioningPoint[]>;
+  // Trades after `after`, oldest first; lets streams fill gaps left by a reconnect
+  fetchTradesSince?(symbol: Symbol, after: AggTrade): Promise<AggTrade[]>;
+  // Recent trades back to startTime, oldest first; seeds trade-built bars.
+  // Venues cap how far back this reaches, so it may start later.
+  fetchTrades?(symbol: Symbol, startTime: number): Promise<AggTrade[]>;
+  createStream(
+    symbol: Symbol,
+    options: MarketStreamOptions,
+    callbacks: MarketStreamCallbacks
+  ): MarketStream;
+}
+
+const DEFAULT_EXCHANGE = 'binance';
+
+const aggregatedBinance = withTimeframeAggregation(binanceSource);
+
+// Adapters keyed by the `exchange` field of Symbol
+const sources: Record<string, MarketDataSource> = {
+  binance: aggregatedBinance,
+  binancef: aggregatedBinance,
+  bybit: withTimeframeAggregation(bybitSource),
+  okx: withTimeframeAggregation(okxSource),
+  coinbase: coinbaseSource,
+  kraken: withTimeframeAggregation(krakenSource),
+  hyperliquid: withTimeframeAggregation(hyperliquidSource),
+  [DEMO_EXCHANGE]: simulatorSource,
+  [REPLAY_EXCHANGE]: replaySource,
+};
+
+export function registerMarketDataSource(exchange: string, source: MarketDataSource): void {
+  sources[exchange] = withTimeframeAggregation(source);
+}
+
+export function hasMarketDataSource(exchange: string): boolean {
+  return exchange in sources;
+}
+
+// Exchanges without an adapter fall back to Binance so the UI still gets data
+export function getMarketDataSource(exchange: string): MarketDataSource {
+  const source = sources[exchange];
+  if (!source) {
+    console.warn(`No market data adapter for ${exchange}, falling back to ${DEFAULT_EXCHANGE}`);
+    return sources[DEFAULT_EXCHANGE];
+  }
+  return source;
+}
+
+// Simulated and recorded data never leave the browser
+const LOCAL_EXCHANGES = [DEMO_EXCHANGE, REPLAY_EXCHANGE];
+
+// REST goes through the /api/market routes when the proxy transport is on
+function viaProxy(symbol: Symbol): boolean {
+  return isMarketProxyEnabled() && !LOCAL_EXCHANGES.includes(symbol.exchange);
+}
+
+export function fetchMarketKlines(
+  symbol: Symbol,
+  interval: string,
+  limit?: number,
+  endTime?: number
+): Promise<CandleData[]> {
+  if (viaProxy(symbol)) return proxyFetchKlines(symbol, interval, limit, endTime);
+  return getMarketDataSource(symbol.exchange).fetchKlines(symbol, interval, limit, endTime);
+}
+
+// Page of candles strictly older than `before`, for scrolling back through history
+export async function fetchOlderKlines(
+  symbol: Symbol,
+  interval: string,
+  before: number,
+  limit = 500
+): Promise<CandleData[]> {
+  const klines = await fetchMarketKlines(symbol, interval, limit, before - 1);
+  return klines.filter((kline) => kline.time < before);
+}
+
+// Merge candle series by open time; candles already in `existing` win
+export function mergeCandles(existing: CandleData[], incoming: CandleData[]): CandleData[] {
+  const byTime = new Map<number, CandleData>();
+  for (const candle of incoming) byTime.set(candle.time, candle);
+  for (const candle of existing) byTime.set(candle.time, candle);
+  return Array.from(byTime.values()).sort((a, b) => a.time - b.time);
+}
+
+// Apply a live kline: replace the candle with the same open time or append a new one
+export function upsertCandle(candles: CandleData[], kline: CandleData): CandleData[] {
+  const last = candles[candles.length - 1];
+  if (!last || kline.time > last.time) return [...candles, kline];
+
+  const index = last.time === kline.time
+    ? candles.length - 1
+    : candles.findIndex((candle) => candle.time === kline.time);
+  if (index === -1) return mergeCandles(candles, [kline]);
+
+  const next = [...candles];
+  next[index] = kline;
+  return next;
+}
+
+export function fetchMarketOrderBook(symbol: Symbol, limit?: number): Promise<OrderBookUpdate | null> {
+  if (viaProxy(symbol)) return proxyFetchOrderBook(symbol, limit);
+  return getMarketDataSource(symbol.exchange).fetchOrderBook(symbol, limit);
+}
+
+export function fetchMarketTicker(symbol: Symbol): Promise<MarketTicker | null> {
+  if (viaProxy(symbol)) return proxyFetchTicker(symbol);
+  return getMarketDataSource(symbol.exchange).fetchTicker(symbol);
+}
+
+// Trade history for venues that publish it; empty where they don't
+export function fetchMarketTrades(symbol: Symbol, startTime: number): Promise<AggTrade[]> {
+  if (viaProxy(symbol)) return proxyFetchTrades(symbol, startTime);
+  const source = getMarketDataSource(symbol.exchange);
+  return source.fetchTrades ? source.fetchTrades(symbol, startTime) : Promise.resolve([]);
+}
+
+// Mark price, funding and open interest; null for spot-only venues
+export function fetchMarketAssetContext(symbol: Symbol): Promise<AssetContext | null> {
+  if (viaProxy(symbol)) return proxyFetchAssetContext(symbol);
+  const source = getMarketDataSource(symbol.exchange);
+  return source.fetchAssetContext ? source.fetchAssetContext(symbol) : Promise.resolve(null);
+}
+
+// Settled funding for venues that publish it; empty where they don't
+export function fetchMarketFundingHistory(symbol: Symbol, limit?: number): Promise<FundingRatePoint[]> {
+  if (viaProxy(symbol)) return proxyFetchFundingHistory(symbol, limit);
+  const source = getMarketDataSource(symbol.exchange);
+  return source.fetchFundingHistory ? source.fetchFundingHistory(symbol, limit) : Promise.resolve([]);
+}
+
+// Exchanges that can list funding across all their perpetuals
+export function hasFundingRates(exchange: string): boolean {
+  return exchange in sources && sources[exchange].fetchFundingRates !== undefined;
+}
+
+// Funding and mark for every perpetual on the exchange
+export function fetchMarketFundingRates(exchange: string): Promise<AssetContext[]> {
+  if (isMarketProxyEnabled() && !LOCAL_EXCHANGES.includes(exchange)) return proxyFetchFundingRates(exchange);
+  const source = getMarketDataSource(exchange);
+  return source.fetchFundingRates ? source.fetchFundingRates() : Promise.resolve([]);
+}
+
+// Open interest history for venues that publish it; empty where they don't
+export function fetchMarketOpenInterest(symbol: Symbol, period: string, limit?: number): Promise<OpenInterestPoint[]> {
+  if (viaProxy(symbol)) return proxyFetchOpenInterest(symbol, period, limit);
+  const source = getMarketDataSource(symbol.exchange);
+  return source.fetchOpenInterestHistory ? source.fetchOpenInterestHistory(symbol, period, limit) : Promise.resolve([]);
+}
+
+// Trader positioning for venues that publish it; empty where they don't
+export function fetchMarketPositioning(symbol: Symbol, period: string, limit?: number): Promise<PositioningPoint[]> {
+  if (viaProxy(symbol)) return proxyFetchPositioning(symbol, period, limit);
+  const source = getMarketDataSource(symbol.exchange);
+  return source.fetchPositioning ? source.fetchPositioning(symbol, period, limit) : Promise.resolve([]);
+}
+
+// Trading rules for a symbol, loaded once and kept for the session
+export function fetchMarketInstrument(symbol: Symbol): Promise<InstrumentInfo | null> {
+  return loadInstrument(symbol, (target) => {
+    if (viaProxy(target)) return proxyFetchInstrument(target);
+    const source = getMarketDataSource(target.exchange);
+    return source.fetchInstrument ? source.fetchInstrument(target) : Promise.resolve(null);
+  });
+}
+
+// Binance listing for the symbol search
+export function fetchMarketSymbols(): Promise<BinanceSymbol[]> {
+  return isMarketProxyEnabled() ? proxyFetchSymbols('binance') : fetchSymbols();
+}
+
+// OKX listing for the symbol search, already mapped to symbols
+export function fetchMarketOkxSymbols(): Promise<Symbol[]> {
+  return isMarketProxyEnabled() ? proxyFetchOkxSymbols() : fetchOkxSymbols();
+}
+
+// Trades after `after`, to close a reconnect gap. The venue walks forward
+// from the trade itself where it can, on the server with the proxy.
+function fetchMarketTradesSince(symbol: Symbol, after: AggTrade): Promise<AggTrade[]> {
+  if (viaProxy(symbol)) return proxyFetchTradesSince(symbol, after);
+  const source = getMarketDataSource(symbol.exchange);
+  return source.fetchTradesSince ? source.fetchTradesSince(symbol, after) : Promise.resolve([]);
+}
+
+// REST a stream needs (book snapshots, kline seeds, gap backfills) takes the
+// same transport as every other request
+export function createMarketStream(
+  symbol: Symbol,
+  options: MarketStreamOptions,
+  callbacks: MarketStreamCallbacks
+): MarketStream {
+  return withGapRecovery(
+    getMarketDataSource(symbol.exchange),
+    symbol,
+    {
+      ...options,
+      loadBookSnapshot: (limit) => fetchMarketOrderBook(symbol, limit),
+      loadKlines: (interval, limit, endTime) => fetchMarketKlines(symbol, interval, limit, endTime),
+    },
+    callbacks,
+    {
+      fetchKlines: (interval, limit) => fetchMarketKlines(symbol, interval, limit),
+      fetchTradesSince: (after) => fetchMarketTradesSince(symbol, after),
+    }
+  );
+}
+
+// Build a Symbol from a "BASE/QUOTE" pair string (used by widgets with their own pickers)
+export function parseSymbol(pair: string, exchange = DEFAULT_EXCHANGE): Symbol {
+  const [base, quote = 'USDT'] = pair.toUpperCase().split('/');
+  return { symbol: `${base}/${quote}`, base, quote, exchange, type: 'spot' };
+}
@@ -0,0 +1,141 @@
+// Client side of the /api/market routes. With the proxy transport, REST
+// calls go to this app's server, which fetches upstream once and caches, so
+// every browser on a desk shares one exchange budget and nobody hits CORS or
+// geo-blocks. Streams still connect to the exchanges directly.
+
+import type {
+  AggTrade,
+  AssetContext,
+  CandleData,
+  FundingRatePoint,
+  InstrumentInfo,
+  MarketTicker,
+  OpenInterestPoint,
+  OrderBookUpdate,
+  PositioningPoint,
+  Symbol,
+} from './types';
+import type { BinanceSymbol } from './binance';
+
+export type MarketTransport = 'direct' | 'proxy';
+
+const TRANSPORT_KEY = 'okapTerminalMarketTransport';
+const PROXY_BASE = '/api/market';
+
+// Deployments can default to the proxy with NEXT_PUBLIC_MARKET_PROXY=1
+const DEFAULT_TRANSPORT: MarketTransport = process.env.NEXT_PUBLIC_MARKET_PROXY === '1' ? 'proxy' : 'direct';
+
+let transport: MarketTransport | null = null;
+
+export function getMarketTransport(): MarketTransport {
+  if (transport) return transport;
+  transport = DEFAULT_TRANSPORT;
+  if (typeof window !== 'undefined') {
+    try {
+      const saved = localStorage.getItem(TRANSPORT_KEY);
+      if (saved === 'direct' || saved === 'proxy') transport = saved;
+    } catch (error) {
+      console.error('Failed to load market transport:', error);
+    }
+  }
+  return transport;
+}
+
+export function setMarketTransport(next: MarketTransport): void {
+  transport = next;
+  try {
+    localStorage.setItem(TRANSPORT_KEY, next);
+  } catch (error) {
+    console.error('Failed to save market transport:', error);
+  }
+}
+
+// Only the browser proxies; the route handlers themselves call the adapters
+export function isMarketProxyEnabled(): boolean {
+  return typeof window !== 'undefined' && getMarketTransport() === 'proxy';
+}
+
+// Query encoding of a Symbol, shared with the route handlers
+export function symbolToParams(symbol: Symbol): Record<string, string> {
+  return { exchange: symbol.exchange, base: symbol.base, quote: symbol.quote, type: symbol.type };
+}
+
+export function symbolFromParams(params: URLSearchParams): Symbol | null {
+  const exchange = params.get('exchange');
+  const base = params.get('base')?.toUpperCase();
+  const quote = params.get('quote')?.toUpperCase();
+  const type = params.get('type') ?? 'spot';
+  if (!exchange || !base || !quote) return null;
+  if (type !== 'spot' && type !== 'futures_usd' && type !== 'futures_coin') return null;
+  return { symbol: `${base}/${quote}`, base, quote, exchange, type };
+}
+
+async function proxyGet<T>(route: string, params: Record<string, string | number | undefined>): Promise<T> {
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) query.set(key, String(value));
+  }
+  const response = await fetch(`${PROXY_BASE}/${route}?${query}`);
+  if (!response.ok) {
+    const body = await response.json().catch(() => null) as { error?: string } | null;
+    throw new Error(body?.error ?? `Market proxy error: ${response.status}`);
+  }
+  return response.json();
+}
+
+export function proxyFetchKlines(
+  symbol: Symbol,
+  interval: string,
+  limit?: number,
+  endTime?: number
+): Promise<CandleData[]> {
+  return proxyGet('klines', { ...symbolToParams(symbol), interval, limit, endTime });
+}
+
+export function proxyFetchOrderBook(symbol: Symbol, limit?: number): Promise<OrderBookUpdate | null> {
+  return proxyGet('depth', { ...symbolToParams(symbol), limit });
+}
+
+export function proxyFetchTicker(symbol: Symbol): Promise<MarketTicker | null> {
+  return proxyGet('ticker', symbolToParams(symbol));
+}
+
+export function proxyFetchTrades(symbol: Symbol, startTime: number): Promise<AggTrade[]> {
+  return proxyGet('trades', { ...symbolToParams(symbol), startTime });
+}
+
+export function proxyFetchTradesSince(symbol: Symbol, after: AggTrade): Promise<AggTrade[]> {
+  return proxyGet('tradessince', { ...symbolToParams(symbol), afterId: after.id, afterTime: after.time });
+}
+
+export function proxyFetchAssetContext(symbol: Symbol): Promise<AssetContext | null> {
+  return proxyGet('context', symbolToParams(symbol));
+}
+
+export function proxyFetchFundingHistory(symbol: Symbol, limit?: number): Promise<FundingRatePoint[]> {
+  return proxyGet('funding', { ...symbolToParams(symbol), limit });
+}
+
+export function proxyFetchFundingRates(exchange: string): Promise<AssetContext[]> {
+  return proxyGet('fundingrates', { exchange });
+}
+
+export function proxyFetchOpenInterest(symbol: Symbol, period: string, limit?: number): Promise<OpenInterestPoint[]> {
+  return proxyGet('openinterest', { ...symbolToParams(symbol), period, limit });
+}
+
+export function proxyFetchPositioning(symbol: Symbol, period: string, limit?: number): Promise<PositioningPoint[]> {
+  return proxyGet('positioning', { ...symbolToParams(symbol), period, limit });
+}
+
+export function proxyFetchInstrument(symbol: Symbol): Promise<InstrumentInfo | null> {
+  return proxyGet('instrument', symbolToParams(symbol));
+}
+
+export function proxyFetchSymbols(exchange: string): Promise<BinanceSymbol[]> {
+  return proxyGet('symbols', { exchange });
+}
+
+export function proxyFetchOkxSymbols(): Promise<Symbol[]> {
+  return proxyGet('symbols', { exchange: 'okx' });
+}
@@ -0,0 +1,77 @@
+// Worker entry for workerPipeline.ts: runs indicators over packed candles and
+// keeps Binance local order books, posting results back as transferred
+// Float64Array buffers. Books ask the main thread for their REST snapshots,
+// so the worker never spends exchange weight of its own.
+
+import type { OrderBookUpdate } from './types';
+import { BinanceWebSocket, type BinanceMarket } from './binance';
+import { runIndicator } from './indicators';
+import { packBook, packIndicator, unpackCandles } from './packedData';
+import type { WorkerRequest, WorkerResponse } from './workerPipeline';
+
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<WorkerRequest>) => void) | null;
+  postMessage: (message: WorkerResponse, transfer?: Transferable[]) => void;
+};
+
+const books = new Map<number, BinanceWebSocket>();
+const snapshotRequests = new Map<number, (snapshot: OrderBookUpdate | null) => void>();
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Snapshot for book `id`, fetched by the main thread
+function requestSnapshot(id: number): Promise<OrderBookUpdate | null> {
+  return new Promise((resolve) => {
+    snapshotRequests.get(id)?.(null);
+    snapshotRequests.set(id, resolve);
+    scope.postMessage({ type: 'bookSnapshotRequest', id });
+  });
+}
+
+function openBook(id: number, pair: string, market: BinanceMarket, depth: number): void {
+  const stream = new BinanceWebSocket(pair, '1m', {
+    onOrderBook: (book) => {
+      const packed = packBook(book, depth);
+      scope.postMessage({ type: 'book', id, book: packed }, [packed.buffer]);
+    },
+    onStatus: (status) => scope.postMessage({ type: 'bookStatus', id, status }),
+    onConnect: () => scope.postMessage({ type: 'bookEvent', id, event: 'connect' }),
+    onDisconnect: () => scope.postMessage({ type: 'bookEvent', id, event: 'disconnect' }),
+    onError: (error) => scope.postMessage({ type: 'bookError', id, message: errorMessage(error) }),
+  }, { channels: ['depth'], market, loadSnapshot: () => requestSnapshot(id) });
+  books.set(id, stream);
+  stream.connect();
+}
+
+scope.onmessage = (event) => {
+  const message = event.data;
+  switch (message.type) {
+    case 'indicator':
+      try {
+        const result = runIndicator(message.request, unpackCandles(message.candles));
+        const packed = packIndicator(message.request.name, result);
+        scope.postMessage({ type: 'indicator', id: message.id, result: packed }, [packed.buffer]);
+      } catch (error) {
+        scope.postMessage({ type: 'indicatorError', id: message.id, message: errorMessage(error) });
+      }
+      break;
+    case 'openBook':
+      openBook(message.id, message.pair, message.market, message.depth);
+      break;
+    case 'closeBook':
+      books.get(message.id)?.disconnect();
+      books.delete(message.id);
+      snapshotRequests.get(message.id)?.(null);
+      snapshotRequests.delete(message.id);
+      break;
+    case 'bookSnapshot':
+      snapshotRequests.get(message.id)?.(message.snapshot);
+      snapshotRequests.delete(message.id);
+      break;
+    case 'bookContractSize':
+      books.get(message.id)?.setContractSize(message.contractSize);
+      break;
+  }
+};
@@ -0,0 +1,472 @@
+import type { AggTrade, CandleData, LiquidationEvent, MarketTicker, OrderBookUpdate, Symbol } from './types';
+import type { MarketDataSource, MarketStream, MarketStreamCallbacks, MarketStreamOptions } from './marketData';
+import { ExchangeSocket, combineStreams } from './streams';
+import { OrderBookState, crc32, type PriceLevel } from './orderBook';
+import { createInstrumentInfo } from './instruments';
+
+const OKX_API_BASE = 'https://www.okx.com';
+const OKX_WS_BASE = 'wss://ws.okx.com:8443/ws/v5';
+const OKX_PING_INTERVAL = 25000;
+const OKX_CHECKSUM_DEPTH = 25;
+const OKX_BOOK_DEPTH = 50;
+
+// books5: 5 levels, full snapshot every push (no checksum)
+// books: 400 levels, 100ms incremental with checksum
+// books-l2-tbt: 400 levels, tick-by-tick with checksum (requires login on OKX)
+export type OkxBookChannel = 'books5' | 'books' | 'books-l2-tbt';
+
+export interface OkxSourceOptions {
+  restBase?: string;
+  wsBase?: string; // `/public` and `/business` are appended
+  bookChannel?: OkxBookChannel;
+}
+
+interface OkxResponse<T> {
+  code: string;
+  msg: string;
+  data: T;
+}
+
+// [price, size, deprecated, order count]
+type OkxLevel = [string, string, string, string];
+
+interface OkxBookData {
+  asks: OkxLevel[];
+  bids: OkxLevel[];
+  ts: string;
+  checksum?: number;
+  seqId?: number;
+  prevSeqId?: number;
+}
+
+interface OkxTradeData {
+  instId: string;
+  tradeId: string;
+  px: string;
+  sz: string;
+  side: 'buy' | 'sell'; // Taker side
+  ts: string;
+}
+
+interface OkxTickerData {
+  instId: string;
+  last: string;
+  open24h: string;
+  high24h: string;
+  low24h: string;
+  vol24h: string;    // Spot: base, swaps: contracts
+  volCcy24h: string; // Spot: quote, swaps: base
+}
+
+interface OkxLiquidationData {
+  instId: string;
+  details: {
+    side: 'buy' | 'sell'; // Side of the forced order
+    bkPx: string;         // Bankruptcy price
+    sz: string;           // Contracts
+    ts: string;
+  }[];
+}
+
+interface OkxInstrument {
+  instId: string;
+  state: string;    // live, suspend, preopen, ...
+  ctVal: string;    // Empty for spot
+  ctValCcy: string;
+  tickSz: string;
+  lotSz: string;    // Contracts for swaps
+}
+
+interface OkxArg {
+  channel: string;
+  instId?: string;
+  instType?: string;
+}
+
+interface OkxStreamMessage {
+  event?: string;
+  msg?: string;
+  arg?: OkxArg;
+  action?: 'snapshot' | 'update';
+  data?: unknown[];
+}
+
+// Contract spec used to turn swap sizes into base-asset quantities
+interface ContractSpec {
+  value: number;
+  inverse: boolean; // Inverse contracts are denominated in USD
+}
+
+// Terminal timeframe -> OKX bar (UTC-aligned for 6h and above, like Binance)
+const OKX_BARS: Record<string, string> = {
+  '1m': '1m',
+  '3m': '3m',
+  '5m': '5m',
+  '15m': '15m',
+  '30m': '30m',
+  '1h': '1H',
+  '2h': '2H',
+  '4h': '4H',
+  '6h': '6Hutc',
+  '12h': '12Hutc',
+  '1d': '1Dutc',
+  '1w': '1Wutc',
+  '1M': '1Mutc',
+};
+
+// Convert terminal timeframe to OKX bar
+export function toOkxBar(timeframe: string): string {
+  return OKX_BARS[timeframe] || '5m';
+}
+
+// BTC/USDT spot -> BTC-USDT, USD-M -> BTC-USDT-SWAP, COIN-M -> BTC-USD-SWAP
+export function toOkxInstId(symbol: Symbol): string {
+  const base = symbol.base.toUpperCase();
+  if (symbol.type === 'futures_coin') return `${base}-USD-SWAP`;
+  if (symbol.type === 'futures_usd') return `${base}-${symbol.quote.toUpperCase()}-SWAP`;
+  return `${base}-${symbol.quote.toUpperCase()}`;
+}
+
+// The reverse: BTC-USDT -> spot, BTC-USDT-SWAP -> USD-M, BTC-USD-SWAP -> COIN-M
+export function fromOkxInstId(instId: string): Symbol {
+  const [base, quote, kind] = instId.split('-');
+  let type: Symbol['type'] = 'spot';
+  if (kind === 'SWAP') {
+    type = quote === 'USD' ? 'futures_coin' : 'futures_usd';
+  }
+  return { symbol: `${base}/${quote}`, base, quote, exchange: 'okx', type };
+}
+
+function toLevels(levels: OkxLevel[]): PriceLevel[] {
+  return levels.map(([price, size]) => [price, size]);
+}
+
+// OKX checksum: first 25 bids and asks interleaved as "bidPx:bidSz:askPx:askSz:..."
+function bookChecksum(book: OrderBookState): number {
+  const bids = book.getBids(OKX_CHECKSUM_DEPTH);
+  const asks = book.getAsks(OKX_CHECKSUM_DEPTH);
+  const parts: string[] = [];
+  for (let i = 0; i < OKX_CHECKSUM_DEPTH; i++) {
+    if (bids[i]) parts.push(bids[i][0], bids[i][1]);
+    if (asks[i]) parts.push(asks[i][0], asks[i][1]);
+  }
+  return crc32(parts.join(':'));
+}
+
+function toBaseQuantity(size: string, price: number, spec: ContractSpec | null): number {
+  const quantity = parseFloat(size);
+  if (!spec) return quantity;
+  return spec.inverse ? (quantity * spec.value) / price : quantity * spec.value;
+}
+
+function toTicker(data: OkxTickerData, spot: boolean): MarketTicker {
+  const lastPrice = parseFloat(data.last);
+  const openPrice = parseFloat(data.open24h);
+  const baseVolume = parseFloat(spot ? data.vol24h : data.volCcy24h);
+  return {
+    symbol: fromOkxInstId(data.instId).symbol,
+    priceChange: lastPrice - openPrice,
+    priceChangePercent: openPrice ? ((lastPrice - openPrice) / openPrice) * 100 : 0,
+    lastPrice,
+    highPrice: parseFloat(data.high24h),
+    lowPrice: parseFloat(data.low24h),
+    volume: baseVolume,
+    quoteVolume: spot ? parseFloat(data.volCcy24h) : baseVolume * lastPrice,
+    openPrice,
+    count: 0, // Not published by OKX
+  };
+}
+
+async function okxGet<T>(restBase: string, path: string, params: Record<string, string | number>): Promise<T> {
+  const query = new URLSearchParams(
+    Object.entries(params).map(([key, value]) => [key, String(value)])
+  );
+  const response = await fetch(`${restBase}${path}?${query}`);
+
+  if (!response.ok) {
+    throw new Error(`OKX API error: ${response.status}`);
+  }
+
+  const body: OkxResponse<T> = await response.json();
+  if (body.code !== '0') {
+    throw new Error(`OKX API error ${body.code}: ${body.msg}`);
+  }
+  return body.data;
+}
+
+// Every live spot pair and perpetual swap, for the symbol search
+export async function fetchOkxSymbols(restBase = OKX_API_BASE): Promise<Symbol[]> {
+  const listings = await Promise.all(
+    ['SPOT', 'SWAP'].map((instType) => okxGet<OkxInstrument[]>(restBase, '/api/v5/public/instruments', { instType }))
+  );
+  return listings
+    .flat()
+    .filter((instrument) => instrument.state === 'live')
+    .map((instrument) => fromOkxInstId(instrument.instId));
+}
+
+// Socket for one OKX endpoint; candles live on /business, everything else on /public
+class OkxStream extends ExchangeSocket {
+  private book = new OrderBookState();
+  private spec: ContractSpec | null = null;
+
+  constructor(
+    url: string,
+    private instId: string,
+    private args: OkxArg[],
+    private spot: boolean,
+    specLoader: Promise<ContractSpec | null>,
+    private callbacks: MarketStreamCallbacks
+  ) {
+    super({
+      url,
+      name: 'OKX',
+      callbacks,
+      ping: { interval: OKX_PING_INTERVAL, message: () => 'ping', reply: 'pong' },
+      onOpen: async (socket) => {
+        this.book.clear();
+        // Swap sizes are in contracts, so wait for the contract value before subscribing
+        this.spec = await specLoader;
+        socket.send({ op: 'subscribe', args: this.args });
+      },
+      onMessage: (data) => this.handleMessage(data as OkxStreamMessage),
+    });
+  }
+
+  private handleMessage(message: OkxStreamMessage): void {
+    if (message.event) {
+      if (message.event === 'error') {
+        this.callbacks.onError?.(new Error(`OKX subscribe failed: ${message.msg}`));
+      }
+      return;
+    }
+
+    const channel = message.arg?.channel ?? '';
+    const data = message.data ?? [];
+    if (channel.startsWith('books')) {
+      for (const book of data as OkxBookData[]) {
+        this.handleOrderBook(channel, message.action, book);
+      }
+    } else if (channel === 'trades') {
+      for (const trade of data as OkxTradeData[]) {
+        this.handleTrade(trade);
+      }
+    } else if (channel.startsWith('candle')) {
+      for (const candle of data as string[][]) {
+        this.handleCandle(candle);
+      }
+    } else if (channel === 'tickers') {
+      for (const ticker of data as OkxTickerData[]) {
+        this.callbacks.onTicker?.(toTicker(ticker, this.spot));
+      }
+    } else if (channel === 'liquidation-orders') {
+      for (const liquidation of data as OkxLiquidationData[]) {
+        this.handleLiquidation(liquidation);
+      }
+    }
+  }
+
+  private handleOrderBook(channel: string, action: OkxStreamMessage['action'], data: OkxBookData): void {
+    // books5 pushes the whole top of book every time
+    if (channel === 'books5' || action === 'snapshot') {
+      this.book.reset(toLevels(data.bids), toLevels(data.asks), data.seqId ?? 0);
+    } else {
+      if (this.book.isEmpty()) return; // Wait for the snapshot
+      if (data.prevSeqId !== undefined && data.prevSeqId !== this.book.lastUpdateId) {
+        this.resyncBook(channel, `sequence gap ${this.book.lastUpdateId} -> ${data.prevSeqId}`);
+        return;
+      }
+      this.book.applyDelta(toLevels(data.bids), toLevels(data.asks), data.seqId);
+    }
+
+    if (data.checksum !== undefined && bookChecksum(this.book) !== data.checksum) {
+      this.resyncBook(channel, 'checksum mismatch');
+      return;
+    }
+
+    this.callbacks.onOrderBook?.(this.book.toUpdate(OKX_BOOK_DEPTH));
+  }
+
+  // Drop the local book and resubscribe to get a fresh snapshot
+  private resyncBook(channel: string, reason: string): void {
+    console.warn(`OKX ${this.instId} order book ${reason}, resubscribing`);
+    this.book.clear();
+    const arg = { channel, instId: this.instId };
+    this.send({ op: 'unsubscribe', args: [arg] });
+    this.send({ op: 'subscribe', args: [arg] });
+  }
+
+  private handleTrade(data: OkxTradeData): void {
+    const price = parseFloat(data.px);
+    const trade: AggTrade = {
+      id: parseInt(data.tradeId, 10),
+      price,
+      quantity: toBaseQuantity(data.sz, price, this.spec),
+      time: parseInt(data.ts, 10),
+      isBuyerMaker: data.side === 'sell', // Taker sold into the bid
+    };
+    this.callbacks.onTrade?.(trade);
+  }
+
+  // [ts, o, h, l, c, vol, volCcy, volCcyQuote, confirm]
+  private handleCandle(candle: string[]): void {
+    const kline: CandleData = {
+      time: parseInt(candle[0], 10),
+      open: parseFloat(candle[1]),
+      high: parseFloat(candle[2]),
+      low: parseFloat(candle[3]),
+      close: parseFloat(candle[4]),
+      volume: parseFloat(this.spot ? candle[5] : candle[6]),
+    };
+    this.callbacks.onPrice?.(kline.close);
+    this.callbacks.onKline?.(kline, candle[8] === '1');
+  }
+
+  private handleLiquidation(data: OkxLiquidationData): void {
+    // The channel carries every swap; keep only ours
+    if (data.instId !== this.instId) return;
+
+    for (const detail of data.details) {
+      const price = parseFloat(detail.bkPx);
+      const liquidation: LiquidationEvent = {
+        symbol: fromOkxInstId(data.instId).symbol,
+        side: detail.side === 'sell' ? 'SELL' : 'BUY',
+        orderType: 'MARKET',
+        quantity: toBaseQuantity(detail.sz, price, this.spec),
+        price,
+        averagePrice: price,
+        orderStatus: 'FILLED',
+        time: parseInt(detail.ts, 10),
+      };
+      this.callbacks.onLiquidation?.(liquidation);
+    }
+  }
+}
+
+// OKX v5 public market data (spot and perpetual swaps)
+export function createOkxSource(options: OkxSourceOptions = {}): MarketDataSource {
+  const restBase = options.restBase ?? OKX_API_BASE;
+  const wsBase = options.wsBase ?? OKX_WS_BASE;
+  const bookChannel = options.bookChannel ?? 'books';
+  const specs = new Map<string, Promise<ContractSpec | null>>();
+
+  const loadContractSpec = (symbol: Symbol): Promise<ContractSpec | null> => {
+    if (symbol.type === 'spot') return Promise.resolve(null);
+
+    const instId = toOkxInstId(symbol);
+    let spec = specs.get(instId);
+    if (!spec) {
+      spec = okxGet<OkxInstrument[]>(restBase, '/api/v5/public/instruments', { instType: 'SWAP', instId })
+        .then(([instrument]) => ({
+          value: parseFloat(instrument.ctVal),
+          inverse: instrument.ctValCcy === 'USD',
+        }))
+        .catch((error) => {
+          console.error('Failed to fetch OKX instrument:', error);
+          specs.delete(instId);
+          return null;
+        });
+      specs.set(instId, spec);
+    }
+    return spec;
+  };
+
+  return {
+    id: 'okx',
+    name: 'OKX',
+    capabilities: { kline: true, depth: true, trades: true, ticker: true, liquidations: true, assetContext: false },
+    intervals: Object.keys(OKX_BARS),
+
+    async fetchKlines(symbol, interval, limit = 100, endTime) {
+      const params: Record<string, string | number> = {
+        instId: toOkxInstId(symbol),
+        bar: toOkxBar(interval),
+        limit: Math.min(limit, endTime !== undefined ? 100 : 300),
+      };
+      // Older pages come from history-candles; `after` means "earlier than"
+      if (endTime !== undefined) params.after = endTime + 1;
+      const path = endTime !== undefined ? '/api/v5/market/history-candles' : '/api/v5/market/candles';
+
+      const data = await okxGet<string[][]>(restBase, path, params);
+      const spot = symbol.type === 'spot';
+
+      // OKX returns newest first; swap volume is taken in base currency
+      return data
+        .map((candle): CandleData => ({
+          time: parseInt(candle[0], 10),
+          open: parseFloat(candle[1]),
+          high: parseFloat(candle[2]),
+          low: parseFloat(candle[3]),
+          close: parseFloat(candle[4]),
+          volume: parseFloat(spot ? candle[5] : candle[6]),
+        }))
+        .reverse();
+    },
+
+    async fetchOrderBook(symbol, limit = 20): Promise<OrderBookUpdate | null> {
+      const [book] = await okxGet<OkxBookData[]>(restBase, '/api/v5/market/books', {
+        instId: toOkxInstId(symbol),
+        sz: Math.min(limit, 400),
+      });
+      return {
+        bids: toLevels(book.bids),
+        asks: toLevels(book.asks),
+        lastUpdateId: book.seqId ?? parseInt(book.ts, 10),
+      };
+    },
+
+    async fetchInstrument(symbol) {
+      const spot = symbol.type === 'spot';
+      const [instrument] = await okxGet<OkxInstrument[]>(restBase, '/api/v5/public/instruments', {
+        instType: spot ? 'SPOT' : 'SWAP',
+        instId: toOkxInstId(symbol),
+      });
+      if (!instrument) return null;
+
+      const tickSize = parseFloat(instrument.tickSz);
+      const lotSize = parseFloat(instrument.lotSz);
+      if (spot) return createInstrumentInfo({ tickSize, stepSize: lotSize });
+
+      // Swap sizes are shown in base asset; inverse ones convert at the current price
+      const contractSize = parseFloat(instrument.ctVal);
+      const inverse = instrument.ctValCcy === 'USD';
+      return createInstrumentInfo({ tickSize, stepSize: inverse ? 0 : lotSize * contractSize, contractSize });
+    },
+
+    async fetchTicker(symbol) {
+      const [ticker] = await okxGet<OkxTickerData[]>(restBase, '/api/v5/market/ticker', {
+        instId: toOkxInstId(symbol),
+      });
+      return ticker ? toTicker(ticker, symbol.type === 'spot') : null;
+    },
+
+    createStream(symbol: Symbol, streamOptions: MarketStreamOptions, callbacks: MarketStreamCallbacks): MarketStream {
+      const instId = toOkxInstId(symbol);
+      const { channels } = streamOptions;
+      const specLoader = loadContractSpec(symbol);
+      const spot = symbol.type === 'spot';
+
+      const publicArgs: OkxArg[] = [];
+      if (channels.includes('depth')) publicArgs.push({ channel: bookChannel, instId });
+      if (channels.includes('trades')) publicArgs.push({ channel: 'trades', instId });
+      if (channels.includes('ticker')) publicArgs.push({ channel: 'tickers', instId });
+      // Liquidations only exist for derivatives
+      if (channels.includes('liquidations') && !spot) {
+        publicArgs.push({ channel: 'liquidation-orders', instType: 'SWAP' });
+      }
+
+      const streams: MarketStream[] = [];
+      if (publicArgs.length > 0) {
+        streams.push(new OkxStream(`${wsBase}/public`, instId, publicArgs, spot, specLoader, callbacks));
+      }
+      if (channels.includes('kline')) {
+        const candleArg = { channel: `candle${toOkxBar(streamOptions.interval ?? '1m')}`, instId };
+        streams.push(new OkxStream(`${wsBase}/business`, instId, [candleArg], spot, specLoader, callbacks));
+      }
+
+      return streams.length === 1 ? streams[0] : combineStreams(streams);
+    },
+  };
+}
+
+export const okxSource = createOkxSource();
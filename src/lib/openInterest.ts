@@ -0,0 +1,62 @@
+// Open interest lined up with chart candles: the level at each candle's
+// close, its change over the candle, and where it moved against price.
+
+import type { CandleData, OpenInterestPoint } from './types';
+
+// Candles compared when looking for OI moving against price
+const DIVERGENCE_LOOKBACK = 5;
+// Smallest OI move, as a fraction of OI, that counts as a divergence
+const MIN_DIVERGENCE_MOVE = 0.001;
+
+export interface OpenInterestBar {
+  openInterest: number | null; // Null before the history starts
+  delta: number; // Change since the previous candle
+  divergence: boolean; // OI and price moved opposite ways over the lookback
+}
+
+// Append or replace points by time, keeping the newest `max`
+export function mergeOpenInterest(
+  existing: OpenInterestPoint[],
+  incoming: OpenInterestPoint[],
+  max: number
+): OpenInterestPoint[] {
+  const byTime = new Map<number, OpenInterestPoint>();
+  for (const point of existing) byTime.set(point.time, point);
+  for (const point of incoming) byTime.set(point.time, point);
+  const merged = Array.from(byTime.values()).sort((a, b) => a.time - b.time);
+  return merged.length > max ? merged.slice(-max) : merged;
+}
+
+// One bar per candle. A candle ends where the next one opens, which also
+// holds for trade-built bars; the last takes the newest snapshot.
+export function alignOpenInterest(candles: CandleData[], points: OpenInterestPoint[]): OpenInterestBar[] {
+  const levels: (number | null)[] = [];
+  let cursor = 0;
+  let level: number | null = null;
+
+  for (let i = 0; i < candles.length; i++) {
+    const end = i + 1 < candles.length ? candles[i + 1].time : Infinity;
+    while (cursor < points.length && points[cursor].time < end) {
+      level = points[cursor].openInterest;
+      cursor++;
+    }
+    levels.push(level);
+  }
+
+  return candles.map((candle, i) => {
+    const current = levels[i];
+    const previous = i > 0 ? levels[i - 1] : null;
+    const delta = current !== null && previous !== null ? current - previous : 0;
+
+    let divergence = false;
+    const from = i - DIVERGENCE_LOOKBACK;
+    const start = from >= 0 ? levels[from] : null;
+    if (current !== null && start !== null && start > 0) {
+      const oiMove = (current - start) / start;
+      const priceMove = candle.close - candles[from].close;
+      divergence = Math.abs(oiMove) >= MIN_DIVERGENCE_MOVE && oiMove * priceMove < 0;
+    }
+
+    return { openInterest: current, delta, divergence };
+  });
+}
@@ -0,0 +1,257 @@
+import type { OrderBookUpdate } from './types';
+import { getReconnectDelay } from './streams';
+
+export type PriceLevel = [string, string]; // [price, quantity]
+
+// Full-depth book kept from snapshot + delta feeds. Levels are keyed by
+// numeric price so "100.0" and "100" from the same venue hit the same level.
+export class OrderBookState {
+  private bids = new Map<number, PriceLevel>();
+  private asks = new Map<number, PriceLevel>();
+  lastUpdateId = 0;
+
+  reset(bids: PriceLevel[], asks: PriceLevel[], lastUpdateId = 0): void {
+    this.bids.clear();
+    this.asks.clear();
+    this.applyLevels(this.bids, bids);
+    this.applyLevels(this.asks, asks);
+    this.lastUpdateId = lastUpdateId;
+  }
+
+  // Apply changed levels; a zero quantity removes the level
+  applyDelta(bids: PriceLevel[], asks: PriceLevel[], lastUpdateId = this.lastUpdateId + 1): void {
+    this.applyLevels(this.bids, bids);
+    this.applyLevels(this.asks, asks);
+    this.lastUpdateId = lastUpdateId;
+  }
+
+  // Drop levels beyond `depth`, for feeds that never send deletes for out-of-range levels
+  truncate(depth: number): void {
+    const keep = (side: Map<number, PriceLevel>, levels: PriceLevel[]) => {
+      if (side.size <= depth) return;
+      side.clear();
+      this.applyLevels(side, levels);
+    };
+    keep(this.bids, this.getBids(depth));
+    keep(this.asks, this.getAsks(depth));
+  }
+
+  clear(): void {
+    this.reset([], []);
+  }
+
+  isEmpty(): boolean {
+    return this.bids.size === 0 && this.asks.size === 0;
+  }
+
+  // Bids sorted highest first
+  getBids(depth?: number): PriceLevel[] {
+    return sortLevels(this.bids, (a, b) => b - a, depth);
+  }
+
+  // Asks sorted lowest first
+  getAsks(depth?: number): PriceLevel[] {
+    return sortLevels(this.asks, (a, b) => a - b, depth);
+  }
+
+  toUpdate(depth?: number): OrderBookUpdate {
+    return {
+      bids: this.getBids(depth),
+      asks: this.getAsks(depth),
+      lastUpdateId: this.lastUpdateId,
+    };
+  }
+
+  private applyLevels(side: Map<number, PriceLevel>, levels: PriceLevel[]): void {
+    for (const [price, quantity] of levels) {
+      const key = parseFloat(price);
+      if (parseFloat(quantity) === 0) {
+        side.delete(key);
+      } else {
+        side.set(key, [price, quantity]);
+      }
+    }
+  }
+}
+
+function sortLevels(
+  side: Map<number, PriceLevel>,
+  compare: (a: number, b: number) => number,
+  depth?: number
+): PriceLevel[] {
+  const prices = Array.from(side.keys()).sort(compare);
+  const limited = depth !== undefined ? prices.slice(0, depth) : prices;
+  return limited.map((price) => side.get(price) as PriceLevel);
+}
+
+let crcTable: Int32Array | null = null;
+
+// CRC32 (IEEE) as a signed 32-bit integer, the form exchanges publish book checksums in
+export function crc32(input: string): number {
+  if (!crcTable) {
+    crcTable = new Int32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c;
+    }
+  }
+
+  let crc = -1;
+  for (let i = 0; i < input.length; i++) {
+    crc = crcTable[(crc ^ input.charCodeAt(i)) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ -1) | 0;
+}
+
+// Binance diff-depth event. Spot chains events by U = previous u + 1,
+// futures by pu = previous u.
+export interface DepthDiff {
+  U: number;   // First update ID in the event
+  u: number;   // Final update ID in the event
+  pu?: number; // Futures only: final update ID of the previous event
+  b: PriceLevel[];
+  a: PriceLevel[];
+}
+
+export interface LocalOrderBookOptions {
+  loadSnapshot: () => Promise<OrderBookUpdate | null>;
+  onUpdate: (book: LocalOrderBook) => void;
+  futures?: boolean;
+}
+
+const MAX_BUFFERED_DIFFS = 1000;
+const SNAPSHOT_RETRY_DELAY = 2000;
+
+// Full-depth book rebuilt from a REST snapshot plus buffered diff events,
+// following Binance's "manage a local order book" procedure. Any sequence
+// gap drops the book and starts over from a fresh snapshot.
+export class LocalOrderBook {
+  private state = new OrderBookState();
+  private buffer: DepthDiff[] = [];
+  private synced = false;
+  private loading = false;
+  private bridged = false;   // First event after the snapshot has been applied
+  private generation = 0;    // Ignores snapshots requested before a reset
+  private retryAt = 0;
+  private resyncs = 0;       // Resyncs since the book last ran contiguously, for backoff
+
+  constructor(private options: LocalOrderBookOptions) {}
+
+  handleDiff(event: DepthDiff): void {
+    if (!this.synced) {
+      this.buffer.push(event);
+      if (this.buffer.length > MAX_BUFFERED_DIFFS) this.buffer.shift();
+      if (!this.loading && Date.now() >= this.retryAt) this.sync();
+      return;
+    }
+
+    if (this.applyDiff(event)) {
+      this.options.onUpdate(this);
+    }
+  }
+
+  // Forget everything, e.g. after a reconnect; the next diff triggers a new snapshot
+  reset(): void {
+    this.generation++;
+    this.state.clear();
+    this.buffer = [];
+    this.synced = false;
+    this.loading = false;
+    this.bridged = false;
+  }
+
+  isSynced(): boolean {
+    return this.synced;
+  }
+
+  get lastUpdateId(): number {
+    return this.state.lastUpdateId;
+  }
+
+  getBids(depth?: number): PriceLevel[] {
+    return this.state.getBids(depth);
+  }
+
+  getAsks(depth?: number): PriceLevel[] {
+    return this.state.getAsks(depth);
+  }
+
+  toUpdate(depth?: number): OrderBookUpdate {
+    return this.state.toUpdate(depth);
+  }
+
+  private async sync(): Promise<void> {
+    const generation = this.generation;
+    this.loading = true;
+    let snapshot: OrderBookUpdate | null = null;
+    try {
+      snapshot = await this.options.loadSnapshot();
+    } catch (error) {
+      console.error('Failed to load order book snapshot:', error);
+    } finally {
+      if (generation === this.generation) this.loading = false;
+    }
+    if (generation !== this.generation) return;
+
+    if (!snapshot) {
+      this.retryAt = Date.now() + SNAPSHOT_RETRY_DELAY;
+      return;
+    }
+
+    this.state.reset(snapshot.bids, snapshot.asks, snapshot.lastUpdateId);
+    this.synced = true;
+    this.bridged = false;
+
+    const pending = this.buffer;
+    this.buffer = [];
+    for (const event of pending) {
+      // A gap inside the buffer has already started a new sync
+      if (!this.applyDiff(event) && !this.synced) return;
+    }
+    this.options.onUpdate(this);
+  }
+
+  // Returns true when the event changed the book
+  private applyDiff(event: DepthDiff): boolean {
+    const lastId = this.state.lastUpdateId;
+    const futures = this.options.futures ?? false;
+
+    if (!this.bridged) {
+      // Drop events the snapshot already contains
+      if (futures ? event.u < lastId : event.u <= lastId) return false;
+
+      // The first applied event must straddle the snapshot
+      const straddles = futures
+        ? event.U <= lastId && event.u >= lastId
+        : event.U <= lastId + 1 && event.u >= lastId + 1;
+      if (!straddles) {
+        this.resync(event, `snapshot ${lastId} older than first event ${event.U}`);
+        return false;
+      }
+      this.bridged = true;
+    } else {
+      const contiguous = futures ? event.pu === lastId : event.U === lastId + 1;
+      if (!contiguous) {
+        this.resync(event, `gap after ${lastId} (next event starts at ${futures ? event.pu : event.U})`);
+        return false;
+      }
+      this.resyncs = 0;
+    }
+
+    this.state.applyDelta(event.b, event.a, event.u);
+    return true;
+  }
+
+  // A gap that keeps coming back would otherwise refetch the snapshot on
+  // every diff, so reloads back off like reconnects do
+  private resync(event: DepthDiff, reason: string): void {
+    const delay = getReconnectDelay(++this.resyncs);
+    console.warn(`Order book out of sync: ${reason}, reloading snapshot in ${Math.round(delay)}ms`);
+    this.reset();
+    this.retryAt = Date.now() + delay;
+    this.handleDiff(event);
+  }
+}
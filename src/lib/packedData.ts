@@ -0,0 +1,110 @@
+// Flat Float64Array encodings for data that crosses the worker boundary.
+// The buffers are transferred rather than copied, and decode into the same
+// shapes the rest of the app already uses.
+
+import type { CandleData, OrderBookUpdate } from './types';
+import type { IndicatorName, IndicatorResults } from './indicators';
+
+const CANDLE_STRIDE = 6; // time, open, high, low, close, volume
+
+export function packCandles(candles: CandleData[]): Float64Array {
+  const buffer = new Float64Array(candles.length * CANDLE_STRIDE);
+  candles.forEach((candle, i) => {
+    const offset = i * CANDLE_STRIDE;
+    buffer[offset] = candle.time;
+    buffer[offset + 1] = candle.open;
+    buffer[offset + 2] = candle.high;
+    buffer[offset + 3] = candle.low;
+    buffer[offset + 4] = candle.close;
+    buffer[offset + 5] = candle.volume;
+  });
+  return buffer;
+}
+
+export function unpackCandles(buffer: Float64Array): CandleData[] {
+  const candles: CandleData[] = [];
+  for (let offset = 0; offset < buffer.length; offset += CANDLE_STRIDE) {
+    candles.push({
+      time: buffer[offset],
+      open: buffer[offset + 1],
+      high: buffer[offset + 2],
+      low: buffer[offset + 3],
+      close: buffer[offset + 4],
+      volume: buffer[offset + 5],
+    });
+  }
+  return candles;
+}
+
+// Numeric fields of each flat indicator series, in buffer order
+const INDICATOR_FIELDS: Record<IndicatorName, string[]> = {
+  sma: ['time', 'value'],
+  ema: ['time', 'value'],
+  rsi: ['time', 'value'],
+  macd: ['time', 'macd', 'signal', 'histogram'],
+  bollinger: ['time', 'upper', 'middle', 'lower'],
+  vwap: ['time', 'vwap', 'upperBand1', 'lowerBand1', 'upperBand2', 'lowerBand2'],
+  cvd: ['time', 'cvd', 'delta'],
+};
+
+function packRecords(records: object[], fields: string[]): Float64Array {
+  const buffer = new Float64Array(records.length * fields.length);
+  records.forEach((record, i) => {
+    const values = record as Record<string, number>;
+    fields.forEach((field, j) => {
+      buffer[i * fields.length + j] = values[field];
+    });
+  });
+  return buffer;
+}
+
+function unpackRecords(buffer: Float64Array, fields: string[]): Record<string, number>[] {
+  const records: Record<string, number>[] = [];
+  for (let offset = 0; offset < buffer.length; offset += fields.length) {
+    const record: Record<string, number> = {};
+    fields.forEach((field, j) => {
+      record[field] = buffer[offset + j];
+    });
+    records.push(record);
+  }
+  return records;
+}
+
+export function packIndicator<N extends IndicatorName>(name: N, result: IndicatorResults[N]): Float64Array {
+  return packRecords(result, INDICATOR_FIELDS[name]);
+}
+
+export function unpackIndicator<N extends IndicatorName>(name: N, buffer: Float64Array): IndicatorResults[N] {
+  return unpackRecords(buffer, INDICATOR_FIELDS[name]) as unknown as IndicatorResults[N];
+}
+
+// Book layout: lastUpdateId, bid count, ask count, then price/quantity pairs,
+// bids first
+export function packBook(book: OrderBookUpdate, depth: number): Float64Array {
+  const bids = book.bids.slice(0, depth);
+  const asks = book.asks.slice(0, depth);
+  const buffer = new Float64Array(3 + (bids.length + asks.length) * 2);
+  buffer[0] = book.lastUpdateId;
+  buffer[1] = bids.length;
+  buffer[2] = asks.length;
+
+  let offset = 3;
+  for (const [price, quantity] of [...bids, ...asks]) {
+    buffer[offset++] = parseFloat(price);
+    buffer[offset++] = parseFloat(quantity);
+  }
+  return buffer;
+}
+
+export function unpackBook(buffer: Float64Array): OrderBookUpdate {
+  const bidCount = buffer[1];
+  const levels: [string, string][] = [];
+  for (let offset = 3; offset < buffer.length; offset += 2) {
+    levels.push([String(buffer[offset]), String(buffer[offset + 1])]);
+  }
+  return {
+    bids: levels.slice(0, bidCount),
+    asks: levels.slice(bidCount),
+    lastUpdateId: buffer[0],
+  };
+}
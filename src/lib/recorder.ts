@@ -0,0 +1,89 @@
+import type { Symbol } from './types';
+import { createMarketStream, fetchMarketKlines, getMarketDataSource, type MarketChannel } from './marketData';
+import {
+  appendRecordedEvents,
+  createRecordingSession,
+  updateRecordingSession,
+  type RecordedEvent,
+  type RecordingSession,
+} from './recordingStore';
+
+const FLUSH_INTERVAL = 1000;
+const HISTORY_KLINES = 500; // Candles before the session so replayed charts have context
+const RECORDED_BOOK_DEPTH = 200; // Local books run to thousands of levels per side
+
+const RECORDED_CHANNELS: MarketChannel[] = ['kline', 'depth', 'trades', 'ticker', 'liquidations', 'assetContext'];
+
+export interface MarketRecorder {
+  session: RecordingSession;
+  eventCount(): number;
+  stop(): Promise<RecordingSession>;
+}
+
+// Record every message the symbol's adapter streams into IndexedDB. The
+// recorder opens its own stream on all supported channels, independent of
+// what the widgets happen to subscribe to.
+export async function startRecording(symbol: Symbol, interval: string): Promise<MarketRecorder> {
+  const startTime = Date.now();
+  const session = await createRecordingSession(symbol, interval, startTime);
+  const source = getMarketDataSource(symbol.exchange);
+  const channels = RECORDED_CHANNELS.filter((channel) => source.capabilities[channel]);
+
+  let buffer: RecordedEvent[] = [];
+  let count = 0;
+  const record = (event: RecordedEvent) => {
+    buffer.push(event);
+    count++;
+  };
+
+  const flush = async () => {
+    const events = buffer;
+    buffer = [];
+    try {
+      await appendRecordedEvents(session.id, events);
+    } catch (error) {
+      console.error('Failed to write recorded events:', error);
+    }
+  };
+
+  // History first, stamped with the start time, so it sorts ahead of live events
+  const history = await fetchMarketKlines(symbol, interval, HISTORY_KLINES);
+  for (const kline of history) {
+    record({ time: startTime, type: 'kline', kline, isClosed: kline !== history[history.length - 1] });
+  }
+
+  const stream = createMarketStream(symbol, { channels, interval }, {
+    onKline: (kline, isClosed) => record({ time: Date.now(), type: 'kline', kline, isClosed }),
+    onOrderBook: (book) =>
+      record({
+        time: Date.now(),
+        type: 'depth',
+        book: {
+          bids: book.bids.slice(0, RECORDED_BOOK_DEPTH),
+          asks: book.asks.slice(0, RECORDED_BOOK_DEPTH),
+          lastUpdateId: book.lastUpdateId,
+        },
+      }),
+    onTrade: (trade) => record({ time: Date.now(), type: 'trade', trade }),
+    onTicker: (ticker) => record({ time: Date.now(), type: 'ticker', ticker }),
+    onLiquidation: (liquidation) => record({ time: Date.now(), type: 'liquidation', liquidation }),
+    onAssetContext: (context) => record({ time: Date.now(), type: 'assetContext', context }),
+    onError: (error) => console.error('Recording stream error:', error),
+  });
+  stream.connect();
+
+  const flushTimer = setInterval(flush, FLUSH_INTERVAL);
+
+  return {
+    session,
+    eventCount: () => count,
+    async stop() {
+      clearInterval(flushTimer);
+      stream.disconnect();
+      await flush();
+      const finished = { ...session, endTime: Date.now(), eventCount: count };
+      await updateRecordingSession(finished);
+      return finished;
+    },
+  };
+}
@@ -0,0 +1,140 @@
+import type {
+  AggTrade,
+  AssetContext,
+  CandleData,
+  LiquidationEvent,
+  MarketTicker,
+  OrderBookUpdate,
+  Symbol,
+} from './types';
+
+const DB_NAME = 'okap_terminal_recordings';
+const DB_VERSION = 1;
+const SESSIONS_STORE = 'sessions';
+const EVENTS_STORE = 'events';
+
+export interface RecordingSession {
+  id: number;
+  symbol: Symbol;
+  interval: string;
+  startTime: number;
+  endTime: number | null; // null while still recording
+  eventCount: number;
+}
+
+// One stream message as the adapter delivered it, stamped with the local receive time
+export type RecordedEvent =
+  | { time: number; type: 'kline'; kline: CandleData; isClosed: boolean }
+  | { time: number; type: 'depth'; book: OrderBookUpdate }
+  | { time: number; type: 'trade'; trade: AggTrade }
+  | { time: number; type: 'ticker'; ticker: MarketTicker }
+  | { time: number; type: 'liquidation'; liquidation: LiquidationEvent }
+  | { time: number; type: 'assetContext'; context: AssetContext };
+
+type StoredEvent = RecordedEvent & { sessionId: number };
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      db.createObjectStore(SESSIONS_STORE, { keyPath: 'id', autoIncrement: true });
+      const events = db.createObjectStore(EVENTS_STORE, { autoIncrement: true });
+      events.createIndex('session', ['sessionId', 'time']);
+    };
+    dbPromise = requestToPromise(request);
+    dbPromise.catch(() => {
+      dbPromise = null; // Let the next call try again
+    });
+  }
+  return dbPromise;
+}
+
+// Every event of a session, in time order
+function sessionRange(sessionId: number): IDBKeyRange {
+  return IDBKeyRange.bound([sessionId, -Infinity], [sessionId, Infinity]);
+}
+
+export async function createRecordingSession(
+  symbol: Symbol,
+  interval: string,
+  startTime: number
+): Promise<RecordingSession> {
+  const db = await openDb();
+  const tx = db.transaction(SESSIONS_STORE, 'readwrite');
+  const session = { symbol, interval, startTime, endTime: null, eventCount: 0 };
+  const id = await requestToPromise(tx.objectStore(SESSIONS_STORE).add(session));
+  await transactionDone(tx);
+  return { ...session, id: id as number };
+}
+
+export async function updateRecordingSession(session: RecordingSession): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(SESSIONS_STORE, 'readwrite');
+  tx.objectStore(SESSIONS_STORE).put(session);
+  await transactionDone(tx);
+}
+
+export async function appendRecordedEvents(sessionId: number, events: RecordedEvent[]): Promise<void> {
+  if (events.length === 0) return;
+  const db = await openDb();
+  const tx = db.transaction(EVENTS_STORE, 'readwrite');
+  const store = tx.objectStore(EVENTS_STORE);
+  for (const event of events) {
+    store.add({ ...event, sessionId } satisfies StoredEvent);
+  }
+  await transactionDone(tx);
+}
+
+export async function listRecordingSessions(): Promise<RecordingSession[]> {
+  try {
+    const db = await openDb();
+    const tx = db.transaction(SESSIONS_STORE, 'readonly');
+    const sessions = await requestToPromise(tx.objectStore(SESSIONS_STORE).getAll());
+    return (sessions as RecordingSession[]).sort((a, b) => b.startTime - a.startTime);
+  } catch (error) {
+    console.error('Failed to list recordings:', error);
+    return [];
+  }
+}
+
+export async function loadRecordedEvents(sessionId: number): Promise<RecordedEvent[]> {
+  const db = await openDb();
+  const tx = db.transaction(EVENTS_STORE, 'readonly');
+  const index = tx.objectStore(EVENTS_STORE).index('session');
+  // The extra sessionId field is harmless to consumers
+  return (await requestToPromise(index.getAll(sessionRange(sessionId)))) as StoredEvent[];
+}
+
+export async function deleteRecordingSession(sessionId: number): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction([SESSIONS_STORE, EVENTS_STORE], 'readwrite');
+  tx.objectStore(SESSIONS_STORE).delete(sessionId);
+
+  const index = tx.objectStore(EVENTS_STORE).index('session');
+  const cursorRequest = index.openKeyCursor(sessionRange(sessionId));
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor) return;
+    tx.objectStore(EVENTS_STORE).delete(cursor.primaryKey);
+    cursor.continue();
+  };
+  await transactionDone(tx);
+}
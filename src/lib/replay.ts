@@ -0,0 +1,281 @@
+import type { CandleData, OrderBookUpdate } from './types';
+import type { MarketDataSource, MarketStream, MarketStreamCallbacks, MarketStreamOptions } from './marketData';
+import { loadRecordedEvents, type RecordedEvent, type RecordingSession } from './recordingStore';
+import { aggregateCandles, candleOpenTime, timeframeToMs } from './timeframes';
+
+// Symbols with this exchange are served from the loaded recording
+export const REPLAY_EXCHANGE = 'replay';
+
+export const REPLAY_SPEEDS = [0.25, 0.5, 1, 2, 5, 10, 25, 50, 100];
+
+const TICK_INTERVAL = 100;
+
+export interface ReplayState {
+  session: RecordingSession | null;
+  time: number; // Replay clock, in recorded time
+  startTime: number;
+  endTime: number;
+  playing: boolean;
+  speed: number;
+}
+
+// Index of the first event recorded after `time`
+function firstEventAfter(events: RecordedEvent[], time: number): number {
+  let low = 0;
+  let high = events.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (events[mid].time <= time) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+}
+
+// Plays a recording back on a shared clock. Every replay stream hears the same
+// events at the same moment, so widgets stay in step with each other.
+class ReplayController {
+  private session: RecordingSession | null = null;
+  private events: RecordedEvent[] = [];
+  private cursor = 0; // Next event to emit
+  private time = 0;
+  private playing = false;
+  private speed = 1;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private klines = new Map<number, CandleData>(); // Latest version of each candle up to the cursor
+  private streams = new Set<ReplayStream>();
+  private listeners = new Set<(state: ReplayState) => void>();
+
+  async load(session: RecordingSession): Promise<void> {
+    this.pause();
+    this.events = await loadRecordedEvents(session.id);
+    this.session = session;
+    this.seek(session.startTime);
+  }
+
+  unload(): void {
+    this.pause();
+    this.session = null;
+    this.events = [];
+    this.cursor = 0;
+    this.klines.clear();
+    this.notify();
+  }
+
+  getState(): ReplayState {
+    const startTime = this.session?.startTime ?? 0;
+    const lastEvent = this.events[this.events.length - 1];
+    return {
+      session: this.session,
+      time: this.time,
+      startTime,
+      endTime: this.session?.endTime ?? lastEvent?.time ?? startTime,
+      playing: this.playing,
+      speed: this.speed,
+    };
+  }
+
+  subscribe(listener: (state: ReplayState) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  play(): void {
+    if (!this.session || this.playing) return;
+    if (this.time >= this.getState().endTime) this.seek(this.session.startTime);
+    this.playing = true;
+    this.timer = setInterval(() => this.tick(), TICK_INTERVAL);
+    this.notify();
+  }
+
+  pause(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.playing = false;
+    this.notify();
+  }
+
+  setSpeed(speed: number): void {
+    this.speed = Math.max(REPLAY_SPEEDS[0], Math.min(REPLAY_SPEEDS[REPLAY_SPEEDS.length - 1], speed));
+    this.notify();
+  }
+
+  // Jump without emitting the skipped events; widgets reload their
+  // snapshot state (klines, book, ticker) from the source afterwards
+  seek(time: number): void {
+    const { startTime, endTime } = this.getState();
+    this.time = Math.max(startTime, Math.min(endTime, time));
+    this.cursor = firstEventAfter(this.events, this.time);
+
+    this.klines.clear();
+    for (let i = 0; i < this.cursor; i++) {
+      const event = this.events[i];
+      if (event.type === 'kline') this.klines.set(event.kline.time, event.kline);
+    }
+    this.notify();
+  }
+
+  addStream(stream: ReplayStream): void {
+    this.streams.add(stream);
+  }
+
+  removeStream(stream: ReplayStream): void {
+    this.streams.delete(stream);
+  }
+
+  // Candles as they stood at the replay clock
+  getKlines(interval: string, limit: number, endTime = Infinity): CandleData[] {
+    const base = Array.from(this.klines.values())
+      .filter((kline) => kline.time <= endTime)
+      .sort((a, b) => a.time - b.time);
+    const candles = interval === this.session?.interval ? base : aggregateCandles(base, interval);
+    return candles.slice(-limit);
+  }
+
+  // Most recent event of a type at the replay clock
+  latest<T extends RecordedEvent['type']>(type: T): Extract<RecordedEvent, { type: T }> | null {
+    for (let i = this.cursor - 1; i >= 0; i--) {
+      if (this.events[i].type === type) return this.events[i] as Extract<RecordedEvent, { type: T }>;
+    }
+    return null;
+  }
+
+  // Candle a recorded kline contributes to at another interval
+  aggregateKline(kline: CandleData, interval: string): CandleData {
+    const openTime = candleOpenTime(kline.time, interval);
+    const closeTime = openTime + timeframeToMs(interval);
+    const window = Array.from(this.klines.values())
+      .filter((candle) => candle.time >= openTime && candle.time < closeTime)
+      .sort((a, b) => a.time - b.time);
+    return aggregateCandles(window, interval)[0] ?? { ...kline, time: openTime };
+  }
+
+  private tick(): void {
+    const { endTime } = this.getState();
+    this.time = Math.min(endTime, this.time + TICK_INTERVAL * this.speed);
+
+    while (this.cursor < this.events.length && this.events[this.cursor].time <= this.time) {
+      const event = this.events[this.cursor++];
+      if (event.type === 'kline') this.klines.set(event.kline.time, event.kline);
+      for (const stream of this.streams) stream.emit(event);
+    }
+
+    if (this.time >= endTime) this.pause();
+    else this.notify();
+  }
+
+  private notify(): void {
+    const state = this.getState();
+    for (const listener of this.listeners) listener(state);
+  }
+}
+
+export const replayController = new ReplayController();
+
+class ReplayStream implements MarketStream {
+  private connected = false;
+
+  constructor(
+    private controller: ReplayController,
+    private options: MarketStreamOptions,
+    private callbacks: MarketStreamCallbacks
+  ) {}
+
+  connect(): void {
+    if (this.connected) return;
+    this.connected = true;
+    this.controller.addStream(this);
+    this.callbacks.onStatus?.({ state: 'connected' });
+    this.callbacks.onConnect?.();
+  }
+
+  disconnect(): void {
+    if (!this.connected) return;
+    this.connected = false;
+    this.controller.removeStream(this);
+    this.callbacks.onDisconnect?.();
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  emit(event: RecordedEvent): void {
+    const { channels } = this.options;
+    switch (event.type) {
+      case 'kline':
+        if (channels.includes('kline')) this.emitKline(event.kline, event.isClosed);
+        break;
+      case 'depth':
+        if (channels.includes('depth')) this.callbacks.onOrderBook?.(event.book);
+        break;
+      case 'trade':
+        if (channels.includes('trades')) this.callbacks.onTrade?.(event.trade);
+        break;
+      case 'ticker':
+        if (channels.includes('ticker')) this.callbacks.onTicker?.(event.ticker);
+        break;
+      case 'liquidation':
+        if (channels.includes('liquidations')) this.callbacks.onLiquidation?.(event.liquidation);
+        break;
+      case 'assetContext':
+        if (channels.includes('assetContext')) this.callbacks.onAssetContext?.(event.context);
+        break;
+    }
+  }
+
+  private emitKline(kline: CandleData, isClosed: boolean): void {
+    const session = this.controller.getState().session;
+    const interval = this.options.interval ?? session?.interval;
+    if (!session || !interval || interval === session.interval) {
+      this.callbacks.onPrice?.(kline.close);
+      this.callbacks.onKline?.(kline, isClosed);
+      return;
+    }
+
+    // Finer intervals can't be rebuilt from the recording
+    const baseMs = timeframeToMs(session.interval);
+    if (timeframeToMs(interval) <= baseMs) return;
+
+    const candle = this.controller.aggregateKline(kline, interval);
+    const lastInWindow = kline.time + baseMs >= candle.time + timeframeToMs(interval);
+    this.callbacks.onPrice?.(kline.close);
+    this.callbacks.onKline?.(candle, isClosed && lastInWindow);
+  }
+}
+
+function sliceBook(book: OrderBookUpdate, limit?: number): OrderBookUpdate {
+  if (limit === undefined) return book;
+  return { bids: book.bids.slice(0, limit), asks: book.asks.slice(0, limit), lastUpdateId: book.lastUpdateId };
+}
+
+// Drop-in source that answers from the recording loaded in replayController
+export const replaySource: MarketDataSource = {
+  id: REPLAY_EXCHANGE,
+  name: 'Replay',
+  capabilities: { kline: true, depth: true, trades: true, ticker: true, liquidations: true, assetContext: true },
+
+  async fetchKlines(_symbol, interval, limit = 100, endTime) {
+    return replayController.getKlines(interval, limit, endTime);
+  },
+
+  async fetchOrderBook(_symbol, limit) {
+    const event = replayController.latest('depth');
+    return event ? sliceBook(event.book, limit) : null;
+  },
+
+  async fetchTicker() {
+    return replayController.latest('ticker')?.ticker ?? null;
+  },
+
+  async fetchAssetContext() {
+    return replayController.latest('assetContext')?.context ?? null;
+  },
+
+  createStream(_symbol, options, callbacks) {
+    return new ReplayStream(replayController, options, callbacks);
+  },
+};
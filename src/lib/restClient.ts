@@ -0,0 +1,214 @@
+// Rate-limit aware GET client, one per REST host. Requests are admitted
+// against a weight budget per window, reading the exchange's own usage
+// header when it sends one, and wait for the next window rather than
+// overrunning it. 429/5xx and network failures are retried with backoff;
+// anything else reaches the caller as a RestError.
+
+const DEFAULT_WINDOW = 60 * 1000;
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_HEADROOM = 0.1; // Share of the budget left for other tabs and clients
+const MAX_QUEUE_WAIT = 60 * 1000; // Fail instead of queueing behind a longer ban
+const MAX_CACHE_ENTRIES = 500;
+
+export class RestError extends Error {
+  constructor(
+    message: string,
+    readonly url: string,
+    readonly status: number | null, // null when the request never got a response
+    readonly retryAfter?: number // ms, from a Retry-After header
+  ) {
+    super(message);
+    this.name = 'RestError';
+  }
+
+  get rateLimited(): boolean {
+    return this.status === 429 || this.status === 418;
+  }
+}
+
+export interface RestClientOptions {
+  name: string; // Used in error messages
+  baseUrl: string;
+  weightLimit: number; // Per window
+  windowMs?: number;
+  weightHeader?: string; // Response header with the weight used so far this window
+  maxRetries?: number;
+}
+
+export interface RestRequestOptions {
+  weight?: number;
+  cacheTtl?: number; // ms to reuse the response; Infinity for immutable data
+}
+
+type QueryParams = Record<string, string | number | undefined>;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function retryDelay(attempt: number): number {
+  const delay = Math.min(8000, 500 * Math.pow(2, attempt - 1));
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+function parseRetryAfter(response: Response): number | undefined {
+  const value = response.headers.get('retry-after');
+  if (!value) return undefined;
+  const seconds = parseFloat(value);
+  return isNaN(seconds) ? undefined : seconds * 1000;
+}
+
+export class RestClient {
+  private usedWeight = 0;
+  private windowStart = 0;
+  private blockedUntil = 0;
+  private blockedStatus = 429;
+  private queue: Promise<void> = Promise.resolve();
+  private cache = new Map<string, { value: unknown; expires: number }>();
+  private inflight = new Map<string, Promise<unknown>>();
+
+  constructor(private options: RestClientOptions) {}
+
+  get<T>(path: string, params: QueryParams = {}, requestOptions: RestRequestOptions = {}): Promise<T> {
+    const url = this.buildUrl(path, params);
+
+    const cached = this.cache.get(url);
+    if (cached && cached.expires > Date.now()) return Promise.resolve(cached.value as T);
+
+    // Identical requests in flight share one response
+    const pending = this.inflight.get(url);
+    if (pending) return pending as Promise<T>;
+
+    const request = this.request<T>(url, requestOptions.weight ?? 1)
+      .then((value) => {
+        if (requestOptions.cacheTtl) this.store(url, value, requestOptions.cacheTtl);
+        return value;
+      })
+      .finally(() => this.inflight.delete(url));
+    this.inflight.set(url, request);
+    return request;
+  }
+
+  // Weight spent in the current window, as far as this client knows
+  getUsage(): { used: number; limit: number } {
+    this.rollWindow(Date.now());
+    return { used: this.usedWeight, limit: this.options.weightLimit };
+  }
+
+  private buildUrl(path: string, params: QueryParams): string {
+    const query = new URLSearchParams();
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined) query.set(key, String(value));
+    }
+    const search = query.toString();
+    return `${this.options.baseUrl}${path}${search ? `?${search}` : ''}`;
+  }
+
+  private store(url: string, value: unknown, ttl: number): void {
+    if (this.cache.size >= MAX_CACHE_ENTRIES) {
+      const oldest = this.cache.keys().next().value;
+      if (oldest !== undefined) this.cache.delete(oldest);
+    }
+    this.cache.set(url, { value, expires: Date.now() + ttl });
+  }
+
+  private async request<T>(url: string, weight: number): Promise<T> {
+    const { name } = this.options;
+    const maxRetries = this.options.maxRetries ?? DEFAULT_MAX_RETRIES;
+
+    for (let attempt = 0; ; attempt++) {
+      await this.reserve(weight, url);
+
+      let response: Response;
+      try {
+        response = await fetch(url);
+      } catch (error) {
+        if (attempt >= maxRetries) {
+          const reason = error instanceof Error ? error.message : String(error);
+          throw new RestError(`${name} request failed: ${reason}`, url, null);
+        }
+        await sleep(retryDelay(attempt + 1));
+        continue;
+      }
+
+      this.recordWeight(response);
+      if (response.ok) return response.json();
+
+      const retryAfter = parseRetryAfter(response);
+      if (response.status === 429 || response.status === 418) {
+        // 418 means the IP is banned for ignoring 429s; hold every request
+        this.blockedUntil = Math.max(this.blockedUntil, Date.now() + (retryAfter ?? retryDelay(attempt + 1)));
+        this.blockedStatus = response.status;
+        console.warn(`${name} rate limit hit (${response.status}), pausing requests`);
+      }
+
+      const retryable = response.status === 429 || response.status >= 500;
+      if (!retryable || attempt >= maxRetries) {
+        throw new RestError(`${name} API error: ${response.status}`, url, response.status, retryAfter);
+      }
+      if (response.status >= 500) await sleep(retryAfter ?? retryDelay(attempt + 1));
+    }
+  }
+
+  // Admissions run one at a time so concurrent requests can't all squeeze
+  // into the same bit of remaining budget
+  private reserve(weight: number, url: string): Promise<void> {
+    const turn = this.queue.then(() => this.waitForCapacity(weight, url));
+    this.queue = turn.catch(() => undefined);
+    return turn;
+  }
+
+  private async waitForCapacity(weight: number, url: string): Promise<void> {
+    const windowMs = this.options.windowMs ?? DEFAULT_WINDOW;
+    const budget = this.options.weightLimit * (1 - DEFAULT_HEADROOM);
+
+    for (;;) {
+      const now = Date.now();
+      if (now < this.blockedUntil) {
+        const wait = this.blockedUntil - now;
+        if (wait > MAX_QUEUE_WAIT) {
+          throw new RestError(`${this.options.name} rate limited for ${Math.ceil(wait / 1000)}s`, url, this.blockedStatus, wait);
+        }
+        await sleep(wait);
+        continue;
+      }
+
+      this.rollWindow(now);
+      if (this.usedWeight + weight <= budget || this.usedWeight === 0) {
+        this.usedWeight += weight;
+        return;
+      }
+      await sleep(this.windowStart + windowMs - now);
+    }
+  }
+
+  // Windows are aligned to the clock, like Binance's per-minute counters
+  private rollWindow(now: number): void {
+    const windowMs = this.options.windowMs ?? DEFAULT_WINDOW;
+    const start = Math.floor(now / windowMs) * windowMs;
+    if (start !== this.windowStart) {
+      this.windowStart = start;
+      this.usedWeight = 0;
+    }
+  }
+
+  // The server's count includes other tabs sharing our IP
+  private recordWeight(response: Response): void {
+    const header = this.options.weightHeader;
+    if (!header) return;
+    const used = parseInt(response.headers.get(header) ?? '', 10);
+    if (!isNaN(used)) this.usedWeight = Math.max(this.usedWeight, used);
+  }
+}
+
+const clients = new Map<string, RestClient>();
+
+// Shared client for a REST host, so every caller draws on the same budget
+export function getRestClient(options: RestClientOptions): RestClient {
+  let client = clients.get(options.baseUrl);
+  if (!client) {
+    client = new RestClient(options);
+    clients.set(options.baseUrl, client);
+  }
+  return client;
+}
@@ -0,0 +1,30 @@
+// In-memory response cache for the /api/market route handlers. Lives for the
+// lifetime of the server process; concurrent misses for the same key share
+// one upstream request.
+
+const MAX_ENTRIES = 2000;
+
+const entries = new Map<string, { value: unknown; expires: number }>();
+const inflight = new Map<string, Promise<unknown>>();
+
+export async function cached<T>(key: string, ttl: number, load: () => Promise<T>): Promise<T> {
+  const entry = entries.get(key);
+  if (entry && entry.expires > Date.now()) return entry.value as T;
+
+  const pending = inflight.get(key);
+  if (pending) return pending as Promise<T>;
+
+  const request = load()
+    .then((value) => {
+      entries.delete(key); // Re-insert at the back so eviction stays oldest-first
+      if (entries.size >= MAX_ENTRIES) {
+        const oldest = entries.keys().next().value;
+        if (oldest !== undefined) entries.delete(oldest);
+      }
+      entries.set(key, { value, expires: Date.now() + ttl });
+      return value;
+    })
+    .finally(() => inflight.delete(key));
+  inflight.set(key, request);
+  return request;
+}
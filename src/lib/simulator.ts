@@ -0,0 +1,551 @@
+import type {
+  AggTrade,
+  AssetContext,
+  CandleData,
+  FundingRatePoint,
+  LiquidationEvent,
+  MarketTicker,
+  OpenInterestPoint,
+  PositioningPoint,
+  OrderBookUpdate,
+  Symbol,
+} from './types';
+import type { MarketDataSource, MarketStream, MarketStreamCallbacks, MarketStreamOptions } from './marketData';
+import { candleOpenTime, timeframeToMs } from './timeframes';
+import { createInstrumentInfo } from './instruments';
+
+export const DEMO_EXCHANGE = 'demo';
+export const DEFAULT_SIMULATOR_SEED = 1337;
+
+const SECOND = 1000;
+const DAY = 24 * 60 * 60 * SECOND;
+const FUNDING_INTERVAL = 8 * 60 * 60 * SECOND;
+
+const BOOK_DEPTH = 200;
+const MAX_TRADES_PER_SECOND = 15;
+const MAX_SAMPLES_PER_CANDLE = 300; // Coarse candles sample every Nth second of trades
+const MAX_TRADE_HISTORY = 6 * 60 * 60 * SECOND;
+const MAX_OPEN_INTEREST_HISTORY = 500;
+const MAX_FUNDING_HISTORY = 500;
+const MAX_POSITIONING_HISTORY = 500;
+const STREAM_TICK = 250;
+const BOOK_INTERVAL = 500;
+const TICKER_INTERVAL = 1000;
+
+// Starting prices so familiar pairs look plausible; others get one from their seed
+const REFERENCE_PRICES: Record<string, number> = {
+  BTC: 97500,
+  ETH: 3400,
+  SOL: 180,
+  BNB: 650,
+  XRP: 2.4,
+  ADA: 0.95,
+  DOGE: 0.35,
+  AVAX: 38,
+  LINK: 22,
+  LTC: 110,
+  '1000PEPE': 0.018,
+  '1000BONK': 0.03,
+};
+
+// Octaves of the price path: period in ms and amplitude in log-price
+const PRICE_OCTAVES: [number, number][] = [
+  [30 * SECOND, 0.0006],
+  [5 * 60 * SECOND, 0.002],
+  [60 * 60 * SECOND, 0.006],
+  [8 * 60 * 60 * SECOND, 0.018],
+  [3 * DAY, 0.05],
+  [20 * DAY, 0.12],
+];
+
+// Integer hash to [0, 1); the same inputs always give the same value
+export function hashToUnit(seed: number, a: number, b = 0): number {
+  let h = seed ^ Math.imul(a | 0, 0x9e3779b1) ^ Math.imul(b | 0, 0x85ebca77);
+  h = Math.imul(h ^ (h >>> 16), 0x7feb352d);
+  h = Math.imul(h ^ (h >>> 15), 0x846ca68b);
+  h ^= h >>> 16;
+  return (h >>> 0) / 4294967296;
+}
+
+function hashString(value: string): number {
+  let h = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    h = Math.imul(h ^ value.charCodeAt(i), 16777619);
+  }
+  return h >>> 0;
+}
+
+// Seeded replacement for Math.random (mulberry32)
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Smoothly interpolated noise in [-1, 1]
+function valueNoise(seed: number, x: number): number {
+  const i = Math.floor(x);
+  const f = x - i;
+  const a = hashToUnit(seed, i) * 2 - 1;
+  const b = hashToUnit(seed, i + 1) * 2 - 1;
+  const t = f * f * (3 - 2 * f);
+  return a + (b - a) * t;
+}
+
+function decimalsOf(step: number): number {
+  return Math.max(0, Math.round(-Math.log10(step)));
+}
+
+interface SimulatedMarket {
+  name: string;
+  seed: number;
+  basePrice: number;
+  tickSize: number;
+  priceDecimals: number;
+  tradeSize: number; // Typical trade quantity in base asset
+  sizeDecimals: number;
+}
+
+// Market parameters for a pair such as BTCUSDT
+function getMarket(pair: string, seed: number): SimulatedMarket {
+  const name = pair.replace(/[/\-_]/g, '').toUpperCase();
+  const marketSeed = (hashString(name) ^ seed) >>> 0;
+
+  const reference = Object.keys(REFERENCE_PRICES)
+    .sort((a, b) => b.length - a.length)
+    .find((base) => name.startsWith(base));
+  const basePrice = reference
+    ? REFERENCE_PRICES[reference]
+    : Math.pow(10, hashToUnit(marketSeed, 1) * 4 - 1); // 0.1 to 1000
+
+  const tickSize = Math.pow(10, Math.floor(Math.log10(basePrice)) - 5);
+  const tradeSize = 2000 / basePrice; // About $2k a trade
+  const sizeStep = Math.pow(10, Math.floor(Math.log10(tradeSize)) - 3);
+
+  return {
+    name,
+    seed: marketSeed,
+    basePrice,
+    tickSize,
+    priceDecimals: decimalsOf(tickSize),
+    tradeSize,
+    sizeDecimals: decimalsOf(sizeStep),
+  };
+}
+
+function roundTo(value: number, step: number, decimals: number): number {
+  return parseFloat((Math.round(value / step) * step).toFixed(decimals));
+}
+
+// Mid price at any moment; a sum of noise octaves, so it can be evaluated for
+// arbitrary times without simulating everything before them
+function midPrice(market: SimulatedMarket, time: number): number {
+  let offset = 0;
+  PRICE_OCTAVES.forEach(([period, amplitude], octave) => {
+    offset += valueNoise(market.seed + octave * 7919, time / period) * amplitude;
+  });
+  return market.basePrice * Math.exp(offset);
+}
+
+function bestBid(market: SimulatedMarket, time: number): number {
+  return Math.floor(midPrice(market, time) / market.tickSize) * market.tickSize;
+}
+
+// Trades printed during one second, oldest first. They execute at the touch of
+// the simulated book, so prints and depth line up.
+function tradesInSecond(market: SimulatedMarket, second: number): AggTrade[] {
+  const time = second * SECOND;
+  const move = (midPrice(market, time) - midPrice(market, time - 5 * SECOND)) / market.basePrice;
+  const activity = 1 + Math.min(4, Math.abs(move) / 0.0004); // Busier while price moves
+  const count = Math.min(MAX_TRADES_PER_SECOND, Math.floor(hashToUnit(market.seed, second, 1) * 3 * activity));
+
+  const offsets: number[] = [];
+  for (let i = 0; i < count; i++) {
+    offsets.push(Math.floor(hashToUnit(market.seed, second, 100 + i) * SECOND));
+  }
+  offsets.sort((a, b) => a - b);
+
+  const buyBias = Math.max(-0.3, Math.min(0.3, move / 0.002));
+  return offsets.map((offset, i) => {
+    const tradeTime = time + offset;
+    const isBuy = hashToUnit(market.seed, second, 200 + i) < 0.5 + buyBias;
+    const bid = bestBid(market, tradeTime);
+    const price = isBuy ? bid + market.tickSize : bid;
+    const size = -Math.log(1 - hashToUnit(market.seed, second, 300 + i) * 0.999) * market.tradeSize;
+
+    return {
+      id: second * (MAX_TRADES_PER_SECOND + 1) + i,
+      price: roundTo(price, market.tickSize, market.priceDecimals),
+      quantity: Math.max(roundTo(size, Math.pow(10, -market.sizeDecimals), market.sizeDecimals), Math.pow(10, -market.sizeDecimals)),
+      time: tradeTime,
+      isBuyerMaker: !isBuy,
+    };
+  });
+}
+
+function applyTrade(candle: CandleData, trade: AggTrade, volumeScale = 1): void {
+  candle.high = Math.max(candle.high, trade.price);
+  candle.low = Math.min(candle.low, trade.price);
+  candle.close = trade.price;
+  candle.volume += trade.quantity * volumeScale;
+}
+
+// Candle built from the trades in [openTime, closeTime)
+function buildCandle(market: SimulatedMarket, openTime: number, closeTime: number, stride: number): CandleData {
+  let candle: CandleData | null = null;
+
+  for (let second = Math.ceil(openTime / SECOND); second * SECOND < closeTime; second += stride) {
+    for (const trade of tradesInSecond(market, second)) {
+      if (trade.time >= closeTime) break;
+      if (!candle) {
+        candle = { time: openTime, open: trade.price, high: trade.price, low: trade.price, close: trade.price, volume: 0 };
+      }
+      applyTrade(candle, trade, stride);
+    }
+  }
+
+  // No prints yet: a flat candle at the mid
+  const mid = roundTo(midPrice(market, openTime), market.tickSize, market.priceDecimals);
+  return candle ?? { time: openTime, open: mid, high: mid, low: mid, close: mid, volume: 0 };
+}
+
+function candleStride(interval: string): number {
+  return Math.max(1, Math.ceil(timeframeToMs(interval) / SECOND / MAX_SAMPLES_PER_CANDLE));
+}
+
+// Deterministic klines for a pair; the same seed, pair and times always give the same candles
+export function simulateKlines(
+  pair: string,
+  interval: string,
+  limit = 100,
+  endTime?: number,
+  seed = DEFAULT_SIMULATOR_SEED
+): CandleData[] {
+  const market = getMarket(pair, seed);
+  const now = Date.now();
+  const end = Math.min(endTime ?? now, now);
+  const stride = candleStride(interval);
+
+  const candles: CandleData[] = [];
+  let openTime = candleOpenTime(end, interval);
+  for (let i = 0; i < limit; i++) {
+    const closeTime = Math.min(openTime + timeframeToMs(interval), now + 1);
+    candles.push(buildCandle(market, openTime, closeTime, stride));
+    openTime = candleOpenTime(openTime - 1, interval);
+  }
+  return candles.reverse();
+}
+
+function simulateOrderBook(market: SimulatedMarket, time: number, depth = BOOK_DEPTH): OrderBookUpdate {
+  const bid = bestBid(market, time);
+  const refresh = Math.floor(time / (2 * SECOND)); // Resting size shifts every couple of seconds
+  const wallEpoch = Math.floor(time / (5 * 60 * SECOND)); // Walls sit for minutes at a time
+
+  const level = (price: number, distance: number): [string, string] => {
+    const tick = Math.round(price / market.tickSize);
+    let size = market.tradeSize * (0.5 + distance * 0.05) * (0.3 + hashToUnit(market.seed, tick, refresh) * 1.4);
+    if (hashToUnit(market.seed ^ 0x5bd1e995, tick, wallEpoch) > 0.985) {
+      size *= 8 + hashToUnit(market.seed, tick, wallEpoch) * 12;
+    }
+    return [price.toFixed(market.priceDecimals), size.toFixed(market.sizeDecimals)];
+  };
+
+  const bids: [string, string][] = [];
+  const asks: [string, string][] = [];
+  for (let i = 0; i < depth; i++) {
+    bids.push(level(bid - i * market.tickSize, i));
+    asks.push(level(bid + (i + 1) * market.tickSize, i));
+  }
+  return { bids, asks, lastUpdateId: Math.floor(time / 100) };
+}
+
+function simulateTicker(market: SimulatedMarket, time: number): MarketTicker {
+  const day = buildCandle(market, time - DAY, time, Math.ceil(DAY / SECOND / MAX_SAMPLES_PER_CANDLE));
+  // The sampled day can end minutes early; quote the live touch instead
+  day.close = roundTo(bestBid(market, time), market.tickSize, market.priceDecimals);
+  day.high = Math.max(day.high, day.close);
+  day.low = Math.min(day.low, day.close);
+  return {
+    symbol: market.name,
+    priceChange: day.close - day.open,
+    priceChangePercent: ((day.close - day.open) / day.open) * 100,
+    lastPrice: day.close,
+    highPrice: day.high,
+    lowPrice: day.low,
+    volume: day.volume,
+    quoteVolume: day.volume * day.close,
+    openPrice: day.open,
+    count: Math.round(day.volume / market.tradeSize),
+  };
+}
+
+// A slow drift with faster swings on top, so short timeframes see it move
+function simulateOpenInterest(market: SimulatedMarket, time: number): number {
+  const drift = valueNoise(market.seed + 41, time / (6 * 60 * 60 * SECOND)) * 0.25;
+  const swing = valueNoise(market.seed + 43, time / (20 * 60 * SECOND)) * 0.03;
+  return market.tradeSize * 40000 * (1 + drift + swing);
+}
+
+// Crowd skew that wanders around balanced; top traders lean against the
+// crowd more often than not
+function simulatePositioning(market: SimulatedMarket, candle: CandleData): PositioningPoint {
+  const crowd = valueNoise(market.seed + 47, candle.time / (4 * 60 * 60 * SECOND));
+  const top = valueNoise(market.seed + 53, candle.time / (3 * 60 * 60 * SECOND)) - crowd * 0.5;
+  // Takers lean the way the candle closed
+  const direction = candle.close > candle.open ? 1 : candle.close < candle.open ? -1 : 0;
+  const buyShare = 0.5 + direction * 0.08 + valueNoise(market.seed + 59, candle.time / (30 * 60 * SECOND)) * 0.05;
+  return {
+    time: candle.time,
+    topAccountRatio: Math.exp(top * 0.4),
+    topPositionRatio: Math.exp(top * 0.6),
+    globalAccountRatio: Math.exp(crowd * 0.5),
+    takerBuyVolume: candle.volume * buyShare,
+    takerSellVolume: candle.volume * (1 - buyShare),
+  };
+}
+
+function simulateAssetContext(market: SimulatedMarket, time: number): AssetContext {
+  const mark = midPrice(market, time);
+  return {
+    symbol: market.name,
+    markPrice: mark,
+    indexPrice: mark * (1 - valueNoise(market.seed + 31, time / 60000) * 0.0003),
+    fundingRate: 0.0001 + valueNoise(market.seed + 37, time / FUNDING_INTERVAL) * 0.0003,
+    openInterest: simulateOpenInterest(market, time),
+    nextFundingTime: (Math.floor(time / FUNDING_INTERVAL) + 1) * FUNDING_INTERVAL,
+    time,
+  };
+}
+
+// Forced orders turn up now and then, and in clusters when price runs
+function liquidationInSecond(market: SimulatedMarket, second: number): LiquidationEvent | null {
+  const time = second * SECOND;
+  const price = midPrice(market, time);
+  const move = (price - midPrice(market, time - 30 * SECOND)) / price;
+  const chance = 0.01 + Math.min(0.25, (Math.abs(move) / 0.002) * 0.05);
+  if (hashToUnit(market.seed, second, 400) >= chance) return null;
+
+  const side = move < 0 ? 'SELL' : 'BUY'; // Falling price liquidates longs
+  const quantity = market.tradeSize * (2 + hashToUnit(market.seed, second, 401) * 30);
+  const fillPrice = roundTo(price, market.tickSize, market.priceDecimals);
+  return {
+    symbol: market.name,
+    side,
+    orderType: 'LIMIT',
+    quantity: parseFloat(quantity.toFixed(market.sizeDecimals)),
+    price: fillPrice,
+    averagePrice: fillPrice,
+    orderStatus: 'FILLED',
+    time: time + Math.floor(hashToUnit(market.seed, second, 402) * SECOND),
+  };
+}
+
+// Plays the simulated market forward in real time
+class SimulatorStream implements MarketStream {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private lastTime = 0; // Events up to here have been emitted
+  private lastBook = 0;
+  private lastTicker = 0;
+  private candle: CandleData | null = null;
+
+  constructor(
+    private market: SimulatedMarket,
+    private options: MarketStreamOptions,
+    private callbacks: MarketStreamCallbacks
+  ) {}
+
+  connect(): void {
+    if (this.timer) return;
+    this.lastTime = Date.now();
+    this.callbacks.onStatus?.({ state: 'connected' });
+    this.callbacks.onConnect?.();
+    this.timer = setInterval(() => this.tick(), STREAM_TICK);
+  }
+
+  disconnect(): void {
+    if (!this.timer) return;
+    clearInterval(this.timer);
+    this.timer = null;
+    this.candle = null;
+    this.callbacks.onDisconnect?.();
+  }
+
+  isConnected(): boolean {
+    return this.timer !== null;
+  }
+
+  private tick(): void {
+    const now = Date.now();
+    const { channels } = this.options;
+    const from = this.lastTime;
+    this.lastTime = now;
+
+    if (channels.includes('trades') || channels.includes('kline')) {
+      const trades: AggTrade[] = [];
+      for (let second = Math.floor(from / SECOND); second * SECOND <= now; second++) {
+        for (const trade of tradesInSecond(this.market, second)) {
+          if (trade.time > from && trade.time <= now) trades.push(trade);
+        }
+      }
+      for (const trade of trades) {
+        if (channels.includes('trades')) this.callbacks.onTrade?.(trade);
+        if (channels.includes('kline')) this.updateCandle(trade);
+      }
+      if (channels.includes('kline') && this.candle && trades.length > 0) {
+        this.callbacks.onPrice?.(this.candle.close);
+        this.callbacks.onKline?.({ ...this.candle }, false);
+      }
+    }
+
+    if (channels.includes('liquidations')) {
+      for (let second = Math.floor(from / SECOND) + 1; second <= Math.floor(now / SECOND); second++) {
+        const liquidation = liquidationInSecond(this.market, second);
+        if (liquidation) this.callbacks.onLiquidation?.(liquidation);
+      }
+    }
+
+    if (channels.includes('depth') && now - this.lastBook >= BOOK_INTERVAL) {
+      this.lastBook = now;
+      this.callbacks.onOrderBook?.(simulateOrderBook(this.market, now));
+    }
+
+    if (now - this.lastTicker >= TICKER_INTERVAL) {
+      this.lastTicker = now;
+      if (channels.includes('ticker')) this.callbacks.onTicker?.(simulateTicker(this.market, now));
+      if (channels.includes('assetContext')) this.callbacks.onAssetContext?.(simulateAssetContext(this.market, now));
+    }
+  }
+
+  private updateCandle(trade: AggTrade): void {
+    const interval = this.options.interval ?? '1m';
+    const openTime = candleOpenTime(trade.time, interval);
+
+    if (this.candle && this.candle.time !== openTime) {
+      this.callbacks.onKline?.({ ...this.candle }, true);
+      this.candle = null;
+    }
+    if (!this.candle) {
+      // Pick up the candle in progress exactly as fetchKlines reports it
+      this.candle = buildCandle(this.market, openTime, trade.time, candleStride(interval));
+    }
+    applyTrade(this.candle, trade);
+  }
+}
+
+export interface SimulatorSourceOptions {
+  seed?: number; // Same seed, same market at any given time
+}
+
+// Offline market data source: a seeded, self-consistent book, tape and candles
+export function createSimulatorSource(options: SimulatorSourceOptions = {}): MarketDataSource {
+  const seed = options.seed ?? DEFAULT_SIMULATOR_SEED;
+  const marketFor = (symbol: Symbol) => getMarket(`${symbol.base}${symbol.quote}`, seed);
+
+  return {
+    id: DEMO_EXCHANGE,
+    name: 'Demo',
+    capabilities: { kline: true, depth: true, trades: true, ticker: true, liquidations: true, assetContext: true },
+
+    async fetchKlines(symbol, interval, limit = 100, endTime) {
+      return simulateKlines(`${symbol.base}${symbol.quote}`, interval, limit, endTime, seed);
+    },
+
+    async fetchOrderBook(symbol, limit) {
+      return simulateOrderBook(marketFor(symbol), Date.now(), limit);
+    },
+
+    async fetchTicker(symbol) {
+      return simulateTicker(marketFor(symbol), Date.now());
+    },
+
+    async fetchInstrument(symbol) {
+      const market = marketFor(symbol);
+      return createInstrumentInfo({
+        tickSize: market.tickSize,
+        stepSize: Math.pow(10, -market.sizeDecimals),
+      });
+    },
+
+    async fetchAssetContext(symbol) {
+      return simulateAssetContext(marketFor(symbol), Date.now());
+    },
+
+    // Each settlement pays the rate predicted just before it
+    async fetchFundingHistory(symbol, limit = 100) {
+      const market = marketFor(symbol);
+      const last = Math.floor(Date.now() / FUNDING_INTERVAL) * FUNDING_INTERVAL;
+      const points: FundingRatePoint[] = [];
+      for (let i = Math.min(limit, MAX_FUNDING_HISTORY) - 1; i >= 0; i--) {
+        const time = last - i * FUNDING_INTERVAL;
+        const context = simulateAssetContext(market, time - 1);
+        points.push({ time, fundingRate: context.fundingRate, markPrice: context.markPrice });
+      }
+      return points;
+    },
+
+    // The pairs with reference prices, quoted in USDT
+    async fetchFundingRates() {
+      const now = Date.now();
+      return Object.keys(REFERENCE_PRICES).map((base) => simulateAssetContext(getMarket(`${base}USDT`, seed), now));
+    },
+
+    // Snapshots on period boundaries of the same curve the live context follows
+    async fetchOpenInterestHistory(symbol, period, limit = MAX_OPEN_INTEREST_HISTORY) {
+      const market = marketFor(symbol);
+      const step = timeframeToMs(period);
+      const last = Math.floor(Date.now() / step) * step;
+      const points: OpenInterestPoint[] = [];
+      for (let i = Math.min(limit, MAX_OPEN_INTEREST_HISTORY) - 1; i >= 0; i--) {
+        const time = last - i * step;
+        const openInterest = simulateOpenInterest(market, time);
+        points.push({ time, openInterest, openInterestValue: openInterest * midPrice(market, time) });
+      }
+      return points;
+    },
+
+    // One point per candle of the same period, so taker volume matches the klines
+    async fetchPositioning(symbol, period, limit = MAX_POSITIONING_HISTORY) {
+      const market = marketFor(symbol);
+      const candles = simulateKlines(`${symbol.base}${symbol.quote}`, period, Math.min(limit, MAX_POSITIONING_HISTORY), undefined, seed);
+      return candles.map((candle) => simulatePositioning(market, candle));
+    },
+
+    async fetchTradesSince(symbol, after) {
+      const market = marketFor(symbol);
+      const trades: AggTrade[] = [];
+      const now = Date.now();
+      const isNewer = (trade: AggTrade) =>
+        after.id !== undefined ? (trade.id ?? 0) > after.id : trade.time > after.time;
+      for (let second = Math.floor(after.time / SECOND); second * SECOND <= now; second++) {
+        for (const trade of tradesInSecond(market, second)) {
+          if (trade.time <= now && isNewer(trade)) trades.push(trade);
+        }
+      }
+      return trades;
+    },
+
+    // Trades are a pure function of time, so any window can be replayed
+    async fetchTrades(symbol, startTime) {
+      const market = marketFor(symbol);
+      const trades: AggTrade[] = [];
+      const now = Date.now();
+      const from = Math.max(startTime, now - MAX_TRADE_HISTORY);
+      for (let second = Math.floor(from / SECOND); second * SECOND <= now; second++) {
+        for (const trade of tradesInSecond(market, second)) {
+          if (trade.time >= from && trade.time <= now) trades.push(trade);
+        }
+      }
+      return trades;
+    },
+
+    createStream(symbol, streamOptions, callbacks) {
+      return new SimulatorStream(marketFor(symbol), streamOptions, callbacks);
+    },
+  };
+}
+
+export const simulatorSource = createSimulatorSource();
@@ -1,4 +1,5 @@
-import type { ChartDrawing, ActiveIndicators } from './types';
+import type { ChartDrawing, ActiveIndicators, TimeFrame } from './types';
+import { isValidTimeframe } from './timeframes';
 
 const DRAWINGS_KEY = 'okap_terminal_drawings';
 const INDICATORS_KEY = 'okap_terminal_indicators';
@@ -10,6 +11,8 @@ export interface DisplaySettings {
   showHeatmap: boolean;
   showVWAP: boolean;
   showCVD: boolean;
+  showOI: boolean;
+  showFunding: boolean;
   showFootprint: boolean;
   showHeatmapWidget: boolean;
   showAdvancedChartWidget: boolean;
@@ -23,6 +26,8 @@ export const defaultDisplaySettings: DisplaySettings = {
   showHeatmap: true,
   showVWAP: false,
   showCVD: false,
+  showOI: false,
+  showFunding: false,
   showFootprint: false,
   showHeatmapWidget: false,
   showAdvancedChartWidget: false,
@@ -180,3 +185,74 @@ export function loadWidgets(): StoredWidget[] {
     return [];
   }
 }
+
+// Timeframe favourites, shared by every timeframe picker
+const TIMEFRAME_FAVORITES_KEY = 'okap_terminal_timeframe_favorites';
+
+export const defaultTimeframeFavorites: TimeFrame[] = ['1m', '5m', '15m', '30m', '1h', '4h', '1d'];
+
+export function saveTimeframeFavorites(favorites: TimeFrame[]): void {
+  try {
+    localStorage.setItem(TIMEFRAME_FAVORITES_KEY, JSON.stringify(favorites));
+  } catch (error) {
+    console.error('Failed to save timeframe favorites:', error);
+  }
+}
+
+export function loadTimeframeFavorites(): TimeFrame[] {
+  try {
+    const data = localStorage.getItem(TIMEFRAME_FAVORITES_KEY);
+    if (!data) return defaultTimeframeFavorites;
+    const parsed: unknown = JSON.parse(data);
+    if (!Array.isArray(parsed)) return defaultTimeframeFavorites;
+    return parsed.filter((tf): tf is TimeFrame => typeof tf === 'string' && isValidTimeframe(tf));
+  } catch {
+    return defaultTimeframeFavorites;
+  }
+}
+
+// Footprint level size in instrument ticks; 0 sizes levels to the candles
+const FOOTPRINT_TICKS_KEY = 'okap_terminal_footprint_ticks';
+
+export const FOOTPRINT_TICK_OPTIONS = [0, 1, 2, 5, 10, 25, 50, 100, 250, 500, 1000];
+
+export function saveFootprintTicks(ticks: number): void {
+  try {
+    localStorage.setItem(FOOTPRINT_TICKS_KEY, JSON.stringify(ticks));
+  } catch (error) {
+    console.error('Failed to save footprint level size:', error);
+  }
+}
+
+export function loadFootprintTicks(): number {
+  try {
+    const data = localStorage.getItem(FOOTPRINT_TICKS_KEY);
+    const parsed: unknown = data ? JSON.parse(data) : 0;
+    return typeof parsed === 'number' && FOOTPRINT_TICK_OPTIONS.includes(parsed) ? parsed : 0;
+  } catch {
+    return 0;
+  }
+}
+
+// VPVR row size in instrument ticks; 0 fits about 40 rows to the candles
+const VPVR_TICKS_KEY = 'okap_terminal_vpvr_ticks';
+
+export const VPVR_TICK_OPTIONS = [0, 1, 5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000];
+
+export function saveVpvrTicks(ticks: number): void {
+  try {
+    localStorage.setItem(VPVR_TICKS_KEY, JSON.stringify(ticks));
+  } catch (error) {
+    console.error('Failed to save VPVR row size:', error);
+  }
+}
+
+export function loadVpvrTicks(): number {
+  try {
+    const data = localStorage.getItem(VPVR_TICKS_KEY);
+    const parsed: unknown = data ? JSON.parse(data) : 0;
+    return typeof parsed === 'number' && VPVR_TICK_OPTIONS.includes(parsed) ? parsed : 0;
+  } catch {
+    return 0;
+  }
+}
@@ -0,0 +1,158 @@
+import type { MarketStream, MarketStreamCallbacks } from './marketData';
+
+// Treat several streams as one, e.g. when channels live on different hosts
+export function combineStreams(streams: MarketStream[]): MarketStream {
+  return {
+    connect: () => {
+      for (const stream of streams) stream.connect();
+    },
+    disconnect: () => {
+      for (const stream of streams) stream.disconnect();
+    },
+    isConnected: () => streams.length > 0 && streams.every((s) => s.isConnected()),
+  };
+}
+
+const RECONNECT_BASE_DELAY = 1000;
+const RECONNECT_MAX_DELAY = 30000;
+
+// Exponential backoff capped at 30s, jittered so clients that dropped together
+// don't all come back in the same instant
+export function getReconnectDelay(attempt: number): number {
+  const delay = Math.min(RECONNECT_MAX_DELAY, RECONNECT_BASE_DELAY * Math.pow(2, attempt - 1));
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+export interface ExchangeSocketOptions {
+  url: string;
+  callbacks: Pick<MarketStreamCallbacks, 'onConnect' | 'onDisconnect' | 'onError' | 'onStatus'>;
+  onOpen?: (socket: ExchangeSocket) => void; // Send subscriptions here
+  onMessage: (data: unknown, socket: ExchangeSocket) => void;
+  ping?: { interval: number; message: () => unknown; reply?: string }; // reply: raw non-JSON pong to drop
+  name?: string; // Used in log messages
+}
+
+// Reconnecting JSON WebSocket shared by the non-Binance exchange adapters
+export class ExchangeSocket implements MarketStream {
+  private ws: WebSocket | null = null;
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private closed = false; // disconnect() was called; don't reconnect
+  private pingTimer: ReturnType<typeof setInterval> | null = null;
+  private options: ExchangeSocketOptions;
+
+  constructor(options: ExchangeSocketOptions) {
+    this.options = options;
+  }
+
+  connect(): void {
+    if (this.ws?.readyState === WebSocket.OPEN) {
+      return;
+    }
+
+    const name = this.options.name ?? 'Exchange';
+    this.closed = false;
+    if (this.reconnectAttempts === 0) {
+      this.options.callbacks.onStatus?.({ state: 'connecting' });
+    }
+
+    try {
+      const ws = new WebSocket(this.options.url);
+      this.ws = ws;
+
+      ws.onopen = () => {
+        console.log(`${name} WebSocket connected`);
+        this.reconnectAttempts = 0;
+        this.startPing();
+        this.options.onOpen?.(this);
+        this.options.callbacks.onStatus?.({ state: 'connected' });
+        this.options.callbacks.onConnect?.();
+      };
+
+      ws.onmessage = (event) => {
+        if (event.data === this.options.ping?.reply) return;
+        try {
+          const data = typeof event.data === 'string' ? JSON.parse(event.data) : event.data;
+          this.options.onMessage(data, this);
+        } catch (error) {
+          console.error(`Failed to parse ${name} message:`, error);
+        }
+      };
+
+      ws.onerror = (error) => {
+        console.error(`${name} WebSocket error:`, error);
+        this.options.callbacks.onError?.(new Error(`${name} WebSocket connection error`));
+      };
+
+      ws.onclose = () => {
+        if (this.ws !== ws) return; // Replaced by disconnect() or a newer connect()
+        console.log(`${name} WebSocket disconnected`);
+        this.stopPing();
+        this.options.callbacks.onDisconnect?.();
+        this.attemptReconnect();
+      };
+    } catch (error) {
+      console.error(`Failed to create ${name} WebSocket:`, error);
+      this.attemptReconnect();
+    }
+  }
+
+  send(message: unknown): void {
+    if (this.ws?.readyState === WebSocket.OPEN) {
+      this.ws.send(typeof message === 'string' ? message : JSON.stringify(message));
+    }
+  }
+
+  // Drop the current socket and let the reconnect logic open a fresh one
+  reconnect(): void {
+    this.ws?.close();
+  }
+
+  private startPing(): void {
+    const ping = this.options.ping;
+    if (!ping) return;
+    this.stopPing();
+    this.pingTimer = setInterval(() => this.send(ping.message()), ping.interval);
+  }
+
+  private stopPing(): void {
+    if (this.pingTimer) {
+      clearInterval(this.pingTimer);
+      this.pingTimer = null;
+    }
+  }
+
+  // Keeps retrying until disconnect() is called
+  private attemptReconnect(): void {
+    if (this.closed || this.reconnectTimer) return;
+
+    this.reconnectAttempts++;
+    const delay = getReconnectDelay(this.reconnectAttempts);
+    this.options.callbacks.onStatus?.({ state: 'reconnecting', attempt: this.reconnectAttempts, retryIn: delay });
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  disconnect(): void {
+    this.closed = true;
+    this.reconnectAttempts = 0;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.stopPing();
+    if (this.ws) {
+      const ws = this.ws;
+      this.ws = null;
+      ws.close();
+      this.options.callbacks.onDisconnect?.();
+    }
+  }
+
+  isConnected(): boolean {
+    return this.ws?.readyState === WebSocket.OPEN;
+  }
+}
@@ -0,0 +1,211 @@
+import type { CandleData, Symbol } from './types';
+import type { MarketDataSource, MarketStream, MarketStreamCallbacks, MarketStreamOptions } from './marketData';
+import { aggregateCandles, candleOpenTime, STANDARD_TIMEFRAMES, timeframeToMs } from './timeframes';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Base candles requested per page and pages per call when building history
+const MAX_BASE_KLINES = 1000;
+const MAX_BASE_PAGES = 10;
+
+// Whether `base` candles tile `timeframe` candles exactly. Months only split
+// into days, and weeks (which open on Monday) only into days or weeks.
+function divides(base: string, timeframe: string): boolean {
+  if (base === '1M') return false;
+  const baseMs = timeframeToMs(base);
+  if (timeframe === '1M') return DAY % baseMs === 0;
+  if (base.endsWith('w') && !timeframe.endsWith('w')) return false;
+  return baseMs < timeframeToMs(timeframe) && timeframeToMs(timeframe) % baseMs === 0;
+}
+
+// Largest native interval to build `timeframe` from, or null to ask the
+// adapter directly (it serves the interval itself, or nothing divides it)
+export function baseInterval(source: MarketDataSource, timeframe: string): string | null {
+  if (!source.intervals || source.intervals.includes(timeframe)) return null;
+  const candidates = source.intervals.filter((interval) => divides(interval, timeframe));
+  if (candidates.length === 0) return null;
+  return candidates.reduce((best, interval) => (timeframeToMs(interval) > timeframeToMs(best) ? interval : best));
+}
+
+// Standard interval that splits `timeframe` candles into about `parts`
+// pieces (or more, when nothing that coarse tiles them), for detail a candle
+// can't carry; null when nothing shorter tiles it
+export function lowerTimeframe(timeframe: string, parts: number): string | null {
+  const candidates = STANDARD_TIMEFRAMES.filter((interval) => divides(interval, timeframe));
+  if (candidates.length === 0) return null;
+  const target = timeframeToMs(timeframe) / parts;
+  const coarse = candidates.filter((interval) => timeframeToMs(interval) <= target);
+  return coarse.length > 0 ? coarse[coarse.length - 1] : candidates[0];
+}
+
+// Enough base candles for `limit` timeframe candles, paging back as far as
+// the exchange's per-request cap needs. One extra bucket is fetched so the
+// oldest, partially covered one can be dropped.
+async function fetchAggregatedKlines(
+  source: MarketDataSource,
+  symbol: Symbol,
+  base: string,
+  timeframe: string,
+  limit: number,
+  endTime?: number
+): Promise<CandleData[]> {
+  const perCandle = Math.ceil(timeframeToMs(timeframe) / timeframeToMs(base));
+  const needed = (limit + 1) * perCandle;
+  // Finish the bucket containing endTime so the newest candle is complete
+  let pageEnd = endTime === undefined ? undefined : candleOpenTime(endTime, timeframe) + timeframeToMs(timeframe) - 1;
+  let candles: CandleData[] = [];
+
+  for (let page = 0; page < MAX_BASE_PAGES && candles.length < needed; page++) {
+    const klines = await source.fetchKlines(symbol, base, Math.min(needed - candles.length, MAX_BASE_KLINES), pageEnd);
+    const older = candles.length > 0 ? klines.filter((kline) => kline.time < candles[0].time) : klines;
+    if (older.length === 0) break;
+    candles = [...older, ...candles];
+    pageEnd = older[0].time - 1;
+  }
+
+  const aggregated = aggregateCandles(candles, timeframe);
+  const visible = endTime === undefined ? aggregated : aggregated.filter((candle) => candle.time <= endTime);
+  return visible.length > limit ? visible.slice(-limit) : visible;
+}
+
+function mergeInto(candle: CandleData | null, kline: CandleData, time: number): CandleData {
+  if (!candle) return { ...kline, time };
+  return {
+    ...candle,
+    high: Math.max(candle.high, kline.high),
+    low: Math.min(candle.low, kline.low),
+    close: kline.close,
+    volume: candle.volume + kline.volume,
+  };
+}
+
+// Live candles for `timeframe` from a `base` kline stream. Closed base
+// candles accumulate into the bucket and the forming one is merged on top.
+// When the stream joins a bucket midway (first connect or a reconnect) the
+// bucket's earlier base candles are fetched first, with live klines held
+// back until they arrive.
+function createAggregatedStream(
+  source: MarketDataSource,
+  symbol: Symbol,
+  base: string,
+  options: MarketStreamOptions,
+  callbacks: MarketStreamCallbacks
+): MarketStream {
+  const timeframe = options.interval ?? base;
+  const baseMs = timeframeToMs(base);
+  const loadKlines = options.loadKlines ?? ((interval, limit, endTime) => source.fetchKlines(symbol, interval, limit, endTime));
+  let bucketTime: number | null = null;
+  let closedPart: CandleData | null = null; // Closed base candles of the bucket
+  let lastEmitted: CandleData | null = null;
+  let seeding = false;
+  let pending: [CandleData, boolean][] = [];
+  let generation = 0; // Bumped on reconnect and disconnect to drop stale seeds
+
+  const bucketEnd = (time: number) =>
+    timeframe === '1M' ? candleOpenTime(time + 32 * DAY, timeframe) : time + timeframeToMs(timeframe);
+
+  const apply = (kline: CandleData, isClosed: boolean) => {
+    const time = candleOpenTime(kline.time, timeframe);
+    if (bucketTime !== null && time < bucketTime) return;
+    if (bucketTime !== null && time > bucketTime) {
+      // Exchanges that never flag a close still finish the previous bucket
+      if (lastEmitted && lastEmitted.time === bucketTime) callbacks.onKline?.(lastEmitted, true);
+      closedPart = null;
+      lastEmitted = null;
+    }
+    bucketTime = time;
+
+    const candle = mergeInto(closedPart, kline, time);
+    if (isClosed) closedPart = candle;
+    const bucketClosed = isClosed && kline.time + baseMs >= bucketEnd(time);
+
+    callbacks.onKline?.(candle, bucketClosed);
+    lastEmitted = bucketClosed ? null : candle;
+  };
+
+  const seed = async (kline: CandleData) => {
+    const current = generation;
+    const time = candleOpenTime(kline.time, timeframe);
+    seeding = true;
+    pending = [];
+
+    let earlier: CandleData[] = [];
+    try {
+      const count = Math.ceil((kline.time - time) / baseMs);
+      const klines = await loadKlines(base, Math.min(count + 1, MAX_BASE_KLINES), kline.time - 1);
+      earlier = klines.filter((candle) => candle.time >= time && candle.time < kline.time);
+    } catch (error) {
+      console.error('Failed to seed aggregated candle:', error);
+    }
+    if (current !== generation) return;
+
+    seeding = false;
+    bucketTime = time;
+    closedPart = earlier.length > 0 ? aggregateCandles(earlier, timeframe)[0] : null;
+    lastEmitted = null;
+
+    const queued = pending;
+    pending = [];
+    apply(kline, false);
+    for (const [queuedKline, isClosed] of queued) apply(queuedKline, isClosed);
+  };
+
+  const handleKline = (kline: CandleData, isClosed: boolean) => {
+    if (seeding) {
+      pending.push([kline, isClosed]);
+      return;
+    }
+    const time = candleOpenTime(kline.time, timeframe);
+    if (bucketTime === null && kline.time > time) {
+      seed(kline);
+      return;
+    }
+    apply(kline, isClosed);
+  };
+
+  const stream = source.createStream(symbol, { ...options, interval: base }, {
+    ...callbacks,
+    onKline: handleKline,
+    onConnect: () => {
+      // Base candles missed while disconnected would leave the bucket short
+      generation++;
+      bucketTime = null;
+      closedPart = null;
+      lastEmitted = null;
+      seeding = false;
+      pending = [];
+      callbacks.onConnect?.();
+    },
+  });
+
+  return {
+    connect: () => stream.connect(),
+    disconnect: () => {
+      generation++;
+      seeding = false;
+      pending = [];
+      stream.disconnect();
+    },
+    isConnected: () => stream.isConnected(),
+  };
+}
+
+// Wrap an adapter so intervals it doesn't serve natively are built from the
+// largest native interval that divides them, both over REST and live
+export function withTimeframeAggregation(source: MarketDataSource): MarketDataSource {
+  if (!source.intervals) return source;
+
+  return {
+    ...source,
+    fetchKlines(symbol, interval, limit = 100, endTime) {
+      const base = baseInterval(source, interval);
+      if (!base) return source.fetchKlines(symbol, interval, limit, endTime);
+      return fetchAggregatedKlines(source, symbol, base, interval, limit, endTime);
+    },
+    createStream(symbol, options, callbacks) {
+      const base = options.channels.includes('kline') && options.interval ? baseInterval(source, options.interval) : null;
+      if (!base) return source.createStream(symbol, options, callbacks);
+      return createAggregatedStream(source, symbol, base, options, callbacks);
+    },
+  };
+}
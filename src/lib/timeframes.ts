@@ -0,0 +1,119 @@
+import type { CandleData, TimeFrame } from './types';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+const WEEK_OFFSET = 4 * DAY; // Epoch is a Thursday; weeks open on Monday like Binance
+
+const TIMEFRAME_MS: Record<string, number> = {
+  '1m': MINUTE,
+  '3m': 3 * MINUTE,
+  '5m': 5 * MINUTE,
+  '15m': 15 * MINUTE,
+  '30m': 30 * MINUTE,
+  '1h': HOUR,
+  '2h': 2 * HOUR,
+  '4h': 4 * HOUR,
+  '6h': 6 * HOUR,
+  '8h': 8 * HOUR,
+  '12h': 12 * HOUR,
+  '1d': DAY,
+  '3d': 3 * DAY,
+  '1w': 7 * DAY,
+  '1M': 30 * DAY, // Nominal; month buckets use the calendar
+};
+
+// Every interval some exchange serves natively, in picker order
+export const STANDARD_TIMEFRAMES: TimeFrame[] = [
+  '1m', '3m', '5m', '15m', '30m', '1h', '2h', '4h', '6h', '12h', '1d', '1w', '1M',
+];
+
+const UNIT_MS: Record<string, number> = { m: MINUTE, h: HOUR, d: DAY, w: 7 * DAY };
+const MAX_TIMEFRAME_COUNT = 999;
+
+// Custom intervals are a count and a unit: 2m, 90m, 3h, 2d, 2w
+function parseTimeframe(timeframe: string): { count: number; unit: string } | null {
+  const match = /^(\d+)([mhdw])$/.exec(timeframe);
+  if (!match) return null;
+  const count = parseInt(match[1], 10);
+  return count > 0 && count <= MAX_TIMEFRAME_COUNT ? { count, unit: match[2] } : null;
+}
+
+export function isValidTimeframe(timeframe: string): timeframe is TimeFrame {
+  return timeframe === '1M' || parseTimeframe(timeframe) !== null;
+}
+
+// Canonical spelling of user input, in the largest whole unit (120m -> 2h,
+// 7d -> 1w), or null when it isn't a timeframe
+export function normalizeTimeframe(input: string): TimeFrame | null {
+  const trimmed = input.trim();
+  if (trimmed === '1M') return '1M';
+  const parsed = parseTimeframe(trimmed.toLowerCase());
+  if (!parsed) return null;
+
+  const ms = parsed.count * UNIT_MS[parsed.unit];
+  for (const unit of ['w', 'd', 'h', 'm']) {
+    if (ms % UNIT_MS[unit] === 0) {
+      const count = ms / UNIT_MS[unit];
+      return count <= MAX_TIMEFRAME_COUNT ? `${count}${unit}` as TimeFrame : null;
+    }
+  }
+  return null;
+}
+
+// Display label, upper-casing hours and above like the exchanges do (4H, 1D)
+export function timeframeLabel(timeframe: string): string {
+  return timeframe.endsWith('m') || timeframe === '1M' ? timeframe : timeframe.toUpperCase();
+}
+
+// Nominal duration of a timeframe in ms
+export function timeframeToMs(timeframe: string): number {
+  const known = TIMEFRAME_MS[timeframe];
+  if (known) return known;
+  const parsed = parseTimeframe(timeframe);
+  return parsed ? parsed.count * UNIT_MS[parsed.unit] : 5 * MINUTE;
+}
+
+// Largest period in `periods` no longer than the timeframe, for venues that
+// only sample analytics (open interest, positioning) at a few fixed periods;
+// the shortest when the timeframe is below them all
+export function nearestPeriod(timeframe: string, periods: string[]): string {
+  const target = timeframeToMs(timeframe);
+  return periods.reduce((best, period) => {
+    const ms = timeframeToMs(period);
+    return ms <= target && ms > timeframeToMs(best) ? period : best;
+  }, periods[0]);
+}
+
+// Open time of the candle containing `time`
+export function candleOpenTime(time: number, timeframe: string): number {
+  if (timeframe === '1M') {
+    const date = new Date(time);
+    return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+  }
+
+  const size = timeframeToMs(timeframe);
+  const offset = timeframe.endsWith('w') ? WEEK_OFFSET : 0;
+  return Math.floor((time - offset) / size) * size + offset;
+}
+
+// Merge ascending candles of a smaller timeframe into `timeframe` candles
+export function aggregateCandles(candles: CandleData[], timeframe: string): CandleData[] {
+  const result: CandleData[] = [];
+
+  for (const candle of candles) {
+    const time = candleOpenTime(candle.time, timeframe);
+    const last = result[result.length - 1];
+
+    if (last && last.time === time) {
+      last.high = Math.max(last.high, candle.high);
+      last.low = Math.min(last.low, candle.low);
+      last.close = candle.close;
+      last.volume += candle.volume;
+    } else {
+      result.push({ ...candle, time });
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,207 @@
+// Non-time bars built from the trade stream. Each bar still carries a
+// CandleData shape so charts and indicators treat it like any candle; `time`
+// is the first trade's time, nudged forward so it stays unique per bar.
+
+import type { AggTrade, BarSettings, BarType, CandleData } from './types';
+import type { TradeSink } from './tradeFlow';
+
+const MAX_TRADE_BARS = 2000;
+const DEFAULT_TICK_BAR_SIZE = 200;
+
+export const BAR_TYPE_LABELS: Record<BarType, string> = {
+  tick: 'Tick',
+  volume: 'Volume',
+  range: 'Range',
+  renko: 'Renko',
+};
+
+export function barSettingsLabel(settings: BarSettings): string {
+  return `${BAR_TYPE_LABELS[settings.type]} ${settings.size}`;
+}
+
+export interface TradeBarBuilder {
+  add(trade: AggTrade): void;
+  // Closed bars, then the forming one (Renko has none)
+  bars(): CandleData[];
+}
+
+// Round to 1, 2 or 5 times a power of ten
+export function niceNumber(value: number): number {
+  if (!(value > 0)) return 1;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(value)));
+  const scaled = value / magnitude;
+  const step = scaled < 1.5 ? 1 : scaled < 3.5 ? 2 : scaled < 7.5 ? 5 : 10;
+  return step * magnitude;
+}
+
+// Starting size for a bar type, scaled so a time candle splits into a few bars
+export function suggestBarSize(type: BarType, candles: CandleData[]): number {
+  if (type === 'tick') return DEFAULT_TICK_BAR_SIZE;
+  const recent = candles.slice(-50);
+  if (recent.length === 0) return 1;
+  if (type === 'volume') {
+    return niceNumber(recent.reduce((sum, candle) => sum + candle.volume, 0) / recent.length / 5);
+  }
+  return niceNumber(recent.reduce((sum, candle) => sum + candle.high - candle.low, 0) / recent.length / 3);
+}
+
+// `sinks` see every trade along with the bar it landed in, to tally taker
+// volume or footprints per bar
+export function createTradeBarBuilder(settings: BarSettings, sinks: TradeSink[] = []): TradeBarBuilder {
+  const { type, size } = settings;
+  const epsilon = size * 1e-9;
+  let closed: CandleData[] = [];
+  let forming: CandleData | null = null;
+  let formingTrades = 0;
+  let lastTime = -Infinity;
+
+  // Renko state: the last brick, or the grid line bricks start from
+  let brick: { open: number; close: number } | null = null;
+  let anchor: number | null = null;
+  let brickVolume = 0;
+  let brickTrades: AggTrade[] = [];
+
+  const barTime = (time: number) => {
+    lastTime = Math.max(time, lastTime + 1);
+    return lastTime;
+  };
+
+  const close = (bar: CandleData) => {
+    closed.push(bar);
+    if (closed.length > MAX_TRADE_BARS * 1.5) closed = closed.slice(-MAX_TRADE_BARS);
+  };
+
+  const open = (trade: AggTrade, quantity = trade.quantity): CandleData => {
+    formingTrades = 1;
+    const bar = {
+      time: barTime(trade.time),
+      open: trade.price,
+      high: trade.price,
+      low: trade.price,
+      close: trade.price,
+      volume: quantity,
+    };
+    for (const sink of sinks) sink.add(bar.time, trade, quantity);
+    return bar;
+  };
+
+  const extend = (bar: CandleData, trade: AggTrade, quantity = trade.quantity) => {
+    bar.high = Math.max(bar.high, trade.price);
+    bar.low = Math.min(bar.low, trade.price);
+    bar.close = trade.price;
+    bar.volume += quantity;
+    formingTrades++;
+    for (const sink of sinks) sink.add(bar.time, trade, quantity);
+  };
+
+  const addTick = (trade: AggTrade) => {
+    if (forming) {
+      extend(forming, trade);
+    } else {
+      forming = open(trade);
+    }
+    if (formingTrades >= size) {
+      close(forming);
+      forming = null;
+    }
+  };
+
+  // Large prints are split across as many bars as they fill
+  const addVolume = (trade: AggTrade) => {
+    let remaining = trade.quantity;
+    while (remaining > epsilon) {
+      const room = size - (forming?.volume ?? 0);
+      const quantity = Math.min(remaining, room);
+      if (forming) {
+        extend(forming, trade, quantity);
+      } else {
+        forming = open(trade, quantity);
+      }
+      remaining -= quantity;
+      if (forming.volume >= size - epsilon) {
+        close(forming);
+        forming = null;
+      }
+    }
+  };
+
+  // A trade that would stretch the bar past `size` starts the next one
+  const addRange = (trade: AggTrade) => {
+    if (forming && Math.max(forming.high, trade.price) - Math.min(forming.low, trade.price) > size + epsilon) {
+      close(forming);
+      forming = null;
+    }
+    if (forming) {
+      extend(forming, trade);
+    } else {
+      forming = open(trade);
+    }
+  };
+
+  // Classic Renko: a brick in the same direction needs one step past the last
+  // close, a reversal needs one step past the last open
+  const addRenko = (trade: AggTrade) => {
+    const price = trade.price;
+    const snap = (value: number) => Math.round(value / size) * size;
+    brickVolume += trade.quantity;
+    if (sinks.length > 0) brickTrades.push(trade);
+    if (anchor === null) anchor = snap(Math.floor(price / size) * size);
+
+    for (;;) {
+      const from = brick ? brick.close : anchor;
+      const rising = brick ? brick.close > brick.open : null;
+      const upFrom = rising === false && brick ? brick.open : from;
+      const downFrom = rising === true && brick ? brick.open : from;
+
+      let next: { open: number; close: number } | null = null;
+      if (price >= upFrom + size - epsilon) {
+        next = { open: upFrom, close: snap(upFrom + size) };
+      } else if (price <= downFrom - size + epsilon) {
+        next = { open: downFrom, close: snap(downFrom - size) };
+      }
+      if (!next) break;
+
+      brick = next;
+      const time = barTime(trade.time);
+      close({
+        time,
+        open: next.open,
+        high: Math.max(next.open, next.close),
+        low: Math.min(next.open, next.close),
+        close: next.close,
+        volume: brickVolume,
+      });
+      // The trades since the last brick are all this one's, like its volume
+      for (const sink of sinks) {
+        for (const brickTrade of brickTrades) sink.add(time, brickTrade);
+      }
+      brickVolume = 0;
+      brickTrades = [];
+    }
+  };
+
+  const handlers: Record<BarType, (trade: AggTrade) => void> = {
+    tick: addTick,
+    volume: addVolume,
+    range: addRange,
+    renko: addRenko,
+  };
+  const handle = handlers[type];
+
+  return {
+    add(trade) {
+      if (size > 0) handle(trade);
+    },
+    bars() {
+      const visible = closed.length > MAX_TRADE_BARS ? closed.slice(-MAX_TRADE_BARS) : closed;
+      return forming ? [...visible, { ...forming }] : [...visible];
+    },
+  };
+}
+
+// Bars for a batch of trades, oldest first
+export function buildTradeBars(trades: AggTrade[], settings: BarSettings): CandleData[] {
+  const builder = createTradeBarBuilder(settings);
+  for (const trade of trades) builder.add(trade);
+  return builder.bars();
+}
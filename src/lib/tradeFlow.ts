@@ -0,0 +1,104 @@
+// Real taker buy/sell volume per bar, accumulated from the trade stream. The
+// aggressor side comes from isBuyerMaker: a buyer-maker trade was a taker sell.
+// Bars before the first trade seen fall back to the candle-shape estimate.
+
+import type { AggTrade, CandleData } from './types';
+import { estimateCandleFlow, type CVDData } from './indicators';
+
+const MAX_FLOW_BARS = 5000;
+
+export interface TradeFlowBar {
+  time: number; // Open time of the bar the volume belongs to
+  buyVolume: number; // Taker buys, in base asset
+  sellVolume: number; // Taker sells, in base asset
+}
+
+export interface TradeFlowSnapshot {
+  bars: TradeFlowBar[];
+  coveredFrom: number | null; // Time of the first trade counted; bars opening earlier are partial
+}
+
+// Anything that tallies trades per bar, fed by the bar builders
+export interface TradeSink {
+  // One trade, or the part of it that went into the bar opened at `barTime`
+  add(barTime: number, trade: AggTrade, quantity?: number): void;
+}
+
+export interface TradeFlow extends TradeSink {
+  snapshot(): TradeFlowSnapshot;
+}
+
+export function createTradeFlow(max = MAX_FLOW_BARS): TradeFlow {
+  let bars = new Map<number, TradeFlowBar>();
+  let coveredFrom: number | null = null;
+
+  const addVolume = (barTime: number, buyVolume: number, sellVolume: number, from: number) => {
+    if (coveredFrom === null) coveredFrom = from;
+    const bar = bars.get(barTime);
+    if (bar) {
+      bar.buyVolume += buyVolume;
+      bar.sellVolume += sellVolume;
+      return;
+    }
+    bars.set(barTime, { time: barTime, buyVolume, sellVolume });
+
+    // Drop the oldest bars; what's left was counted in full
+    if (bars.size > max * 1.5) {
+      const kept = Array.from(bars.values()).sort((a, b) => a.time - b.time).slice(-max);
+      bars = new Map(kept.map((entry) => [entry.time, entry]));
+      coveredFrom = kept[0].time;
+    }
+  };
+
+  return {
+    add(barTime, trade, quantity = trade.quantity) {
+      if (trade.isBuyerMaker) {
+        addVolume(barTime, 0, quantity, trade.time);
+      } else {
+        addVolume(barTime, quantity, 0, trade.time);
+      }
+    },
+    snapshot() {
+      return {
+        bars: Array.from(bars.values(), (bar) => ({ ...bar })).sort((a, b) => a.time - b.time),
+        coveredFrom,
+      };
+    },
+  };
+}
+
+export interface CandleFlow {
+  buyVolume: number;
+  sellVolume: number;
+  estimated: boolean; // No trade data for the whole candle, so this is the candle-shape guess
+}
+
+// Taker volume for each candle: counted from trades where the flow covers the
+// whole candle, estimated elsewhere. A covered candle with no trades is zero.
+export function candleFlows(candles: CandleData[], flow: TradeFlowSnapshot | null): CandleFlow[] {
+  const byTime = new Map<number, TradeFlowBar>();
+  for (const bar of flow?.bars ?? []) byTime.set(bar.time, bar);
+  const coveredFrom = flow?.coveredFrom ?? null;
+
+  return candles.map((candle) => {
+    if (coveredFrom === null || candle.time < coveredFrom) {
+      return { ...estimateCandleFlow(candle), estimated: true };
+    }
+    const bar = byTime.get(candle.time);
+    return { buyVolume: bar?.buyVolume ?? 0, sellVolume: bar?.sellVolume ?? 0, estimated: false };
+  });
+}
+
+export interface FlowCVDData extends CVDData {
+  estimated: boolean;
+}
+
+// CVD over the candles, from trades where they're covered
+export function calculateFlowCVD(candles: CandleData[], flow: TradeFlowSnapshot | null): FlowCVDData[] {
+  let cumulativeDelta = 0;
+  return candleFlows(candles, flow).map((entry, i) => {
+    const delta = entry.buyVolume - entry.sellVolume;
+    cumulativeDelta += delta;
+    return { time: candles[i].time, cvd: cumulativeDelta, delta, estimated: entry.estimated };
+  });
+}
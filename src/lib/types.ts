@@ -13,6 +13,91 @@ export interface OrderBookLevel {
   side: 'bid' | 'ask';
 }
 
+// Market data shared by every exchange adapter
+export interface OrderBookUpdate {
+  bids: [string, string][]; // [price, quantity]
+  asks: [string, string][]; // [price, quantity]
+  lastUpdateId: number;
+}
+
+export interface AggTrade {
+  id?: number; // Exchange trade ID when the venue provides a numeric one
+  price: number;
+  quantity: number;
+  time: number;
+  isBuyerMaker: boolean;
+}
+
+export interface MarketTicker {
+  symbol: string;
+  priceChange: number;
+  priceChangePercent: number;
+  lastPrice: number;
+  highPrice: number;
+  lowPrice: number;
+  volume: number;
+  quoteVolume: number;
+  openPrice: number;
+  count: number;
+}
+
+export interface LiquidationEvent {
+  symbol: string;
+  side: 'SELL' | 'BUY'; // SELL = long liquidated, BUY = short liquidated
+  orderType: string;
+  quantity: number;
+  price: number;
+  averagePrice: number;
+  orderStatus: string;
+  time: number;
+}
+
+// Perpetual contract state: mark/index price, funding and open interest
+export interface AssetContext {
+  symbol: string;
+  markPrice: number;
+  indexPrice: number;
+  fundingRate: number;       // Per funding interval, as a fraction
+  openInterest?: number;     // In base asset
+  nextFundingTime?: number;
+  time: number;
+}
+
+// A settled funding payment
+export interface FundingRatePoint {
+  time: number;
+  fundingRate: number; // Per funding interval, as a fraction
+  markPrice?: number;
+}
+
+// Open interest snapshot, from history or a live poll
+export interface OpenInterestPoint {
+  time: number;
+  openInterest: number;       // In base asset
+  openInterestValue?: number; // In quote currency
+}
+
+// Trader positioning over one period. Ratios are longs over shorts (1 =
+// balanced); venues fill in whichever series they publish.
+export interface PositioningPoint {
+  time: number;
+  topAccountRatio?: number;    // Top traders by margin, counted by account
+  topPositionRatio?: number;   // Top traders by margin, weighted by position size
+  globalAccountRatio?: number; // Every account
+  takerBuyVolume?: number;     // In base asset
+  takerSellVolume?: number;    // In base asset
+}
+
+// Trading rules for one instrument, see instruments.ts
+export interface InstrumentInfo {
+  tickSize: number;
+  stepSize: number;          // Quantity increment in base asset; 0 when it varies with price (inverse contracts)
+  minNotional: number;       // Smallest order value in quote; 0 when the venue has none
+  contractSize: number;      // Base asset (linear) or USD (inverse) per contract; 1 for spot
+  pricePrecision: number;    // Decimals implied by tickSize
+  quantityPrecision: number; // Decimals implied by stepSize
+}
+
 export interface HeatmapCell {
   x: number;
   y: number;
@@ -30,7 +115,22 @@ export interface Symbol {
   logo?: string;
 }
 
-export type TimeFrame = '1m' | '5m' | '15m' | '30m' | '1h' | '4h' | '1d';
+// Standard exchange intervals plus custom ones (2m, 90m, 3h, 2d) that are
+// aggregated client-side from a smaller native interval
+export type TimeFrame =
+  | '1m' | '3m' | '5m' | '15m' | '30m'
+  | '1h' | '2h' | '4h' | '6h' | '12h'
+  | '1d' | '1w' | '1M'
+  | `${number}${'m' | 'h' | 'd' | 'w'}`;
+
+// Bars built from trades instead of time: N trades, fixed volume, fixed
+// price range, or Renko bricks of a fixed price step
+export type BarType = 'tick' | 'volume' | 'range' | 'renko';
+
+export interface BarSettings {
+  type: BarType;
+  size: number; // Trades, base-asset volume, or price units per bar
+}
 
 export interface ChartSettings {
   symbol: string;
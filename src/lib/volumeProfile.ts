@@ -0,0 +1,192 @@
+// Volume profile (VPVR) over the loaded candles: traded volume at each price
+// row, split into taker buys and sells. Each candle is profiled from the best
+// data there is for it: trades where the tape covers it, lower-timeframe
+// klines where those do, and only then the candle itself. Klines and candles
+// spread their volume evenly over their range, with the candle-shape split.
+
+import type { CandleData } from './types';
+import type { FootprintTape } from './footprint';
+import { estimateCandleFlow } from './indicators';
+import { niceNumber } from './tradeBars';
+
+export const VALUE_AREA_SHARE = 0.7;
+const AUTO_PROFILE_ROWS = 40;
+const MAX_PROFILE_ROWS = 1000;
+
+export interface VolumeProfileRow {
+  price: number; // Bottom of the row
+  buyVolume: number; // Taker buys, in base asset
+  sellVolume: number; // Taker sells, in base asset
+  inValueArea: boolean;
+}
+
+export interface VolumeProfile {
+  rows: VolumeProfileRow[]; // Ascending, one per row between the lowest and highest traded
+  rowSize: number;
+  pocPrice: number; // Middle of the row with the most volume
+  valueAreaHigh: number; // Top of the highest value area row
+  valueAreaLow: number; // Bottom of the lowest value area row
+  totalVolume: number;
+  // Candles profiled from each source
+  coverage: { trades: number; klines: number; candles: number };
+}
+
+// Row size on the tick grid: `ticks` per row, or about 40 rows over the
+// candles' range for 0. Never so small the profile runs past 1000 rows.
+export function profileRowSize(candles: CandleData[], tickSize: number, ticks: number): number {
+  if (candles.length === 0) return tickSize;
+  let low = Infinity;
+  let high = -Infinity;
+  for (const candle of candles) {
+    low = Math.min(low, candle.low);
+    high = Math.max(high, candle.high);
+  }
+  const range = high - low;
+  const minimum = Math.ceil(range / MAX_PROFILE_ROWS / tickSize) * tickSize;
+  if (ticks > 0) return Math.max(ticks * tickSize, minimum);
+  const auto = Math.max(1, Math.round(niceNumber(range / AUTO_PROFILE_ROWS / tickSize))) * tickSize;
+  return Math.max(auto, minimum);
+}
+
+type RowVolume = { buyVolume: number; sellVolume: number };
+
+function rowIndex(price: number, rowSize: number): number {
+  // Exact multiples of the row size belong to the row they open
+  return Math.floor(price / rowSize + 1e-9);
+}
+
+// Spread a candle's volume over the rows its range crosses, by overlap
+function spreadCandle(rows: Map<number, RowVolume>, candle: CandleData, rowSize: number) {
+  const { buyVolume, sellVolume } = estimateCandleFlow(candle);
+  const range = candle.high - candle.low;
+  const first = rowIndex(candle.low, rowSize);
+  const last = rowIndex(candle.high, rowSize);
+
+  for (let index = first; index <= last; index++) {
+    const overlap = range > 0
+      ? (Math.min(candle.high, (index + 1) * rowSize) - Math.max(candle.low, index * rowSize)) / range
+      : 1;
+    if (overlap <= 0) continue;
+    addToRow(rows, index, buyVolume * overlap, sellVolume * overlap);
+  }
+}
+
+function addToRow(rows: Map<number, RowVolume>, index: number, buyVolume: number, sellVolume: number) {
+  const row = rows.get(index);
+  if (row) {
+    row.buyVolume += buyVolume;
+    row.sellVolume += sellVolume;
+  } else {
+    rows.set(index, { buyVolume, sellVolume });
+  }
+}
+
+// Rows around the POC that hold 70% of the volume, grown two rows at a time
+// toward whichever side trades more, as market profile does it
+function markValueArea(rows: VolumeProfileRow[], pocIndex: number, totalVolume: number): { low: number; high: number } {
+  const volumeOf = (from: number, to: number) => {
+    let sum = 0;
+    for (let i = Math.max(0, from); i <= Math.min(rows.length - 1, to); i++) {
+      sum += rows[i].buyVolume + rows[i].sellVolume;
+    }
+    return sum;
+  };
+
+  let low = pocIndex;
+  let high = pocIndex;
+  let volume = volumeOf(pocIndex, pocIndex);
+  const target = totalVolume * VALUE_AREA_SHARE;
+
+  while (volume < target && (low > 0 || high < rows.length - 1)) {
+    const above = high < rows.length - 1 ? volumeOf(high + 1, high + 2) : -1;
+    const below = low > 0 ? volumeOf(low - 2, low - 1) : -1;
+    if (above >= below) {
+      volume += above;
+      high = Math.min(rows.length - 1, high + 2);
+    } else {
+      volume += below;
+      low = Math.max(0, low - 2);
+    }
+  }
+
+  for (let i = low; i <= high; i++) rows[i].inValueArea = true;
+  return { low, high };
+}
+
+// Profile of `candles` at `rowSize`. `lowerKlines` are ascending candles of a
+// shorter timeframe; a candle uses them when they reach back to its open.
+export function buildVolumeProfile(
+  candles: CandleData[],
+  rowSize: number,
+  tape: FootprintTape | null,
+  lowerKlines: CandleData[]
+): VolumeProfile | null {
+  if (candles.length === 0 || rowSize <= 0) return null;
+
+  const traded = new Map<number, RowVolume>();
+  const coveredFrom = tape?.coveredFrom() ?? null;
+  const footprints = new Map((tape ? tape.candles(rowSize) : []).map((footprint) => [footprint.time, footprint]));
+  const coverage = { trades: 0, klines: 0, candles: 0 };
+  let klineIndex = 0;
+
+  for (let i = 0; i < candles.length; i++) {
+    const candle = candles[i];
+    const end = i + 1 < candles.length ? candles[i + 1].time : Infinity;
+
+    if (coveredFrom !== null && candle.time >= coveredFrom) {
+      // Levels sit on the same grid as the rows; a covered candle without a
+      // footprint saw no trades
+      for (const level of footprints.get(candle.time)?.levels ?? []) {
+        addToRow(traded, Math.round(level.price / rowSize), level.askVolume, level.bidVolume);
+      }
+      coverage.trades++;
+      continue;
+    }
+
+    while (klineIndex < lowerKlines.length && lowerKlines[klineIndex].time < candle.time) klineIndex++;
+    const reachesOpen = lowerKlines.length > 0 && lowerKlines[0].time <= candle.time;
+    if (reachesOpen && klineIndex < lowerKlines.length && lowerKlines[klineIndex].time < end) {
+      while (klineIndex < lowerKlines.length && lowerKlines[klineIndex].time < end) {
+        spreadCandle(traded, lowerKlines[klineIndex], rowSize);
+        klineIndex++;
+      }
+      coverage.klines++;
+      continue;
+    }
+
+    spreadCandle(traded, candle, rowSize);
+    coverage.candles++;
+  }
+
+  if (traded.size === 0) return null;
+
+  const indexes = Array.from(traded.keys());
+  const lowest = Math.min(...indexes);
+  const highest = Math.max(...indexes);
+  const rows: VolumeProfileRow[] = [];
+  let totalVolume = 0;
+  let pocIndex = 0;
+  let pocVolume = -1;
+
+  for (let index = lowest; index <= highest; index++) {
+    const volume = traded.get(index) ?? { buyVolume: 0, sellVolume: 0 };
+    const rowVolume = volume.buyVolume + volume.sellVolume;
+    if (rowVolume > pocVolume) {
+      pocVolume = rowVolume;
+      pocIndex = rows.length;
+    }
+    totalVolume += rowVolume;
+    rows.push({ price: index * rowSize, ...volume, inValueArea: false });
+  }
+
+  const valueArea = markValueArea(rows, pocIndex, totalVolume);
+  return {
+    rows,
+    rowSize,
+    pocPrice: rows[pocIndex].price + rowSize / 2,
+    valueAreaHigh: rows[valueArea.high].price + rowSize,
+    valueAreaLow: rows[valueArea.low].price,
+    totalVolume,
+    coverage,
+  };
+}
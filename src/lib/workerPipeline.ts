@@ -0,0 +1,233 @@
+// Main-thread side of the market data worker (marketWorker.ts). Indicator
+// runs and Binance local order books happen off-thread; results come back
+// as transferred Float64Array buffers, see packedData.ts. Where workers
+// aren't available (server render, old browsers), or the worker fails,
+// everything runs inline.
+
+import type { CandleData, OrderBookUpdate } from './types';
+import type { ConnectionStatus, MarketStream, MarketStreamCallbacks } from './marketData';
+import type { BinanceMarket } from './binance';
+import { runIndicator, type IndicatorRequest, type IndicatorResults } from './indicators';
+import { packCandles, unpackBook, unpackIndicator } from './packedData';
+
+export type WorkerRequest =
+  | { type: 'indicator'; id: number; request: IndicatorRequest; candles: Float64Array }
+  | { type: 'openBook'; id: number; pair: string; market: BinanceMarket; depth: number }
+  | { type: 'closeBook'; id: number }
+  | { type: 'bookSnapshot'; id: number; snapshot: OrderBookUpdate | null }
+  | { type: 'bookContractSize'; id: number; contractSize: number };
+
+export type BookMessage =
+  | { type: 'book'; id: number; book: Float64Array }
+  | { type: 'bookStatus'; id: number; status: ConnectionStatus }
+  | { type: 'bookEvent'; id: number; event: 'connect' | 'disconnect' }
+  | { type: 'bookError'; id: number; message: string }
+  | { type: 'bookSnapshotRequest'; id: number };
+
+export type WorkerResponse =
+  | { type: 'indicator'; id: number; result: Float64Array }
+  | { type: 'indicatorError'; id: number; message: string }
+  | BookMessage;
+
+// Levels per side posted with each book; matches the REST snapshot depth
+const WORKER_BOOK_DEPTH = 1000;
+
+let worker: Worker | null = null;
+let workerFailed = false;
+let nextId = 1;
+const pendingIndicators = new Map<number, { resolve: (buffer: Float64Array) => void; reject: (error: Error) => void }>();
+const bookListeners = new Map<number, BookListener>();
+
+interface BookListener {
+  onMessage: (message: BookMessage) => void;
+  onWorkerFailed: () => void; // The book has to move to the main thread
+}
+
+export function isWorkerPipelineAvailable(): boolean {
+  return !workerFailed && typeof window !== 'undefined' && typeof Worker !== 'undefined';
+}
+
+function handleResponse(message: WorkerResponse): void {
+  switch (message.type) {
+    case 'indicator':
+      pendingIndicators.get(message.id)?.resolve(message.result);
+      pendingIndicators.delete(message.id);
+      break;
+    case 'indicatorError':
+      pendingIndicators.get(message.id)?.reject(new Error(message.message));
+      pendingIndicators.delete(message.id);
+      break;
+    default:
+      bookListeners.get(message.id)?.onMessage(message);
+  }
+}
+
+// A worker that failed to load or crashed answers nothing more: settle what
+// was waiting on it and run everything inline from here on
+function failWorker(reason: string): void {
+  console.error('Market worker failed, running inline:', reason);
+  workerFailed = true;
+  worker?.terminate();
+  worker = null;
+
+  const indicators = Array.from(pendingIndicators.values());
+  const books = Array.from(bookListeners.values());
+  pendingIndicators.clear();
+  bookListeners.clear();
+  for (const pending of indicators) pending.reject(new Error(`Market worker failed: ${reason}`));
+  for (const listener of books) listener.onWorkerFailed();
+}
+
+function getWorker(): Worker | null {
+  if (!isWorkerPipelineAvailable()) return null;
+  if (!worker) {
+    try {
+      worker = new Worker(new URL('./marketWorker.ts', import.meta.url));
+      worker.onmessage = (event: MessageEvent<WorkerResponse>) => handleResponse(event.data);
+      worker.onerror = (event) => failWorker(event.message || 'worker error');
+    } catch (error) {
+      console.error('Failed to start market worker, running inline:', error);
+      workerFailed = true;
+      return null;
+    }
+  }
+  return worker;
+}
+
+// Run an indicator in the worker, or inline when there isn't one
+export function computeIndicator<R extends IndicatorRequest>(
+  candles: CandleData[],
+  request: R
+): Promise<IndicatorResults[R['name']]> {
+  const target = getWorker();
+  if (!target) return Promise.resolve(runIndicator(request, candles));
+
+  const id = nextId++;
+  const packed = packCandles(candles);
+  const run = new Promise<IndicatorResults[R['name']]>((resolve, reject) => {
+    pendingIndicators.set(id, {
+      resolve: (buffer) => resolve(unpackIndicator(request.name, buffer) as IndicatorResults[R['name']]),
+      reject,
+    });
+    const message: WorkerRequest = { type: 'indicator', id, request, candles: packed };
+    target.postMessage(message, [packed.buffer]);
+  });
+  // Runs cut off by a worker failure are redone inline
+  return run.catch((error) => {
+    if (workerFailed) return runIndicator(request, candles);
+    throw error;
+  });
+}
+
+export interface WorkerDepthOptions {
+  // REST the worker's book needs, done on this thread so requests share the
+  // exchange weight budget with everything else
+  loadSnapshot: () => Promise<OrderBookUpdate | null>;
+  contractSize?: Promise<number>; // COIN-M
+  createInline: () => MarketStream; // Without a worker, or once it fails
+}
+
+// Binance depth channel whose socket and LocalOrderBook live in the worker.
+// Only the top of the maintained book crosses back, once per applied diff.
+// Without a worker, or once it fails, the book runs on the main thread in
+// the stream `createInline` builds.
+export class WorkerDepthStream implements MarketStream {
+  private id: number | null = null;
+  private connected = false;
+  private inline: MarketStream | null = null;
+
+  constructor(
+    private pair: string,
+    private market: BinanceMarket,
+    private callbacks: MarketStreamCallbacks,
+    private options: WorkerDepthOptions
+  ) {}
+
+  connect(): void {
+    if (this.id !== null || this.inline) return;
+    const target = getWorker();
+    if (!target) {
+      this.connectInline();
+      return;
+    }
+
+    const id = nextId++;
+    this.id = id;
+    bookListeners.set(id, {
+      onMessage: (message) => this.handleMessage(message),
+      onWorkerFailed: () => {
+        this.id = null;
+        this.connected = false;
+        this.callbacks.onDisconnect?.();
+        this.connectInline();
+      },
+    });
+    const request: WorkerRequest = { type: 'openBook', id, pair: this.pair, market: this.market, depth: WORKER_BOOK_DEPTH };
+    target.postMessage(request);
+
+    this.options.contractSize?.then((contractSize) => {
+      if (this.id === id) this.post({ type: 'bookContractSize', id, contractSize });
+    });
+  }
+
+  disconnect(): void {
+    if (this.inline) {
+      this.inline.disconnect();
+      this.inline = null;
+      return;
+    }
+    if (this.id === null) return;
+    bookListeners.delete(this.id);
+    this.post({ type: 'closeBook', id: this.id });
+    this.id = null;
+    this.connected = false;
+    this.callbacks.onDisconnect?.();
+  }
+
+  isConnected(): boolean {
+    return this.inline ? this.inline.isConnected() : this.connected;
+  }
+
+  private connectInline(): void {
+    this.inline = this.options.createInline();
+    this.inline.connect();
+  }
+
+  private post(request: WorkerRequest): void {
+    worker?.postMessage(request);
+  }
+
+  private sendSnapshot(id: number): void {
+    this.options
+      .loadSnapshot()
+      .catch((error) => {
+        console.error('Failed to fetch order book snapshot:', error);
+        return null;
+      })
+      .then((snapshot) => {
+        if (this.id === id) this.post({ type: 'bookSnapshot', id, snapshot });
+      });
+  }
+
+  private handleMessage(message: BookMessage): void {
+    switch (message.type) {
+      case 'book':
+        this.callbacks.onOrderBook?.(unpackBook(message.book));
+        break;
+      case 'bookStatus':
+        this.callbacks.onStatus?.(message.status);
+        break;
+      case 'bookEvent':
+        this.connected = message.event === 'connect';
+        if (this.connected) this.callbacks.onConnect?.();
+        else this.callbacks.onDisconnect?.();
+        break;
+      case 'bookError':
+        this.callbacks.onError?.(new Error(message.message));
+        break;
+      case 'bookSnapshotRequest':
+        this.sendSnapshot(message.id);
+        break;
+    }
+  }
+}